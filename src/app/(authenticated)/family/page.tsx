@@ -8,6 +8,15 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -28,11 +37,38 @@ import {
   Calendar,
   Mail,
   Send,
+  Baby,
+  Trash2,
+  Repeat,
+  ArrowLeftRight,
 } from "lucide-react";
+import { DEPENDENT_TYPES, MAX_FAMILY_MEMBERS, MEMBER_TYPES, describeHelpDays } from "@/lib/family-roles";
+import { format, parseISO } from "date-fns";
+import { ChoreBalanceChart } from "@/components/family/chore-balance-chart";
+
+const MEMBER_TYPE_LABELS: Record<string, string> = {
+  adult: "Adult",
+  teen: "Teen",
+  child: "Child",
+  caregiver: "Caregiver",
+};
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
 
 interface FamilyMember {
   id: string;
   role: string;
+  memberType: string;
+  helpDays: number[];
+  targetShare: number | null;
   user: {
     id: string;
     name: string | null;
@@ -41,16 +77,90 @@ interface FamilyMember {
   };
 }
 
+interface FairnessDistribution {
+  userId: string;
+  userName: string | null;
+  fairShare: number;
+  hasAgreedShare: boolean;
+  householdMinutes: number;
+  effortMinutes: number;
+  mentalLoadMinutes: number;
+  weightedLoad: number;
+}
+
+interface FairnessAnalysis {
+  distributions: FairnessDistribution[];
+  fairnessScore: number;
+  recommendation: string;
+}
+
+interface RotationTurn {
+  id: string;
+  scheduledDate: string;
+  assignedToUserId: string;
+  status: string;
+  aiReasoning: string | null;
+}
+
+interface Rotation {
+  id: string;
+  taskId: string;
+  taskName: string;
+  policy: "round_robin" | "weekly_alternate";
+  memberIds: string[];
+  skipOnVacation: boolean;
+  upNext: string[];
+  history: RotationTurn[];
+}
+
+interface SwapScheduledTask {
+  id: string;
+  startTime: string;
+  task: { name: string };
+}
+
+interface SwapOffer {
+  id: string;
+  message: string | null;
+  offeredBy: { id: string; name: string | null };
+  tradeScheduledTask: SwapScheduledTask | null;
+}
+
+interface SwapRequest {
+  id: string;
+  message: string | null;
+  requestedBy: { id: string; name: string | null };
+  scheduledTask: SwapScheduledTask;
+  offers: SwapOffer[];
+}
+
+function describeSwapTask(scheduledTask: SwapScheduledTask): string {
+  return `${scheduledTask.task.name} · ${format(parseISO(scheduledTask.startTime), "EEE, MMM d 'at' h:mm a")}`;
+}
+
+const ROTATION_POLICY_LABELS: Record<string, string> = {
+  round_robin: "Take turns (each time)",
+  weekly_alternate: "Alternate weekly",
+};
+
+interface FamilyDependent {
+  id: string;
+  name: string;
+  memberType: string;
+}
+
 interface Family {
   id: string;
   name: string;
   inviteCode: string;
   members: FamilyMember[];
+  dependents: FamilyDependent[];
 }
 
 export default function FamilyPage() {
   const [family, setFamily] = useState<Family | null>(null);
   const [role, setRole] = useState<string | null>(null);
+  const [memberType, setMemberType] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [joining, setJoining] = useState(false);
@@ -64,11 +174,145 @@ export default function FamilyPage() {
   const [inviteEmail, setInviteEmail] = useState("");
   const [sendingInvite, setSendingInvite] = useState(false);
   const [inviteSent, setInviteSent] = useState(false);
+  const [dependentName, setDependentName] = useState("");
+  const [dependentType, setDependentType] = useState<string>("child");
+  const [addingDependent, setAddingDependent] = useState(false);
+  const [fairness, setFairness] = useState<FairnessAnalysis | null>(null);
+  const [editingSplit, setEditingSplit] = useState(false);
+  const [splitDraft, setSplitDraft] = useState<Record<string, string>>({});
+  const [savingSplit, setSavingSplit] = useState(false);
+  const [rotations, setRotations] = useState<Rotation[]>([]);
+  const [rotationTasks, setRotationTasks] = useState<{ id: string; name: string }[]>([]);
+  const [rotationTaskId, setRotationTaskId] = useState("");
+  const [rotationPolicy, setRotationPolicy] = useState<string>("round_robin");
+  const [rotationMemberIds, setRotationMemberIds] = useState<string[]>([]);
+  const [rotationSkipVacation, setRotationSkipVacation] = useState(true);
+  const [savingRotation, setSavingRotation] = useState(false);
+  const [expandedRotation, setExpandedRotation] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [swapRequests, setSwapRequests] = useState<SwapRequest[]>([]);
+  const [mySwapTasks, setMySwapTasks] = useState<SwapScheduledTask[]>([]);
+  const [swapTaskId, setSwapTaskId] = useState("");
+  const [swapMessage, setSwapMessage] = useState("");
+  const [tradeChoice, setTradeChoice] = useState<Record<string, string>>({});
+  const [swapBusy, setSwapBusy] = useState<string | null>(null);
 
   useEffect(() => {
     fetchFamily();
+    fetchRotations();
+    fetchSwaps();
   }, []);
 
+  async function fetchSwaps() {
+    try {
+      const res = await fetch("/api/family/swaps");
+      if (res.ok) {
+        const data = await res.json();
+        setSwapRequests(data.requests);
+        setMySwapTasks(data.myTasks);
+      }
+    } catch (error) {
+      console.error("Error fetching swaps:", error);
+    }
+  }
+
+  // All swap actions share the same request/refresh/error handling
+  async function swapAction(busyKey: string, url: string, method: string, body?: unknown) {
+    setSwapBusy(busyKey);
+
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Swap failed");
+      }
+
+      await Promise.all([fetchSwaps(), fetchFamily()]);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Swap failed");
+      await fetchSwaps();
+    } finally {
+      setSwapBusy(null);
+    }
+  }
+
+  async function offerTaskForSwap() {
+    if (!swapTaskId) return;
+    await swapAction("offer", `/api/scheduled-tasks/${swapTaskId}/swap`, "POST", { message: swapMessage || null });
+    setSwapTaskId("");
+    setSwapMessage("");
+  }
+
+  async function fetchRotations() {
+    try {
+      const res = await fetch("/api/family/rotations");
+      if (res.ok) {
+        const data = await res.json();
+        setRotations(data.rotations);
+        setRotationTasks(data.tasks);
+      }
+    } catch (error) {
+      console.error("Error fetching rotations:", error);
+    }
+  }
+
+  async function saveRotation() {
+    if (!rotationTaskId) return;
+    setSavingRotation(true);
+
+    try {
+      const res = await fetch("/api/family/rotations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          taskId: rotationTaskId,
+          policy: rotationPolicy,
+          memberIds: rotationMemberIds,
+          skipOnVacation: rotationSkipVacation,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save rotation");
+      }
+
+      setRotationTaskId("");
+      setRotationMemberIds([]);
+      await fetchRotations();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save rotation");
+    } finally {
+      setSavingRotation(false);
+    }
+  }
+
+  async function removeRotation(id: string) {
+    if (!confirm("Stop rotating this task? It will be shared by workload again.")) return;
+
+    try {
+      const res = await fetch(`/api/family/rotations/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        setRotations((prev) => prev.filter((r) => r.id !== id));
+      }
+    } catch (error) {
+      console.error("Error removing rotation:", error);
+    }
+  }
+
+  function toggleRotationMember(userId: string) {
+    setRotationMemberIds((prev) =>
+      prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]
+    );
+  }
+
   async function fetchFamily() {
     try {
       const res = await fetch("/api/family");
@@ -76,6 +320,9 @@ export default function FamilyPage() {
         const data = await res.json();
         setFamily(data.family);
         setRole(data.role);
+        setMemberType(data.memberType);
+        setFairness(data.fairness);
+        setCurrentUserId(data.userId);
       }
     } catch (error) {
       console.error("Error fetching family:", error);
@@ -163,6 +410,121 @@ export default function FamilyPage() {
     }
   }
 
+  async function updateMember(memberId: string, data: { memberType?: string; helpDays?: number[] }) {
+    try {
+      const res = await fetch(`/api/family/members/${memberId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      const result = await res.json();
+
+      if (!res.ok) {
+        throw new Error(result.error || "Failed to update member");
+      }
+
+      setFamily((prev) => prev && {
+        ...prev,
+        members: prev.members.map((m) => (m.id === memberId ? { ...m, ...result.member } : m)),
+      });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update member");
+    }
+  }
+
+  function toggleHelpDay(member: FamilyMember, day: number) {
+    const helpDays = member.helpDays.includes(day)
+      ? member.helpDays.filter((d) => d !== day)
+      : [...member.helpDays, day];
+    updateMember(member.id, { helpDays });
+  }
+
+  async function addDependent() {
+    if (!dependentName.trim()) return;
+    setAddingDependent(true);
+
+    try {
+      const res = await fetch("/api/family/dependents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: dependentName, memberType: dependentType }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to add dependent");
+      }
+
+      setFamily((prev) => prev && { ...prev, dependents: [...prev.dependents, data.dependent] });
+      setDependentName("");
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to add dependent");
+    } finally {
+      setAddingDependent(false);
+    }
+  }
+
+  async function removeDependent(id: string) {
+    if (!confirm("Remove this dependent? Their tasks are kept.")) return;
+
+    try {
+      const res = await fetch(`/api/family/dependents/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        setFamily((prev) => prev && { ...prev, dependents: prev.dependents.filter((d) => d.id !== id) });
+      }
+    } catch (error) {
+      console.error("Error removing dependent:", error);
+    }
+  }
+
+  function startEditingSplit() {
+    if (!family) return;
+    setSplitDraft(
+      Object.fromEntries(
+        family.members.map((m) => [m.id, m.targetShare !== null ? String(Math.round(m.targetShare * 100)) : ""])
+      )
+    );
+    setEditingSplit(true);
+  }
+
+  async function saveSplit() {
+    setSavingSplit(true);
+
+    try {
+      const targetShares = Object.fromEntries(
+        Object.entries(splitDraft).map(([id, value]) => [id, value.trim() === "" ? null : Number(value)])
+      );
+
+      const res = await fetch("/api/family", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ targetShares }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save split");
+      }
+
+      setFamily((prev) => prev && {
+        ...prev,
+        members: prev.members.map((m) => {
+          const value = targetShares[m.id];
+          return value === undefined ? m : { ...m, targetShare: value === null ? null : value / 100 };
+        }),
+      });
+      setFairness(data.fairness);
+      setEditingSplit(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to save split");
+    } finally {
+      setSavingSplit(false);
+    }
+  }
+
   function copyInviteCode() {
     if (family?.inviteCode) {
       navigator.clipboard.writeText(family.inviteCode);
@@ -213,7 +575,7 @@ export default function FamilyPage() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Family</h1>
           <p className="text-gray-600 mt-1">
-            Create or join a family to coordinate schedules with your partner
+            Create or join a family to coordinate schedules with your household
           </p>
         </div>
 
@@ -330,7 +692,7 @@ export default function FamilyPage() {
           <CardContent className="pt-6">
             <h3 className="font-semibold text-blue-900 mb-2">Why create a family?</h3>
             <ul className="text-sm text-blue-800 space-y-1">
-              <li>• AI considers both calendars when scheduling</li>
+              <li>• AI considers everyone&apos;s calendars when scheduling</li>
               <li>• Balanced distribution of life admin</li>
               <li>• See each other&apos;s time blocks</li>
               <li>• Coordinate focus time and goals together</li>
@@ -382,24 +744,24 @@ export default function FamilyPage() {
               </Button>
             </div>
             <p className="text-xs text-gray-500 mt-1">
-              Share this code with your partner to invite them
+              Share this code with family members to invite them
             </p>
           </div>
 
-          {/* Email Invite - only show if family has less than 2 members */}
-          {family.members.length < 2 && (
+          {/* Email Invite - only show while the family has room */}
+          {family.members.length < MAX_FAMILY_MEMBERS && (
             <div className="p-4 bg-blue-50 rounded-lg">
               <Label className="text-sm text-blue-800 flex items-center gap-2">
                 <Mail className="h-4 w-4" />
                 Invite by Email
               </Label>
               <p className="text-xs text-blue-600 mt-1 mb-3">
-                Send an invitation email with the invite code directly to your partner
+                Send an invitation email with the invite code directly to a family member
               </p>
               <div className="flex gap-2">
                 <Input
                   type="email"
-                  placeholder="partner@email.com"
+                  placeholder="name@email.com"
                   value={inviteEmail}
                   onChange={(e) => setInviteEmail(e.target.value)}
                   className="flex-1 bg-white"
@@ -453,12 +815,51 @@ export default function FamilyPage() {
                     <div>
                       <p className="font-medium">{member.user.name}</p>
                       <p className="text-sm text-gray-500">{member.user.email}</p>
+                      {member.memberType === "caregiver" && (
+                        role === "admin" ? (
+                          <div className="flex gap-1 mt-1">
+                            {WEEKDAYS.map((day) => (
+                              <button
+                                key={day.value}
+                                type="button"
+                                onClick={() => toggleHelpDay(member, day.value)}
+                                className={`px-1.5 py-0.5 text-xs rounded border ${
+                                  member.helpDays.includes(day.value)
+                                    ? "bg-blue-600 text-white border-blue-600"
+                                    : "bg-white text-gray-600"
+                                }`}
+                              >
+                                {day.label}
+                              </button>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-500">Helps on {describeHelpDays(member.helpDays)}</p>
+                        )
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
                     {member.role === "admin" && (
                       <Crown className="h-4 w-4 text-yellow-500" />
                     )}
+                    {role === "admin" ? (
+                      <Select
+                        value={member.memberType}
+                        onValueChange={(value) => updateMember(member.id, { memberType: value })}
+                      >
+                        <SelectTrigger className="w-28 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MEMBER_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{MEMBER_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{MEMBER_TYPE_LABELS[member.memberType] || member.memberType}</Badge>
+                    )}
                     <Badge variant="outline" className="flex items-center gap-1">
                       <Calendar className="h-3 w-3" />
                       Connected
@@ -470,7 +871,7 @@ export default function FamilyPage() {
               {family.members.length < 2 && (
                 <div className="p-4 border-2 border-dashed rounded-lg text-center text-gray-500">
                   <UserPlus className="h-8 w-8 mx-auto mb-2 text-gray-400" />
-                  <p>Waiting for partner to join...</p>
+                  <p>Waiting for family members to join...</p>
                   <p className="text-sm">Share the invite code above</p>
                 </div>
               )}
@@ -479,6 +880,59 @@ export default function FamilyPage() {
 
           <Separator />
 
+          {/* Dependents - family members without a login */}
+          <div>
+            <Label className="text-sm text-gray-600">Dependents</Label>
+            <p className="text-xs text-gray-500 mt-1">
+              Children who don&apos;t log in. Tasks for them (like a swim class) are given to an adult or caregiver.
+            </p>
+            <div className="space-y-2 mt-3">
+              {family.dependents.map((dependent) => (
+                <div
+                  key={dependent.id}
+                  className="flex items-center justify-between p-3 bg-white border rounded-lg"
+                >
+                  <div className="flex items-center gap-3">
+                    <Baby className="h-5 w-5 text-gray-400" />
+                    <p className="font-medium">{dependent.name}</p>
+                    <Badge variant="secondary">{MEMBER_TYPE_LABELS[dependent.memberType] || dependent.memberType}</Badge>
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => removeDependent(dependent.id)}>
+                    <Trash2 className="h-4 w-4 text-gray-400" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Name"
+                  value={dependentName}
+                  onChange={(e) => setDependentName(e.target.value)}
+                  className="flex-1"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && dependentName.trim()) {
+                      addDependent();
+                    }
+                  }}
+                />
+                <Select value={dependentType} onValueChange={setDependentType}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPENDENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{MEMBER_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={addDependent} disabled={addingDependent || !dependentName.trim()}>
+                  {addingDependent ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <Separator />
+
           {/* Leave Family */}
           <Button
             variant="outline"
@@ -501,14 +955,374 @@ export default function FamilyPage() {
         </CardContent>
       </Card>
 
+      {/* Workload Balance - effort-weighted, including planning work */}
+      {fairness && family.members.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Workload Balance</CardTitle>
+                <CardDescription>
+                  Last 4 weeks of Life Admin, weighted by effort and including planning
+                </CardDescription>
+              </div>
+              <Badge variant={fairness.fairnessScore >= 0.7 ? "secondary" : "destructive"}>
+                {Math.round(fairness.fairnessScore * 100)}% fair
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {fairness.distributions.map((d) => {
+              const total = fairness.distributions.reduce((sum, x) => sum + x.weightedLoad, 0);
+              const actual = total > 0 ? Math.round((d.weightedLoad / total) * 100) : 0;
+              const member = family.members.find((m) => m.user.id === d.userId);
+
+              return (
+                <div key={d.userId} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{d.userName || "Unknown"}</span>
+                    {editingSplit && member ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          placeholder="auto"
+                          value={splitDraft[member.id] ?? ""}
+                          onChange={(e) => setSplitDraft((prev) => ({ ...prev, [member.id]: e.target.value }))}
+                          className="w-20 h-8"
+                        />
+                        <span className="text-gray-500">%</span>
+                      </div>
+                    ) : (
+                      <span className="text-gray-600">
+                        {actual}% of load · {d.hasAgreedShare ? "agreed" : "fair"} share {Math.round(d.fairShare * 100)}%
+                      </span>
+                    )}
+                  </div>
+                  <Progress value={actual} />
+                  <p className="text-xs text-gray-500">
+                    {d.householdMinutes} min doing ({d.effortMinutes} effort-adjusted) + {d.mentalLoadMinutes} min planning
+                  </p>
+                </div>
+              );
+            })}
+
+            <p className="text-sm text-gray-600">{fairness.recommendation}</p>
+
+            {(role === "admin" || memberType === "adult") && (
+              editingSplit ? (
+                <div className="flex gap-2">
+                  <Button onClick={saveSplit} disabled={savingSplit}>
+                    {savingSplit ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Save Split
+                  </Button>
+                  <Button variant="outline" onClick={() => setEditingSplit(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" onClick={startEditingSplit}>
+                  Set Agreed Split
+                </Button>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Chore Balance - credit carried across weeks */}
+      {family.members.length >= 2 && <ChoreBalanceChart />}
+
+      {/* Chore Rotations */}
+      {family.members.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Chore Rotations
+            </CardTitle>
+            <CardDescription>
+              Take turns on chores instead of sharing them by workload - like bins alternating weekly
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rotations.map((rotation) => {
+              const nameOf = (userId: string) =>
+                family.members.find((m) => m.user.id === userId)?.user.name || "Former member";
+
+              return (
+                <div key={rotation.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">{rotation.taskName}</p>
+                      <p className="text-xs text-gray-500">
+                        {ROTATION_POLICY_LABELS[rotation.policy]} · {rotation.memberIds.map(nameOf).join(" → ")}
+                        {rotation.skipOnVacation && " · skips vacations"}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => removeRotation(rotation.id)}>
+                      <Trash2 className="h-4 w-4 text-gray-400" />
+                    </Button>
+                  </div>
+                  {rotation.upNext.length > 0 && (
+                    <p className="text-sm">
+                      <span className="text-gray-500">
+                        {rotation.policy === "weekly_alternate" ? "This week, then: " : "Up next: "}
+                      </span>
+                      {rotation.upNext.map(nameOf).join(", ")}
+                    </p>
+                  )}
+                  <button
+                    type="button"
+                    className="text-xs text-blue-600 hover:underline"
+                    onClick={() => setExpandedRotation(expandedRotation === rotation.id ? null : rotation.id)}
+                  >
+                    {expandedRotation === rotation.id ? "Hide history" : `History (${rotation.history.length})`}
+                  </button>
+                  {expandedRotation === rotation.id && (
+                    <div className="space-y-1">
+                      {rotation.history.length === 0 ? (
+                        <p className="text-xs text-gray-500">No turns yet</p>
+                      ) : (
+                        rotation.history.map((turn) => (
+                          <div key={turn.id} className="flex items-center justify-between text-xs">
+                            <span>{format(parseISO(turn.scheduledDate), "EEE, MMM d")}</span>
+                            <span className="font-medium">{nameOf(turn.assignedToUserId)}</span>
+                            <Badge variant="outline" className="text-xs">{turn.status}</Badge>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {rotationTasks.length > 0 && (
+              <div className="p-3 bg-gray-50 rounded-lg space-y-3">
+                <Label className="text-sm">Add a rotation</Label>
+                <div className="flex gap-2">
+                  <Select value={rotationTaskId} onValueChange={setRotationTaskId}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a Life Admin task" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rotationTasks.map((task) => (
+                        <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={rotationPolicy} onValueChange={setRotationPolicy}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROTATION_POLICY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Who takes turns (in order)</p>
+                  <div className="flex flex-wrap gap-1">
+                    {family.members.map((member) => {
+                      const position = rotationMemberIds.indexOf(member.user.id);
+                      return (
+                        <button
+                          key={member.id}
+                          type="button"
+                          onClick={() => toggleRotationMember(member.user.id)}
+                          className={`px-2 py-1 text-xs rounded border ${
+                            position >= 0 ? "bg-blue-600 text-white border-blue-600" : "bg-white text-gray-600"
+                          }`}
+                        >
+                          {position >= 0 && `${position + 1}. `}{member.user.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch checked={rotationSkipVacation} onCheckedChange={setRotationSkipVacation} />
+                    <span className="text-sm text-gray-600">Skip whoever is on vacation</span>
+                  </div>
+                  <Button
+                    onClick={saveRotation}
+                    disabled={savingRotation || !rotationTaskId || rotationMemberIds.length < 2}
+                  >
+                    {savingRotation ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                    Save Rotation
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Swap Marketplace */}
+      {family.members.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Task Swaps
+            </CardTitle>
+            <CardDescription>
+              Can&apos;t make it? Offer a task to the family, or trade it for one of theirs
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {swapRequests.length === 0 && (
+              <p className="text-sm text-gray-500">No open swap requests</p>
+            )}
+
+            {swapRequests.map((swap) => {
+              const isMine = swap.requestedBy.id === currentUserId;
+              const myOffer = swap.offers.find((o) => o.offeredBy.id === currentUserId);
+
+              return (
+                <div key={swap.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{describeSwapTask(swap.scheduledTask)}</p>
+                      <p className="text-xs text-gray-500">
+                        {isMine ? "You offered this" : `Offered by ${swap.requestedBy.name || "a family member"}`}
+                        {swap.message && ` · "${swap.message}"`}
+                      </p>
+                    </div>
+                    {isMine ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={swapBusy !== null}
+                        onClick={() => swapAction(swap.id, `/api/scheduled-tasks/${swap.scheduledTask.id}/swap`, "DELETE")}
+                      >
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        disabled={swapBusy !== null}
+                        onClick={() => swapAction(swap.id, `/api/scheduled-tasks/${swap.scheduledTask.id}/swap/offers`, "POST", {})}
+                      >
+                        {swapBusy === swap.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Take It"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {/* Trade offers - the requester accepts or declines */}
+                  {swap.offers.map((offer) => (
+                    <div key={offer.id} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                      <span>
+                        {offer.offeredBy.id === currentUserId ? "You" : offer.offeredBy.name} will take it in exchange for{" "}
+                        <span className="font-medium">
+                          {offer.tradeScheduledTask ? describeSwapTask(offer.tradeScheduledTask) : "nothing"}
+                        </span>
+                      </span>
+                      {isMine ? (
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            disabled={swapBusy !== null}
+                            onClick={() => swapAction(offer.id, `/api/scheduled-tasks/${swap.scheduledTask.id}/swap/offers/${offer.id}`, "PATCH", { action: "accept" })}
+                          >
+                            Accept
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={swapBusy !== null}
+                            onClick={() => swapAction(offer.id, `/api/scheduled-tasks/${swap.scheduledTask.id}/swap/offers/${offer.id}`, "PATCH", { action: "decline" })}
+                          >
+                            Decline
+                          </Button>
+                        </div>
+                      ) : offer.offeredBy.id === currentUserId && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={swapBusy !== null}
+                          onClick={() => swapAction(offer.id, `/api/scheduled-tasks/${swap.scheduledTask.id}/swap/offers/${offer.id}`, "PATCH", { action: "withdraw" })}
+                        >
+                          Withdraw
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+
+                  {/* Counter-offer a trade */}
+                  {!isMine && !myOffer && mySwapTasks.length > 0 && (
+                    <div className="flex gap-2">
+                      <Select
+                        value={tradeChoice[swap.id] || ""}
+                        onValueChange={(value) => setTradeChoice((prev) => ({ ...prev, [swap.id]: value }))}
+                      >
+                        <SelectTrigger className="flex-1 h-8 text-xs">
+                          <SelectValue placeholder="Or trade one of your tasks..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {mySwapTasks.map((task) => (
+                            <SelectItem key={task.id} value={task.id}>{describeSwapTask(task)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={swapBusy !== null || !tradeChoice[swap.id]}
+                        onClick={() => swapAction(swap.id, `/api/scheduled-tasks/${swap.scheduledTask.id}/swap/offers`, "POST", { tradeScheduledTaskId: tradeChoice[swap.id] })}
+                      >
+                        Offer Trade
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {mySwapTasks.length > 0 && (
+              <div className="p-3 bg-gray-50 rounded-lg space-y-2">
+                <Label className="text-sm">Ask for a swap</Label>
+                <Select value={swapTaskId} onValueChange={setSwapTaskId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose one of your upcoming tasks" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {mySwapTasks.map((task) => (
+                      <SelectItem key={task.id} value={task.id}>{describeSwapTask(task)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Message (optional)"
+                    value={swapMessage}
+                    onChange={(e) => setSwapMessage(e.target.value)}
+                    className="flex-1"
+                  />
+                  <Button onClick={offerTaskForSwap} disabled={swapBusy !== null || !swapTaskId}>
+                    {swapBusy === "offer" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                    Offer
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Info Card */}
-      {family.members.length === 2 && (
+      {family.members.length >= 2 && (
         <Card className="bg-green-50 border-green-200">
           <CardContent className="pt-6">
-            <h3 className="font-semibold text-green-900 mb-2">Family Complete!</h3>
+            <h3 className="font-semibold text-green-900 mb-2">Family Scheduling Is On</h3>
             <p className="text-sm text-green-800">
-              When you generate a schedule, the AI will consider both calendars
-              and balance the workload fairly between family members.
+              When you generate a schedule, the AI will consider everyone&apos;s calendars
+              and balance the workload fairly, based on each member&apos;s role.
             </p>
           </CardContent>
         </Card>
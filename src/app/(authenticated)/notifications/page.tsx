@@ -16,6 +16,7 @@ import {
   Trash2,
   Check,
   Loader2,
+  ArrowLeftRight,
 } from "lucide-react";
 
 interface Notification {
@@ -39,6 +40,7 @@ const typeIcons: Record<string, typeof Bell> = {
   conflict: AlertTriangle,
   suggestion: Sparkles,
   achievement: CheckCircle,
+  swap: ArrowLeftRight,
 };
 
 const typeLabels: Record<string, string> = {
@@ -47,6 +49,7 @@ const typeLabels: Record<string, string> = {
   conflict: "Conflict",
   suggestion: "Suggestion",
   achievement: "Achievement",
+  swap: "Task Swap",
 };
 
 const priorityColors: Record<string, string> = {
@@ -58,6 +58,8 @@ import {
   Sparkles,
   Home,
   AlertCircle,
+  Download,
+  Upload,
 } from "lucide-react";
 import {
   format,
@@ -75,6 +77,7 @@ import { CalendarEvent } from "@/types";
 import { TaskFeedbackModal } from "@/components/feedback/task-feedback-modal";
 import { TaskActionDialog } from "@/components/tasks/task-action-dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import { isRecurringPeriod, getRecurrencePreset } from "@/lib/task-recurrence";
 
 // Updated categories for productivity messaging
 const CATEGORIES = {
@@ -105,6 +108,19 @@ interface Task {
   fixedTime: string | null;
   frequency: number | null;
   frequencyPeriod: string | null;
+  recurrenceRule: string | null;
+  recurrenceStart: string | null;
+  dueDate: string | null;
+  estimatedEffort: number | null;
+  isSplittable: boolean;
+  minChunkMinutes: number | null;
+  maxChunkMinutes: number | null;
+  maxChunksPerDay: number | null;
+  locationType: string | null;
+  effortScore: number | null;
+  demandLevel: string | null;
+  outdoorActivity: string | null;
+  weatherLimits: { minTemperature?: number; maxTemperature?: number; allowRain?: boolean } | null;
   preferredTimeStart: string | null;
   preferredTimeEnd: string | null;
 }
@@ -175,11 +191,57 @@ interface FormData {
   fixedDays: string[];
   fixedTime: string;
   frequency: number;
-  frequencyPeriod: "day" | "week";
+  frequencyPeriod: FrequencyPeriod;
+  // Multi-week recurrence (biweekly/month/quarter/custom)
+  monthDay: number | null;
+  monthWeek: number | null;
+  monthWeekday: string | null;
+  recurrenceRule: string;
+  recurrenceStart: string;
+  // One-off tasks (estimatedEffort is also the total for splittable tasks)
+  dueDate: string;
+  estimatedEffort: number | null;
+  // Splittable tasks
+  isSplittable: boolean;
+  minChunkMinutes: number | null;
+  maxChunkMinutes: number | null;
+  maxChunksPerDay: number | null;
+  // Saved location the task happens at ("" = anywhere)
+  locationType: string;
+  // How draining a household task is (1-5, null = average) - used for fairness
+  effortScore: number | null;
+  // Energy it takes ("" = medium) - demanding tasks go in high-energy hours
+  demandLevel: string;
+  // Outdoor tasks ("" = not weather-dependent) go in hours the forecast suits
+  outdoorActivity: string;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  allowRain: boolean;
   preferredTimeStart: string;
   preferredTimeEnd: string;
 }
 
+// Recurring event from an imported .ics file, proposed as a task (see lib/ics-import.ts)
+interface ImportedTaskProposal {
+  uid: string;
+  name: string;
+  duration: number;
+  schedulingMode: "fixed" | "flexible";
+  fixedDays: string[];
+  fixedTime: string | null;
+  preferredDays: string[];
+  frequency: number;
+  frequencyPeriod: string;
+  monthDay: number | null;
+  monthWeek: number | null;
+  monthWeekday: string | null;
+  recurrenceStart: string | null;
+  summary: string;
+  alreadyExists: boolean;
+}
+
+type FrequencyPeriod = "day" | "week" | "biweekly" | "month" | "quarter" | "custom" | "once";
+
 const DEFAULT_FORM_DATA: FormData = {
   name: "",
   type: "resolution",
@@ -191,6 +253,24 @@ const DEFAULT_FORM_DATA: FormData = {
   fixedTime: "",
   frequency: 1,
   frequencyPeriod: "week",
+  monthDay: null,
+  monthWeek: null,
+  monthWeekday: null,
+  recurrenceRule: "",
+  recurrenceStart: "",
+  dueDate: "",
+  estimatedEffort: null,
+  isSplittable: false,
+  minChunkMinutes: null,
+  maxChunkMinutes: null,
+  maxChunksPerDay: null,
+  locationType: "",
+  effortScore: null,
+  demandLevel: "",
+  outdoorActivity: "",
+  minTemperature: null,
+  maxTemperature: null,
+  allowRain: false,
   preferredTimeStart: "",
   preferredTimeEnd: "",
 };
@@ -419,6 +499,107 @@ function Droppable15MinSlot({
   );
 }
 
+// Month/quarter day picker, custom RRULE and start date for multi-week recurrence
+function RecurrenceFields({
+  formData,
+  setFormData,
+}: {
+  formData: FormData;
+  setFormData: (data: FormData) => void;
+}) {
+  const period = formData.frequencyPeriod;
+  if (!isRecurringPeriod(period)) return null;
+
+  const monthMode = formData.monthWeek !== null ? "weekday" : "day";
+
+  return (
+    <div className="space-y-2">
+      {(period === "month" || period === "quarter") && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600">On</span>
+          <Select
+            value={monthMode}
+            onValueChange={(value) =>
+              setFormData(
+                value === "weekday"
+                  ? { ...formData, monthDay: null, monthWeek: 1, monthWeekday: formData.monthWeekday || "saturday" }
+                  : { ...formData, monthDay: 1, monthWeek: null, monthWeekday: null }
+              )
+            }
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">day of month</SelectItem>
+              <SelectItem value="weekday">weekday</SelectItem>
+            </SelectContent>
+          </Select>
+          {monthMode === "day" ? (
+            <Input
+              type="number"
+              min={1}
+              max={31}
+              placeholder="1-31"
+              value={formData.monthDay ?? ""}
+              onChange={(e) => setFormData({ ...formData, monthDay: parseInt(e.target.value) || null })}
+              className="w-16"
+            />
+          ) : (
+            <>
+              <Select
+                value={String(formData.monthWeek)}
+                onValueChange={(value) => setFormData({ ...formData, monthWeek: parseInt(value) })}
+              >
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1st</SelectItem>
+                  <SelectItem value="2">2nd</SelectItem>
+                  <SelectItem value="3">3rd</SelectItem>
+                  <SelectItem value="4">4th</SelectItem>
+                  <SelectItem value="-1">last</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={formData.monthWeekday || "saturday"}
+                onValueChange={(value) => setFormData({ ...formData, monthWeekday: value })}
+              >
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS_OF_WEEK.map((day) => (
+                    <SelectItem key={day.value} value={day.value}>{day.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+      )}
+      {period === "custom" && (
+        <Input
+          placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+          value={formData.recurrenceRule}
+          onChange={(e) => setFormData({ ...formData, recurrenceRule: e.target.value })}
+          className="font-mono text-xs"
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-gray-600">Starting</span>
+        <Input
+          type="date"
+          value={formData.recurrenceStart}
+          onChange={(e) => setFormData({ ...formData, recurrenceStart: e.target.value })}
+          className="w-40"
+        />
+      </div>
+    </div>
+  );
+}
+
 // Helper functions
 function getEventStartTime(event: CalendarEvent): Date {
   const start = event.start;
@@ -498,6 +679,14 @@ export default function SchedulePage() {
   const [formData, setFormData] = useState<FormData>(DEFAULT_FORM_DATA);
   const [saving, setSaving] = useState(false);
 
+  // .ics import state
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importProposals, setImportProposals] = useState<ImportedTaskProposal[]>([]);
+  const [importSkipped, setImportSkipped] = useState<{ name: string; reason: string }[]>([]);
+  const [importSelected, setImportSelected] = useState<string[]>([]);
+  const [importType, setImportType] = useState<"household" | "resolution">("household");
+
   // Quick Schedule state
   const [quickScheduleDialogOpen, setQuickScheduleDialogOpen] = useState(false);
   const [quickScheduleTask, setQuickScheduleTask] = useState<Task | null>(null);
@@ -1119,7 +1308,23 @@ export default function SchedulePage() {
       fixedDays: task.fixedDays || [],
       fixedTime: task.fixedTime || "",
       frequency: task.frequency || 1,
-      frequencyPeriod: (task.frequencyPeriod || "week") as "day" | "week",
+      frequencyPeriod: (task.frequencyPeriod || "week") as FrequencyPeriod,
+      ...getRecurrencePreset(task.recurrenceRule),
+      recurrenceRule: task.frequencyPeriod === "custom" ? task.recurrenceRule || "" : "",
+      recurrenceStart: task.recurrenceStart ? format(parseISO(task.recurrenceStart), "yyyy-MM-dd") : "",
+      dueDate: task.dueDate ? format(parseISO(task.dueDate), "yyyy-MM-dd") : "",
+      estimatedEffort: task.estimatedEffort,
+      isSplittable: task.isSplittable,
+      minChunkMinutes: task.minChunkMinutes,
+      maxChunkMinutes: task.maxChunkMinutes,
+      maxChunksPerDay: task.maxChunksPerDay,
+      locationType: task.locationType || "",
+      effortScore: task.effortScore,
+      demandLevel: task.demandLevel || "",
+      outdoorActivity: task.outdoorActivity || "",
+      minTemperature: task.weatherLimits?.minTemperature ?? null,
+      maxTemperature: task.weatherLimits?.maxTemperature ?? null,
+      allowRain: task.weatherLimits?.allowRain ?? false,
       preferredTimeStart: task.preferredTimeStart || "",
       preferredTimeEnd: task.preferredTimeEnd || "",
     });
@@ -1146,18 +1351,54 @@ export default function SchedulePage() {
         duration: formData.duration,
         category: formData.category || null,
         priority: formData.priority,
+        locationType: formData.locationType || null,
+        effortScore: formData.type === "household" ? formData.effortScore : null,
+        demandLevel: formData.demandLevel || null,
+        outdoorActivity: formData.outdoorActivity || null,
         schedulingMode: formData.schedulingMode,
         isFlexible: formData.schedulingMode === "flexible",
+        frequencyPeriod: formData.frequencyPeriod,
+      };
+
+      // Only the limits that differ from the defaults
+      const weatherLimits = {
+        ...(formData.minTemperature !== null && { minTemperature: formData.minTemperature }),
+        ...(formData.maxTemperature !== null && { maxTemperature: formData.maxTemperature }),
+        ...(formData.allowRain && { allowRain: true }),
       };
+      payload.weatherLimits = formData.outdoorActivity && Object.keys(weatherLimits).length > 0 ? weatherLimits : null;
+
+      if (formData.frequencyPeriod === "once") {
+        payload.dueDate = formData.dueDate || null;
+        payload.estimatedEffort = formData.estimatedEffort;
+      }
+
+      if (isRecurringPeriod(formData.frequencyPeriod)) {
+        payload.monthDay = formData.monthDay;
+        payload.monthWeek = formData.monthWeek;
+        payload.monthWeekday = formData.monthWeekday;
+        payload.recurrenceRule = formData.recurrenceRule || null;
+        payload.recurrenceStart = formData.recurrenceStart || null;
+      }
 
       if (formData.schedulingMode === "fixed") {
         payload.fixedDays = formData.fixedDays;
         payload.fixedTime = formData.fixedTime || null;
+        payload.isSplittable = false;
+        if (formData.frequencyPeriod === "day" || formData.frequencyPeriod === "once") {
+          payload.frequencyPeriod = "week";
+        }
       } else {
         payload.frequency = formData.frequency;
-        payload.frequencyPeriod = formData.frequencyPeriod;
         payload.preferredTimeStart = formData.preferredTimeStart || null;
         payload.preferredTimeEnd = formData.preferredTimeEnd || null;
+        payload.isSplittable = formData.isSplittable;
+        if (formData.isSplittable) {
+          payload.estimatedEffort = formData.estimatedEffort;
+          payload.minChunkMinutes = formData.minChunkMinutes;
+          payload.maxChunkMinutes = formData.maxChunkMinutes;
+          payload.maxChunksPerDay = formData.maxChunksPerDay;
+        }
       }
 
       const url = editingTask ? `/api/tasks/${editingTask.id}` : "/api/tasks";
@@ -1191,6 +1432,75 @@ export default function SchedulePage() {
     }
   }
 
+  async function handleImportFile(file: File) {
+    setImporting(true);
+    setImportProposals([]);
+    setImportSkipped([]);
+
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetch("/api/tasks/import", { method: "POST", body });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "Failed to read calendar file");
+      }
+
+      const proposals: ImportedTaskProposal[] = data.proposals || [];
+      setImportProposals(proposals);
+      setImportSkipped(data.skipped || []);
+      setImportSelected(proposals.filter((p) => !p.alreadyExists).map((p) => p.uid));
+    } catch (error) {
+      console.error("Error importing calendar file:", error);
+      alert(error instanceof Error ? error.message : "Failed to read calendar file");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleConfirmImport() {
+    setImporting(true);
+
+    try {
+      const failed: string[] = [];
+      for (const proposal of importProposals.filter((p) => importSelected.includes(p.uid))) {
+        const res = await fetch("/api/tasks", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: proposal.name,
+            type: importType,
+            duration: proposal.duration,
+            schedulingMode: proposal.schedulingMode,
+            isFlexible: proposal.schedulingMode === "flexible",
+            fixedDays: proposal.fixedDays,
+            fixedTime: proposal.fixedTime,
+            preferredDays: proposal.preferredDays,
+            frequency: proposal.frequency,
+            frequencyPeriod: proposal.frequencyPeriod,
+            monthDay: proposal.monthDay,
+            monthWeek: proposal.monthWeek,
+            monthWeekday: proposal.monthWeekday,
+            recurrenceStart: proposal.recurrenceStart,
+          }),
+        });
+        if (!res.ok) failed.push(proposal.name);
+      }
+
+      await fetchData();
+      if (failed.length > 0) {
+        alert(`Couldn't add: ${failed.join(", ")}`);
+      }
+      setImportDialogOpen(false);
+      setImportProposals([]);
+      setImportSkipped([]);
+    } catch (error) {
+      console.error("Error adding imported tasks:", error);
+    } finally {
+      setImporting(false);
+    }
+  }
+
   async function handleDeleteTask(taskId: string) {
     if (!confirm("Are you sure you want to delete this task?")) return;
 
@@ -1431,6 +1741,22 @@ export default function SchedulePage() {
                 {format(weekStart, "MMM d")} - {format(weekEnd, "MMM d, yyyy")}
               </span>
             </div>
+            {/* .ics import and export */}
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import .ics
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <a
+                  href={`/api/scheduled-tasks/export?date=${format(weekStart, "yyyy-MM-dd")}${viewMode === "family" ? "&family=true" : ""}`}
+                  download
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Export week
+                </a>
+              </Button>
+            </div>
             {/* Optimize My Week Button */}
             <Button
               className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
@@ -1921,6 +2247,90 @@ export default function SchedulePage() {
       </Dialog>
 
       {/* Task Creation/Edit Dialog */}
+      {/* Import tasks from an .ics file */}
+      <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import From a Calendar File</DialogTitle>
+            <DialogDescription>
+              Recurring events in an .ics file become tasks - pick the ones to add
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".ics,text/calendar"
+              disabled={importing}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+              }}
+            />
+            {importing && importProposals.length === 0 && (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            )}
+            {importProposals.length > 0 && (
+              <>
+                <div className="max-h-72 overflow-y-auto space-y-2">
+                  {importProposals.map((proposal) => (
+                    <label
+                      key={proposal.uid}
+                      className="flex items-start gap-3 p-2 rounded border bg-gray-50 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={importSelected.includes(proposal.uid)}
+                        onCheckedChange={(checked) =>
+                          setImportSelected(
+                            checked === true
+                              ? [...importSelected, proposal.uid]
+                              : importSelected.filter((id) => id !== proposal.uid)
+                          )
+                        }
+                      />
+                      <div className="text-sm">
+                        <p className="font-medium">{proposal.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {proposal.summary}, {proposal.duration} min
+                          {proposal.alreadyExists && " - you already have a task with this name"}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm">Add them as</Label>
+                  <Select value={importType} onValueChange={(value) => setImportType(value as "household" | "resolution")}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="household">Household tasks</SelectItem>
+                      <SelectItem value="resolution">Resolutions</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            {importSkipped.length > 0 && (
+              <p className="text-xs text-gray-500">
+                Not imported: {importSkipped.map((s) => `${s.name} (${s.reason.toLowerCase()})`).join("; ")}
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setImportDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmImport} disabled={importing || importSelected.length === 0}>
+              {importing && importProposals.length > 0 && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add {importSelected.length} {importSelected.length === 1 ? "task" : "tasks"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={createDialogOpen} onOpenChange={(open) => {
         setCreateDialogOpen(open);
         if (!open) resetForm();
@@ -2049,6 +2459,129 @@ export default function SchedulePage() {
               </Select>
             </div>
 
+            {/* Location */}
+            <div className="space-y-2">
+              <Label>Where does it happen?</Label>
+              <Select
+                value={formData.locationType || "anywhere"}
+                onValueChange={(value) => setFormData({ ...formData, locationType: value === "anywhere" ? "" : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="anywhere">Anywhere (no travel)</SelectItem>
+                  <SelectItem value="home">Home</SelectItem>
+                  <SelectItem value="work">Work</SelectItem>
+                  <SelectItem value="gym">Gym</SelectItem>
+                  <SelectItem value="school">School</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Travel time to and from tasks at your other saved locations is kept free
+              </p>
+            </div>
+
+            {/* Energy demand */}
+            <div className="space-y-2">
+              <Label>How much energy does it take?</Label>
+              <Select
+                value={formData.demandLevel || "medium"}
+                onValueChange={(value) => setFormData({ ...formData, demandLevel: value === "medium" ? "" : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low - can do it tired</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High - needs focus or stamina</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Demanding tasks go in your high-energy hours, with breaks between them
+              </p>
+            </div>
+
+            {/* Outdoors - placed around the forecast */}
+            <div className="space-y-2">
+              <Label>Does it happen outdoors?</Label>
+              <Select
+                value={formData.outdoorActivity || "indoors"}
+                onValueChange={(value) => setFormData({ ...formData, outdoorActivity: value === "indoors" ? "" : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="indoors">No - weather doesn&apos;t matter</SelectItem>
+                  <SelectItem value="outdoor_exercise">Yes - exercise (run, bike ride)</SelectItem>
+                  <SelectItem value="outdoor_errand">Yes - chore or errand (mowing, washing the car)</SelectItem>
+                </SelectContent>
+              </Select>
+              {formData.outdoorActivity && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-gray-600">Between</span>
+                  <Input
+                    type="number"
+                    min={-40}
+                    max={50}
+                    placeholder="min"
+                    value={formData.minTemperature ?? ""}
+                    onChange={(e) => setFormData({ ...formData, minTemperature: e.target.value === "" ? null : parseInt(e.target.value) })}
+                    className="w-16"
+                  />
+                  <span className="text-gray-500">and</span>
+                  <Input
+                    type="number"
+                    min={-40}
+                    max={50}
+                    placeholder="max"
+                    value={formData.maxTemperature ?? ""}
+                    onChange={(e) => setFormData({ ...formData, maxTemperature: e.target.value === "" ? null : parseInt(e.target.value) })}
+                    className="w-16"
+                  />
+                  <span className="text-sm text-gray-600">°C</span>
+                  <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                    <Checkbox
+                      checked={formData.allowRain}
+                      onCheckedChange={(checked) => setFormData({ ...formData, allowRain: checked === true })}
+                    />
+                    Rain is fine
+                  </label>
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Outdoor tasks go in hours the forecast suits, and you&apos;ll get a new time to approve if it turns
+              </p>
+            </div>
+
+            {/* Effort - household tasks only, for fair sharing */}
+            {formData.type === "household" && (
+              <div className="space-y-2">
+                <Label>How draining is it?</Label>
+                <Select
+                  value={formData.effortScore ? String(formData.effortScore) : "3"}
+                  onValueChange={(value) => setFormData({ ...formData, effortScore: parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1 - Easy, don&apos;t mind it</SelectItem>
+                    <SelectItem value="2">2 - Light</SelectItem>
+                    <SelectItem value="3">3 - Average</SelectItem>
+                    <SelectItem value="4">4 - Tiring or unpleasant</SelectItem>
+                    <SelectItem value="5">5 - Dreaded</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Harder chores count for more when balancing the workload
+                </p>
+              </div>
+            )}
+
             {/* Scheduling Mode */}
             <div className="space-y-3">
               <Label>How should AI schedule this?</Label>
@@ -2123,6 +2656,25 @@ export default function SchedulePage() {
                     className="w-32"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label className="text-sm">Repeats</Label>
+                  <Select
+                    value={formData.frequencyPeriod === "day" || formData.frequencyPeriod === "once" ? "week" : formData.frequencyPeriod}
+                    onValueChange={(value: FrequencyPeriod) => setFormData({ ...formData, frequencyPeriod: value })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="week">every week</SelectItem>
+                      <SelectItem value="biweekly">every 2 weeks</SelectItem>
+                      <SelectItem value="month">monthly</SelectItem>
+                      <SelectItem value="quarter">quarterly</SelectItem>
+                      <SelectItem value="custom">custom rule</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <RecurrenceFields formData={formData} setFormData={setFormData} />
+                </div>
               </div>
             )}
 
@@ -2132,28 +2684,116 @@ export default function SchedulePage() {
                 <div className="space-y-2">
                   <Label className="text-sm">Frequency</Label>
                   <div className="flex items-center gap-2">
-                    <Input
-                      type="number"
-                      min={1}
-                      max={14}
-                      value={formData.frequency}
-                      onChange={(e) => setFormData({ ...formData, frequency: parseInt(e.target.value) || 1 })}
-                      className="w-16"
-                    />
-                    <span className="text-sm text-gray-600">times per</span>
+                    {formData.frequencyPeriod !== "once" && !formData.isSplittable && (
+                      <>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={14}
+                          value={formData.frequency}
+                          onChange={(e) => setFormData({ ...formData, frequency: parseInt(e.target.value) || 1 })}
+                          className="w-16"
+                        />
+                        <span className="text-sm text-gray-600">times per</span>
+                      </>
+                    )}
                     <Select
                       value={formData.frequencyPeriod}
-                      onValueChange={(value: "day" | "week") => setFormData({ ...formData, frequencyPeriod: value })}
+                      onValueChange={(value: FrequencyPeriod) => setFormData({ ...formData, frequencyPeriod: value })}
                     >
-                      <SelectTrigger className="w-24">
+                      <SelectTrigger className="w-32">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="week">week</SelectItem>
                         <SelectItem value="day">day</SelectItem>
+                        <SelectItem value="biweekly">2 weeks</SelectItem>
+                        <SelectItem value="month">month</SelectItem>
+                        <SelectItem value="quarter">quarter</SelectItem>
+                        <SelectItem value="custom">custom rule</SelectItem>
+                        <SelectItem value="once">one-off (deadline)</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
+                  <RecurrenceFields formData={formData} setFormData={setFormData} />
+                  {formData.frequencyPeriod === "once" && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-gray-600">Due</span>
+                      <Input
+                        type="date"
+                        value={formData.dueDate}
+                        onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                        className="w-40"
+                      />
+                      <span className="text-sm text-gray-600">Total effort</span>
+                      <Input
+                        type="number"
+                        min={5}
+                        step={15}
+                        placeholder={String(formData.duration)}
+                        value={formData.estimatedEffort ?? ""}
+                        onChange={(e) => setFormData({ ...formData, estimatedEffort: parseInt(e.target.value) || null })}
+                        className="w-20"
+                      />
+                      <span className="text-sm text-gray-600">min</span>
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                    <Checkbox
+                      checked={formData.isSplittable}
+                      onCheckedChange={(checked) => setFormData({ ...formData, isSplittable: checked === true })}
+                    />
+                    Split into several sessions
+                  </label>
+                  {formData.isSplittable && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      {formData.frequencyPeriod !== "once" && (
+                        <>
+                          <span className="text-sm text-gray-600">Total effort</span>
+                          <Input
+                            type="number"
+                            min={5}
+                            step={15}
+                            value={formData.estimatedEffort ?? ""}
+                            onChange={(e) => setFormData({ ...formData, estimatedEffort: parseInt(e.target.value) || null })}
+                            className="w-20"
+                          />
+                          <span className="text-sm text-gray-600">min,</span>
+                        </>
+                      )}
+                      <span className="text-sm text-gray-600">sessions of</span>
+                      <Input
+                        type="number"
+                        min={5}
+                        step={5}
+                        placeholder="30"
+                        value={formData.minChunkMinutes ?? ""}
+                        onChange={(e) => setFormData({ ...formData, minChunkMinutes: parseInt(e.target.value) || null })}
+                        className="w-16"
+                      />
+                      <span className="text-gray-500">to</span>
+                      <Input
+                        type="number"
+                        min={5}
+                        step={5}
+                        placeholder={String(formData.duration)}
+                        value={formData.maxChunkMinutes ?? ""}
+                        onChange={(e) => setFormData({ ...formData, maxChunkMinutes: parseInt(e.target.value) || null })}
+                        className="w-16"
+                      />
+                      <span className="text-sm text-gray-600">min, up to</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={8}
+                        placeholder="1"
+                        value={formData.maxChunksPerDay ?? ""}
+                        onChange={(e) => setFormData({ ...formData, maxChunksPerDay: parseInt(e.target.value) || null })}
+                        className="w-14"
+                      />
+                      <span className="text-sm text-gray-600">per day</span>
+                    </div>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label className="text-sm">Preferred time window (optional)</Label>
@@ -45,6 +45,7 @@ import {
   Car,
   Plane,
   Globe,
+  RefreshCw,
 } from "lucide-react";
 import {
   Select,
@@ -55,18 +56,49 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { LocationSettings } from "@/components/settings/location-settings";
+import { SchedulingRulesSettings } from "@/components/settings/scheduling-rules-settings";
+import { CalendarRulesSettings } from "@/components/settings/calendar-rules-settings";
+import { MAX_FAMILY_MEMBERS } from "@/lib/family-roles";
 
 interface CalendarProviders {
   google: boolean;
   microsoft: boolean;
+  caldav: boolean;
 }
 
+interface CalDavAccount {
+  serverUrl: string;
+  username: string;
+  calendarName: string;
+  lastSync: string | null;
+  lastError: string | null;
+}
+
+const CALDAV_SERVERS: Record<string, { label: string; serverUrl: string }> = {
+  icloud: { label: "iCloud", serverUrl: "https://caldav.icloud.com" },
+  fastmail: { label: "Fastmail", serverUrl: "https://caldav.fastmail.com" },
+  nextcloud: { label: "Nextcloud", serverUrl: "" },
+};
+
 interface ExternalCalendar {
   id: string;
   name: string;
   url: string;
   isActive: boolean;
   lastSync: string | null;
+  // Feed failures: retried with backoff, the cached copy is used meanwhile
+  failureCount: number;
+  lastError: string | null;
+  nextRetryAt: string | null;
+}
+
+interface CalendarFeed {
+  id: string;
+  name: string;
+  includeFamily: boolean;
+  lastAccessedAt: string | null;
+  httpsUrl: string;
+  webcalUrl: string;
 }
 
 interface FamilyMember {
@@ -125,6 +157,10 @@ const DAYS_OF_WEEK = [
   { value: "sunday", label: "Sun", fullLabel: "Sunday" },
 ];
 
+// Select value for "no time zone set" (Select items can't use an empty value)
+const DEFAULT_TIMEZONE = "default";
+const TIME_ZONES = Intl.supportedValuesOf("timeZone");
+
 export default function SettingsPage() {
   const { data: session } = useSession();
   const searchParams = useSearchParams();
@@ -137,12 +173,25 @@ export default function SettingsPage() {
   const [newCalendarUrl, setNewCalendarUrl] = useState("");
   const [adding, setAdding] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState<string | null>(null);
+
+  // CalDAV state
+  const [calDavAccount, setCalDavAccount] = useState<CalDavAccount | null>(null);
+  const [calDavDialogOpen, setCalDavDialogOpen] = useState(false);
+  const [calDavPreset, setCalDavPreset] = useState("icloud");
+  const [calDavServerUrl, setCalDavServerUrl] = useState(CALDAV_SERVERS.icloud.serverUrl);
+  const [calDavUsername, setCalDavUsername] = useState("");
+  const [calDavPassword, setCalDavPassword] = useState("");
+  const [connectingCalDav, setConnectingCalDav] = useState(false);
 
   // Outlook Add-in state
   const [addinToken, setAddinToken] = useState<string | null>(null);
   const [addinTokenExpiry, setAddinTokenExpiry] = useState<string | null>(null);
   const [generatingToken, setGeneratingToken] = useState(false);
   const [tokenCopied, setTokenCopied] = useState(false);
+  const [calendarFeeds, setCalendarFeeds] = useState<CalendarFeed[]>([]);
+  const [creatingFeed, setCreatingFeed] = useState(false);
+  const [copiedFeedId, setCopiedFeedId] = useState<string | null>(null);
 
   // Family state
   const [family, setFamily] = useState<Family | null>(null);
@@ -167,6 +216,8 @@ export default function SettingsPage() {
   const [availableTimeEnd, setAvailableTimeEnd] = useState<number>(22);
   const [country, setCountry] = useState<string>("UK");
   const [supportedCountries, setSupportedCountries] = useState<Country[]>([]);
+  const [timezone, setTimezone] = useState<string | null>(null);
+  const [browserTimezone, setBrowserTimezone] = useState<string>("");
   const [workScheduleLoading, setWorkScheduleLoading] = useState(true);
   const [savingWorkSchedule, setSavingWorkSchedule] = useState(false);
   const [workScheduleChanged, setWorkScheduleChanged] = useState(false);
@@ -188,14 +239,17 @@ export default function SettingsPage() {
     fetchWorkSchedule();
     fetchVacations();
     fetchHolidays();
+    setBrowserTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
   }, []);
 
   async function fetchData() {
     try {
-      const [providersRes, calendarsRes, tokenRes] = await Promise.all([
+      const [providersRes, calendarsRes, tokenRes, calDavRes, feedsRes] = await Promise.all([
         fetch("/api/calendar/providers"),
         fetch("/api/calendars/external"),
         fetch("/api/addin/token"),
+        fetch("/api/calendars/caldav"),
+        fetch("/api/calendars/feeds"),
       ]);
 
       if (providersRes.ok) {
@@ -210,6 +264,14 @@ export default function SettingsPage() {
         setAddinToken(tokenData.token);
         setAddinTokenExpiry(tokenData.expiresAt);
       }
+      if (calDavRes.ok) {
+        const calDavData = await calDavRes.json();
+        setCalDavAccount(calDavData.account);
+      }
+      if (feedsRes.ok) {
+        const feedsData = await feedsRes.json();
+        setCalendarFeeds(feedsData.feeds || []);
+      }
     } catch (error) {
       console.error("Error fetching data:", error);
     } finally {
@@ -242,6 +304,7 @@ export default function SettingsPage() {
         setAvailableTimeStart(data.availableTimeStart ?? 6);
         setAvailableTimeEnd(data.availableTimeEnd ?? 22);
         setCountry(data.country || "UK");
+        setTimezone(data.timezone ?? null);
       }
     } catch (error) {
       console.error("Error fetching work schedule:", error);
@@ -322,6 +385,23 @@ export default function SettingsPage() {
     }
   }
 
+  async function updateTimezone(newTimezone: string) {
+    const value = newTimezone === DEFAULT_TIMEZONE ? null : newTimezone;
+    try {
+      const res = await fetch("/api/user/timezone", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timezone: value }),
+      });
+
+      if (res.ok) {
+        setTimezone(value);
+      }
+    } catch (error) {
+      console.error("Error updating time zone:", error);
+    }
+  }
+
   function updateWorkScheduleDay(dayOfWeek: string, updates: Partial<WorkScheduleDay>) {
     setWorkSchedule((prev) =>
       prev.map((day) =>
@@ -419,6 +499,43 @@ export default function SettingsPage() {
     }
   }
 
+  async function createCalendarFeed(includeFamily: boolean) {
+    setCreatingFeed(true);
+    try {
+      const res = await fetch("/api/calendars/feeds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ includeFamily }),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setCalendarFeeds([...calendarFeeds, data.feed]);
+      }
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+    } finally {
+      setCreatingFeed(false);
+    }
+  }
+
+  async function revokeCalendarFeed(id: string) {
+    if (!confirm("Revoke this feed? Calendars subscribed to it will stop updating.")) return;
+    try {
+      const res = await fetch(`/api/calendars/feeds/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        setCalendarFeeds(calendarFeeds.filter((f) => f.id !== id));
+      }
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+    }
+  }
+
+  function copyFeedUrl(feed: CalendarFeed) {
+    navigator.clipboard.writeText(feed.webcalUrl);
+    setCopiedFeedId(feed.id);
+    setTimeout(() => setCopiedFeedId(null), 2000);
+  }
+
   async function addExternalCalendar() {
     if (!newCalendarName.trim() || !newCalendarUrl.trim()) return;
     setAdding(true);
@@ -450,6 +567,52 @@ export default function SettingsPage() {
     }
   }
 
+  async function connectCalDav() {
+    if (!calDavUsername.trim() || !calDavPassword || !calDavServerUrl.trim()) return;
+    setConnectingCalDav(true);
+
+    try {
+      const res = await fetch("/api/calendars/caldav", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          serverUrl: calDavServerUrl,
+          username: calDavUsername,
+          password: calDavPassword,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to connect calendar");
+      }
+
+      setCalDavAccount(data.account);
+      setProviders((prev) => prev && { ...prev, caldav: true });
+      setCalDavPassword("");
+      setCalDavDialogOpen(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to connect calendar");
+    } finally {
+      setConnectingCalDav(false);
+    }
+  }
+
+  async function disconnectCalDav() {
+    if (!confirm("Disconnect this calendar? Events already created in it are kept.")) return;
+
+    try {
+      const res = await fetch("/api/calendars/caldav", { method: "DELETE" });
+      if (res.ok) {
+        setCalDavAccount(null);
+        setProviders((prev) => prev && { ...prev, caldav: false });
+      }
+    } catch (error) {
+      console.error("Error disconnecting CalDAV:", error);
+    }
+  }
+
   async function deleteExternalCalendar(id: string) {
     if (!confirm("Remove this calendar?")) return;
     setDeleting(id);
@@ -469,6 +632,27 @@ export default function SettingsPage() {
     }
   }
 
+  async function refreshExternalCalendar(id: string) {
+    setRefreshing(id);
+
+    try {
+      const res = await fetch(`/api/calendars/external/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh: true }),
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setExternalCalendars(externalCalendars.map((c) => (c.id === id ? data.calendar : c)));
+      }
+    } catch (error) {
+      console.error("Error refreshing calendar:", error);
+    } finally {
+      setRefreshing(null);
+    }
+  }
+
   // Family functions
   async function createFamily() {
     if (!familyName.trim()) return;
@@ -943,7 +1127,7 @@ export default function SettingsPage() {
                     <CardTitle>Country & Public Holidays</CardTitle>
                   </div>
                   <CardDescription>
-                    Public holidays are automatically blocked for scheduling
+                    Public holidays are automatically blocked for scheduling, and your day is planned in your time zone
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -963,6 +1147,34 @@ export default function SettingsPage() {
                     </Select>
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Your Time Zone</Label>
+                      {browserTimezone && timezone !== browserTimezone && (
+                        <button
+                          type="button"
+                          className="block text-xs text-blue-600 hover:underline"
+                          onClick={() => updateTimezone(browserTimezone)}
+                        >
+                          Use this device&apos;s time zone ({browserTimezone})
+                        </button>
+                      )}
+                    </div>
+                    <Select value={timezone ?? DEFAULT_TIMEZONE} onValueChange={updateTimezone}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_TIMEZONE}>Server default</SelectItem>
+                        {TIME_ZONES.map((tz) => (
+                          <SelectItem key={tz} value={tz}>
+                            {tz.replace(/_/g, " ")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {holidays.length > 0 && (
                     <div className="border rounded-lg p-3">
                       <p className="text-sm font-medium mb-2">Upcoming Public Holidays</p>
@@ -1114,6 +1326,8 @@ export default function SettingsPage() {
               </Card>
             </>
           )}
+
+          <SchedulingRulesSettings />
         </TabsContent>
 
         {/* Calendars Tab */}
@@ -1174,11 +1388,168 @@ export default function SettingsPage() {
                     </div>
                   </div>
 
+                  {/* Microsoft Outlook / 365 Calendar */}
+                  <div
+                    className={`flex items-center justify-between p-4 rounded-lg border ${
+                      providers?.microsoft
+                        ? "bg-green-50 border-green-200"
+                        : "bg-gray-50 border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-white border flex items-center justify-center">
+                        <svg viewBox="0 0 24 24" className="w-6 h-6">
+                          <path fill="#F25022" d="M1 1h10.5v10.5H1z" />
+                          <path fill="#7FBA00" d="M12.5 1H23v10.5H12.5z" />
+                          <path fill="#00A4EF" d="M1 12.5h10.5V23H1z" />
+                          <path fill="#FFB900" d="M12.5 12.5H23V23H12.5z" />
+                        </svg>
+                      </div>
+                      <div>
+                        <p className="font-medium">Microsoft Outlook / 365</p>
+                        <p className="text-sm text-gray-500">
+                          {providers?.microsoft
+                            ? providers?.google
+                              ? "Connected - events are read; new tasks go to Google Calendar"
+                              : "Connected - events sync both ways"
+                            : "Not connected"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {providers?.microsoft ? (
+                        <>
+                          <CheckCircle className="h-5 w-5 text-green-600" />
+                          <Badge className="bg-green-600">Active</Badge>
+                        </>
+                      ) : (
+                        <Button onClick={() => signIn("azure-ad", { callbackUrl: "/settings" })}>
+                          Connect
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* CalDAV (iCloud, Fastmail, Nextcloud) */}
+                  <div
+                    className={`flex items-center justify-between p-4 rounded-lg border ${
+                      providers?.caldav
+                        ? "bg-green-50 border-green-200"
+                        : "bg-gray-50 border-gray-200"
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-white border flex items-center justify-center">
+                        <Calendar className="w-6 h-6 text-gray-600" />
+                      </div>
+                      <div>
+                        <p className="font-medium">iCloud, Fastmail or Nextcloud (CalDAV)</p>
+                        <p className="text-sm text-gray-500">
+                          {calDavAccount
+                            ? calDavAccount.lastError
+                              ? `Error: ${calDavAccount.lastError}`
+                              : `Connected - ${calDavAccount.calendarName} (${calDavAccount.username})`
+                            : "Not connected"}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {calDavAccount ? (
+                        <Button variant="outline" size="sm" onClick={disconnectCalDav}>
+                          Disconnect
+                        </Button>
+                      ) : (
+                        <Dialog open={calDavDialogOpen} onOpenChange={setCalDavDialogOpen}>
+                          <DialogTrigger asChild>
+                            <Button>Connect</Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Connect a CalDAV Calendar</DialogTitle>
+                              <DialogDescription>
+                                ResolutionAI reads your events and adds scheduled tasks to this calendar.
+                              </DialogDescription>
+                            </DialogHeader>
+                            <div className="space-y-4 mt-4">
+                              <div className="space-y-2">
+                                <Label>Service</Label>
+                                <Select
+                                  value={calDavPreset}
+                                  onValueChange={(value) => {
+                                    setCalDavPreset(value);
+                                    setCalDavServerUrl(CALDAV_SERVERS[value].serverUrl);
+                                  }}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {Object.entries(CALDAV_SERVERS).map(([key, server]) => (
+                                      <SelectItem key={key} value={key}>{server.label}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              {calDavPreset === "nextcloud" && (
+                                <div className="space-y-2">
+                                  <Label htmlFor="calDavServerUrl">Server URL</Label>
+                                  <Input
+                                    id="calDavServerUrl"
+                                    placeholder="https://cloud.example.com/remote.php/dav"
+                                    value={calDavServerUrl}
+                                    onChange={(e) => setCalDavServerUrl(e.target.value)}
+                                  />
+                                </div>
+                              )}
+                              <div className="space-y-2">
+                                <Label htmlFor="calDavUsername">Username</Label>
+                                <Input
+                                  id="calDavUsername"
+                                  placeholder={calDavPreset === "icloud" ? "Apple ID email" : "Username"}
+                                  value={calDavUsername}
+                                  onChange={(e) => setCalDavUsername(e.target.value)}
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label htmlFor="calDavPassword">App-specific password</Label>
+                                <Input
+                                  id="calDavPassword"
+                                  type="password"
+                                  value={calDavPassword}
+                                  onChange={(e) => setCalDavPassword(e.target.value)}
+                                />
+                                <p className="text-xs text-gray-500">
+                                  {calDavPreset === "icloud"
+                                    ? "Create one at appleid.apple.com → Sign-In and Security → App-Specific Passwords."
+                                    : "Create an app password in your account's security settings."}
+                                </p>
+                              </div>
+                              <Button
+                                className="w-full"
+                                onClick={connectCalDav}
+                                disabled={connectingCalDav || !calDavUsername.trim() || !calDavPassword || !calDavServerUrl.trim()}
+                              >
+                                {connectingCalDav ? (
+                                  <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Connecting...
+                                  </>
+                                ) : (
+                                  "Connect Calendar"
+                                )}
+                              </Button>
+                            </div>
+                          </DialogContent>
+                        </Dialog>
+                      )}
+                    </div>
+                  </div>
+
                   <div className="text-sm text-gray-600">
                     <p className="font-medium mb-2">Permissions:</p>
                     <ul className="space-y-1 ml-4">
                       <li className="flex items-center gap-2">
-                        {providers?.google ? (
+                        {providers?.google || providers?.microsoft || providers?.caldav ? (
                           <CheckCircle className="h-3 w-3 text-green-600" />
                         ) : (
                           <XCircle className="h-3 w-3 text-gray-400" />
@@ -1186,7 +1557,7 @@ export default function SettingsPage() {
                         Read calendar events to find free time
                       </li>
                       <li className="flex items-center gap-2">
-                        {providers?.google ? (
+                        {providers?.google || providers?.microsoft || providers?.caldav ? (
                           <CheckCircle className="h-3 w-3 text-green-600" />
                         ) : (
                           <XCircle className="h-3 w-3 text-gray-400" />
@@ -1314,21 +1685,45 @@ export default function SettingsPage() {
                               ? `Synced: ${new Date(calendar.lastSync).toLocaleString()}`
                               : "Not synced yet"}
                           </p>
+                          {calendar.failureCount > 0 && (
+                            <p className="text-xs text-red-600">
+                              {`Failing (${calendar.failureCount}x): ${calendar.lastError || "unknown error"}`}
+                              {calendar.nextRetryAt && ` - retrying ${new Date(calendar.nextRetryAt).toLocaleString()}`}
+                            </p>
+                          )}
                         </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
-                        onClick={() => deleteExternalCalendar(calendar.id)}
-                        disabled={deleting === calendar.id}
-                      >
-                        {deleting === calendar.id ? (
-                          <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="h-4 w-4" />
+                      <div className="flex items-center gap-1">
+                        {calendar.failureCount > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Retry now"
+                            onClick={() => refreshExternalCalendar(calendar.id)}
+                            disabled={refreshing === calendar.id}
+                          >
+                            {refreshing === calendar.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <RefreshCw className="h-4 w-4" />
+                            )}
+                          </Button>
                         )}
-                      </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => deleteExternalCalendar(calendar.id)}
+                          disabled={deleting === calendar.id}
+                        >
+                          {deleting === calendar.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -1336,6 +1731,79 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Published Calendar Feeds */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Link className="h-5 w-5 text-gray-600" />
+                <CardTitle>Subscribe From Any Calendar App</CardTitle>
+              </div>
+              <CardDescription>
+                A private link to your scheduled tasks for Apple Calendar, Google Calendar or Outlook - nothing to install
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {calendarFeeds.length > 0 && (
+                <div className="space-y-3">
+                  {calendarFeeds.map((feed) => (
+                    <div key={feed.id} className="p-3 bg-gray-50 rounded-lg border space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-sm">{feed.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {feed.includeFamily ? "Everyone in the family" : "Your tasks"}
+                            {" - "}
+                            {feed.lastAccessedAt
+                              ? `Last fetched ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                              : "Not fetched yet"}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => revokeCalendarFeed(feed.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <code className="flex-1 text-xs font-mono bg-white px-3 py-2 rounded border truncate">
+                          {feed.webcalUrl}
+                        </code>
+                        <Button variant="outline" size="icon" onClick={() => copyFeedUrl(feed)}>
+                          {copiedFeedId === feed.id ? (
+                            <Check className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <Copy className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                          <a href={feed.webcalUrl}>Subscribe</a>
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={() => createCalendarFeed(false)} disabled={creatingFeed} size="sm" variant="outline">
+                  {creatingFeed ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                  Feed of my tasks
+                </Button>
+                {family && (
+                  <Button onClick={() => createCalendarFeed(true)} disabled={creatingFeed} size="sm" variant="outline">
+                    <Users className="mr-2 h-4 w-4" />
+                    Feed of the family&apos;s tasks
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">
+                Anyone with a link can see the tasks in it - revoke a link to stop it working
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Outlook Add-in Section */}
           <Card>
             <CardHeader>
@@ -1398,6 +1866,8 @@ export default function SettingsPage() {
               )}
             </CardContent>
           </Card>
+
+          <CalendarRulesSettings />
         </TabsContent>
 
         {/* Family Tab */}
@@ -1577,8 +2047,8 @@ export default function SettingsPage() {
                     </div>
                   </div>
 
-                  {/* Email Invite - only show if family has less than 2 members */}
-                  {family.members.length < 2 && (
+                  {/* Email Invite - only show while the family has room */}
+                  {family.members.length < MAX_FAMILY_MEMBERS && (
                     <div className="p-3 bg-blue-50 rounded-lg">
                       <Label className="text-sm text-blue-800 flex items-center gap-2">
                         <Mail className="h-4 w-4" />
@@ -1587,7 +2057,7 @@ export default function SettingsPage() {
                       <div className="flex gap-2 mt-2">
                         <Input
                           type="email"
-                          placeholder="partner@email.com"
+                          placeholder="name@email.com"
                           value={inviteEmail}
                           onChange={(e) => setInviteEmail(e.target.value)}
                           className="flex-1 bg-white"
@@ -1649,7 +2119,7 @@ export default function SettingsPage() {
                       {family.members.length < 2 && (
                         <div className="p-3 border-2 border-dashed rounded-lg text-center text-gray-500">
                           <UserPlus className="h-6 w-6 mx-auto mb-1 text-gray-400" />
-                          <p className="text-sm">Waiting for partner to join</p>
+                          <p className="text-sm">Waiting for family members to join</p>
                         </div>
                       )}
                     </div>
@@ -1681,12 +2151,12 @@ export default function SettingsPage() {
               </Card>
 
               {/* Info Card */}
-              {family.members.length === 2 && (
+              {family.members.length >= 2 && (
                 <Card className="bg-green-50 border-green-200">
                   <CardContent className="pt-4 pb-4">
-                    <h4 className="font-medium text-green-900 mb-1 text-sm">Family Complete!</h4>
+                    <h4 className="font-medium text-green-900 mb-1 text-sm">Family Scheduling Is On</h4>
                     <p className="text-sm text-green-800">
-                      When you generate a schedule, the AI will consider both calendars
+                      When you generate a schedule, the AI will consider everyone&apos;s calendars
                       and balance the workload fairly.
                     </p>
                   </CardContent>
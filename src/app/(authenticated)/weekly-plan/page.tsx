@@ -38,6 +38,7 @@ import {
   ArrowRight,
   Check,
   X,
+  CloudRain,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useRegisterPageContext } from "@/contexts/AIAssistantContext";
@@ -50,6 +51,8 @@ interface PlanItem {
     type: string;
     duration: number;
     category: string | null;
+    isSplittable?: boolean;
+    estimatedEffort?: number | null; // Total minutes for splittable tasks
   };
   assignedTo: {
     id: string;
@@ -358,6 +361,27 @@ export default function WeeklyPlanPage() {
     {} as Record<string, PlanItem[]>
   );
 
+  // Splittable tasks are booked as several sessions - group them back into one logical task
+  const sessionGroups = Object.values(
+    validItems
+      .filter((item) => item.task.isSplittable)
+      .reduce(
+        (acc, item) => {
+          const key = `${item.task.id}-${item.assignedTo.id}`;
+          if (!acc[key]) acc[key] = [];
+          acc[key].push(item);
+          return acc;
+        },
+        {} as Record<string, PlanItem[]>
+      )
+  ).map((items) => items.sort((a, b) => a.startTime.localeCompare(b.startTime)));
+  const sessionLabels = new Map<string, string>();
+  sessionGroups.forEach((items) =>
+    items.forEach((item, i) => sessionLabels.set(item.id, `Session ${i + 1}/${items.length}`))
+  );
+  const getItemMinutes = (item: PlanItem) =>
+    Math.round((parseISO(item.endTime).getTime() - parseISO(item.startTime).getTime()) / 60000);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -483,6 +507,8 @@ export default function WeeklyPlanPage() {
                           <Clock className="h-4 w-4 text-blue-500" />
                         ) : rec.type === "change_days" ? (
                           <Calendar className="h-4 w-4 text-green-500" />
+                        ) : rec.type === "weather_reschedule" ? (
+                          <CloudRain className="h-4 w-4 text-sky-500" />
                         ) : (
                           <AlertTriangle className="h-4 w-4 text-orange-500" />
                         )}
@@ -606,6 +632,52 @@ export default function WeeklyPlanPage() {
         )}
       </Card>
 
+      {/* Multi-session Tasks */}
+      {sessionGroups.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-lg">Multi-session Tasks</CardTitle>
+            <CardDescription>Tasks split into several sessions across the week</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {sessionGroups.map((items) => {
+                const { task, assignedTo } = items[0];
+                const bookedMinutes = items.reduce((sum, item) => sum + getItemMinutes(item), 0);
+                const targetMinutes = task.estimatedEffort ?? bookedMinutes;
+                return (
+                  <div key={`${task.id}-${assignedTo.id}`} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900">{task.name}</p>
+                        <span className="text-sm text-gray-500">{assignedTo.name}</span>
+                      </div>
+                      <Badge
+                        variant="outline"
+                        className={
+                          bookedMinutes >= targetMinutes
+                            ? "border-green-200 text-green-700"
+                            : "border-orange-200 text-orange-700"
+                        }
+                      >
+                        {bookedMinutes} / {targetMinutes} min
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {items.map((item) => (
+                        <span key={item.id} className="text-xs text-gray-600 bg-white border rounded px-2 py-1">
+                          {format(parseISO(item.startTime), "EEE h:mm a")} · {getItemMinutes(item)} min
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Daily Schedule */}
       <div className="space-y-4">
         {Object.entries(itemsByDay)
@@ -642,6 +714,11 @@ export default function WeeklyPlanPage() {
                           >
                             {item.task.type}
                           </Badge>
+                          {sessionLabels.has(item.id) && (
+                            <Badge variant="outline" className="border-purple-200 text-purple-700">
+                              {sessionLabels.get(item.id)}
+                            </Badge>
+                          )}
                           {item.lastEditedBy && (
                             <span className="text-xs text-orange-600">
                               (edited by {item.lastEditedBy.name})
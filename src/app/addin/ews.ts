@@ -0,0 +1,206 @@
+/**
+ * Work calendar access for the Outlook add-in, through Exchange Web Services
+ * (Office.context.mailbox.makeEwsRequestAsync, allowed by the manifest's
+ * ReadWriteMailbox permission). Runs in the add-in's task pane only.
+ */
+
+const TYPES_NS = "http://schemas.microsoft.com/exchange/services/2006/types";
+const MESSAGES_NS = "http://schemas.microsoft.com/exchange/services/2006/messages";
+
+// Prefix on every event the add-in writes - they're skipped when reporting busy time
+export const EVENT_SUBJECT_PREFIX = "[ResolutionAI]";
+
+interface EwsResult {
+  status: "succeeded" | "failed";
+  value: string;
+  error?: { message: string };
+}
+
+declare global {
+  interface Window {
+    Office?: {
+      initialize: (callback: () => void) => void;
+      context?: {
+        mailbox?: {
+          item?: unknown;
+          userProfile?: {
+            emailAddress: string;
+            displayName: string;
+          };
+          makeEwsRequestAsync?: (data: string, callback: (result: EwsResult) => void) => void;
+        };
+      };
+    };
+  }
+}
+
+export interface WorkEvent {
+  title: string;
+  description: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface BusyBlock {
+  eventId: string;
+  start: string;
+  end: string;
+  showAs: "busy" | "tentative" | "free" | "oof" | "workingElsewhere";
+  isAllDay: boolean;
+}
+
+export class EwsError extends Error {
+  constructor(message: string, public code: string | null = null) {
+    super(message);
+    this.name = "EwsError";
+  }
+}
+
+// LegacyFreeBusyStatus values ("NoData" is treated as busy)
+const FREE_BUSY_STATUS: Record<string, BusyBlock["showAs"]> = {
+  Free: "free",
+  Tentative: "tentative",
+  Busy: "busy",
+  OOF: "oof",
+  WorkingElsewhere: "workingElsewhere",
+};
+
+export function isEwsAvailable(): boolean {
+  return !!window.Office?.context?.mailbox?.makeEwsRequestAsync;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Send one EWS operation and return the parsed response, failing on an error response
+function ewsRequest(body: string): Promise<Document> {
+  const envelope = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:t="${TYPES_NS}" xmlns:m="${MESSAGES_NS}">
+  <soap:Header><t:RequestServerVersion Version="Exchange2013"/></soap:Header>
+  <soap:Body>${body}</soap:Body>
+</soap:Envelope>`;
+
+  return new Promise((resolve, reject) => {
+    const mailbox = window.Office?.context?.mailbox;
+    if (!mailbox?.makeEwsRequestAsync) {
+      reject(new EwsError("Calendar API not available"));
+      return;
+    }
+
+    mailbox.makeEwsRequestAsync(envelope, (result) => {
+      if (result.status !== "succeeded") {
+        reject(new EwsError(result.error?.message || "Calendar request failed"));
+        return;
+      }
+      const doc = new DOMParser().parseFromString(result.value, "text/xml");
+      const message = Array.from(doc.getElementsByTagNameNS(MESSAGES_NS, "*"))
+        .find((el) => el.localName.endsWith("ResponseMessage"));
+      if (message?.getAttribute("ResponseClass") === "Error") {
+        const code = message.getElementsByTagNameNS(MESSAGES_NS, "ResponseCode")[0]?.textContent || null;
+        const text = message.getElementsByTagNameNS(MESSAGES_NS, "MessageText")[0]?.textContent;
+        reject(new EwsError(text || code || "Calendar request failed", code));
+        return;
+      }
+      resolve(doc);
+    });
+  });
+}
+
+function getText(parent: Element, name: string): string | null {
+  return parent.getElementsByTagNameNS(TYPES_NS, name)[0]?.textContent ?? null;
+}
+
+/**
+ * Create the work calendar event for a task, returning its item ID
+ */
+export async function createWorkEvent(event: WorkEvent): Promise<string> {
+  const doc = await ewsRequest(`
+    <m:CreateItem SendMeetingInvitations="SendToNone">
+      <m:Items>
+        <t:CalendarItem>
+          <t:Subject>${escapeXml(`${EVENT_SUBJECT_PREFIX} ${event.title}`)}</t:Subject>
+          <t:Body BodyType="Text">${escapeXml(event.description)}</t:Body>
+          <t:Start>${event.startTime}</t:Start>
+          <t:End>${event.endTime}</t:End>
+          <t:LegacyFreeBusyStatus>Busy</t:LegacyFreeBusyStatus>
+        </t:CalendarItem>
+      </m:Items>
+    </m:CreateItem>`);
+
+  const itemId = doc.getElementsByTagNameNS(TYPES_NS, "ItemId")[0]?.getAttribute("Id");
+  if (!itemId) throw new EwsError("The calendar didn't return the new event");
+  return itemId;
+}
+
+/**
+ * Move (and retitle) an event the add-in created
+ */
+export async function updateWorkEvent(itemId: string, event: WorkEvent): Promise<void> {
+  const setField = (uri: string, value: string) => `
+    <t:SetItemField>
+      <t:FieldURI FieldURI="${uri}"/>
+      <t:CalendarItem>${value}</t:CalendarItem>
+    </t:SetItemField>`;
+
+  await ewsRequest(`
+    <m:UpdateItem ConflictResolution="AlwaysOverwrite" SendMeetingInvitationsOrCancellations="SendToNone">
+      <m:ItemChanges>
+        <t:ItemChange>
+          <t:ItemId Id="${escapeXml(itemId)}"/>
+          <t:Updates>
+            ${setField("item:Subject", `<t:Subject>${escapeXml(`${EVENT_SUBJECT_PREFIX} ${event.title}`)}</t:Subject>`)}
+            ${setField("calendar:Start", `<t:Start>${event.startTime}</t:Start>`)}
+            ${setField("calendar:End", `<t:End>${event.endTime}</t:End>`)}
+          </t:Updates>
+        </t:ItemChange>
+      </m:ItemChanges>
+    </m:UpdateItem>`);
+}
+
+/**
+ * Remove an event the add-in created (already gone counts as removed)
+ */
+export async function deleteWorkEvent(itemId: string): Promise<void> {
+  try {
+    await ewsRequest(`
+      <m:DeleteItem DeleteType="MoveToDeletedItems" SendMeetingCancellations="SendToNone">
+        <m:ItemIds><t:ItemId Id="${escapeXml(itemId)}"/></m:ItemIds>
+      </m:DeleteItem>`);
+  } catch (error) {
+    if (error instanceof EwsError && error.code === "ErrorItemNotFound") return;
+    throw error;
+  }
+}
+
+/**
+ * The work calendar's events between two instants, except the add-in's own
+ */
+export async function findBusyBlocks(start: Date, end: Date): Promise<BusyBlock[]> {
+  const doc = await ewsRequest(`
+    <m:FindItem Traversal="Shallow">
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="item:Subject"/>
+          <t:FieldURI FieldURI="calendar:Start"/>
+          <t:FieldURI FieldURI="calendar:End"/>
+          <t:FieldURI FieldURI="calendar:IsAllDayEvent"/>
+          <t:FieldURI FieldURI="calendar:LegacyFreeBusyStatus"/>
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:CalendarView MaxEntriesReturned="1000" StartDate="${start.toISOString()}" EndDate="${end.toISOString()}"/>
+      <m:ParentFolderIds><t:DistinguishedFolderId Id="calendar"/></m:ParentFolderIds>
+    </m:FindItem>`);
+
+  return Array.from(doc.getElementsByTagNameNS(TYPES_NS, "CalendarItem"))
+    .filter((item) => !getText(item, "Subject")?.startsWith(EVENT_SUBJECT_PREFIX))
+    .map((item) => ({
+      eventId: item.getElementsByTagNameNS(TYPES_NS, "ItemId")[0]?.getAttribute("Id") || "",
+      start: getText(item, "Start") || "",
+      end: getText(item, "End") || "",
+      showAs: FREE_BUSY_STATUS[getText(item, "LegacyFreeBusyStatus") || ""] ?? "busy",
+      isAllDay: getText(item, "IsAllDayEvent") === "true",
+    }))
+    .filter((block) => block.eventId && block.start && block.end);
+}
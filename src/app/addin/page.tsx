@@ -6,6 +6,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Calendar,
   Check,
@@ -15,6 +22,7 @@ import {
   CheckCircle,
   ExternalLink,
 } from "lucide-react";
+import { EwsError, createWorkEvent, deleteWorkEvent, findBusyBlocks, isEwsAvailable, updateWorkEvent } from "./ews";
 
 interface PendingTask {
   id: string;
@@ -25,33 +33,42 @@ interface PendingTask {
   startTime: string;
   endTime: string;
   description: string;
+  sequence: number;
 }
 
-declare global {
-  interface Window {
-    Office?: {
-      initialize: (callback: () => void) => void;
-      context?: {
-        mailbox?: {
-          item?: unknown;
-          userProfile?: {
-            emailAddress: string;
-            displayName: string;
-          };
-        };
-      };
-    };
-  }
+// From /api/addin/changes
+type WorkCalendarChange =
+  | { type: "created"; task: PendingTask }
+  | { type: "updated"; task: PendingTask; workCalendarEventId: string }
+  | { type: "deleted"; id: string; workCalendarEventId: string };
+
+const TOKEN_KEY = "resolutionai_addin_token";
+const CURSOR_KEY = "resolutionai_addin_cursor";
+const WEEKS_KEY = "resolutionai_addin_weeks";
+
+const WEEK_OPTIONS = [1, 2, 4, 8];
+
+const CHANGE_LABELS = {
+  created: { label: "New", className: "border-green-300 text-green-700" },
+  updated: { label: "Moved", className: "border-amber-300 text-amber-700" },
+  deleted: { label: "Removed", className: "border-red-300 text-red-700" },
+};
+
+function getChangeKey(change: WorkCalendarChange): string {
+  return `${change.type}:${change.type === "deleted" ? change.id : change.task.id}`;
 }
 
 export default function OutlookAddinPage() {
   const [officeReady, setOfficeReady] = useState(false);
   const [token, setToken] = useState("");
   const [savedToken, setSavedToken] = useState<string | null>(null);
-  const [tasks, setTasks] = useState<PendingTask[]>([]);
+  const [weeks, setWeeks] = useState(1);
+  const [changes, setChanges] = useState<WorkCalendarChange[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState<string | null>(null);
-  const [syncedTasks, setSyncedTasks] = useState<Set<string>>(new Set());
+  const [syncedChanges, setSyncedChanges] = useState<Set<string>>(new Set());
+  const [busySharedAt, setBusySharedAt] = useState<Date | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [userEmail, setUserEmail] = useState<string | null>(null);
 
@@ -71,22 +88,31 @@ export default function OutlookAddinPage() {
       setOfficeReady(true);
     }
 
-    // Load saved token from localStorage
-    const saved = localStorage.getItem("resolutionai_addin_token");
+    // Load saved token and settings from localStorage
+    const saved = localStorage.getItem(TOKEN_KEY);
     if (saved) {
       setSavedToken(saved);
     }
+    const savedWeeks = Number(localStorage.getItem(WEEKS_KEY));
+    if (WEEK_OPTIONS.includes(savedWeeks)) {
+      setWeeks(savedWeeks);
+    }
   }, []);
 
+  function getBaseUrl() {
+    return process.env.NEXT_PUBLIC_APP_URL || window.location.origin;
+  }
+
   async function saveToken() {
     if (!token.trim()) return;
-    localStorage.setItem("resolutionai_addin_token", token);
+    localStorage.setItem(TOKEN_KEY, token);
+    localStorage.removeItem(CURSOR_KEY);
     setSavedToken(token);
     setToken("");
-    await fetchTasks(token);
+    await fetchChanges(token);
   }
 
-  async function fetchTasks(authToken?: string) {
+  async function fetchChanges(authToken?: string, weeksAhead = weeks) {
     const useToken = authToken || savedToken;
     if (!useToken) return;
 
@@ -94,8 +120,9 @@ export default function OutlookAddinPage() {
     setError(null);
 
     try {
-      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || window.location.origin;
-      const response = await fetch(`${baseUrl}/api/addin/tasks`, {
+      const since = localStorage.getItem(CURSOR_KEY);
+      const params = new URLSearchParams({ weeks: String(weeksAhead), ...(since ? { since } : {}) });
+      const response = await fetch(`${getBaseUrl()}/api/addin/changes?${params}`, {
         headers: {
           Authorization: `Bearer ${useToken}`,
         },
@@ -103,76 +130,34 @@ export default function OutlookAddinPage() {
 
       if (!response.ok) {
         if (response.status === 401) {
-          localStorage.removeItem("resolutionai_addin_token");
+          localStorage.removeItem(TOKEN_KEY);
           setSavedToken(null);
           throw new Error("Token expired. Please get a new token from ResolutionAI settings.");
         }
-        throw new Error("Failed to fetch tasks");
+        throw new Error("Failed to fetch changes");
       }
 
       const data = await response.json();
-      setTasks(data.tasks);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch tasks");
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  async function syncTaskToCalendar(task: PendingTask) {
-    setSyncing(task.id);
-    setError(null);
-
-    try {
-      // Create calendar event using Office.js
-      if (window.Office?.context?.mailbox) {
-        const startTime = new Date(task.startTime);
-        const endTime = new Date(task.endTime);
-
-        // Use EWS or REST API to create event
-        // For now, we'll use a workaround - open a new appointment form
-        const mailbox = window.Office.context.mailbox as {
-          displayNewAppointmentForm?: (parameters: {
-            requiredAttendees?: string[];
-            optionalAttendees?: string[];
-            start: Date;
-            end: Date;
-            location?: string;
-            subject: string;
-            body?: string;
-          }) => void;
-        };
-
-        if (mailbox.displayNewAppointmentForm) {
-          mailbox.displayNewAppointmentForm({
-            start: startTime,
-            end: endTime,
-            subject: `[ResolutionAI] ${task.title}`,
-            body: task.description,
-          });
-
-          // Mark as synced (user will save the appointment)
-          await markTaskSynced(task.id, `outlook_${Date.now()}`);
-          setSyncedTasks(prev => new Set(Array.from(prev).concat(task.id)));
-        } else {
-          throw new Error("Calendar API not available");
-        }
+      setChanges(data.changes);
+      setSyncedChanges(new Set());
+      // Nothing to do - the work calendar is up to date as of this cursor
+      if (data.changes.length === 0) {
+        localStorage.setItem(CURSOR_KEY, data.cursor);
+        setNextCursor(null);
       } else {
-        // Fallback for testing outside Outlook
-        console.log("Would create event:", task);
-        await markTaskSynced(task.id, `test_${Date.now()}`);
-        setSyncedTasks(prev => new Set(Array.from(prev).concat(task.id)));
+        setNextCursor(data.cursor);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to sync task");
+      setError(err instanceof Error ? err.message : "Failed to fetch changes");
     } finally {
-      setSyncing(null);
+      setLoading(false);
     }
   }
 
-  async function markTaskSynced(taskId: string, eventId: string) {
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || window.location.origin;
-    await fetch(`${baseUrl}/api/addin/tasks`, {
+  // Tell ResolutionAI which work calendar event holds a task now, and the
+  // version of the task it was written from (null once removed)
+  async function markTaskSynced(taskId: string, synced: { eventId: string; sequence: number } | null) {
+    const response = await fetch(`${getBaseUrl()}/api/addin/tasks`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${savedToken}`,
@@ -180,17 +165,111 @@ export default function OutlookAddinPage() {
       },
       body: JSON.stringify({
         taskId,
-        workCalendarEventId: eventId,
+        workCalendarEventId: synced?.eventId ?? null,
+        sequence: synced?.sequence ?? null,
       }),
     });
+    // A deleted task has nothing left to update
+    if (!response.ok && !(synced === null && response.status === 404)) {
+      throw new Error("Failed to save sync status");
+    }
+  }
+
+  async function applyChange(change: WorkCalendarChange) {
+    // Outside Outlook (for testing) nothing is written
+    if (!isEwsAvailable()) {
+      console.log("Would apply change:", change);
+      if (change.type === "deleted") {
+        await markTaskSynced(change.id, null);
+      } else {
+        const eventId = change.type === "updated" ? change.workCalendarEventId : `test_${Date.now()}`;
+        await markTaskSynced(change.task.id, { eventId, sequence: change.task.sequence });
+      }
+      return;
+    }
+
+    if (change.type === "created") {
+      await markTaskSynced(change.task.id, { eventId: await createWorkEvent(change.task), sequence: change.task.sequence });
+    } else if (change.type === "updated") {
+      try {
+        await updateWorkEvent(change.workCalendarEventId, change.task);
+        await markTaskSynced(change.task.id, { eventId: change.workCalendarEventId, sequence: change.task.sequence });
+      } catch (err) {
+        // Deleted by hand in Outlook - put it back at the new time
+        if (!(err instanceof EwsError && err.code === "ErrorItemNotFound")) throw err;
+        await markTaskSynced(change.task.id, { eventId: await createWorkEvent(change.task), sequence: change.task.sequence });
+      }
+    } else {
+      await deleteWorkEvent(change.workCalendarEventId);
+      await markTaskSynced(change.id, null);
+    }
+  }
+
+  async function syncChange(change: WorkCalendarChange): Promise<boolean> {
+    const key = getChangeKey(change);
+    setSyncing(key);
+    setError(null);
+
+    try {
+      await applyChange(change);
+      setSyncedChanges(prev => new Set(Array.from(prev).concat(key)));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sync task");
+      return false;
+    } finally {
+      setSyncing(null);
+    }
+  }
+
+  // Share the work calendar's busy time so tasks are scheduled around it
+  async function shareBusyTime() {
+    if (!isEwsAvailable()) return;
+
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7)); // Monday
+    const end = new Date(start);
+    end.setDate(end.getDate() + weeks * 7);
+
+    try {
+      const blocks = await findBusyBlocks(start, end);
+      const response = await fetch(`${getBaseUrl()}/api/addin/busy`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${savedToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ start: start.toISOString(), end: end.toISOString(), blocks }),
+      });
+      if (!response.ok) throw new Error("Failed to share busy time");
+      setBusySharedAt(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to share busy time");
+    }
   }
 
-  async function syncAllTasks() {
-    for (const task of tasks) {
-      if (!syncedTasks.has(task.id)) {
-        await syncTaskToCalendar(task);
+  async function syncAllChanges() {
+    let failed = false;
+    for (const change of changes) {
+      if (!syncedChanges.has(getChangeKey(change))) {
+        failed = !(await syncChange(change)) || failed;
       }
     }
+
+    // Only move on once everything is applied, so nothing is missed
+    if (!failed && nextCursor) {
+      localStorage.setItem(CURSOR_KEY, nextCursor);
+      setNextCursor(null);
+    }
+    await shareBusyTime();
+  }
+
+  function changeWeeks(value: string) {
+    const newWeeks = Number(value);
+    setWeeks(newWeeks);
+    localStorage.setItem(WEEKS_KEY, String(newWeeks));
+    fetchChanges(undefined, newWeeks);
   }
 
   function formatTime(isoString: string) {
@@ -209,9 +288,10 @@ export default function OutlookAddinPage() {
   }
 
   function disconnectToken() {
-    localStorage.removeItem("resolutionai_addin_token");
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(CURSOR_KEY);
     setSavedToken(null);
-    setTasks([]);
+    setChanges([]);
   }
 
   // Not connected - show token input
@@ -268,7 +348,7 @@ export default function OutlookAddinPage() {
     );
   }
 
-  // Connected - show tasks
+  // Connected - show changes to sync
   return (
     <div className="p-4 max-w-md mx-auto space-y-4">
       <Card>
@@ -288,13 +368,35 @@ export default function OutlookAddinPage() {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => fetchTasks()}
+              onClick={() => fetchChanges()}
               disabled={loading}
             >
               <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
             </Button>
           </div>
         </CardHeader>
+        <CardContent className="pt-0 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs text-gray-600">Sync ahead</Label>
+            <Select value={String(weeks)} onValueChange={changeWeeks}>
+              <SelectTrigger className="h-8 w-28 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEK_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option === 1 ? "This week" : `${option} weeks`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {busySharedAt && (
+            <p className="text-xs text-gray-500">
+              Busy time shared at {formatTime(busySharedAt.toISOString())}
+            </p>
+          )}
+        </CardContent>
       </Card>
 
       {error && (
@@ -312,76 +414,82 @@ export default function OutlookAddinPage() {
         <Card>
           <CardContent className="py-8 text-center">
             <Loader2 className="w-8 h-8 animate-spin mx-auto text-gray-400" />
-            <p className="text-sm text-gray-500 mt-2">Loading tasks...</p>
+            <p className="text-sm text-gray-500 mt-2">Loading changes...</p>
           </CardContent>
         </Card>
-      ) : tasks.length === 0 ? (
+      ) : changes.length === 0 ? (
         <Card>
           <CardContent className="py-8 text-center">
             <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-2" />
             <p className="font-medium">All synced!</p>
             <p className="text-sm text-gray-500">
-              No pending tasks to sync to your work calendar
+              Your work calendar is up to date
             </p>
+            {isEwsAvailable() && (
+              <Button size="sm" variant="outline" className="mt-3" onClick={shareBusyTime}>
+                Share busy time
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
         <>
           <div className="flex items-center justify-between">
             <p className="text-sm text-gray-600">
-              {tasks.length} task{tasks.length !== 1 ? "s" : ""} to sync
+              {changes.length} change{changes.length !== 1 ? "s" : ""} to sync
             </p>
-            <Button size="sm" onClick={syncAllTasks} disabled={syncing !== null}>
+            <Button size="sm" onClick={syncAllChanges} disabled={syncing !== null}>
               Sync All
             </Button>
           </div>
 
           <div className="space-y-2">
-            {tasks.map((task) => (
-              <Card
-                key={task.id}
-                className={syncedTasks.has(task.id) ? "bg-green-50 border-green-200" : ""}
-              >
-                <CardContent className="py-3">
-                  <div className="flex items-start justify-between gap-2">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2">
-                        <p className="font-medium text-sm truncate">{task.title}</p>
-                        <Badge
-                          variant="outline"
-                          className={`text-xs ${
-                            task.type === "resolution"
-                              ? "border-purple-300 text-purple-700"
-                              : "border-blue-300 text-blue-700"
-                          }`}
-                        >
-                          {task.type}
-                        </Badge>
+            {changes.map((change) => {
+              const key = getChangeKey(change);
+              const synced = syncedChanges.has(key);
+              return (
+                <Card
+                  key={key}
+                  className={synced ? "bg-green-50 border-green-200" : ""}
+                >
+                  <CardContent className="py-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium text-sm truncate">
+                            {change.type === "deleted" ? "Removed task" : change.task.title}
+                          </p>
+                          <Badge variant="outline" className={`text-xs ${CHANGE_LABELS[change.type].className}`}>
+                            {CHANGE_LABELS[change.type].label}
+                          </Badge>
+                        </div>
+                        {change.type !== "deleted" && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {formatDate(change.task.startTime)} • {formatTime(change.task.startTime)} -{" "}
+                            {formatTime(change.task.endTime)}
+                          </p>
+                        )}
                       </div>
-                      <p className="text-xs text-gray-500 mt-1">
-                        {formatDate(task.startTime)} • {formatTime(task.startTime)} -{" "}
-                        {formatTime(task.endTime)}
-                      </p>
+                      <Button
+                        size="sm"
+                        variant={synced ? "ghost" : "default"}
+                        onClick={() => syncChange(change)}
+                        disabled={syncing === key || synced}
+                        className="shrink-0"
+                      >
+                        {syncing === key ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : synced ? (
+                          <Check className="w-4 h-4 text-green-600" />
+                        ) : (
+                          "Sync"
+                        )}
+                      </Button>
                     </div>
-                    <Button
-                      size="sm"
-                      variant={syncedTasks.has(task.id) ? "ghost" : "default"}
-                      onClick={() => syncTaskToCalendar(task)}
-                      disabled={syncing === task.id || syncedTasks.has(task.id)}
-                      className="shrink-0"
-                    >
-                      {syncing === task.id ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : syncedTasks.has(task.id) ? (
-                        <Check className="w-4 h-4 text-green-600" />
-                      ) : (
-                        "Sync"
-                      )}
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </>
       )}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { addWeeks } from "date-fns";
+import { MAX_ADDIN_WEEKS, getAddinUser, replaceWorkCalendarBlocks } from "@/lib/addin-sync";
+
+export const dynamic = "force-dynamic";
+
+const busySchema = z.object({
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  blocks: z.array(z.object({
+    eventId: z.string().min(1),
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+    showAs: z.enum(["busy", "tentative", "free", "oof", "workingElsewhere"]).default("busy"),
+    isAllDay: z.boolean().default(false),
+  })).max(2000),
+}).refine((b) => b.end > b.start, { message: "end must be after start" })
+  .refine((b) => b.end <= addWeeks(b.start, MAX_ADDIN_WEEKS + 1), { message: "Range is too long" });
+
+// PUT - Replace the work calendar's busy time between start and end, so the
+// scheduler works around it
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getAddinUser(request.headers.get("Authorization"));
+    if (!user) {
+      return NextResponse.json({ error: "Invalid or expired token" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { start, end, blocks } = busySchema.parse(body);
+
+    const count = await replaceWorkCalendarBlocks(
+      user.id,
+      { start, end },
+      blocks.filter((b) => b.end > b.start)
+    );
+
+    return NextResponse.json({ success: true, count });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error saving work calendar busy time:", error);
+    return NextResponse.json(
+      { error: "Failed to save busy time" },
+      { status: 500 }
+    );
+  }
+}
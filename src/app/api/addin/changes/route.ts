@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValid, parseISO } from "date-fns";
+import { MAX_ADDIN_WEEKS, getAddinChanges, getAddinRange, getAddinUser } from "@/lib/addin-sync";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+// GET - What the add-in has to create, update and delete in the work
+// calendar since its last sync (?since=<cursor>, &weeks=N to look ahead)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAddinUser(request.headers.get("Authorization"));
+    if (!user) {
+      return NextResponse.json({ error: "Invalid or expired token" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const sinceParam = searchParams.get("since");
+    const since = sinceParam ? parseISO(sinceParam) : null;
+    if (since && !isValid(since)) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+    const weeks = Math.min(Math.max(Number(searchParams.get("weeks")) || 1, 1), MAX_ADDIN_WEEKS);
+
+    const range = getAddinRange(resolveTimeZone(user.timezone), weeks);
+    const { changes, cursor } = await getAddinChanges(user.id, range, since);
+
+    console.log(`[addinChanges] ${changes.length} changes over ${weeks} weeks for user ${user.id}`);
+    return NextResponse.json({ changes, cursor });
+  } catch (error) {
+    console.error("Error fetching add-in changes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch changes" },
+      { status: 500 }
+    );
+  }
+}
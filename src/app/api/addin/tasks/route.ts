@@ -1,45 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
-import { startOfWeek, endOfWeek } from "date-fns";
+import { z } from "zod";
+import { MAX_ADDIN_WEEKS, getAddinRange, getAddinUser, toAddinTask } from "@/lib/addin-sync";
+import { resolveTimeZone } from "@/lib/timezone";
 
 // Force dynamic rendering
 export const dynamic = "force-dynamic";
 
-// GET - Fetch pending tasks for the add-in to sync
+const syncedSchema = z
+  .object({
+    taskId: z.string().min(1),
+    // null once the add-in has removed the event
+    workCalendarEventId: z.string().min(1).nullable(),
+    // The task's sequence when the add-in wrote the event
+    sequence: z.number().int().nullable(),
+  })
+  .refine((data) => data.workCalendarEventId === null || data.sequence !== null);
+
+// GET - Fetch pending tasks for the add-in to sync (?weeks=N covers this
+// week and the ones after it)
 export async function GET(request: NextRequest) {
   try {
     // Get user token from header (add-in will send this)
-    const authHeader = request.headers.get("Authorization");
-    if (!authHeader?.startsWith("Bearer ")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-
-    // Validate the token (simple token-based auth for add-in)
-    const addinToken = await prisma.addinToken.findUnique({
-      where: { token },
-      include: { user: true },
-    });
-
-    if (!addinToken || addinToken.expiresAt < new Date()) {
+    const user = await getAddinUser(request.headers.get("Authorization"));
+    if (!user) {
       return NextResponse.json({ error: "Invalid or expired token" }, { status: 401 });
     }
 
-    const userId = addinToken.userId;
-
-    // Get current week's scheduled tasks that haven't been synced to work calendar
-    const now = new Date();
-    const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-    const weekEnd = endOfWeek(now, { weekStartsOn: 1 });
+    const weeks = Math.min(Math.max(Number(request.nextUrl.searchParams.get("weeks")) || 1, 1), MAX_ADDIN_WEEKS);
+    const range = getAddinRange(resolveTimeZone(user.timezone), weeks);
 
     const pendingTasks = await prisma.scheduledTask.findMany({
       where: {
-        assignedToUserId: userId,
+        assignedToUserId: user.id,
         scheduledDate: {
-          gte: weekStart,
-          lte: weekEnd,
+          gte: range.start,
+          lte: range.end,
         },
+        status: { not: "skipped" },
         // Only get tasks not yet synced to work calendar
         workCalendarEventId: null,
       },
@@ -52,16 +50,7 @@ export async function GET(request: NextRequest) {
     });
 
     // Format tasks for the add-in
-    const tasks = pendingTasks.map((st) => ({
-      id: st.id,
-      taskId: st.taskId,
-      title: st.task.name,
-      type: st.task.type,
-      category: st.task.category,
-      startTime: st.startTime.toISOString(),
-      endTime: st.endTime.toISOString(),
-      description: st.aiReasoning || `Scheduled by ResolutionAI`,
-    }));
+    const tasks = pendingTasks.map(toAddinTask);
 
     return NextResponse.json({
       tasks,
@@ -76,39 +65,23 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Mark tasks as synced to work calendar
+// POST - Record the work calendar event the add-in wrote for a task (or
+// removed, with a null workCalendarEventId)
 export async function POST(request: NextRequest) {
   try {
-    const authHeader = request.headers.get("Authorization");
-    if (!authHeader?.startsWith("Bearer ")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-
-    const addinToken = await prisma.addinToken.findUnique({
-      where: { token },
-    });
-
-    if (!addinToken || addinToken.expiresAt < new Date()) {
+    const user = await getAddinUser(request.headers.get("Authorization"));
+    if (!user) {
       return NextResponse.json({ error: "Invalid or expired token" }, { status: 401 });
     }
 
     const body = await request.json();
-    const { taskId, workCalendarEventId } = body;
-
-    if (!taskId || !workCalendarEventId) {
-      return NextResponse.json(
-        { error: "taskId and workCalendarEventId are required" },
-        { status: 400 }
-      );
-    }
+    const { taskId, workCalendarEventId, sequence } = syncedSchema.parse(body);
 
     // Verify the task belongs to this user
     const task = await prisma.scheduledTask.findFirst({
       where: {
         id: taskId,
-        assignedToUserId: addinToken.userId,
+        assignedToUserId: user.id,
       },
     });
 
@@ -116,14 +89,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
 
-    // Update the task with the work calendar event ID
+    // The event matches the version the add-in wrote - if the task has moved
+    // since, it shows up as updated again
     await prisma.scheduledTask.update({
       where: { id: taskId },
-      data: { workCalendarEventId },
+      data: {
+        workCalendarEventId,
+        workEventSequence: workCalendarEventId ? sequence : null,
+      },
     });
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: "taskId, workCalendarEventId and sequence are required" }, { status: 400 });
+    }
     console.error("Error updating synced task:", error);
     return NextResponse.json(
       { error: "Failed to update task" },
@@ -19,6 +19,7 @@ export async function GET() {
       providers,
       google: providers.includes("google"),
       microsoft: providers.includes("azure-ad"),
+      caldav: providers.includes("caldav"),
     });
   } catch (error) {
     console.error("Error fetching calendar providers:", error);
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getUserCalendarProviders } from "@/lib/calendar";
+import { ensureGoogleWatchChannel, recordSyncError, syncGoogleCalendar } from "@/lib/calendar-sync";
+
+export const dynamic = "force-dynamic";
+
+// GET - Sync status for the user's Google calendar
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const state = await prisma.calendarSyncState.findFirst({
+      where: { userId: session.user.id, provider: "google" },
+      select: { lastSyncedAt: true, lastError: true, channelExpiresAt: true },
+    });
+
+    return NextResponse.json({
+      lastSyncedAt: state?.lastSyncedAt ?? null,
+      lastError: state?.lastError ?? null,
+      pushEnabled: !!state?.channelExpiresAt && state.channelExpiresAt > new Date(),
+    });
+  } catch (error) {
+    console.error("Error fetching calendar sync status:", error);
+    return NextResponse.json({ error: "Failed to fetch sync status" }, { status: 500 });
+  }
+}
+
+// POST - Pull changes from Google Calendar now
+export async function POST() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!(await getUserCalendarProviders(session.user.id)).includes("google")) {
+    return NextResponse.json({ error: "Two-way sync is only available for Google Calendar" }, { status: 400 });
+  }
+
+  try {
+    const result = await syncGoogleCalendar(session.user.id);
+    const pushEnabled = await ensureGoogleWatchChannel(session.user.id).catch((error) => {
+      console.error("Error registering Google push channel:", error);
+      return false;
+    });
+
+    return NextResponse.json({ ...result, pushEnabled });
+  } catch (error) {
+    console.error("Error syncing Google Calendar:", error);
+    await recordSyncError(session.user.id, error);
+    return NextResponse.json({ error: "Failed to sync Google Calendar" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Google Calendar Push Notifications
+ *
+ * Google calls this endpoint (registered by ensureGoogleWatchChannel) whenever
+ * a watched calendar changes. The notification carries no event data, only
+ * the channel; we check the channel's secret token, run an incremental sync
+ * and repair sessions that changed events now clash with.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getUserIdForChannel, recordSyncError, syncGoogleCalendar } from "@/lib/calendar-sync";
+import { repairSchedule } from "@/lib/schedule-repair";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  const channelId = request.headers.get("x-goog-channel-id");
+  const channelToken = request.headers.get("x-goog-channel-token");
+  const resourceState = request.headers.get("x-goog-resource-state");
+
+  if (!channelId) {
+    return NextResponse.json({ error: "Missing channel" }, { status: 400 });
+  }
+
+  const userId = await getUserIdForChannel(channelId, channelToken);
+  if (!userId) {
+    // Unknown or stale channel - a 404 tells Google to stop sending
+    return NextResponse.json({ error: "Unknown channel" }, { status: 404 });
+  }
+
+  // "sync" is the handshake sent when the channel is created
+  if (resourceState === "sync") {
+    return NextResponse.json({ success: true });
+  }
+
+  try {
+    const result = await syncGoogleCalendar(userId);
+    const repair = await repairSchedule(userId, { notify: true }).catch((error) => {
+      console.error(`[Calendar Webhook] Repair failed for ${userId}:`, error);
+      return null;
+    });
+    return NextResponse.json({
+      success: true,
+      moved: result.moved,
+      deleted: result.deleted,
+      conflicts: result.conflicts.length,
+      repaired: repair?.moved.length,
+      proposed: repair?.proposed.length,
+    });
+  } catch (error) {
+    console.error(`[Calendar Webhook] Sync failed for ${userId}:`, error);
+    await recordSyncError(userId, error);
+    // Acknowledge anyway so Google doesn't retry in a tight loop; the cron job catches up
+    return NextResponse.json({ success: false });
+  }
+}
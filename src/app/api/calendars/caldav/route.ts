@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { CALDAV_PRESETS, CalDavError, discoverCalDavCalendar, encryptPassword } from "@/lib/caldav";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const connectCalDavSchema = z.object({
+  preset: z.enum(Object.keys(CALDAV_PRESETS) as [keyof typeof CALDAV_PRESETS]).optional(),
+  serverUrl: z.string().url("Please enter a valid server URL").refine(
+    (url) => url.startsWith("https://"),
+    "Server URL must start with https://"
+  ).optional(),
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "App-specific password is required"),
+});
+
+// GET - The user's CalDAV account (without the password)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const account = await prisma.calDavAccount.findUnique({
+      where: { userId: session.user.id },
+      select: { serverUrl: true, username: true, calendarName: true, lastSync: true, lastError: true },
+    });
+
+    return NextResponse.json({ account });
+  } catch (error) {
+    console.error("Error fetching CalDAV account:", error);
+    return NextResponse.json({ error: "Failed to fetch CalDAV account" }, { status: 500 });
+  }
+}
+
+// POST - Connect (or replace) the user's CalDAV account
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { preset, serverUrl: customUrl, username, password } = connectCalDavSchema.parse(body);
+
+    const serverUrl = customUrl || (preset ? CALDAV_PRESETS[preset].serverUrl : null);
+    if (!serverUrl) {
+      return NextResponse.json({ error: "Server URL is required" }, { status: 400 });
+    }
+
+    // Verify the credentials and find the calendar to use
+    let discovered;
+    try {
+      discovered = await discoverCalDavCalendar({ serverUrl, username, password });
+    } catch (error) {
+      console.error("CalDAV discovery failed:", error);
+      return NextResponse.json(
+        {
+          error: error instanceof CalDavError
+            ? error.message
+            : "Could not connect to the CalDAV server. Please check the server URL.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = {
+      serverUrl,
+      username,
+      password: encryptPassword(password),
+      calendarUrl: discovered.calendarUrl,
+      calendarName: discovered.displayName,
+      lastSync: null,
+      lastError: null,
+    };
+
+    const account = await prisma.calDavAccount.upsert({
+      where: { userId: session.user.id },
+      update: data,
+      create: { userId: session.user.id, ...data },
+      select: { serverUrl: true, username: true, calendarName: true, lastSync: true, lastError: true },
+    });
+
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error connecting CalDAV account:", error);
+    return NextResponse.json({ error: "Failed to connect CalDAV account" }, { status: 500 });
+  }
+}
+
+// DELETE - Disconnect the user's CalDAV account
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await prisma.calDavAccount.deleteMany({
+      where: { userId: session.user.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error disconnecting CalDAV account:", error);
+    return NextResponse.json({ error: "Failed to disconnect CalDAV account" }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { EXTERNAL_CALENDAR_FIELDS, refreshExternalCalendar } from "@/lib/external-calendar-cache";
 
 export const dynamic = "force-dynamic";
 
@@ -46,7 +47,7 @@ export async function DELETE(
   }
 }
 
-// PATCH - Toggle calendar active status
+// PATCH - Toggle calendar active status, or retry a failing feed now ({ refresh: true })
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -74,13 +75,21 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
     }
 
-    const updated = await prisma.externalCalendar.update({
+    const saved = await prisma.externalCalendar.update({
       where: { id },
       data: {
         isActive: body.isActive ?? calendar.isActive,
         name: body.name ?? calendar.name,
       },
     });
+    if (body.refresh === true) {
+      await refreshExternalCalendar(saved);
+    }
+
+    const updated = await prisma.externalCalendar.findUnique({
+      where: { id },
+      select: EXTERNAL_CALENDAR_FIELDS,
+    });
 
     return NextResponse.json({ calendar: updated });
   } catch (error) {
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
+import { ICSFeedResponse, fetchICSFeed } from "@/lib/ics-parser";
+import { EXTERNAL_CALENDAR_FIELDS, buildFeedCache } from "@/lib/external-calendar-cache";
 
 export const dynamic = "force-dynamic";
 
@@ -23,9 +25,11 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // The cached feed stays server-side
     const calendars = await prisma.externalCalendar.findMany({
       where: { userId: session.user.id },
       orderBy: { createdAt: "asc" },
+      select: EXTERNAL_CALENDAR_FIELDS,
     });
 
     return NextResponse.json({ calendars });
@@ -70,32 +74,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate the URL by trying to fetch it
+    // Validate the URL by trying to fetch it - the download seeds the cache
+    let feed: ICSFeedResponse;
     try {
-      const response = await fetch(normalizedUrl, {
-        headers: { "Accept": "text/calendar" },
-      });
-
-      if (!response.ok) {
-        return NextResponse.json(
-          { error: "Could not access the calendar URL. Please check the URL is correct and publicly accessible." },
-          { status: 400 }
-        );
-      }
-
-      const content = await response.text();
-      if (!content.includes("BEGIN:VCALENDAR")) {
-        return NextResponse.json(
-          { error: "The URL does not appear to be a valid calendar file (ICS format)" },
-          { status: 400 }
-        );
-      }
-    } catch {
+      feed = await fetchICSFeed(normalizedUrl);
+    } catch (error) {
+      const notCalendar = error instanceof Error && error.message === "Response is not an ICS calendar";
       return NextResponse.json(
-        { error: "Could not connect to the calendar URL. Please check the URL is correct." },
+        {
+          error: notCalendar
+            ? "The URL does not appear to be a valid calendar file (ICS format)"
+            : "Could not access the calendar URL. Please check the URL is correct and publicly accessible.",
+        },
         { status: 400 }
       );
     }
+    if (feed.status !== "modified") {
+      return NextResponse.json({ error: "Could not access the calendar URL." }, { status: 400 });
+    }
 
     // Create the calendar
     const calendar = await prisma.externalCalendar.create({
@@ -103,8 +99,9 @@ export async function POST(request: NextRequest) {
         userId: session.user.id,
         name,
         url: normalizedUrl,
-        lastSync: new Date(),
+        ...buildFeedCache(feed.icsData, feed),
       },
+      select: EXTERNAL_CALENDAR_FIELDS,
     });
 
     return NextResponse.json({ calendar }, { status: 201 });
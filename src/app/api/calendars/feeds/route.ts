@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const createFeedSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  includeFamily: z.boolean().default(false),
+});
+
+// Subscription URLs for a feed token (webcal:// opens straight in calendar apps)
+function getFeedUrls(request: NextRequest, token: string) {
+  const baseUrl = process.env.NEXTAUTH_URL || request.nextUrl.origin;
+  const httpsUrl = `${baseUrl}/api/ics/${token}.ics`;
+  return { httpsUrl, webcalUrl: httpsUrl.replace(/^https?:\/\//, "webcal://") };
+}
+
+// GET - List the user's published calendar feeds
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const feeds = await prisma.calendarFeed.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({
+      feeds: feeds.map(({ token, ...feed }) => ({ ...feed, ...getFeedUrls(request, token) })),
+    });
+  } catch (error) {
+    console.error("Error fetching calendar feeds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar feeds" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Publish a new feed of the user's (or the family's) scheduled tasks
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, includeFamily } = createFeedSchema.parse(body);
+
+    if (includeFamily) {
+      const membership = await prisma.familyMember.findUnique({ where: { userId: session.user.id } });
+      if (!membership) {
+        return NextResponse.json({ error: "You're not in a family yet" }, { status: 400 });
+      }
+    }
+
+    const { token, ...feed } = await prisma.calendarFeed.create({
+      data: {
+        userId: session.user.id,
+        token: randomBytes(32).toString("hex"),
+        name: name || (includeFamily ? "Family tasks" : "My tasks"),
+        includeFamily,
+      },
+    });
+
+    return NextResponse.json({ feed: { ...feed, ...getFeedUrls(request, token) } }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error creating calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to create calendar feed" },
+      { status: 500 }
+    );
+  }
+}
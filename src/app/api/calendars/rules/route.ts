@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { addDays } from "date-fns";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getCalendarEvents } from "@/lib/calendar";
+import { TENTATIVE_HANDLING } from "@/lib/calendar-rules";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+// How far ahead to look for the user's calendars
+const LOOKAHEAD_DAYS = 28;
+
+const ruleSchema = z.object({
+  calendarId: z.string().min(1),
+  calendarName: z.string().min(1).max(200),
+  ignoreAllDay: z.boolean(),
+  tentative: z.enum(TENTATIVE_HANDLING),
+});
+
+// GET - The user's calendars (as seen in the coming weeks) with their rules
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const now = new Date();
+    const [events, rules] = await Promise.all([
+      getCalendarEvents(userId, now, addDays(now, LOOKAHEAD_DAYS)),
+      prisma.calendarRule.findMany({ where: { userId } }),
+    ]);
+
+    // Calendars with a rule stay listed even when they've no upcoming events
+    const calendars = new Map(
+      rules.map((r) => [r.calendarId, { calendarId: r.calendarId, calendarName: r.calendarName, allDayCount: 0, tentativeCount: 0 }])
+    );
+    for (const event of events) {
+      if (!event.calendarId) continue;
+      const calendar = calendars.get(event.calendarId)
+        ?? { calendarId: event.calendarId, calendarName: event.calendarName || "Calendar", allDayCount: 0, tentativeCount: 0 };
+      if (event.isAllDay) calendar.allDayCount++;
+      if (event.busyStatus === "tentative") calendar.tentativeCount++;
+      calendars.set(event.calendarId, calendar);
+    }
+
+    return NextResponse.json({
+      calendars: Array.from(calendars.values()).map((calendar) => {
+        const rule = rules.find((r) => r.calendarId === calendar.calendarId);
+        return {
+          ...calendar,
+          ignoreAllDay: rule?.ignoreAllDay ?? false,
+          tentative: rule?.tentative ?? "busy",
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("Error fetching calendar rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Set how one calendar's events count against the user's free time
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = await request.json();
+    const { calendarId, calendarName, ignoreAllDay, tentative } = ruleSchema.parse(body);
+
+    const rule = await prisma.calendarRule.upsert({
+      where: { userId_calendarId: { userId, calendarId } },
+      create: { userId, calendarId, calendarName, ignoreAllDay, tentative },
+      update: { calendarName, ignoreAllDay, tentative },
+    });
+
+    console.log(`[calendarRules] ${calendarName}: ignoreAllDay=${ignoreAllDay}, tentative=${tentative} for user ${userId}`);
+    return NextResponse.json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error saving calendar rule:", error);
+    return NextResponse.json(
+      { error: "Failed to save calendar rule" },
+      { status: 500 }
+    );
+  }
+}
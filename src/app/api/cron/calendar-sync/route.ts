@@ -0,0 +1,117 @@
+/**
+ * Calendar Sync Cron Job
+ *
+ * Runs every hour as a safety net for the Google push-channel webhook: pulls
+ * calendar changes for every user with Google Calendar connected and renews
+ * push channels before they expire. Then, for every user with any calendar
+ * (Google, Microsoft, CalDAV, ICS or the Outlook add-in's work calendar),
+ * repairs sessions that new events now clash with (see schedule-repair.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { ensureGoogleWatchChannel, recordSyncError, syncGoogleCalendar } from "@/lib/calendar-sync";
+import { repairSchedule } from "@/lib/schedule-repair";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const accounts = await prisma.account.findMany({
+      where: { provider: "google", access_token: { not: null } },
+      select: { userId: true },
+      distinct: ["userId"],
+    });
+
+    console.log(`[Calendar Sync] Syncing ${accounts.length} Google calendars`);
+
+    const results = new Map<string, { userId: string; status: string; moved?: number; deleted?: number; conflicts?: number; repaired?: number; proposed?: number }>();
+
+    for (const { userId } of accounts) {
+      try {
+        const result = await syncGoogleCalendar(userId);
+        await ensureGoogleWatchChannel(userId).catch((error) => {
+          console.error(`[Calendar Sync] Failed to renew push channel for ${userId}:`, error);
+        });
+        results.set(userId, {
+          userId,
+          status: "success",
+          moved: result.moved,
+          deleted: result.deleted,
+          conflicts: result.conflicts.length,
+        });
+      } catch (error) {
+        console.error(`[Calendar Sync] Error syncing ${userId}:`, error);
+        await recordSyncError(userId, error);
+        results.set(userId, {
+          userId,
+          status: `error - ${error instanceof Error ? error.message : "unknown"}`,
+        });
+      }
+    }
+
+    // Repair for every user with a calendar, whatever the provider - repair
+    // reads their events live, so Microsoft, CalDAV, ICS and work calendar
+    // changes are picked up without a sync of their own
+    const calendarUserIds = await getCalendarUserIds();
+    console.log(`[Calendar Sync] Repairing schedules for ${calendarUserIds.length} users`);
+
+    for (const userId of calendarUserIds) {
+      const repair = await repairSchedule(userId, { notify: true }).catch((error) => {
+        console.error(`[Calendar Sync] Failed to repair schedule for ${userId}:`, error);
+        return null;
+      });
+      const row = results.get(userId) ?? { userId, status: repair ? "success" : "error - repair failed" };
+      results.set(userId, { ...row, repaired: repair?.moved.length, proposed: repair?.proposed.length });
+    }
+
+    return NextResponse.json({
+      success: true,
+      processed: results.size,
+      results: Array.from(results.values()),
+    });
+  } catch (error) {
+    console.error("[Calendar Sync] Critical error:", error);
+    return NextResponse.json(
+      { error: "Failed to sync calendars" },
+      { status: 500 }
+    );
+  }
+}
+
+// Support GET for manual testing
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: "Use POST with proper authorization" },
+      { status: 405 }
+    );
+  }
+  return POST(request);
+}
+
+// Users with any calendar connected or subscribed
+async function getCalendarUserIds(): Promise<string[]> {
+  const [accounts, calDavAccounts, externalCalendars, workBlocks] = await Promise.all([
+    prisma.account.findMany({
+      where: { provider: { in: ["google", "azure-ad"] }, access_token: { not: null } },
+      select: { userId: true },
+      distinct: ["userId"],
+    }),
+    prisma.calDavAccount.findMany({ select: { userId: true } }),
+    prisma.externalCalendar.findMany({ where: { isActive: true }, select: { userId: true }, distinct: ["userId"] }),
+    prisma.workCalendarBlock.findMany({ select: { userId: true }, distinct: ["userId"] }),
+  ]);
+
+  return Array.from(new Set([...accounts, ...calDavAccounts, ...externalCalendars, ...workBlocks].map((a) => a.userId)));
+}
@@ -0,0 +1,52 @@
+/**
+ * External Calendar Refresh Cron Job
+ *
+ * Runs every 15 minutes: re-checks subscribed ICS feeds whose cached copy
+ * has gone stale, with conditional requests, skipping feeds that are backing
+ * off after failures (see external-calendar-cache.ts). Keeps the download off
+ * the request path for calendar pages and the scheduler.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { refreshStaleExternalCalendars } from "@/lib/external-calendar-cache";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { checked, failed } = await refreshStaleExternalCalendars();
+
+    return NextResponse.json({
+      success: true,
+      processed: checked,
+      failed,
+    });
+  } catch (error) {
+    console.error("[External Calendars] Critical error:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh external calendars" },
+      { status: 500 }
+    );
+  }
+}
+
+// Support GET for manual testing
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: "Use POST with proper authorization" },
+      { status: 405 }
+    );
+  }
+  return POST(request);
+}
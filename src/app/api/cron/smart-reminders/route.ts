@@ -7,6 +7,9 @@
  * - Traffic estimates
  * - Calendar density
  * - User preferences
+ *
+ * Reminders are only sent during each user's available hours on their own
+ * clock, so a task early in the morning doesn't trigger a reminder overnight.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -16,9 +19,14 @@ import { addHours, format, isWithinInterval } from "date-fns";
 import * as calendarTools from "@/lib/agent-tools/calendar";
 import * as contextTools from "@/lib/agent-tools/context";
 import * as preferenceTools from "@/lib/agent-tools/preferences";
+import { formatInTimeZone, nowInTimeZone } from "@/lib/timezone";
 
 const CRON_SECRET = process.env.CRON_SECRET;
 
+// Sessions starting between 1 and 4 hours from now get a reminder
+const REMINDER_WINDOW_START_HOURS = 1;
+const REMINDER_WINDOW_END_HOURS = 4;
+
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
@@ -35,6 +43,7 @@ interface UpcomingTask {
   duration: number;
   userId: string;
   userName: string;
+  timeZone: string | null;
   category: string | null;
 }
 
@@ -63,8 +72,8 @@ export async function POST(request: NextRequest) {
     }
 
     const now = new Date();
-    const windowStart = addHours(now, 1); // Tasks starting in 1 hour
-    const windowEnd = addHours(now, 4); // Up to 4 hours from now
+    const windowStart = addHours(now, REMINDER_WINDOW_START_HOURS);
+    const windowEnd = addHours(now, REMINDER_WINDOW_END_HOURS);
 
     console.log(`[Smart Reminders] Checking tasks from ${format(windowStart, "HH:mm")} to ${format(windowEnd, "HH:mm")}`);
 
@@ -80,7 +89,7 @@ export async function POST(request: NextRequest) {
       include: {
         task: true,
         assignedTo: {
-          select: { id: true, name: true, email: true },
+          select: { id: true, name: true, email: true, timezone: true, availableTimeStart: true, availableTimeEnd: true },
         },
       },
     });
@@ -91,7 +100,20 @@ export async function POST(request: NextRequest) {
 
     for (const scheduledTask of upcomingTasks) {
       try {
-        // Check if we already sent a reminder for this task recently
+        // Only remind during the user's available hours in their time zone
+        const { timezone, availableTimeStart, availableTimeEnd } = scheduledTask.assignedTo;
+        const localHour = nowInTimeZone(timezone).getHours();
+        if (localHour < availableTimeStart || localHour >= availableTimeEnd) {
+          results.push({
+            userId: scheduledTask.assignedToUserId,
+            taskName: scheduledTask.task.name,
+            status: `skipped - outside available hours (${localHour}:00 local time)`,
+          });
+          continue;
+        }
+
+        // Check if we already sent a reminder for this task while it was in
+        // the window - the hourly run sees each session several times
         const existingReminder = await prisma.notification.findFirst({
           where: {
             userId: scheduledTask.assignedToUserId,
@@ -101,7 +123,7 @@ export async function POST(request: NextRequest) {
               equals: scheduledTask.id,
             },
             createdAt: {
-              gte: addHours(now, -2), // Within last 2 hours
+              gte: addHours(now, -REMINDER_WINDOW_END_HOURS),
             },
           },
         });
@@ -125,6 +147,7 @@ export async function POST(request: NextRequest) {
           duration: scheduledTask.task.duration,
           userId: scheduledTask.assignedToUserId,
           userName: scheduledTask.assignedTo.name || scheduledTask.assignedTo.email || "User",
+          timeZone: timezone,
           category: scheduledTask.task.category,
         });
 
@@ -424,7 +447,7 @@ function buildReminderPrompt(
   let prompt = `Generate a reminder for:\n`;
   prompt += `- Task: ${task.taskName}\n`;
   prompt += `- Type: ${task.taskType}\n`;
-  prompt += `- Starts in: ${timeUntilTask} minutes (at ${format(task.startTime, "h:mm a")})\n`;
+  prompt += `- Starts in: ${timeUntilTask} minutes (at ${formatInTimeZone(task.startTime, task.timeZone, "h:mm a")})\n`;
   prompt += `- Duration: ${task.duration} minutes\n`;
 
   if (task.category) {
@@ -0,0 +1,94 @@
+/**
+ * Weather Check Cron Job
+ *
+ * Runs every three hours: for everyone with an outdoor session coming up,
+ * re-checks the forecast for the rest of their week and proposes a better
+ * time for any session it has turned against (see schedule-repair.ts).
+ * Sessions are only moved when the user applies the proposal.
+ *
+ * ?weatherProvider=open-meteo|fixture picks the forecast source, e.g. the
+ * WEATHER_FIXTURE file for an offline run (see weather-forecast.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { addDays } from "date-fns";
+import prisma from "@/lib/prisma";
+import { repairSchedule } from "@/lib/schedule-repair";
+import { OUTDOOR_ACTIVITIES, WEATHER_PROVIDERS, WeatherProviderName, getWeatherProvider } from "@/lib/weather-forecast";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const providerName = request.nextUrl.searchParams.get("weatherProvider");
+    if (providerName && !WEATHER_PROVIDERS.includes(providerName as WeatherProviderName)) {
+      return NextResponse.json({ error: `Unknown weather provider: ${providerName}` }, { status: 400 });
+    }
+    if (providerName === "fixture" && !process.env.WEATHER_FIXTURE) {
+      return NextResponse.json({ error: "WEATHER_FIXTURE is not set" }, { status: 400 });
+    }
+    // Loaded once for the whole run
+    const weatherProvider = getWeatherProvider((providerName as WeatherProviderName | null) ?? undefined);
+
+    const now = new Date();
+    const upcoming = await prisma.scheduledTask.findMany({
+      where: {
+        status: "pending",
+        startTime: { gt: now, lte: addDays(now, 7) },
+        task: { outdoorActivity: { in: [...OUTDOOR_ACTIVITIES] } },
+      },
+      select: { assignedToUserId: true },
+      distinct: ["assignedToUserId"],
+    });
+
+    console.log(`[Weather Check] ${upcoming.length} users with outdoor sessions coming up`);
+
+    const results: { userId: string; status: string; proposed?: number; moved?: number }[] = [];
+
+    for (const { assignedToUserId: userId } of upcoming) {
+      try {
+        const repair = await repairSchedule(userId, { notify: true, weatherProvider });
+        results.push({ userId, status: "success", proposed: repair.proposed.length, moved: repair.moved.length });
+      } catch (error) {
+        console.error(`[Weather Check] Error checking ${userId}:`, error);
+        results.push({
+          userId,
+          status: `error - ${error instanceof Error ? error.message : "unknown"}`,
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      processed: results.length,
+      results,
+    });
+  } catch (error) {
+    console.error("[Weather Check] Critical error:", error);
+    return NextResponse.json(
+      { error: "Failed to check the weather" },
+      { status: 500 }
+    );
+  }
+}
+
+// Support GET for manual testing
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json(
+      { error: "Use POST with proper authorization" },
+      { status: 405 }
+    );
+  }
+  return POST(request);
+}
@@ -1,8 +1,10 @@
 /**
  * Weekly Planning Cron Job
  *
- * This endpoint is triggered by Vercel Cron every Sunday at 6:00 PM
- * to generate optimized weekly schedules for all families.
+ * This endpoint is triggered by Vercel Cron every hour on Sundays and Mondays
+ * (UTC) and generates next week's schedule for each family once it is Sunday
+ * 6:00 PM or later in the family's time zone (the admin's, or the first
+ * member's). Pass ?force=true to plan every family regardless of the time.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -14,12 +16,25 @@ import {
   addDays,
   startOfDay,
   endOfDay,
+  eachDayOfInterval,
   format,
   addWeeks,
+  parseISO,
 } from "date-fns";
 import * as calendarTools from "@/lib/agent-tools/calendar";
 import * as taskTools from "@/lib/agent-tools/tasks";
 import * as preferenceTools from "@/lib/agent-tools/preferences";
+import { describeMember } from "@/lib/family-roles";
+import { RotationPlan, describeRotation, getRotationTurns, loadRotationPlans } from "@/lib/rotations";
+import { describeCarriedBalance, getCarriedBalances, updateChoreLedger } from "@/lib/chore-ledger";
+import { formatInTimeZone, fromZonedTime, nowInTimeZone, resolveTimeZone } from "@/lib/timezone";
+import {
+  WeatherForecast,
+  describeUnsuitableHours,
+  findWeatherProblem,
+  getOutdoorActivity,
+  getWeatherForecast,
+} from "@/lib/weather-forecast";
 
 // Verify cron secret to prevent unauthorized access
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -31,16 +46,24 @@ const anthropic = new Anthropic({
 export const dynamic = "force-dynamic";
 export const maxDuration = 300; // 5 minutes max for cron job
 
+// Local hour on Sunday from which next week's plan is generated
+const PLANNING_HOUR = 18;
+
 interface FamilyContext {
   familyId: string;
   familyName: string;
   members: {
     userId: string;
     name: string;
+    role: string;
+    carriedBalance: number; // Weighted minutes ahead of (+) or behind (-) their share
+    timeZone: string;
     tasks: Awaited<ReturnType<typeof taskTools.getUserTasks>>;
     preferences: Awaited<ReturnType<typeof preferenceTools.getAllPreferences>>;
     calendarEvents: Awaited<ReturnType<typeof calendarTools.getCalendarEvents>>;
+    weatherForecast?: WeatherForecast; // For their outdoor tasks
   }[];
+  rotations: Map<string, RotationPlan>;
 }
 
 interface ProposedTask {
@@ -62,12 +85,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Calculate next week's date range
-    const today = new Date();
-    const nextWeekStart = startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 });
-    const nextWeekEnd = endOfWeek(addWeeks(today, 1), { weekStartsOn: 1 });
-
-    console.log(`[Weekly Planning] Generating plans for week: ${format(nextWeekStart, "yyyy-MM-dd")} to ${format(nextWeekEnd, "yyyy-MM-dd")}`);
+    const force = new URL(request.url).searchParams.get("force") === "true";
 
     // Get all families
     const families = await prisma.family.findMany({
@@ -75,7 +93,7 @@ export async function POST(request: NextRequest) {
         members: {
           include: {
             user: {
-              select: { id: true, name: true, email: true },
+              select: { id: true, name: true, email: true, timezone: true },
             },
           },
         },
@@ -86,6 +104,26 @@ export async function POST(request: NextRequest) {
 
     for (const family of families) {
       try {
+        // Plan on the family's own clock
+        const planner = family.members.find((m) => m.role === "admin") || family.members[0];
+        const timeZone = resolveTimeZone(planner?.user.timezone);
+        const today = nowInTimeZone(timeZone);
+
+        if (!force && (today.getDay() !== 0 || today.getHours() < PLANNING_HOUR)) {
+          results.push({
+            familyId: family.id,
+            familyName: family.name,
+            status: `skipped - not yet Sunday evening in ${timeZone}`,
+          });
+          continue;
+        }
+
+        // Calculate next week's date range
+        const nextWeekStart = startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 });
+        const nextWeekEnd = endOfWeek(addWeeks(today, 1), { weekStartsOn: 1 });
+
+        console.log(`[Weekly Planning] Generating plan for ${family.name} (${timeZone}) for week: ${format(nextWeekStart, "yyyy-MM-dd")} to ${format(nextWeekEnd, "yyyy-MM-dd")}`);
+
         // Check if a plan already exists for this week
         const existingPlan = await prisma.weeklyPlan.findUnique({
           where: {
@@ -127,6 +165,29 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Rotated tasks go to whoever's turn it is, whoever the AI picked
+        const rotationTurns = getRotationTurns(planResult.tasks, familyContext.rotations, (task) => task.scheduledDate);
+        planResult.tasks = planResult.tasks.flatMap((task) => {
+          if (!rotationTurns.has(task)) return [task];
+          const turn = rotationTurns.get(task);
+          if (!turn) return []; // Everyone in the rotation is away
+          const assignee = familyContext.members.find((m) => m.userId === turn.userId);
+          return [{ ...task, assignedToUserId: turn.userId, assignedToName: assignee?.name || task.assignedToName }];
+        });
+
+        // Flag outdoor items the assignee's forecast rules out, for whoever reviews the plan
+        planResult.tasks = planResult.tasks.map((task) => {
+          const member = familyContext.members.find((m) => m.userId === task.assignedToUserId);
+          const definition = familyContext.members.flatMap((m) => m.tasks).find((t) => t.id === task.taskId);
+          if (!member?.weatherForecast || !definition) return task;
+          const minutes = (time: string) => parseISO(time).getHours() * 60 + parseISO(time).getMinutes();
+          const problem = findWeatherProblem(definition, task.scheduledDate, minutes(task.startTime), minutes(task.endTime), member.weatherForecast);
+          return problem ? { ...task, reasoning: `${task.reasoning} Forecast: ${problem} - consider another time.` } : task;
+        });
+
+        // The AI works in each assignee's local time
+        const timeZoneByUser = new Map(familyContext.members.map((m) => [m.userId, m.timeZone]));
+
         // Store the plan as a draft
         const weeklyPlan = await prisma.weeklyPlan.create({
           data: {
@@ -141,8 +202,8 @@ export async function POST(request: NextRequest) {
                 taskId: task.taskId,
                 assignedToUserId: task.assignedToUserId,
                 scheduledDate: new Date(task.scheduledDate),
-                startTime: new Date(task.startTime),
-                endTime: new Date(task.endTime),
+                startTime: fromZonedTime(parseISO(task.startTime), timeZoneByUser.get(task.assignedToUserId)),
+                endTime: fromZonedTime(parseISO(task.endTime), timeZoneByUser.get(task.assignedToUserId)),
                 aiReasoning: task.reasoning,
               })),
             },
@@ -199,32 +260,55 @@ export async function POST(request: NextRequest) {
 async function gatherFamilyContext(
   familyId: string,
   familyName: string,
-  members: { userId: string; user: { id: string; name: string | null; email: string | null } }[],
+  members: {
+    userId: string;
+    memberType: string;
+    helpDays: number[];
+    user: { id: string; name: string | null; email: string | null; timezone: string | null };
+  }[],
   weekStart: Date,
   weekEnd: Date
 ): Promise<FamilyContext> {
+  // Credit for past weeks' Life Admin carries into this plan
+  await updateChoreLedger(familyId);
+  const balances = await getCarriedBalances(familyId);
+
   const memberContexts = await Promise.all(
     members.map(async (member) => {
+      const timeZone = resolveTimeZone(member.user.timezone);
       const [tasks, preferences, calendarEvents] = await Promise.all([
         taskTools.getUserTasks(member.userId),
         preferenceTools.getAllPreferences(member.userId),
-        calendarTools.getCalendarEvents(member.userId, weekStart, weekEnd),
+        calendarTools.getCalendarEvents(member.userId, fromZonedTime(weekStart, timeZone), fromZonedTime(weekEnd, timeZone)),
       ]);
+      const weatherForecast = await getWeatherForecast(member.userId, tasks, weekStart, weekEnd, timeZone);
 
       return {
         userId: member.userId,
         name: member.user.name || member.user.email || "Unknown",
+        role: describeMember(member),
+        carriedBalance: balances.get(member.userId) ?? 0,
+        timeZone,
         tasks,
         preferences,
         calendarEvents,
+        weatherForecast,
       };
     })
   );
 
+  // Chore rotations decide who takes each occurrence of rotated tasks
+  const rotations = await loadRotationPlans(
+    memberContexts.flatMap((m) => m.tasks.map((t) => t.id)),
+    weekStart,
+    weekEnd
+  );
+
   return {
     familyId,
     familyName,
     members: memberContexts,
+    rotations,
   };
 }
 
@@ -312,11 +396,15 @@ function buildPlanningPrompt(
   const weekRange = `${format(weekStart, "EEEE, MMMM d")} to ${format(weekEnd, "EEEE, MMMM d, yyyy")}`;
 
   let prompt = `Create an optimized weekly schedule for the ${context.familyName} family for the week of ${weekRange}.\n\n`;
+  const memberName = (userId: string) => context.members.find((m) => m.userId === userId)?.name || "Unknown";
 
   prompt += `## Family Members\n\n`;
 
   for (const member of context.members) {
     prompt += `### ${member.name} (ID: ${member.userId})\n\n`;
+    prompt += `Role: ${member.role}\n\n`;
+    prompt += `Life Admin balance from past weeks: ${describeCarriedBalance(member.carriedBalance)}\n\n`;
+    prompt += `Time zone: ${member.timeZone} (all of ${member.name}'s times below and in your response are local to this zone)\n\n`;
 
     // Tasks
     prompt += `**Tasks to schedule:**\n`;
@@ -328,6 +416,18 @@ function buildPlanningPrompt(
         prompt += `- ${task.name} (ID: ${task.id})\n`;
         prompt += `  - Type: ${task.type}, Duration: ${task.duration} minutes\n`;
         prompt += `  - Priority: ${priority}, Flexible: ${task.isFlexible ? "Yes" : "No"}\n`;
+        const rotation = context.rotations.get(task.id);
+        if (rotation) {
+          prompt += `  - Rotation: ${describeRotation(rotation, memberName, weekStart)} - assign each occurrence to whoever's turn it is\n`;
+        }
+        if (member.weatherForecast && getOutdoorActivity(task)) {
+          const forecast = member.weatherForecast;
+          const badWeather = eachDayOfInterval({ start: weekStart, end: weekEnd }).flatMap((day) => {
+            const hours = describeUnsuitableHours(task, format(day, "yyyy-MM-dd"), forecast);
+            return hours ? [`${format(day, "EEE")} ${hours}`] : [];
+          });
+          prompt += `  - Outdoors${badWeather.length > 0 ? ` - forecast rules out: ${badWeather.join("; ")}` : " - forecast is fine all week"}\n`;
+        }
       }
     }
     prompt += `\n`;
@@ -351,7 +451,7 @@ function buildPlanningPrompt(
       for (const event of member.calendarEvents) {
         const timeStr = event.isAllDay
           ? `All day on ${format(event.start, "EEEE, MMM d")}`
-          : `${format(event.start, "EEEE, MMM d 'at' h:mm a")} - ${format(event.end, "h:mm a")}`;
+          : `${formatInTimeZone(event.start, member.timeZone, "EEEE, MMM d 'at' h:mm a")} - ${formatInTimeZone(event.end, member.timeZone, "h:mm a")}`;
         prompt += `- ${event.summary}: ${timeStr}\n`;
       }
     }
@@ -361,8 +461,9 @@ function buildPlanningPrompt(
   prompt += `## Scheduling Guidelines\n`;
   prompt += `- Working hours: 8:00 AM to 9:00 PM\n`;
   prompt += `- Try to schedule each task 2-3 times during the week for regular practice\n`;
-  prompt += `- For Life Admin tasks, distribute fairly between family members\n`;
+  prompt += `- For Life Admin tasks, distribute fairly between family members relative to their role: teens carry about half an adult's share, children only get tasks meant for them, and caregivers only help on their listed days. Use each member's Life Admin balance from past weeks to even things out over time\n`;
   prompt += `- Avoid scheduling during existing calendar events\n`;
+  prompt += `- Only put outdoor tasks in hours their forecast doesn't rule out\n`;
   prompt += `- Consider energy levels: physical tasks earlier, mental tasks when alert\n\n`;
 
   prompt += `Please generate the weekly schedule as a JSON object.`;
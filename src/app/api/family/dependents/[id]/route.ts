@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { DEPENDENT_TYPES } from "@/lib/family-roles";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const updateDependentSchema = z.object({
+  name: z.string().min(1, "Name is required").optional(),
+  memberType: z.enum(DEPENDENT_TYPES).optional(),
+  birthDate: z.string().optional().nullable(), // YYYY-MM-DD
+});
+
+async function getManageableDependent(userId: string, id: string) {
+  const [membership, dependent] = await Promise.all([
+    prisma.familyMember.findUnique({ where: { userId } }),
+    prisma.familyDependent.findUnique({ where: { id } }),
+  ]);
+
+  if (!dependent || dependent.familyId !== membership?.familyId) {
+    return { error: NextResponse.json({ error: "Dependent not found" }, { status: 404 }) };
+  }
+  if (membership.role !== "admin" && membership.memberType !== "adult") {
+    return { error: NextResponse.json({ error: "Only adults can manage dependents" }, { status: 403 }) };
+  }
+  return { dependent };
+}
+
+// PATCH - Update a dependent
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { error } = await getManageableDependent(session.user.id, id);
+    if (error) return error;
+
+    const body = await request.json();
+    const { name, memberType, birthDate } = updateDependentSchema.parse(body);
+
+    const dependent = await prisma.familyDependent.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(memberType && { memberType }),
+        ...(birthDate !== undefined && { birthDate: birthDate ? new Date(birthDate + "T00:00:00") : null }),
+      },
+    });
+
+    return NextResponse.json({ dependent });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error updating dependent:", error);
+    return NextResponse.json({ error: "Failed to update dependent" }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a dependent (their tasks are kept, no longer linked)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { error } = await getManageableDependent(session.user.id, id);
+    if (error) return error;
+
+    await prisma.familyDependent.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting dependent:", error);
+    return NextResponse.json({ error: "Failed to delete dependent" }, { status: 500 });
+  }
+}
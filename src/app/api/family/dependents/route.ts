@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { DEPENDENT_TYPES } from "@/lib/family-roles";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const dependentSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  memberType: z.enum(DEPENDENT_TYPES).optional(),
+  birthDate: z.string().optional().nullable(), // YYYY-MM-DD
+});
+
+// GET - List the family's dependents
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ dependents: [] });
+    }
+
+    const dependents = await prisma.familyDependent.findMany({
+      where: { familyId: membership.familyId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ dependents });
+  } catch (error) {
+    console.error("Error fetching dependents:", error);
+    return NextResponse.json({ error: "Failed to fetch dependents" }, { status: 500 });
+  }
+}
+
+// POST - Add a dependent (a family member without a login)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "You must be in a family to add dependents." }, { status: 400 });
+    }
+
+    if (membership.role !== "admin" && membership.memberType !== "adult") {
+      return NextResponse.json({ error: "Only adults can add dependents" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { name, memberType, birthDate } = dependentSchema.parse(body);
+
+    const dependent = await prisma.familyDependent.create({
+      data: {
+        familyId: membership.familyId,
+        name,
+        memberType: memberType ?? "child",
+        birthDate: birthDate ? new Date(birthDate + "T00:00:00") : null,
+      },
+    });
+
+    return NextResponse.json({ dependent }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error adding dependent:", error);
+    return NextResponse.json({ error: "Failed to add dependent" }, { status: 500 });
+  }
+}
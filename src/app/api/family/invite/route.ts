@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { sendFamilyInviteEmail } from "@/lib/email";
+import { MAX_FAMILY_MEMBERS } from "@/lib/family-roles";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -39,10 +40,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if family already has 2 members
-    if (membership.family.members.length >= 2) {
+    // Check if family is already full
+    if (membership.family.members.length >= MAX_FAMILY_MEMBERS) {
       return NextResponse.json(
-        { error: "Your family already has the maximum number of members (2)." },
+        { error: `Your family already has the maximum number of members (${MAX_FAMILY_MEMBERS}).` },
         { status: 400 }
       );
     }
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { MAX_FAMILY_MEMBERS } from "@/lib/family-roles";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -48,15 +49,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if family already has 2 members (limit for 2-person families)
-    if (family.members.length >= 2) {
+    // Check if family is already full
+    if (family.members.length >= MAX_FAMILY_MEMBERS) {
       return NextResponse.json(
-        { error: "This family already has the maximum number of members (2)." },
+        { error: `This family already has the maximum number of members (${MAX_FAMILY_MEMBERS}).` },
         { status: 400 }
       );
     }
 
-    // Add user to family
+    // Add user to family - with the default member type, which only the
+    // admin can change (see members/[id])
     await prisma.familyMember.create({
       data: {
         familyId: family.id,
@@ -81,6 +83,7 @@ export async function POST(request: NextRequest) {
             },
           },
         },
+        dependents: { orderBy: { createdAt: "asc" } },
       },
     });
 
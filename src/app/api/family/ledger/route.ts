@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { LEDGER_CARRY_WEEKS, getLedgerHistory, updateChoreLedger } from "@/lib/chore-ledger";
+
+export const dynamic = "force-dynamic";
+
+// GET - The family's chore-balance ledger: running balance per member per
+// finished week (?weeks=N, default LEDGER_CARRY_WEEKS)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "Not in a family" }, { status: 404 });
+    }
+
+    const weeksParam = parseInt(request.nextUrl.searchParams.get("weeks") || "", 10);
+    const weeks = Number.isNaN(weeksParam) ? LEDGER_CARRY_WEEKS : Math.min(52, Math.max(1, weeksParam));
+
+    await updateChoreLedger(membership.familyId);
+
+    const [members, history] = await Promise.all([
+      prisma.familyMember.findMany({
+        where: { familyId: membership.familyId },
+        select: { userId: true, user: { select: { name: true, email: true } } },
+      }),
+      getLedgerHistory(membership.familyId, weeks),
+    ]);
+
+    return NextResponse.json({
+      members: members.map((m) => ({ userId: m.userId, name: m.user.name || m.user.email || "Unknown" })),
+      weeks: history,
+    });
+  } catch (error) {
+    console.error("Error fetching chore ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chore ledger" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { MEMBER_TYPES } from "@/lib/family-roles";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const updateMemberSchema = z.object({
+  memberType: z.enum(MEMBER_TYPES).optional(),
+  helpDays: z.array(z.number().int().min(0).max(6)).optional(),
+});
+
+// PATCH - Set a member's type and (for caregivers) help days. Admins only.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const [membership, member] = await Promise.all([
+      prisma.familyMember.findUnique({ where: { userId: session.user.id } }),
+      prisma.familyMember.findUnique({ where: { id } }),
+    ]);
+
+    if (!member || member.familyId !== membership?.familyId) {
+      return NextResponse.json({ error: "Family member not found" }, { status: 404 });
+    }
+
+    if (membership.role !== "admin") {
+      return NextResponse.json({ error: "Only the family admin can change member roles" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { memberType, helpDays } = updateMemberSchema.parse(body);
+
+    const updated = await prisma.familyMember.update({
+      where: { id },
+      data: {
+        ...(memberType && { memberType }),
+        ...(helpDays && { helpDays: helpDays.filter((d, i) => helpDays.indexOf(d) === i).sort() }),
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    return NextResponse.json({ member: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error updating family member:", error);
+    return NextResponse.json({ error: "Failed to update family member" }, { status: 500 });
+  }
+}
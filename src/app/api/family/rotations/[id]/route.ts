@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+
+export const dynamic = "force-dynamic";
+
+// DELETE - Stop rotating a task (it goes back to fairness-based assignment)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const [membership, rotation] = await Promise.all([
+      prisma.familyMember.findUnique({ where: { userId: session.user.id } }),
+      prisma.taskRotation.findUnique({ where: { id }, include: { task: { select: { userId: true } } } }),
+    ]);
+
+    if (!rotation || rotation.familyId !== membership?.familyId) {
+      return NextResponse.json({ error: "Rotation not found" }, { status: 404 });
+    }
+
+    if (membership.role !== "admin" && membership.memberType !== "adult" && rotation.task.userId !== session.user.id) {
+      return NextResponse.json({ error: "Only adults can remove rotations" }, { status: 403 });
+    }
+
+    await prisma.taskRotation.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting rotation:", error);
+    return NextResponse.json({ error: "Failed to delete rotation" }, { status: 500 });
+  }
+}
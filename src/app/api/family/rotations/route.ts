@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { isMemberEligibleForTask } from "@/lib/family-roles";
+import { ROTATION_POLICIES, getWeeklyRotationMember, loadRotationPlans } from "@/lib/rotations";
+import { addDays, addWeeks, format } from "date-fns";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const rotationSchema = z.object({
+  taskId: z.string().min(1, "Task is required"),
+  policy: z.enum(ROTATION_POLICIES),
+  memberIds: z.array(z.string()).min(2, "A rotation needs at least two people"),
+  skipOnVacation: z.boolean().optional().default(true),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Weekly alternate: the first person's week
+});
+
+// GET - The family's chore rotations with who's up next and recent turns,
+// plus the household tasks a rotation can be added to
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+      include: { family: { include: { members: { select: { userId: true } } } } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ rotations: [], tasks: [] });
+    }
+
+    const memberIds = membership.family.members.map((m) => m.userId);
+
+    const [rotations, tasks] = await Promise.all([
+      prisma.taskRotation.findMany({
+        where: { familyId: membership.familyId },
+        include: {
+          task: {
+            select: {
+              id: true,
+              name: true,
+              scheduledTasks: {
+                where: { scheduledDate: { lte: addDays(new Date(), 7) } },
+                select: { id: true, scheduledDate: true, assignedToUserId: true, status: true, aiReasoning: true },
+                orderBy: { scheduledDate: "desc" },
+                take: 12,
+              },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.task.findMany({
+        where: {
+          type: "household",
+          OR: [{ familyId: membership.familyId }, { userId: { in: memberIds } }],
+        },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+
+    // Who's up next, from the same rotation state the schedulers use
+    const today = new Date();
+    const plans = await loadRotationPlans(rotations.map((r) => r.taskId), today, addDays(today, 7));
+
+    return NextResponse.json({
+      rotations: rotations.map(({ task, ...rotation }) => {
+        const plan = plans.get(rotation.taskId);
+        const upNext = !plan
+          ? []
+          : plan.policy === "weekly_alternate"
+            ? [0, 1, 2, 3].map((w) => getWeeklyRotationMember(plan, format(addWeeks(today, w), "yyyy-MM-dd")))
+            : plan.queue;
+
+        return {
+          ...rotation,
+          taskName: task.name,
+          upNext,
+          history: task.scheduledTasks,
+        };
+      }),
+      tasks,
+    });
+  } catch (error) {
+    console.error("Error fetching rotations:", error);
+    return NextResponse.json({ error: "Failed to fetch rotations" }, { status: 500 });
+  }
+}
+
+// POST - Set (or replace) the rotation for a household task
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+      include: { family: { include: { members: true } } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "You must be in a family to set up rotations." }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { taskId, policy, memberIds, skipOnVacation, startDate } = rotationSchema.parse(body);
+
+    const members = membership.family.members;
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+
+    if (!task || (task.familyId !== membership.familyId && !members.some((m) => m.userId === task.userId))) {
+      return NextResponse.json({ error: "Task not found in your family" }, { status: 404 });
+    }
+
+    if (task.type !== "household") {
+      return NextResponse.json({ error: "Only Life Admin tasks can rotate" }, { status: 400 });
+    }
+
+    if (membership.role !== "admin" && membership.memberType !== "adult" && task.userId !== session.user.id) {
+      return NextResponse.json({ error: "Only adults can set up rotations" }, { status: 403 });
+    }
+
+    const uniqueIds = memberIds.filter((id, i) => memberIds.indexOf(id) === i);
+    for (const userId of uniqueIds) {
+      const member = members.find((m) => m.userId === userId);
+      if (!member) {
+        return NextResponse.json({ error: "Everyone in a rotation must be in your family" }, { status: 400 });
+      }
+      if (!isMemberEligibleForTask(member, task)) {
+        return NextResponse.json(
+          { error: `A ${member.memberType} can't take "${task.name}" - change who the task is suitable for first` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const data = {
+      familyId: membership.familyId,
+      policy,
+      memberIds: uniqueIds,
+      skipOnVacation,
+      startDate: startDate ? new Date(startDate + "T12:00:00") : new Date(),
+    };
+
+    const rotation = await prisma.taskRotation.upsert({
+      where: { taskId },
+      update: data,
+      create: { taskId, ...data },
+    });
+
+    return NextResponse.json({ rotation }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error saving rotation:", error);
+    return NextResponse.json({ error: "Failed to save rotation" }, { status: 500 });
+  }
+}
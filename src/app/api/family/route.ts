@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
 import { randomBytes } from "crypto";
+import { analyzeFairness } from "@/lib/agent-tools/family";
 
 export const dynamic = "force-dynamic";
 
@@ -11,6 +12,12 @@ const createFamilySchema = z.object({
   name: z.string().min(1, "Family name is required"),
 });
 
+// Agreed split of household work, as percentages keyed by family member ID
+// (null = back to the default share for their member type)
+const updateFamilySchema = z.object({
+  targetShares: z.record(z.string(), z.number().min(0).max(100).nullable()),
+});
+
 // GET - Get current user's family
 export async function GET() {
   try {
@@ -38,6 +45,7 @@ export async function GET() {
                 },
               },
             },
+            dependents: { orderBy: { createdAt: "asc" } },
           },
         },
       },
@@ -47,9 +55,17 @@ export async function GET() {
       return NextResponse.json({ family: null });
     }
 
+    // Effort-weighted fairness over the last 4 weeks
+    const fairness = membership.family.members.length >= 2
+      ? await analyzeFairness(membership.family.id)
+      : null;
+
     return NextResponse.json({
       family: membership.family,
       role: membership.role,
+      memberType: membership.memberType,
+      userId: session.user.id,
+      fairness,
     });
   } catch (error) {
     console.error("Error fetching family:", error);
@@ -109,6 +125,7 @@ export async function POST(request: NextRequest) {
             },
           },
         },
+        dependents: true,
       },
     });
 
@@ -121,3 +138,66 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Failed to create family" }, { status: 500 });
   }
 }
+
+// PATCH - Set the agreed split of household work (e.g. 60/40 when one partner works longer hours)
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+      include: { family: { include: { members: true } } },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ error: "You are not in a family" }, { status: 404 });
+    }
+
+    if (membership.role !== "admin" && membership.memberType !== "adult") {
+      return NextResponse.json({ error: "Only adults can change the family's split" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { targetShares } = updateFamilySchema.parse(body);
+
+    const members = membership.family.members;
+    if (Object.keys(targetShares).some((id) => !members.some((m) => m.id === id))) {
+      return NextResponse.json({ error: "Family member not found" }, { status: 400 });
+    }
+
+    // Validate the split against everyone's resulting share
+    const resulting = members.map((m) =>
+      m.id in targetShares ? targetShares[m.id] : m.targetShare !== null ? m.targetShare * 100 : null
+    );
+    const agreedTotal = resulting.reduce<number>((sum, share) => sum + (share ?? 0), 0);
+    if (agreedTotal > 100.5) {
+      return NextResponse.json({ error: "Shares cannot add up to more than 100%" }, { status: 400 });
+    }
+    if (resulting.every((share) => share !== null) && Math.abs(agreedTotal - 100) > 0.5) {
+      return NextResponse.json({ error: "Shares must add up to 100%" }, { status: 400 });
+    }
+
+    await prisma.$transaction(
+      Object.entries(targetShares).map(([id, share]) =>
+        prisma.familyMember.update({
+          where: { id },
+          data: { targetShare: share === null ? null : share / 100 },
+        })
+      )
+    );
+
+    const fairness = await analyzeFairness(membership.family.id);
+
+    return NextResponse.json({ fairness });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error updating family split:", error);
+    return NextResponse.json({ error: "Failed to update family split" }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { expireStaleSwapRequests } from "@/lib/task-swaps";
+import { addDays } from "date-fns";
+
+export const dynamic = "force-dynamic";
+
+// GET - The family's swap marketplace: open requests with their offers, and
+// the user's own upcoming Life Admin tasks (to offer up or trade)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!membership) {
+      return NextResponse.json({ requests: [], myTasks: [] });
+    }
+
+    await expireStaleSwapRequests(membership.familyId);
+
+    const now = new Date();
+    const [requests, myTasks] = await Promise.all([
+      prisma.taskSwapRequest.findMany({
+        where: { familyId: membership.familyId, status: "open" },
+        include: {
+          requestedBy: { select: { id: true, name: true } },
+          scheduledTask: { include: { task: { select: { name: true } } } },
+          offers: {
+            where: { status: "pending" },
+            include: {
+              offeredBy: { select: { id: true, name: true } },
+              tradeScheduledTask: { include: { task: { select: { name: true } } } },
+            },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.scheduledTask.findMany({
+        where: {
+          assignedToUserId: session.user.id,
+          status: "pending",
+          startTime: { gt: now, lte: addDays(now, 14) },
+          task: { type: "household" },
+        },
+        include: { task: { select: { name: true } } },
+        orderBy: { startTime: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({ requests, myTasks });
+  } catch (error) {
+    console.error("Error fetching swaps:", error);
+    return NextResponse.json({ error: "Failed to fetch swaps" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { addDays } from "date-fns";
+import prisma from "@/lib/prisma";
+import { buildICSCalendar } from "@/lib/ics-writer";
+
+export const dynamic = "force-dynamic";
+
+// Window of sessions published
+const FEED_PAST_DAYS = 14;
+const FEED_FUTURE_DAYS = 60;
+
+// GET - Published ICS feed of scheduled tasks. The token in the URL is the
+// only auth, so calendar apps can subscribe (webcal://.../api/ics/<token>.ics).
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { token: token.replace(/\.ics$/i, "") },
+    });
+
+    if (!feed) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    // The whole family's sessions, or just the owner's
+    let userIds = [feed.userId];
+    if (feed.includeFamily) {
+      const membership = await prisma.familyMember.findUnique({
+        where: { userId: feed.userId },
+        include: { family: { include: { members: { select: { userId: true } } } } },
+      });
+      if (membership) {
+        userIds = membership.family.members.map((m) => m.userId);
+      }
+    }
+
+    const now = new Date();
+    const sessions = await prisma.scheduledTask.findMany({
+      where: {
+        assignedToUserId: { in: userIds },
+        status: { not: "skipped" },
+        startTime: { gte: addDays(now, -FEED_PAST_DAYS), lte: addDays(now, FEED_FUTURE_DAYS) },
+      },
+      include: {
+        task: { select: { name: true, type: true, category: true } },
+        assignedTo: { select: { name: true } },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: now },
+    });
+
+    const ics = buildICSCalendar(feed.name, sessions, { showAssignee: userIds.length > 1 });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="resolutionai.ics"`,
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to build calendar feed" },
+      { status: 500 }
+    );
+  }
+}
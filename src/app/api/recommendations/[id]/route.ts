@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
+import { moveScheduledSession } from "@/lib/schedule-repair";
 
 export const dynamic = "force-dynamic";
 
@@ -38,8 +39,20 @@ export async function PATCH(
       return NextResponse.json({ error: "Recommendation not found" }, { status: 404 });
     }
 
-    // If accepting and applyChanges is true, update the task
-    if (status === "accepted" && applyChanges && recommendation.taskId && recommendation.suggestedChange) {
+    // Weather proposals move the one session rather than change the task
+    if (status === "accepted" && applyChanges && recommendation.type === "weather_reschedule") {
+      const change = recommendation.suggestedChange as { scheduledTaskId: string; startTime: string; endTime: string };
+      const moved = await moveScheduledSession(
+        session.user.id,
+        change.scheduledTaskId,
+        { start: new Date(change.startTime), end: new Date(change.endTime) },
+        "Moved to a time with a better forecast."
+      );
+      if (!moved) {
+        return NextResponse.json({ error: "Scheduled task not found" }, { status: 404 });
+      }
+    } else if (status === "accepted" && applyChanges && recommendation.taskId && recommendation.suggestedChange) {
+      // If accepting and applyChanges is true, update the task
       const changes = recommendation.suggestedChange as Record<string, unknown>;
 
       await prisma.task.update({
@@ -222,11 +222,12 @@ Provide a brief overall insight about the user's scheduling habits and one key s
     // Save recommendations to database
     const expiresAt = addDays(now, 7);
 
-    // Clear old pending recommendations for this user
+    // Clear old pending recommendations for this user (weather proposals expire on their own)
     await prisma.aIRecommendation.updateMany({
       where: {
         userId: session.user.id,
         status: "pending",
+        type: { not: "weather_reschedule" },
       },
       data: {
         status: "expired",
@@ -5,6 +5,7 @@ import prisma from "@/lib/prisma";
 import { createCalendarEvent } from "@/lib/calendar";
 import { z } from "zod";
 import { parseISO, parse } from "date-fns";
+import { fromZonedTime } from "@/lib/timezone";
 
 export const dynamic = "force-dynamic";
 
@@ -33,6 +34,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { recommendations } = approveSchema.parse(body);
 
+    // Recommended times are on the user's clock
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { timezone: true },
+    });
+
     // Get all tasks to validate constraints
     const taskIds = recommendations.map(r => r.taskId);
     const tasks = await prisma.task.findMany({
@@ -145,10 +152,10 @@ export async function POST(request: NextRequest) {
 
     for (const rec of validatedRecommendations) {
       try {
-        // Parse date and times
+        // Parse date and times (stored as real instants)
         const date = parseISO(rec.date);
-        const startTime = parse(rec.startTime, "HH:mm", date);
-        const endTime = parse(rec.endTime, "HH:mm", date);
+        const startTime = fromZonedTime(parse(rec.startTime, "HH:mm", date), user?.timezone);
+        const endTime = fromZonedTime(parse(rec.endTime, "HH:mm", date), user?.timezone);
 
         // Check for existing scheduled task on this date to prevent duplicates
         const existingScheduled = await prisma.scheduledTask.findFirst({
@@ -171,15 +178,18 @@ export async function POST(request: NextRequest) {
 
         // Create calendar event
         let calendarEventId: string | null = null;
+        let calendarProvider: string | null = null;
         let calendarError: string | null = null;
         try {
-          calendarEventId = await createCalendarEvent(
+          const event = await createCalendarEvent(
             session.user.id,
             `[ResolutionAI] ${rec.taskName}`,
             `Type: ${rec.taskType}\n\n${rec.reasoning || "Scheduled by ResolutionAI"}`,
             startTime,
             endTime
           );
+          calendarEventId = event.id;
+          calendarProvider = event.provider;
           console.log("Calendar event created:", calendarEventId);
         } catch (error) {
           console.error("Could not create calendar event:", error);
@@ -196,6 +206,7 @@ export async function POST(request: NextRequest) {
             endTime,
             status: "pending",
             calendarEventId,
+            calendarProvider,
             aiReasoning: rec.reasoning,
           },
         });
@@ -6,7 +6,9 @@ import { getCalendarEvents } from "@/lib/calendar";
 import { findAvailableSlots } from "@/lib/calendar";
 import { getBlockedTimesForRange, getUserAvailabilityInfo } from "@/lib/user-availability";
 import { calculateAchievableInstances } from "@/lib/deterministic-scheduler";
-import { endOfWeek, addDays, format, parseISO } from "date-fns";
+import { getBookedEffortByTask } from "@/lib/task-deadlines";
+import { nowInTimeZone, fromZonedTime, toZonedCalendarEvents } from "@/lib/timezone";
+import { startOfWeek, endOfWeek, addDays, format, parseISO } from "date-fns";
 
 export const dynamic = "force-dynamic";
 
@@ -22,7 +24,10 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const weekStartParam = searchParams.get("weekStart");
 
-    const now = new Date();
+    // Days and "now" are on the user's clock
+    const availabilityInfo = await getUserAvailabilityInfo(session.user.id);
+    const timeZone = availabilityInfo.timeZone;
+    const now = nowInTimeZone(timeZone);
 
     // Use provided week start or default to today
     let rangeStart: Date;
@@ -58,14 +63,15 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Get user's availability info
-    const availabilityInfo = await getUserAvailabilityInfo(session.user.id);
     const blockedTimes = await getBlockedTimesForRange(session.user.id, rangeStart, weekEnd);
 
     // Get calendar events
     let calendarEvents: Awaited<ReturnType<typeof getCalendarEvents>> = [];
     try {
-      calendarEvents = await getCalendarEvents(session.user.id, rangeStart, weekEnd);
+      calendarEvents = toZonedCalendarEvents(
+        await getCalendarEvents(session.user.id, fromZonedTime(rangeStart, timeZone), fromZonedTime(weekEnd, timeZone)),
+        timeZone
+      );
     } catch {
       console.log("Calendar not connected");
     }
@@ -142,6 +148,9 @@ export async function GET(request: NextRequest) {
       scheduledDatesByTask.get(st.taskId)!.add(format(st.scheduledDate, "yyyy-MM-dd"));
     }
 
+    // One-off and splittable tasks count effort already booked towards their estimate
+    const bookedEffort = await getBookedEffortByTask(tasks, startOfWeek(weekEnd, { weekStartsOn: 1 }), weekEnd);
+
     // Use SHARED UTILITY to calculate remaining instances for each task
     // This ensures consistent behavior across all scheduling endpoints
     const getAchievableCount = (task: typeof tasks[0]): number => {
@@ -151,7 +160,8 @@ export async function GET(request: NextRequest) {
         rangeStart,
         weekEnd,
         alreadyScheduledDates,
-        now
+        now,
+        bookedEffort.get(task.id)
       );
       return achievableCount;
     };
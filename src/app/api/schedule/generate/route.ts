@@ -7,19 +7,27 @@ import { generateSchedule, generateFamilySchedule } from "@/lib/ai-scheduler";
 import { startOfWeek, endOfWeek, addDays, format } from "date-fns";
 import { CalendarEvent } from "@/types";
 import { getBlockedTimesForRange, getUserAvailabilityInfo } from "@/lib/user-availability";
+import { loadRotationPlans } from "@/lib/rotations";
+import { getBookedEffortByTask } from "@/lib/task-deadlines";
+import { resolveTimeZone, nowInTimeZone, fromZonedTime } from "@/lib/timezone";
+import { getTravelTimesForUser } from "@/lib/travel-time";
+import { getSchedulingRulesForUser } from "@/lib/scheduling-rules";
+import { getEnergyProfile } from "@/lib/energy";
+import { getWeatherForecast } from "@/lib/weather-forecast";
+import { Task } from "@prisma/client";
 
 /**
  * Get existing scheduled tasks for the week, grouped by task ID
- * Returns count and dates for each task
+ * Returns count and dates for each task, plus minutes booked towards one-off and splittable tasks
  */
 async function getExistingScheduledByTask(
-  taskIds: string[],
+  tasks: Task[],
   weekStart: Date,
   weekEnd: Date
-): Promise<Map<string, { count: number; dates: Set<string> }>> {
+): Promise<Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>> {
   const existingScheduled = await prisma.scheduledTask.findMany({
     where: {
-      taskId: { in: taskIds },
+      taskId: { in: tasks.map(t => t.id) },
       scheduledDate: { gte: weekStart, lte: weekEnd },
       status: { not: "skipped" },
     },
@@ -29,7 +37,7 @@ async function getExistingScheduledByTask(
     },
   });
 
-  const result = new Map<string, { count: number; dates: Set<string> }>();
+  const result = new Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>();
 
   for (const scheduled of existingScheduled) {
     const taskId = scheduled.taskId;
@@ -44,6 +52,12 @@ async function getExistingScheduledByTask(
     entry.dates.add(dateStr);
   }
 
+  const bookedEffort = await getBookedEffortByTask(tasks, weekStart, weekEnd);
+  bookedEffort.forEach((minutes, taskId) => {
+    const entry = result.get(taskId) || { count: 0, dates: new Set<string>() };
+    result.set(taskId, { ...entry, bookedMinutes: minutes });
+  });
+
   return result;
 }
 
@@ -53,10 +67,12 @@ export async function POST(request: NextRequest) {
   // Parse request body for selected task IDs and week start (optional)
   let selectedTaskIds: string[] | undefined;
   let weekStartParam: string | undefined;
+  let fallbackMode: "greedy" | "solver" = "greedy";
   try {
     const body = await request.json();
     selectedTaskIds = body.taskIds;
     weekStartParam = body.weekStart;
+    if (body.fallbackMode === "solver") fallbackMode = "solver";
   } catch {
     // No body or invalid JSON - schedule all tasks (backward compatible)
   }
@@ -87,13 +103,18 @@ export async function POST(request: NextRequest) {
                 user: true,
               },
             },
+            dependents: {
+              select: { id: true, name: true, memberType: true },
+            },
           },
         },
       },
     });
 
-    // Schedule from specified week start (or today) through end of that week
-    const now = new Date();
+    // Schedule from specified week start (or today) through end of that week,
+    // with days and "now" on the user's clock
+    const timeZone = resolveTimeZone(user.timezone);
+    const now = nowInTimeZone(timeZone);
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
     // Calculate the FULL week range (Monday to Sunday) for querying existing scheduled tasks
@@ -125,8 +146,12 @@ export async function POST(request: NextRequest) {
     const weekStart = schedulingStart;
     const weekEnd = fullWeekEnd;
 
-    // If user is in a family with 2 members, use family scheduling
-    if (familyMembership && familyMembership.family.members.length === 2) {
+    // Calendar providers take real instants rather than wall-clock times
+    const eventRangeStart = fromZonedTime(weekStart, timeZone);
+    const eventRangeEnd = fromZonedTime(weekEnd, timeZone);
+
+    // If user is in a family with other members, use family scheduling
+    if (familyMembership && familyMembership.family.members.length >= 2) {
       const familyMembers = familyMembership.family.members;
 
       // Get all family members' data
@@ -135,7 +160,7 @@ export async function POST(request: NextRequest) {
           // Get calendar events
           let calendarEvents: CalendarEvent[] = [];
           try {
-            calendarEvents = await getCalendarEvents(member.userId, weekStart, weekEnd);
+            calendarEvents = await getCalendarEvents(member.userId, eventRangeStart, eventRangeEnd);
           } catch {
             console.log(`Calendar not connected for user ${member.userId}`);
           }
@@ -143,6 +168,8 @@ export async function POST(request: NextRequest) {
           // Get blocked times (work schedule, vacations, holidays)
           const blockedTimes = await getBlockedTimesForRange(member.userId, weekStart, weekEnd);
           const availabilityInfo = await getUserAvailabilityInfo(member.userId);
+          const rules = await getSchedulingRulesForUser(member.userId);
+          const energyProfile = await getEnergyProfile(member.userId);
 
           // Get tasks (personal tasks for this user)
           const tasks = await prisma.task.findMany({
@@ -153,10 +180,14 @@ export async function POST(request: NextRequest) {
           return {
             userId: member.userId,
             userName: member.user.name || "User",
+            memberType: member.memberType,
+            helpDays: member.helpDays,
             calendarEvents,
             tasks,
             blockedTimes,
             availabilityInfo,
+            rules,
+            energyProfile,
           };
         })
       );
@@ -178,17 +209,41 @@ export async function POST(request: NextRequest) {
       }
 
       // Get existing scheduled tasks for the FULL week (so we know what's already scheduled)
-      const allTaskIds = allTasks.map(t => t.id);
-      const existingScheduledByTask = await getExistingScheduledByTask(allTaskIds, fullWeekStart, fullWeekEnd);
+      const existingScheduledByTask = await getExistingScheduledByTask(allTasks, fullWeekStart, fullWeekEnd);
 
       console.log(`[generate-family] Existing scheduled tasks: ${existingScheduledByTask.size} tasks have scheduled instances`);
 
+      // Chore rotations decide who takes each occurrence of rotated tasks
+      const rotations = await loadRotationPlans(allTasks.map(t => t.id), weekStart, weekEnd);
+
+      // Ordering constraints between any of the household's tasks
+      const taskDependencies = await prisma.taskDependency.findMany({
+        where: { taskId: { in: allTasks.map(t => t.id) } },
+      });
+
+      // Forecast at each member's home, for outdoor tasks they might be given
+      const membersWithWeather = await Promise.all(
+        membersData.map(async (m) => ({
+          ...m,
+          weatherForecast: await getWeatherForecast(
+            m.userId,
+            [...m.tasks, ...familyTasks],
+            weekStart,
+            weekEnd,
+            m.availabilityInfo.timeZone
+          ),
+        }))
+      );
+
       // Generate family schedule using AI (membersData now includes blockedTimes and availabilityInfo)
       const scheduleResult = await generateFamilySchedule({
-        familyMembers: membersData,
+        familyMembers: membersWithWeather,
         familyTasks,
+        dependents: familyMembership.family.dependents,
         weekStart,
         existingScheduledByTask,
+        rotations,
+        taskDependencies,
       });
 
       return NextResponse.json(scheduleResult);
@@ -215,7 +270,7 @@ export async function POST(request: NextRequest) {
 
     let calendarEvents: CalendarEvent[] = [];
     try {
-      calendarEvents = await getCalendarEvents(session.user.id, weekStart, weekEnd);
+      calendarEvents = await getCalendarEvents(session.user.id, eventRangeStart, eventRangeEnd);
     } catch {
       console.log("Calendar not connected, proceeding with empty calendar");
     }
@@ -228,7 +283,12 @@ export async function POST(request: NextRequest) {
     // This ensures we know what's already scheduled, even for past days
     // The scheduling logic will only try to schedule for future days
     const taskIds = tasks.map(t => t.id);
-    const existingScheduledByTask = await getExistingScheduledByTask(taskIds, fullWeekStart, fullWeekEnd);
+    const existingScheduledByTask = await getExistingScheduledByTask(tasks, fullWeekStart, fullWeekEnd);
+
+    // Ordering constraints between the tasks being scheduled
+    const taskDependencies = await prisma.taskDependency.findMany({
+      where: { taskId: { in: taskIds } },
+    });
 
     console.log(`\n========== OPTIMIZE MY WEEK DEBUG ==========`);
     console.log(`[generate] fullWeekStart: ${format(fullWeekStart, "yyyy-MM-dd")}, fullWeekEnd: ${format(fullWeekEnd, "yyyy-MM-dd")}`);
@@ -240,6 +300,18 @@ export async function POST(request: NextRequest) {
     });
     console.log(`============================================\n`);
 
+    // Travel time between the saved locations tasks happen at
+    const travelTimes = await getTravelTimesForUser(session.user.id, tasks);
+
+    // Household rules ("no chores after 9pm on school nights")
+    const rules = await getSchedulingRulesForUser(session.user.id);
+
+    // When they have the energy for demanding tasks
+    const energyProfile = await getEnergyProfile(session.user.id);
+
+    // Forecast for outdoor tasks
+    const weatherForecast = await getWeatherForecast(session.user.id, tasks, weekStart, weekEnd, timeZone);
+
     // Get learned preferences if any
     const learningData = await prisma.learningData.findMany({
       where: { userId: session.user.id },
@@ -264,6 +336,12 @@ export async function POST(request: NextRequest) {
       blockedTimes,
       availabilityInfo,
       existingScheduledByTask,
+      taskDependencies,
+      fallbackMode,
+      travelTimes,
+      rules,
+      energyProfile,
+      weatherForecast,
     });
 
     return NextResponse.json(scheduleResult);
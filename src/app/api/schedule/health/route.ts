@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { startOfWeek, endOfWeek, subWeeks, parseISO, format } from "date-fns";
 import { getBlockedTimesForRange, BlockedTime } from "@/lib/user-availability";
+import { getDeadlineRisks, DeadlineRisk } from "@/lib/task-deadlines";
 
 export const dynamic = "force-dynamic";
 
@@ -139,6 +140,17 @@ export async function GET() {
       console.error("Error checking blocked time conflicts:", error);
     }
 
+    // One-off tasks that are overdue, booked late, or short on time before their deadline
+    let atRiskDeadlines: DeadlineRisk[] = [];
+    try {
+      atRiskDeadlines = await getDeadlineRisks(session.user.id, now);
+      for (const risk of atRiskDeadlines) {
+        recommendations.push(`${risk.reason}.`);
+      }
+    } catch (error) {
+      console.error("Error checking task deadlines:", error);
+    }
+
     // Calculate impact percentage
     const totalTasks = completedTasksThisWeek + skippedTasksThisWeek;
     const impactPercentage = totalTasks > 0
@@ -171,6 +183,17 @@ export async function GET() {
       severity = "high";
     }
 
+    // At-risk deadlines raise the severity (overdue ones to high)
+    const overdueCount = atRiskDeadlines.filter(r => r.urgency === "overdue").length;
+    if (atRiskDeadlines.length > 0) {
+      insight += ` ${atRiskDeadlines.length} deadline${atRiskDeadlines.length > 1 ? 's' : ''} at risk${overdueCount > 0 ? ` (${overdueCount} overdue)` : ''}.`;
+      if (overdueCount > 0) {
+        severity = "high";
+      } else if (severity === "low") {
+        severity = "medium";
+      }
+    }
+
     // Add trend insight
     if (overlapsLastWeek > 0) {
       if (overlapsThisWeek < overlapsLastWeek) {
@@ -195,6 +218,8 @@ export async function GET() {
       holidayConflicts,
       totalBlockedTimeConflicts,
       recommendations,
+      // One-off task deadlines
+      atRiskDeadlines,
     });
   } catch (error) {
     console.error("Error fetching schedule health:", error);
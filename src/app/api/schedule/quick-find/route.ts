@@ -5,7 +5,10 @@ import prisma from "@/lib/prisma";
 import { getCalendarEvents, findAvailableSlots } from "@/lib/calendar";
 import { getBlockedTimesForRange, getUserAvailabilityInfo } from "@/lib/user-availability";
 import { calculateAchievableInstances } from "@/lib/deterministic-scheduler";
-import { endOfWeek, addDays, format, parseISO, addMinutes } from "date-fns";
+import { describeRecurrence } from "@/lib/task-recurrence";
+import { getBookedEffortByTask, isOneOffTask } from "@/lib/task-deadlines";
+import { nowInTimeZone, toZonedTime, fromZonedTime, toZonedCalendarEvents } from "@/lib/timezone";
+import { startOfWeek, endOfWeek, addDays, format, parseISO, addMinutes } from "date-fns";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -50,8 +53,9 @@ export async function POST(request: NextRequest) {
     // Get user's availability info
     const availabilityInfo = await getUserAvailabilityInfo(session.user.id);
 
-    // Calculate date range based on provided week or current week
-    const now = new Date();
+    // Calculate date range based on provided week or current week, on the user's clock
+    const timeZone = availabilityInfo.timeZone;
+    const now = nowInTimeZone(timeZone);
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
     let rangeStart: Date;
@@ -69,10 +73,13 @@ export async function POST(request: NextRequest) {
     // Get blocked times
     const blockedTimes = await getBlockedTimesForRange(session.user.id, rangeStart, weekEnd);
 
-    // Get calendar events
+    // Get calendar events (fetched by real instants, compared in wall-clock time)
     let calendarEvents: Awaited<ReturnType<typeof getCalendarEvents>> = [];
     try {
-      calendarEvents = await getCalendarEvents(session.user.id, rangeStart, weekEnd);
+      calendarEvents = toZonedCalendarEvents(
+        await getCalendarEvents(session.user.id, fromZonedTime(rangeStart, timeZone), fromZonedTime(weekEnd, timeZone)),
+        timeZone
+      );
     } catch {
       console.log("Calendar not connected");
     }
@@ -87,20 +94,20 @@ export async function POST(request: NextRequest) {
     });
 
     // Get ALL scheduled tasks for conflict detection
-    const allScheduledTasks = await prisma.scheduledTask.findMany({
-      where: {
-        assignedToUserId: session.user.id,
-        scheduledDate: { gte: rangeStart, lte: weekEnd },
-        status: { not: "skipped" },
-      },
-    });
+    const allScheduledTasks = (
+      await prisma.scheduledTask.findMany({
+        where: {
+          assignedToUserId: session.user.id,
+          scheduledDate: { gte: rangeStart, lte: weekEnd },
+          status: { not: "skipped" },
+        },
+      })
+    ).map(st => ({ ...st, startTime: toZonedTime(st.startTime, timeZone), endTime: toZonedTime(st.endTime, timeZone) }));
 
     // Task scheduling configuration
     const isFixedSchedule = task.schedulingMode === "fixed";
     const fixedDays = (task.fixedDays as string[] | null) || [];
     const fixedTime = task.fixedTime;
-    const frequencyPeriod = task.frequencyPeriod || "week";
-    const frequency = task.frequency || 1;
     const taskDuration = task.duration;
     const dayStart = availabilityInfo.availableTimeStart;
     const dayEnd = availabilityInfo.availableTimeEnd;
@@ -118,6 +125,9 @@ export async function POST(request: NextRequest) {
     );
     const alreadyScheduledCount = existingScheduledForTask.length;
 
+    // One-off and splittable tasks count effort already booked towards their estimate
+    const bookedEffort = await getBookedEffortByTask([task], startOfWeek(weekEnd, { weekStartsOn: 1 }), weekEnd);
+
     // Use SHARED UTILITY to calculate achievable slots (accounts for past days)
     // This ensures consistent behavior between Quick Schedule and Optimize My Week
     const { achievableCount: slotsNeeded, achievableDays } = calculateAchievableInstances(
@@ -125,7 +135,8 @@ export async function POST(request: NextRequest) {
       rangeStart,
       weekEnd,
       alreadyScheduledDates,
-      now
+      now,
+      bookedEffort.get(task.id)
     );
 
     console.log(`[quick-find] Using shared calculateAchievableInstances: slotsNeeded=${slotsNeeded}, achievableDays=${JSON.stringify(achievableDays)}`);
@@ -306,7 +317,7 @@ export async function POST(request: NextRequest) {
       foundSlots: selectedSlots.length,
       alreadyScheduled: alreadyScheduledCount,
       isFixedSchedule,
-      frequency: frequencyPeriod === "day" ? `${frequency}x daily` : `${frequency}x weekly`,
+      frequency: isOneOffTask(task) ? `one-off, due ${format(task.dueDate!, "MMM d")}` : describeRecurrence(task),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -46,14 +46,17 @@ export async function POST(request: NextRequest) {
 
     // Create calendar event
     let calendarEventId: string | null = null;
+    let calendarProvider: string | null = null;
     try {
-      calendarEventId = await createCalendarEvent(
+      const event = await createCalendarEvent(
         session.user.id,
         `[ResolutionAI] ${task.name}`,
         `Type: ${task.type}\n\nScheduled via drag-and-drop`,
         startDateTime,
         endDateTime
       );
+      calendarEventId = event.id;
+      calendarProvider = event.provider;
     } catch (error) {
       console.error("Could not create calendar event:", error);
     }
@@ -68,6 +71,7 @@ export async function POST(request: NextRequest) {
         endTime: endDateTime,
         status: "pending",
         calendarEventId,
+        calendarProvider,
         aiReasoning: "Manually scheduled via drag-and-drop",
       },
     });
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { repairSchedule } from "@/lib/schedule-repair";
+
+export const dynamic = "force-dynamic";
+
+// POST - Move only the sessions this week that now clash with the calendar
+// or blocked time. { dryRun: true } reports what would move without saving.
+export async function POST(request: NextRequest) {
+  let dryRun = false;
+  try {
+    const body = await request.json();
+    dryRun = body.dryRun === true;
+  } catch {
+    // No body - repair for real
+  }
+
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await repairSchedule(session.user.id, { dryRun });
+
+    return NextResponse.json({ ...result, dryRun });
+  } catch (error) {
+    console.error("Error repairing schedule:", error);
+    return NextResponse.json({ error: "Failed to repair schedule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { ruleDefinitionSchema } from "@/lib/scheduling-rules";
+
+export const dynamic = "force-dynamic";
+
+const updateRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  strength: z.enum(["hard", "soft"]).optional(),
+  enabled: z.boolean().optional(),
+  definition: ruleDefinitionSchema.optional(),
+});
+
+/**
+ * Find a rule the user may change: their own, or (for adults) their family's
+ */
+async function getEditableRule(userId: string, id: string) {
+  const [rule, membership] = await Promise.all([
+    prisma.schedulingRule.findUnique({ where: { id } }),
+    prisma.familyMember.findUnique({ where: { userId } }),
+  ]);
+
+  if (!rule || (rule.userId !== userId && (!rule.familyId || rule.familyId !== membership?.familyId))) {
+    return { error: NextResponse.json({ error: "Rule not found" }, { status: 404 }) };
+  }
+
+  if (rule.familyId && membership?.role !== "admin" && membership?.memberType !== "adult") {
+    return { error: NextResponse.json({ error: "Only adults can change family rules" }, { status: 403 }) };
+  }
+
+  return { rule };
+}
+
+// PATCH - Rename, switch hard/soft, enable/disable or redefine a rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { error } = await getEditableRule(session.user.id, id);
+    if (error) return error;
+
+    const body = await request.json();
+    const data = updateRuleSchema.parse(body);
+
+    const rule = await prisma.schedulingRule.update({
+      where: { id },
+      data,
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error updating scheduling rule:", error);
+    return NextResponse.json({ error: "Failed to update scheduling rule" }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { error } = await getEditableRule(session.user.id, id);
+    if (error) return error;
+
+    await prisma.schedulingRule.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting scheduling rule:", error);
+    return NextResponse.json({ error: "Failed to delete scheduling rule" }, { status: 500 });
+  }
+}
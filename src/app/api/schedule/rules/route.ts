@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { describeRule, ruleDefinitionSchema } from "@/lib/scheduling-rules";
+
+export const dynamic = "force-dynamic";
+
+const createRuleSchema = z.object({
+  name: z.string().trim().max(100).optional(), // Defaults to the rule's description
+  scope: z.enum(["personal", "family"]).default("personal"),
+  strength: z.enum(["hard", "soft"]).default("hard"),
+  definition: ruleDefinitionSchema,
+});
+
+// GET - The user's own scheduling rules and their family's
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    const records = await prisma.schedulingRule.findMany({
+      where: {
+        OR: [{ userId: session.user.id }, ...(membership ? [{ familyId: membership.familyId }] : [])],
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const rules = records.map((record) => {
+      const parsed = ruleDefinitionSchema.safeParse(record.definition);
+      return {
+        id: record.id,
+        name: record.name,
+        scope: record.familyId ? "family" : "personal",
+        strength: record.strength,
+        enabled: record.enabled,
+        definition: record.definition,
+        description: parsed.success ? describeRule(parsed.data) : "Invalid rule - it is ignored",
+      };
+    });
+
+    return NextResponse.json({
+      rules,
+      inFamily: !!membership,
+      canEditFamilyRules: !!membership && (membership.role === "admin" || membership.memberType === "adult"),
+    });
+  } catch (error) {
+    console.error("Error fetching scheduling rules:", error);
+    return NextResponse.json({ error: "Failed to fetch scheduling rules" }, { status: 500 });
+  }
+}
+
+// POST - Add a personal or family scheduling rule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, scope, strength, definition } = createRuleSchema.parse(body);
+
+    let familyId: string | null = null;
+    if (scope === "family") {
+      const membership = await prisma.familyMember.findUnique({
+        where: { userId: session.user.id },
+      });
+
+      if (!membership) {
+        return NextResponse.json({ error: "You must be in a family to add family rules" }, { status: 400 });
+      }
+      if (membership.role !== "admin" && membership.memberType !== "adult") {
+        return NextResponse.json({ error: "Only adults can set family rules" }, { status: 403 });
+      }
+      familyId = membership.familyId;
+    }
+
+    const rule = await prisma.schedulingRule.create({
+      data: {
+        userId: familyId ? null : session.user.id,
+        familyId,
+        name: name || describeRule(definition),
+        strength,
+        definition,
+      },
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    console.error("Error creating scheduling rule:", error);
+    return NextResponse.json({ error: "Failed to create scheduling rule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,251 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getCalendarEvents } from "@/lib/calendar";
+import { generateSchedule, generateFamilySchedule } from "@/lib/ai-scheduler";
+import { startOfWeek, endOfWeek, addDays, eachDayOfInterval, format } from "date-fns";
+import { AIScheduleResponse, CalendarEvent } from "@/types";
+import { getBlockedTimesForRange, getUserAvailabilityInfo } from "@/lib/user-availability";
+import { loadRotationPlans } from "@/lib/rotations";
+import { resolveTimeZone, nowInTimeZone, fromZonedTime } from "@/lib/timezone";
+import { getTravelTimesForUser } from "@/lib/travel-time";
+import { getSchedulingRulesForUser } from "@/lib/scheduling-rules";
+import { getEnergyProfile } from "@/lib/energy";
+import { getWeatherForecast } from "@/lib/weather-forecast";
+import {
+  SimulationChanges,
+  SimulationMember,
+  applyAvailabilityChanges,
+  applyTaskChanges,
+  diffSchedules,
+  getFreeMinutes,
+  getPlannedFairness,
+  getReplannedEventIds,
+  getSettledScheduledByTask,
+  getStoredSchedule,
+  simulationChangesSchema,
+} from "@/lib/schedule-simulation";
+
+export const dynamic = "force-dynamic";
+
+const simulateSchema = z.object({
+  weekStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  changes: simulationChangesSchema,
+});
+
+// POST - What-if: replan the rest of the week with hypothetical task and
+// availability changes and diff it against the sessions already planned.
+// Nothing is saved.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const userId = session.user.id;
+
+    const body = await request.json();
+    const { weekStart: weekStartParam, changes } = simulateSchema.parse(body);
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const familyMembership = await prisma.familyMember.findUnique({
+      where: { userId },
+      include: {
+        family: {
+          include: {
+            members: { include: { user: true } },
+            dependents: { select: { id: true, name: true, memberType: true } },
+          },
+        },
+      },
+    });
+    const isFamily = !!familyMembership && familyMembership.family.members.length >= 2;
+    const memberIds = isFamily ? familyMembership.family.members.map((m) => m.userId) : [userId];
+
+    const unknownMember = changes.addTasks.find((t) => t.userId && !memberIds.includes(t.userId))
+      || changes.availability.find((a) => a.userId && !memberIds.includes(a.userId));
+    if (unknownMember) {
+      return NextResponse.json({ error: "Changes can only be made for members of your family" }, { status: 400 });
+    }
+
+    // Same week handling as schedule generation: replan from today (or the
+    // requested week's start) to the end of the week, on the user's clock
+    const timeZone = resolveTimeZone(user.timezone);
+    const now = nowInTimeZone(timeZone);
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const requestedStart = weekStartParam ? new Date(weekStartParam + "T00:00:00") : today;
+    const fullWeekStart = startOfWeek(requestedStart, { weekStartsOn: 1 });
+    const weekEnd = endOfWeek(requestedStart, { weekStartsOn: 1 });
+    const weekStart = weekStartParam
+      ? (requestedStart < today ? today : requestedStart)
+      : (now.getDay() === 0 ? addDays(today, 1) : today);
+
+    if (weekStart > weekEnd) {
+      return NextResponse.json({ error: "That week is already over" }, { status: 400 });
+    }
+
+    const eventRangeStart = fromZonedTime(weekStart, timeZone);
+    const eventRangeEnd = fromZonedTime(weekEnd, timeZone);
+    const replannedEventIds = await getReplannedEventIds(memberIds, weekStart, weekEnd);
+
+    const loadMember = async (memberId: string) => {
+      let calendarEvents: CalendarEvent[] = [];
+      try {
+        calendarEvents = await getCalendarEvents(memberId, eventRangeStart, eventRangeEnd);
+      } catch {
+        console.log(`[simulate] Calendar not connected for user ${memberId}`);
+      }
+
+      return {
+        userId: memberId,
+        calendarEvents: calendarEvents.filter((e) => !replannedEventIds.has(e.id)),
+        blockedTimes: await getBlockedTimesForRange(memberId, weekStart, weekEnd),
+        availabilityInfo: await getUserAvailabilityInfo(memberId),
+        rules: await getSchedulingRulesForUser(memberId),
+        energyProfile: await getEnergyProfile(memberId),
+      };
+    };
+
+    const days = eachDayOfInterval({ start: weekStart, end: weekEnd });
+    const baseline = await getStoredSchedule(memberIds, weekStart, weekEnd, timeZone);
+    let scenario: AIScheduleResponse;
+    let baselineMembers: SimulationMember[];
+    let scenarioMembers: SimulationMember[];
+    let fairness: { before: number; after: number; delta: number } | null = null;
+
+    if (isFamily) {
+      const family = familyMembership.family;
+      const owner = { userId, familyId: family.id };
+
+      const membersData = await Promise.all(
+        family.members.map(async (member) => ({
+          ...(await loadMember(member.userId)),
+          userName: member.user.name || "User",
+          memberType: member.memberType,
+          helpDays: member.helpDays,
+          tasks: await prisma.task.findMany({
+            where: { userId: member.userId },
+            orderBy: { priority: "asc" },
+          }),
+        }))
+      );
+      const familyTasks = await prisma.task.findMany({
+        where: { familyId: family.id },
+        orderBy: { priority: "asc" },
+      });
+      const allTasks = [...membersData.flatMap((m) => m.tasks), ...familyTasks];
+      const scenarioTasks = applyTaskChanges(allTasks, changes, owner);
+      const weatherForecasts = new Map(
+        await Promise.all(
+          membersData.map(async (m) => [
+            m.userId,
+            await getWeatherForecast(m.userId, scenarioTasks, weekStart, weekEnd, m.availabilityInfo.timeZone),
+          ] as const)
+        )
+      );
+
+      baselineMembers = membersData;
+      const scenarioMembersData = membersData.map((m) => applyAvailabilityChanges(m, changes, userId));
+      scenarioMembers = scenarioMembersData;
+      scenario = await generateFamilySchedule({
+        familyMembers: scenarioMembersData.map((m) => ({
+          ...m,
+          tasks: scenarioTasks.filter((t) => !t.familyId && t.userId === m.userId),
+          weatherForecast: weatherForecasts.get(m.userId),
+        })),
+        familyTasks: scenarioTasks.filter((t) => t.familyId),
+        dependents: family.dependents,
+        weekStart,
+        existingScheduledByTask: await getSettledScheduledByTask(scenarioTasks, fullWeekStart, weekStart),
+        rotations: await loadRotationPlans(scenarioTasks.map((t) => t.id), weekStart, weekEnd),
+        taskDependencies: await prisma.taskDependency.findMany({
+          where: { taskId: { in: scenarioTasks.map((t) => t.id) } },
+        }),
+        useAI: false,
+      });
+
+      const shareMembers = family.members.map((m) => ({
+        userId: m.userId,
+        memberType: m.memberType,
+        targetShare: m.targetShare,
+      }));
+      const before = getPlannedFairness(baseline.schedule, allTasks, shareMembers);
+      const after = getPlannedFairness(scenario.schedule, scenarioTasks, shareMembers);
+      fairness = { before, after, delta: after - before };
+    } else {
+      const owner = { userId, familyId: familyMembership?.familyId ?? null };
+      const memberData = await loadMember(userId);
+      const tasks = await prisma.task.findMany({
+        where: { userId },
+        orderBy: { priority: "asc" },
+      });
+      const scenarioTasks = applyTaskChanges(tasks, changes, owner);
+      const realTaskIds = tasks.map((t) => t.id);
+      const [taskDependencies, travelTimes, weatherForecast] = await Promise.all([
+        prisma.taskDependency.findMany({ where: { taskId: { in: realTaskIds } } }),
+        getTravelTimesForUser(userId, tasks),
+        getWeatherForecast(userId, scenarioTasks, weekStart, weekEnd, timeZone),
+      ]);
+
+      const scenarioMember = applyAvailabilityChanges(memberData, changes, userId);
+      baselineMembers = [memberData];
+      scenarioMembers = [scenarioMember];
+      scenario = await generateSchedule({
+        userId,
+        userName: user.name || "User",
+        calendarEvents: scenarioMember.calendarEvents,
+        tasks: scenarioTasks,
+        weekStart,
+        blockedTimes: scenarioMember.blockedTimes,
+        availabilityInfo: scenarioMember.availabilityInfo,
+        existingScheduledByTask: await getSettledScheduledByTask(scenarioTasks, fullWeekStart, weekStart),
+        // Dependencies on removed tasks no longer apply
+        taskDependencies: taskDependencies.filter(
+          (d) => scenarioTasks.some((t) => t.id === d.taskId) && scenarioTasks.some((t) => t.id === d.dependsOnTaskId)
+        ),
+        travelTimes,
+        rules: scenarioMember.rules,
+        energyProfile: scenarioMember.energyProfile,
+        weatherForecast,
+        useAI: false,
+      });
+    }
+
+    const freeBefore = getFreeMinutes(baseline.schedule, baselineMembers, days);
+    const freeAfter = getFreeMinutes(scenario.schedule, scenarioMembers, days);
+
+    console.log(`[simulate] ${describeChanges(changes)} for user ${userId}: ${baseline.schedule.length} -> ${scenario.schedule.length} sessions`);
+
+    return NextResponse.json({
+      weekStart: format(weekStart, "yyyy-MM-dd"),
+      weekEnd: format(weekEnd, "yyyy-MM-dd"),
+      diff: diffSchedules(baseline, scenario),
+      fairness,
+      freeMinutes: { before: freeBefore, after: freeAfter, delta: freeAfter - freeBefore },
+      baseline,
+      scenario,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Error simulating schedule:", error);
+    return NextResponse.json({ error: "Failed to simulate schedule" }, { status: 500 });
+  }
+}
+
+function describeChanges(changes: SimulationChanges): string {
+  return [
+    `${changes.addTasks.length} added`,
+    `${changes.updateTasks.length} updated`,
+    `${changes.removeTaskIds.length} removed`,
+    `${changes.availability.length} availability changes`,
+  ].join(", ");
+}
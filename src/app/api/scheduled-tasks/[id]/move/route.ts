@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { updateCalendarEvent } from "@/lib/calendar";
 import { startOfWeek, parseISO, isSameDay, areIntervalsOverlapping } from "date-fns";
 import { z } from "zod";
 
@@ -180,12 +181,28 @@ export async function POST(
         movedAt: new Date(),
         movedBy: session.user.id,
         moveReason: reason,
+        sequence: { increment: 1 },
       },
       include: {
         task: true,
       },
     });
 
+    // Move the calendar event too (Google or Microsoft)
+    if (scheduledTask.calendarEventId) {
+      try {
+        await updateCalendarEvent(
+          scheduledTask.assignedToUserId,
+          scheduledTask.calendarEventId,
+          newStart,
+          newEnd,
+          scheduledTask.calendarProvider
+        );
+      } catch (error) {
+        console.log("Could not update calendar event:", error);
+      }
+    }
+
     // Handle conflicts - update conflicting tasks and create conflict records
     for (const conflict of conflicts) {
       if (conflict.type === "shortened" && conflict.resolution) {
@@ -199,6 +216,7 @@ export async function POST(
             originalDuration: Math.round(
               (conflict.conflictingTask.endTime.getTime() - conflict.conflictingTask.startTime.getTime()) / 60000
             ),
+            sequence: { increment: 1 },
           },
         });
       }
@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
-import { deleteCalendarEvent } from "@/lib/calendar";
+import { deleteCalendarEvent, updateCalendarEvent } from "@/lib/calendar";
+import { WORK_EVENT_RESET, recordWorkCalendarDeletions } from "@/lib/addin-sync";
 import { trackTaskOutcome } from "@/lib/opik-evaluators";
 import { flushOpik } from "@/lib/opik";
 import { getWeek } from "date-fns";
@@ -115,6 +116,9 @@ export async function PATCH(
     if (validatedData.endTime) {
       updateData.endTime = new Date(validatedData.endTime);
     }
+    if (validatedData.startTime || validatedData.endTime) {
+      updateData.sequence = { increment: 1 };
+    }
 
     // Track reassignment patterns
     let reassignmentPatternInfo: {
@@ -127,6 +131,9 @@ export async function PATCH(
     // Handle reassignment
     if (validatedData.assignedToUserId && validatedData.assignedToUserId !== scheduledTask.assignedToUserId) {
       updateData.assignedToUserId = validatedData.assignedToUserId;
+      // The previous assignee's add-in removes their work-calendar event
+      await recordWorkCalendarDeletions({ id: scheduledTask.id });
+      Object.assign(updateData, WORK_EVENT_RESET);
 
       // Log the reassignment
       await prisma.taskReassignmentLog.create({
@@ -207,6 +214,25 @@ export async function PATCH(
       include: { task: true },
     });
 
+    // Keep the calendar event in step with a rescheduled task
+    if (
+      scheduledTask.calendarEventId &&
+      (updated.startTime.getTime() !== scheduledTask.startTime.getTime() ||
+        updated.endTime.getTime() !== scheduledTask.endTime.getTime())
+    ) {
+      try {
+        await updateCalendarEvent(
+          scheduledTask.assignedToUserId,
+          scheduledTask.calendarEventId,
+          updated.startTime,
+          updated.endTime,
+          scheduledTask.calendarProvider
+        );
+      } catch (error) {
+        console.log("Could not update calendar event:", error);
+      }
+    }
+
     // Log task outcome to Opik for AI learning when status changes AND learning is enabled
     if ((validatedData.status === "completed" || validatedData.status === "skipped") && shouldLearn) {
       try {
@@ -345,12 +371,13 @@ export async function DELETE(
     // Delete calendar event if exists
     if (scheduledTask.calendarEventId) {
       try {
-        await deleteCalendarEvent(session.user.id, scheduledTask.calendarEventId);
+        await deleteCalendarEvent(session.user.id, scheduledTask.calendarEventId, scheduledTask.calendarProvider);
       } catch (error) {
         console.log("Could not delete calendar event:", error);
       }
     }
 
+    await recordWorkCalendarDeletions({ id });
     await prisma.scheduledTask.delete({ where: { id } });
 
     return NextResponse.json({ success: true });
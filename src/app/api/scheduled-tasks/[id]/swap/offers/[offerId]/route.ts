@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { SwapError, respondToSwapOffer } from "@/lib/task-swaps";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const respondSchema = z.object({
+  action: z.enum(["accept", "decline", "withdraw"]),
+});
+
+// PATCH - Accept or decline a trade offer (requester), or withdraw it (offerer)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; offerId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { offerId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action } = respondSchema.parse(body);
+
+    const result = await respondToSwapOffer(session.user.id, offerId, action);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    if (error instanceof SwapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error responding to swap offer:", error);
+    return NextResponse.json({ error: "Failed to respond to swap offer" }, { status: 500 });
+  }
+}
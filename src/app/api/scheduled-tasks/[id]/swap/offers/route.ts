@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { SwapError, makeSwapOffer } from "@/lib/task-swaps";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const offerSchema = z.object({
+  // One of your own scheduled tasks to hand over in return; omit to just take the task
+  tradeScheduledTaskId: z.string().optional().nullable(),
+  message: z.string().max(300).optional().nullable(),
+});
+
+// POST - Take the offered task, or counter-offer a trade
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { tradeScheduledTaskId, message } = offerSchema.parse(body);
+
+    const result = await makeSwapOffer(session.user.id, id, tradeScheduledTaskId, message);
+
+    return NextResponse.json(result, { status: result.status === "offered" ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    if (error instanceof SwapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error making swap offer:", error);
+    return NextResponse.json({ error: "Failed to make swap offer" }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { SwapError, cancelSwapRequest, openSwapRequest } from "@/lib/task-swaps";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const swapRequestSchema = z.object({
+  message: z.string().max(300).optional().nullable(),
+});
+
+// GET - The task's current swap request (with offers), if any
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    const swapRequest = membership
+      ? await prisma.taskSwapRequest.findFirst({
+          where: { scheduledTaskId: id, familyId: membership.familyId },
+          include: {
+            requestedBy: { select: { id: true, name: true } },
+            offers: {
+              include: {
+                offeredBy: { select: { id: true, name: true } },
+                tradeScheduledTask: { include: { task: { select: { name: true } } } },
+              },
+              orderBy: { createdAt: "asc" },
+            },
+          },
+          orderBy: { createdAt: "desc" },
+        })
+      : null;
+
+    return NextResponse.json({ swapRequest });
+  } catch (error) {
+    console.error("Error fetching swap request:", error);
+    return NextResponse.json({ error: "Failed to fetch swap request" }, { status: 500 });
+  }
+}
+
+// POST - Offer this task to the rest of the family
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { message } = swapRequestSchema.parse(body);
+
+    const swapRequest = await openSwapRequest(session.user.id, id, message);
+
+    return NextResponse.json({ swapRequest }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues[0].message }, { status: 400 });
+    }
+    if (error instanceof SwapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error opening swap request:", error);
+    return NextResponse.json({ error: "Failed to open swap request" }, { status: 500 });
+  }
+}
+
+// DELETE - Withdraw this task from the swap marketplace
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await cancelSwapRequest(session.user.id, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SwapError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error cancelling swap request:", error);
+    return NextResponse.json({ error: "Failed to cancel swap request" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { endOfWeek, format, parseISO, startOfWeek } from "date-fns";
+import { buildICSCalendar } from "@/lib/ics-writer";
+
+export const dynamic = "force-dynamic";
+
+// GET - Download a week's schedule as an .ics file
+// (?date=yyyy-MM-dd picks the week, &family=true includes the family's tasks)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const dateStr = searchParams.get("date");
+    const includeFamily = searchParams.get("family") === "true";
+
+    const baseDate = dateStr ? parseISO(dateStr) : new Date();
+    const weekStart = startOfWeek(baseDate, { weekStartsOn: 1 });
+    const weekEnd = endOfWeek(baseDate, { weekStartsOn: 1 });
+
+    let userIds = [session.user.id];
+    if (includeFamily) {
+      const membership = await prisma.familyMember.findUnique({
+        where: { userId: session.user.id },
+        include: { family: { include: { members: { select: { userId: true } } } } },
+      });
+      if (membership) {
+        userIds = membership.family.members.map((m) => m.userId);
+      }
+    }
+
+    const sessions = await prisma.scheduledTask.findMany({
+      where: {
+        assignedToUserId: { in: userIds },
+        status: { not: "skipped" },
+        scheduledDate: { gte: weekStart, lte: weekEnd },
+      },
+      include: {
+        task: { select: { name: true, type: true, category: true } },
+        assignedTo: { select: { name: true } },
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    const weekLabel = format(weekStart, "yyyy-MM-dd");
+    const ics = buildICSCalendar(`ResolutionAI - week of ${weekLabel}`, sessions, {
+      showAssignee: userIds.length > 1,
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="resolutionai-${weekLabel}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to export schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+
+export const dynamic = "force-dynamic";
+
+// DELETE - Remove an ordering constraint
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; dependencyId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id, dependencyId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const membership = await prisma.familyMember.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the dependency touches this task and the user can edit it
+    const dependency = await prisma.taskDependency.findFirst({
+      where: {
+        id: dependencyId,
+        OR: [{ taskId: id }, { dependsOnTaskId: id }],
+        task: {
+          OR: [
+            { userId: session.user.id },
+            ...(membership ? [{ familyId: membership.familyId }] : []),
+          ],
+        },
+      },
+    });
+
+    if (!dependency) {
+      return NextResponse.json({ error: "Dependency not found" }, { status: 404 });
+    }
+
+    await prisma.taskDependency.delete({
+      where: { id: dependencyId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting task dependency:", error);
+    return NextResponse.json({ error: "Failed to delete task dependency" }, { status: 500 });
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+
+export const dynamic = "force-dynamic";
+
+const createDependencySchema = z.object({
+  otherTaskId: z.string().min(1),
+  // "after": this task must come after otherTaskId; "before": this task must come first
+  relation: z.enum(["before", "after"]),
+  minGapMinutes: z.number().min(0).optional().nullable(),
+  maxGapMinutes: z.number().min(0).optional().nullable(),
+  sameDay: z.boolean().optional().default(false),
+});
+
+/**
+ * Find a task the user can edit (their own, or a shared task in their family)
+ */
+async function findAccessibleTask(taskId: string, userId: string) {
+  const membership = await prisma.familyMember.findUnique({ where: { userId } });
+
+  return prisma.task.findFirst({
+    where: {
+      id: taskId,
+      OR: [
+        { userId },
+        ...(membership ? [{ familyId: membership.familyId }] : []),
+      ],
+    },
+  });
+}
+
+/**
+ * Check whether adding prerequisite -> dependent would close a cycle
+ */
+async function wouldCreateCycle(dependentId: string, prerequisiteId: string): Promise<boolean> {
+  const visited = new Set<string>();
+  const queue = [dependentId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === prerequisiteId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    const dependents = await prisma.taskDependency.findMany({
+      where: { dependsOnTaskId: current },
+      select: { taskId: true },
+    });
+    queue.push(...dependents.map((d) => d.taskId));
+  }
+
+  return false;
+}
+
+// GET - List a task's prerequisites and dependents
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const task = await findAccessibleTask(id, session.user.id);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const [prerequisites, dependents] = await Promise.all([
+      prisma.taskDependency.findMany({
+        where: { taskId: id },
+        include: { dependsOn: { select: { id: true, name: true } } },
+      }),
+      prisma.taskDependency.findMany({
+        where: { dependsOnTaskId: id },
+        include: { task: { select: { id: true, name: true } } },
+      }),
+    ]);
+
+    return NextResponse.json({ prerequisites, dependents });
+  } catch (error) {
+    console.error("Error fetching task dependencies:", error);
+    return NextResponse.json({ error: "Failed to fetch task dependencies" }, { status: 500 });
+  }
+}
+
+// POST - Add an ordering constraint between this task and another
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { otherTaskId, relation, minGapMinutes, maxGapMinutes, sameDay } =
+      createDependencySchema.parse(body);
+
+    if (otherTaskId === id) {
+      return NextResponse.json({ error: "A task cannot depend on itself" }, { status: 400 });
+    }
+
+    if (minGapMinutes != null && maxGapMinutes != null && maxGapMinutes < minGapMinutes) {
+      return NextResponse.json(
+        { error: "Maximum gap must be greater than or equal to minimum gap" },
+        { status: 400 }
+      );
+    }
+
+    const [task, otherTask] = await Promise.all([
+      findAccessibleTask(id, session.user.id),
+      findAccessibleTask(otherTaskId, session.user.id),
+    ]);
+
+    if (!task || !otherTask) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const dependentId = relation === "after" ? id : otherTaskId;
+    const prerequisiteId = relation === "after" ? otherTaskId : id;
+
+    if (await wouldCreateCycle(dependentId, prerequisiteId)) {
+      return NextResponse.json(
+        { error: "This would create a circular dependency between tasks" },
+        { status: 400 }
+      );
+    }
+
+    const dependency = await prisma.taskDependency.upsert({
+      where: {
+        taskId_dependsOnTaskId: { taskId: dependentId, dependsOnTaskId: prerequisiteId },
+      },
+      update: {
+        minGapMinutes: minGapMinutes ?? null,
+        maxGapMinutes: maxGapMinutes ?? null,
+        sameDay,
+      },
+      create: {
+        taskId: dependentId,
+        dependsOnTaskId: prerequisiteId,
+        minGapMinutes: minGapMinutes ?? null,
+        maxGapMinutes: maxGapMinutes ?? null,
+        sameDay,
+      },
+    });
+
+    return NextResponse.json({ dependency }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Error creating task dependency:", error);
+    return NextResponse.json({ error: "Failed to create task dependency" }, { status: 500 });
+  }
+}
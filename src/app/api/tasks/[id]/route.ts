@@ -2,7 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
+import { RECURRING_PERIODS, buildRecurrenceRule, getRecurrencePreset } from "@/lib/task-recurrence";
+import { LOCATION_TYPES } from "@/lib/travel-time";
+import { MEMBER_TYPES } from "@/lib/family-roles";
+import { DEMAND_LEVELS } from "@/lib/energy";
+import { OUTDOOR_ACTIVITIES, weatherLimitsSchema } from "@/lib/weather-forecast";
+import { recordWorkCalendarDeletions } from "@/lib/addin-sync";
 
 export const dynamic = "force-dynamic";
 
@@ -28,13 +35,48 @@ const updateTaskSchema = z.object({
 
   // Flexible schedule settings
   frequency: z.number().min(1).max(14).optional(),
-  frequencyPeriod: z.enum(["day", "week"]).optional(),
+  frequencyPeriod: z.enum(["day", "week", ...RECURRING_PERIODS, "once"]).optional(),
   requiredDays: z.array(z.enum(DAYS_OF_WEEK)).optional(),
   preferredDays: z.array(z.enum(DAYS_OF_WEEK)).optional(),
   preferredTimeStart: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional().nullable(),
   preferredTimeEnd: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional().nullable(),
   minDuration: z.number().min(5).optional().nullable(),
   maxDuration: z.number().min(5).optional().nullable(),
+
+  // Multi-week recurrence (frequencyPeriod = "biweekly", "month", "quarter" or "custom")
+  monthDay: z.number().int().min(1).max(31).optional().nullable(),
+  monthWeek: z.number().int().min(-1).max(5).refine(n => n !== 0, "Week of month must be 1-5 or -1").optional().nullable(),
+  monthWeekday: z.enum(DAYS_OF_WEEK).optional().nullable(),
+  recurrenceRule: z.string().max(500).optional().nullable(),
+  recurrenceStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+
+  // One-off tasks (frequencyPeriod = "once")
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+  estimatedEffort: z.number().min(5).optional().nullable(),
+
+  // Splittable tasks (estimatedEffort packed into several sessions)
+  isSplittable: z.boolean().optional(),
+  minChunkMinutes: z.number().int().min(5).optional().nullable(),
+  maxChunkMinutes: z.number().int().min(5).optional().nullable(),
+  maxChunksPerDay: z.number().int().min(1).max(8).optional().nullable(),
+
+  // Saved location the task happens at (travel time is kept around it)
+  locationType: z.enum(LOCATION_TYPES).optional().nullable(),
+
+  // Family roles: the dependent the task is for, and who may be assigned it
+  forDependentId: z.string().optional().nullable(),
+  eligibleMemberTypes: z.array(z.enum(MEMBER_TYPES)).optional(),
+
+  // Fairness weighting: how draining the task is, and its planning/remembering work
+  effortScore: z.number().int().min(1).max(5).optional().nullable(),
+  mentalLoadMinutes: z.number().int().min(0).max(240).optional().nullable(),
+
+  // Energy it takes, matched to the assignee's high-energy hours
+  demandLevel: z.enum(DEMAND_LEVELS).optional().nullable(),
+
+  // Outdoor tasks are placed in hours the forecast suits, within their own limits if given
+  outdoorActivity: z.enum(OUTDOOR_ACTIVITIES).optional().nullable(),
+  weatherLimits: weatherLimitsSchema.optional().nullable(),
 });
 
 export async function GET(
@@ -111,12 +153,77 @@ export async function PATCH(
       );
     }
 
+    // Validate: one-off tasks require a due date
+    const finalFrequencyPeriod = validatedData.frequencyPeriod ?? existingTask.frequencyPeriod;
+    const finalDueDate = validatedData.dueDate !== undefined ? validatedData.dueDate : existingTask.dueDate;
+    if (finalFrequencyPeriod === "once" && !finalDueDate) {
+      return NextResponse.json(
+        { error: "One-off tasks require a due date" },
+        { status: 400 }
+      );
+    }
+
+    // Validate: splittable tasks need a total effort and a sensible session range
+    const finalIsSplittable = validatedData.isSplittable ?? existingTask.isSplittable;
+    const finalEffort = validatedData.estimatedEffort !== undefined ? validatedData.estimatedEffort : existingTask.estimatedEffort;
+    if (finalIsSplittable && !finalEffort) {
+      return NextResponse.json(
+        { error: "Splittable tasks require a total effort" },
+        { status: 400 }
+      );
+    }
+    const finalMinChunk = validatedData.minChunkMinutes !== undefined ? validatedData.minChunkMinutes : existingTask.minChunkMinutes;
+    const finalMaxChunk = validatedData.maxChunkMinutes !== undefined ? validatedData.maxChunkMinutes : existingTask.maxChunkMinutes;
+    if (finalMinChunk && finalMaxChunk && finalMinChunk > finalMaxChunk) {
+      return NextResponse.json(
+        { error: "Minimum session length cannot be longer than the maximum" },
+        { status: 400 }
+      );
+    }
+
+    // Validate: the dependent must belong to the user's family
+    if (validatedData.forDependentId) {
+      const dependent = await prisma.familyDependent.findFirst({
+        where: { id: validatedData.forDependentId, family: { members: { some: { userId: session.user.id } } } },
+      });
+      if (!dependent) {
+        return NextResponse.json(
+          { error: "Dependent not found in your family" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Rebuild the RRULE from the merged recurrence fields
+    const { monthDay, monthWeek, monthWeekday, recurrenceRule, recurrenceStart, dueDate, weatherLimits, ...taskData } = validatedData;
+    const storedPreset = getRecurrencePreset(existingTask.recurrenceRule);
+    const recurrence = buildRecurrenceRule({
+      frequencyPeriod: finalFrequencyPeriod ?? "week",
+      schedulingMode: finalSchedulingMode,
+      fixedDays: validatedData.fixedDays ?? existingTask.fixedDays,
+      monthDay: monthDay !== undefined ? monthDay : storedPreset.monthDay,
+      monthWeek: monthWeek !== undefined ? monthWeek : storedPreset.monthWeek,
+      monthWeekday: monthWeekday !== undefined ? monthWeekday : storedPreset.monthWeekday,
+      recurrenceRule: recurrenceRule !== undefined ? recurrenceRule : existingTask.recurrenceRule,
+    });
+    if (recurrence.error) {
+      return NextResponse.json({ error: recurrence.error }, { status: 400 });
+    }
+
     const task = await prisma.task.updateMany({
       where: {
         id,
         userId: session.user.id,
       },
-      data: validatedData,
+      data: {
+        ...taskData,
+        recurrenceRule: recurrence.rule,
+        recurrenceStart: recurrence.rule
+          ? (recurrenceStart ? new Date(recurrenceStart + "T12:00:00") : existingTask.recurrenceStart ?? new Date())
+          : null,
+        ...(dueDate !== undefined && { dueDate: dueDate ? new Date(dueDate + "T12:00:00") : null }),
+        ...(weatherLimits !== undefined && { weatherLimits: weatherLimits ?? Prisma.JsonNull }),
+      },
     });
 
     if (task.count === 0) {
@@ -146,6 +253,8 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Its sessions go with it
+    await recordWorkCalendarDeletions({ task: { id, userId: session.user.id } });
     const result = await prisma.task.deleteMany({
       where: {
         id,
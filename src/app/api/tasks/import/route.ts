@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { proposeTasksFromICS } from "@/lib/ics-import";
+import { resolveTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+// Largest .ics accepted
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+// POST - Propose tasks from the recurring events in an uploaded .ics file
+// (multipart field "file"). Nothing is saved: the user confirms proposals,
+// which are then created through POST /api/tasks.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "Choose an .ics file to import" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: "That file is too large (2 MB max)" }, { status: 400 });
+    }
+
+    const icsData = await file.text();
+    if (!icsData.includes("BEGIN:VCALENDAR")) {
+      return NextResponse.json(
+        { error: "The file does not appear to be a calendar file (ICS format)" },
+        { status: 400 }
+      );
+    }
+
+    const [user, tasks] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.user.id }, select: { timezone: true } }),
+      prisma.task.findMany({ where: { userId: session.user.id }, select: { name: true } }),
+    ]);
+
+    const result = proposeTasksFromICS(icsData, resolveTimeZone(user?.timezone));
+
+    // Flag events that look like tasks the user already has
+    const existingNames = new Set(tasks.map((t) => t.name.trim().toLowerCase()));
+    const proposals = result.proposals.map((proposal) => ({
+      ...proposal,
+      alreadyExists: existingNames.has(proposal.name.toLowerCase()),
+    }));
+
+    return NextResponse.json({ ...result, proposals });
+  } catch (error) {
+    console.error("Error importing calendar file:", error);
+    return NextResponse.json(
+      { error: "Failed to read calendar file" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import prisma from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
+import { RECURRING_PERIODS, buildRecurrenceRule } from "@/lib/task-recurrence";
+import { LOCATION_TYPES } from "@/lib/travel-time";
+import { MEMBER_TYPES } from "@/lib/family-roles";
+import { DEMAND_LEVELS } from "@/lib/energy";
+import { OUTDOOR_ACTIVITIES, weatherLimitsSchema } from "@/lib/weather-forecast";
 
 export const dynamic = "force-dynamic";
 
@@ -25,13 +31,48 @@ const createTaskSchema = z.object({
 
   // Flexible schedule settings
   frequency: z.number().min(1).max(14).optional().default(1),
-  frequencyPeriod: z.enum(["day", "week"]).optional().default("week"),
+  frequencyPeriod: z.enum(["day", "week", ...RECURRING_PERIODS, "once"]).optional().default("week"),
   requiredDays: z.array(z.enum(DAYS_OF_WEEK)).optional().default([]),
   preferredDays: z.array(z.enum(DAYS_OF_WEEK)).optional().default([]),
   preferredTimeStart: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional().nullable(),
   preferredTimeEnd: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).optional().nullable(),
   minDuration: z.number().min(5).optional().nullable(),
   maxDuration: z.number().min(5).optional().nullable(),
+
+  // Multi-week recurrence (frequencyPeriod = "biweekly", "month", "quarter" or "custom")
+  monthDay: z.number().int().min(1).max(31).optional().nullable(),
+  monthWeek: z.number().int().min(-1).max(5).refine(n => n !== 0, "Week of month must be 1-5 or -1").optional().nullable(),
+  monthWeekday: z.enum(DAYS_OF_WEEK).optional().nullable(),
+  recurrenceRule: z.string().max(500).optional().nullable(),
+  recurrenceStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+
+  // One-off tasks (frequencyPeriod = "once")
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+  estimatedEffort: z.number().min(5).optional().nullable(),
+
+  // Splittable tasks (estimatedEffort packed into several sessions)
+  isSplittable: z.boolean().optional().default(false),
+  minChunkMinutes: z.number().int().min(5).optional().nullable(),
+  maxChunkMinutes: z.number().int().min(5).optional().nullable(),
+  maxChunksPerDay: z.number().int().min(1).max(8).optional().nullable(),
+
+  // Saved location the task happens at (travel time is kept around it)
+  locationType: z.enum(LOCATION_TYPES).optional().nullable(),
+
+  // Family roles: the dependent the task is for, and who may be assigned it
+  forDependentId: z.string().optional().nullable(),
+  eligibleMemberTypes: z.array(z.enum(MEMBER_TYPES)).optional(),
+
+  // Fairness weighting: how draining the task is, and its planning/remembering work
+  effortScore: z.number().int().min(1).max(5).optional().nullable(),
+  mentalLoadMinutes: z.number().int().min(0).max(240).optional().nullable(),
+
+  // Energy it takes, matched to the assignee's high-energy hours
+  demandLevel: z.enum(DEMAND_LEVELS).optional().nullable(),
+
+  // Outdoor tasks are placed in hours the forecast suits, within their own limits if given
+  outdoorActivity: z.enum(OUTDOOR_ACTIVITIES).optional().nullable(),
+  weatherLimits: weatherLimitsSchema.optional().nullable(),
 });
 
 export async function GET() {
@@ -83,6 +124,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate: one-off tasks require a due date
+    if (validatedData.frequencyPeriod === "once" && !validatedData.dueDate) {
+      return NextResponse.json(
+        { error: "One-off tasks require a due date" },
+        { status: 400 }
+      );
+    }
+
+    // Validate: splittable tasks need a total effort and a sensible session range
+    if (validatedData.isSplittable && !validatedData.estimatedEffort) {
+      return NextResponse.json(
+        { error: "Splittable tasks require a total effort" },
+        { status: 400 }
+      );
+    }
+    if (
+      validatedData.minChunkMinutes &&
+      validatedData.maxChunkMinutes &&
+      validatedData.minChunkMinutes > validatedData.maxChunkMinutes
+    ) {
+      return NextResponse.json(
+        { error: "Minimum session length cannot be longer than the maximum" },
+        { status: 400 }
+      );
+    }
+
+    // Validate: the dependent must belong to the user's family
+    if (validatedData.forDependentId) {
+      const dependent = await prisma.familyDependent.findFirst({
+        where: { id: validatedData.forDependentId, family: { members: { some: { userId: session.user.id } } } },
+      });
+      if (!dependent) {
+        return NextResponse.json(
+          { error: "Dependent not found in your family" },
+          { status: 400 }
+        );
+      }
+    }
+
     // Extract fields for Prisma create
     const {
       schedulingMode,
@@ -96,9 +176,31 @@ export async function POST(request: NextRequest) {
       preferredTimeEnd,
       minDuration,
       maxDuration,
+      monthDay,
+      monthWeek,
+      monthWeekday,
+      recurrenceRule,
+      recurrenceStart,
+      dueDate,
+      estimatedEffort,
+      weatherLimits,
       ...baseData
     } = validatedData;
 
+    // Build the RRULE for multi-week/monthly periods
+    const recurrence = buildRecurrenceRule({
+      frequencyPeriod,
+      schedulingMode,
+      fixedDays,
+      monthDay,
+      monthWeek,
+      monthWeekday,
+      recurrenceRule,
+    });
+    if (recurrence.error) {
+      return NextResponse.json({ error: recurrence.error }, { status: 400 });
+    }
+
     const task = await prisma.task.create({
       data: {
         ...baseData,
@@ -114,6 +216,13 @@ export async function POST(request: NextRequest) {
         preferredTimeEnd: preferredTimeEnd || null,
         minDuration: minDuration || null,
         maxDuration: maxDuration || null,
+        recurrenceRule: recurrence.rule,
+        recurrenceStart: recurrence.rule
+          ? (recurrenceStart ? new Date(recurrenceStart + "T12:00:00") : new Date())
+          : null,
+        dueDate: frequencyPeriod === "once" && dueDate ? new Date(dueDate + "T12:00:00") : null,
+        estimatedEffort: frequencyPeriod === "once" || baseData.isSplittable ? estimatedEffort || null : null,
+        weatherLimits: weatherLimits ?? Prisma.JsonNull,
       },
     });
 
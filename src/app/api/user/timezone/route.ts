@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { z } from "zod";
+import { isValidTimeZone } from "@/lib/timezone";
+
+export const dynamic = "force-dynamic";
+
+const updateTimezoneSchema = z.object({
+  timezone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .nullable(), // IANA zone, or null for the server's
+});
+
+// GET - Get user's time zone
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { timezone: true },
+    });
+
+    return NextResponse.json({ timezone: user?.timezone ?? null });
+  } catch (error) {
+    console.error("Error fetching time zone:", error);
+    return NextResponse.json({ error: "Failed to fetch time zone" }, { status: 500 });
+  }
+}
+
+// PUT - Update user's time zone
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { timezone } = updateTimezoneSchema.parse(body);
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { timezone },
+    });
+
+    return NextResponse.json({ success: true, timezone });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.issues }, { status: 400 });
+    }
+    console.error("Error updating time zone:", error);
+    return NextResponse.json({ error: "Failed to update time zone" }, { status: 500 });
+  }
+}
@@ -43,7 +43,7 @@ export async function GET() {
     // Get user settings
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
-      select: { bufferMinutes: true, country: true, availableTimeStart: true, availableTimeEnd: true },
+      select: { bufferMinutes: true, country: true, timezone: true, availableTimeStart: true, availableTimeEnd: true },
     });
 
     // If no schedules exist, return defaults (9-5 Mon-Fri)
@@ -62,6 +62,7 @@ export async function GET() {
         schedules: defaults,
         bufferMinutes: user?.bufferMinutes ?? 0,
         country: user?.country ?? "UK",
+        timezone: user?.timezone ?? null,
         availableTimeStart: user?.availableTimeStart ?? 6,
         availableTimeEnd: user?.availableTimeEnd ?? 22,
         isDefault: true,
@@ -98,6 +99,7 @@ export async function GET() {
       schedules: sortedSchedules,
       bufferMinutes: user?.bufferMinutes ?? 0,
       country: user?.country ?? "UK",
+      timezone: user?.timezone ?? null,
       availableTimeStart: user?.availableTimeStart ?? 6,
       availableTimeEnd: user?.availableTimeEnd ?? 22,
       isDefault: false,
@@ -18,8 +18,15 @@ import {
   addWeeks,
 } from "date-fns";
 import * as calendarTools from "@/lib/agent-tools/calendar";
+import { getWeekRecurrenceDates, describeRecurrence } from "@/lib/task-recurrence";
+import { isOneOffTask } from "@/lib/task-deadlines";
+import { isSplittableTask, describeChunking } from "@/lib/task-chunks";
 import * as taskTools from "@/lib/agent-tools/tasks";
 import * as preferenceTools from "@/lib/agent-tools/preferences";
+import { describeMember } from "@/lib/family-roles";
+import { RotationPlan, describeRotation, getRotationTurns, loadRotationPlans } from "@/lib/rotations";
+import { describeCarriedBalance, getCarriedBalances, updateChoreLedger } from "@/lib/chore-ledger";
+import { formatInTimeZone, fromZonedTime, nowInTimeZone, resolveTimeZone } from "@/lib/timezone";
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -34,10 +41,14 @@ interface FamilyContext {
   members: {
     userId: string;
     name: string;
+    role: string;
+    carriedBalance: number; // Weighted minutes ahead of (+) or behind (-) their share
+    timeZone: string;
     tasks: Awaited<ReturnType<typeof taskTools.getUserTasks>>;
     preferences: Awaited<ReturnType<typeof preferenceTools.getAllPreferences>>;
     calendarEvents: Awaited<ReturnType<typeof calendarTools.getCalendarEvents>>;
   }[];
+  rotations: Map<string, RotationPlan>;
 }
 
 interface ProposedTask {
@@ -71,7 +82,7 @@ export async function POST(request: NextRequest) {
             members: {
               include: {
                 user: {
-                  select: { id: true, name: true, email: true },
+                  select: { id: true, name: true, email: true, timezone: true },
                 },
               },
             },
@@ -84,8 +95,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Not part of a family" }, { status: 404 });
     }
 
-    // Calculate week date range
-    const today = new Date();
+    // Calculate week date range on the requesting user's clock
+    const requester = familyMember.family.members.find((m) => m.userId === session.user.id);
+    const today = nowInTimeZone(requester?.user.timezone);
     const weekStart = week === "current"
       ? startOfWeek(today, { weekStartsOn: 1 })
       : startOfWeek(addWeeks(today, 1), { weekStartsOn: 1 });
@@ -158,6 +170,7 @@ export async function POST(request: NextRequest) {
       fixedDays: number[];
       fixedTime: string | null;
       requiredDays: number[];
+      recurrenceDates: string[] | null;
     }>();
     for (const member of familyContext.members) {
       for (const task of member.tasks) {
@@ -173,6 +186,7 @@ export async function POST(request: NextRequest) {
           fixedDays,
           fixedTime: task.fixedTime,
           requiredDays,
+          recurrenceDates: getWeekRecurrenceDates(task, weekStart),
         });
       }
     }
@@ -211,7 +225,16 @@ export async function POST(request: NextRequest) {
 
       console.log(`Checking ${proposedTask.taskName}: scheduled on ${dayNames[dayOfWeek]} (${dayOfWeek}), fixedDays: [${taskInfo.fixedDays}], requiredDays: [${taskInfo.requiredDays}], mode: ${taskInfo.schedulingMode}`);
 
-      if (taskInfo.schedulingMode === "fixed" && taskInfo.fixedDays.length > 0) {
+      // Multi-week/monthly tasks: only in due weeks, and only on rule dates when fixed
+      if (taskInfo.recurrenceDates) {
+        const isDueDate = taskInfo.schedulingMode === "fixed"
+          ? taskInfo.recurrenceDates.includes(proposedTask.scheduledDate)
+          : taskInfo.recurrenceDates.length > 0;
+        if (!isDueDate) {
+          console.warn(`FILTERED: ${proposedTask.taskName} scheduled on ${proposedTask.scheduledDate} but only due on: [${taskInfo.recurrenceDates}]`);
+          return false;
+        }
+      } else if (taskInfo.schedulingMode === "fixed" && taskInfo.fixedDays.length > 0) {
         if (!taskInfo.fixedDays.includes(dayOfWeek)) {
           const allowedDays = taskInfo.fixedDays.map(d => dayNames[d]).join(", ");
           console.warn(`FILTERED: ${proposedTask.taskName} scheduled on ${dayNames[dayOfWeek]} but only allowed on: ${allowedDays}`);
@@ -267,6 +290,19 @@ export async function POST(request: NextRequest) {
     // Use validated tasks
     planResult.tasks = validatedTasks;
 
+    // Rotated tasks go to whoever's turn it is, whoever the AI picked
+    const rotationTurns = getRotationTurns(planResult.tasks, familyContext.rotations, (task) => task.scheduledDate);
+    planResult.tasks = planResult.tasks.flatMap((task) => {
+      if (!rotationTurns.has(task)) return [task];
+      const turn = rotationTurns.get(task);
+      if (!turn) return []; // Everyone in the rotation is away
+      const assignee = familyContext.members.find((m) => m.userId === turn.userId);
+      return [{ ...task, assignedToUserId: turn.userId, assignedToName: assignee?.name || task.assignedToName }];
+    });
+
+    // The AI works in each assignee's local time
+    const timeZoneByUser = new Map(familyContext.members.map((m) => [m.userId, m.timeZone]));
+
     // Store the plan
     const weeklyPlan = await prisma.weeklyPlan.create({
       data: {
@@ -282,8 +318,8 @@ export async function POST(request: NextRequest) {
             taskId: task.taskId,
             assignedToUserId: task.assignedToUserId,
             scheduledDate: new Date(task.scheduledDate),
-            startTime: new Date(task.startTime),
-            endTime: new Date(task.endTime),
+            startTime: fromZonedTime(new Date(task.startTime), timeZoneByUser.get(task.assignedToUserId)),
+            endTime: fromZonedTime(new Date(task.endTime), timeZoneByUser.get(task.assignedToUserId)),
             aiReasoning: task.reasoning,
           })),
         },
@@ -315,21 +351,34 @@ export async function POST(request: NextRequest) {
 async function gatherFamilyContext(
   familyId: string,
   familyName: string,
-  members: { userId: string; user: { id: string; name: string | null; email: string | null } }[],
+  members: {
+    userId: string;
+    memberType: string;
+    helpDays: number[];
+    user: { id: string; name: string | null; email: string | null; timezone: string | null };
+  }[],
   weekStart: Date,
   weekEnd: Date
 ): Promise<FamilyContext> {
+  // Credit for past weeks' Life Admin carries into this plan
+  await updateChoreLedger(familyId);
+  const balances = await getCarriedBalances(familyId);
+
   const memberContexts = await Promise.all(
     members.map(async (member) => {
+      const timeZone = resolveTimeZone(member.user.timezone);
       const [tasks, preferences, calendarEvents] = await Promise.all([
         taskTools.getUserTasks(member.userId),
         preferenceTools.getAllPreferences(member.userId),
-        calendarTools.getCalendarEvents(member.userId, weekStart, weekEnd),
+        calendarTools.getCalendarEvents(member.userId, fromZonedTime(weekStart, timeZone), fromZonedTime(weekEnd, timeZone)),
       ]);
 
       return {
         userId: member.userId,
         name: member.user.name || member.user.email || "Unknown",
+        role: describeMember(member),
+        carriedBalance: balances.get(member.userId) ?? 0,
+        timeZone,
         tasks,
         preferences,
         calendarEvents,
@@ -337,10 +386,18 @@ async function gatherFamilyContext(
     })
   );
 
+  // Chore rotations decide who takes each occurrence of rotated tasks
+  const rotations = await loadRotationPlans(
+    memberContexts.flatMap((m) => m.tasks.map((t) => t.id)),
+    weekStart,
+    weekEnd
+  );
+
   return {
     familyId,
     familyName,
     members: memberContexts,
+    rotations,
   };
 }
 
@@ -392,7 +449,7 @@ CRITICAL: Respond with ONLY valid JSON. No markdown, no code blocks, no explanat
 - No trailing commas after the last item in arrays or objects
 - All strings must be properly quoted
 - Keep reasoning text short (under 200 characters per task)
-- The assignedToUserId MUST match the userId of the person who owns that task
+- The assignedToUserId MUST match the userId of the person who owns that task, except for tasks with a Rotation (use whoever's turn it is)
 
 JSON structure:
 {"reasoning":"Brief strategy explanation","tasks":[{"taskId":"id","taskName":"name","assignedToUserId":"userId","assignedToName":"name","scheduledDate":"YYYY-MM-DD","startTime":"YYYY-MM-DDTHH:mm:ss","endTime":"YYYY-MM-DDTHH:mm:ss","reasoning":"brief reason"}]}`,
@@ -477,17 +534,25 @@ function buildPlanningPrompt(
   const weekRange = `${format(weekStart, "EEEE, MMMM d")} to ${format(weekEnd, "EEEE, MMMM d, yyyy")}`;
 
   let prompt = `Create an optimized weekly schedule for the ${context.familyName} family for the week of ${weekRange}.\n\n`;
+  const memberName = (userId: string) => context.members.find((m) => m.userId === userId)?.name || "Unknown";
 
   prompt += `## Family Members\n\n`;
 
   for (const member of context.members) {
     prompt += `### ${member.name} (ID: ${member.userId})\n\n`;
+    prompt += `Role: ${member.role}\n\n`;
+    prompt += `Life Admin balance from past weeks: ${describeCarriedBalance(member.carriedBalance)}\n\n`;
+    prompt += `Time zone: ${member.timeZone} (all of ${member.name}'s times below and in your response are local to this zone)\n\n`;
 
     prompt += `**Tasks to schedule:**\n`;
     if (member.tasks.length === 0) {
       prompt += `- No tasks defined\n`;
     } else {
       for (const task of member.tasks) {
+        // Multi-week/monthly tasks only appear in weeks that contain an occurrence
+        const recurrenceDates = getWeekRecurrenceDates(task, weekStart);
+        if (recurrenceDates && recurrenceDates.length === 0) continue;
+
         const priority = ["High", "Medium-High", "Medium", "Low"][task.priority - 1] || "Medium";
 
         // Helper to format day arrays (handles both string and number formats)
@@ -505,6 +570,11 @@ function buildPlanningPrompt(
         prompt += `  - Type: ${task.type}, Category: ${task.category || "None"}, Duration: ${task.duration} minutes\n`;
         prompt += `  - Priority: ${priority}\n`;
 
+        const rotation = context.rotations.get(task.id);
+        if (rotation) {
+          prompt += `  - Rotation: ${describeRotation(rotation, memberName, weekStart)} - assign each occurrence to whoever's turn it is, even if that's not the owner\n`;
+        }
+
         // Scheduling mode and constraints
         if (task.schedulingMode === "fixed") {
           prompt += `  - **FIXED SCHEDULE** - Must follow these constraints exactly:\n`;
@@ -531,7 +601,15 @@ function buildPlanningPrompt(
         }
 
         // Frequency
-        if (task.frequency && task.frequencyPeriod) {
+        if (isSplittableTask(task)) {
+          const due = isOneOffTask(task) ? `by ${format(task.dueDate!, "EEEE, MMMM d")}` : "this week";
+          prompt += `  - Split effort: ${describeChunking(task)} - book the total ${due} as separate sessions in free time\n`;
+        } else if (isOneOffTask(task)) {
+          prompt += `  - One-off: due ${format(task.dueDate!, "EEEE, MMMM d")}, ${task.estimatedEffort ?? task.duration} minutes of work in total - split into ${task.duration}-minute sessions, as early as possible\n`;
+        } else if (recurrenceDates) {
+          prompt += `  - Recurrence: ${describeRecurrence(task)} - due this week on ${recurrenceDates.join(", ")}\n`;
+          prompt += `  - Frequency: ${task.frequency || 1} time(s) per due date${task.schedulingMode === "fixed" ? " (ONLY on these dates)" : ""}\n`;
+        } else if (task.frequency && task.frequencyPeriod) {
           prompt += `  - Frequency: ${task.frequency} time(s) per ${task.frequencyPeriod}\n`;
         }
       }
@@ -555,7 +633,7 @@ function buildPlanningPrompt(
       for (const event of member.calendarEvents) {
         const timeStr = event.isAllDay
           ? `All day on ${format(event.start, "EEEE, MMM d")}`
-          : `${format(event.start, "EEEE, MMM d 'at' h:mm a")} - ${format(event.end, "h:mm a")}`;
+          : `${formatInTimeZone(event.start, member.timeZone, "EEEE, MMM d 'at' h:mm a")} - ${formatInTimeZone(event.end, member.timeZone, "h:mm a")}`;
         prompt += `- ${event.summary}: ${timeStr}\n`;
       }
     }
@@ -566,11 +644,11 @@ function buildPlanningPrompt(
   prompt += `- Working hours: 8:00 AM to 9:00 PM\n`;
   prompt += `- Try to schedule each task 2-3 times during the week for regular practice\n`;
   prompt += `- **CRITICAL: Resolution tasks (personal goals) must ONLY be assigned to the person who owns them. Never assign someone's resolution task to another family member.**\n`;
-  prompt += `- Household tasks CAN be distributed fairly between family members\n`;
+  prompt += `- Household tasks CAN be distributed fairly between family members relative to their role: teens carry about half an adult's share, children only get tasks meant for them, and caregivers only help on their listed days. Use each member's Life Admin balance from past weeks to even things out over time\n`;
   prompt += `- Avoid scheduling during existing calendar events\n`;
   prompt += `- Consider energy levels: physical tasks earlier, mental tasks when alert\n\n`;
 
-  prompt += `Generate the weekly schedule as a JSON object. Remember to use the exact task IDs and user IDs provided above. Each task MUST be assigned to its owner (the person whose tasks section it appears under).`;
+  prompt += `Generate the weekly schedule as a JSON object. Remember to use the exact task IDs and user IDs provided above. Each task MUST be assigned to its owner (the person whose tasks section it appears under), except household tasks with a Rotation.`;
 
   return prompt;
 }
@@ -103,7 +103,7 @@ export async function GET(request: NextRequest) {
           const [task, user, lastEditor] = await Promise.all([
             prisma.task.findUnique({
               where: { id: item.taskId },
-              select: { id: true, name: true, type: true, duration: true, category: true },
+              select: { id: true, name: true, type: true, duration: true, category: true, isSplittable: true, estimatedEffort: true },
             }),
             prisma.user.findUnique({
               where: { id: item.assignedToUserId },
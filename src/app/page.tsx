@@ -122,8 +122,18 @@ export default function LandingPage() {
             <ArrowRight className="ml-2 h-5 w-5" />
           </Button>
 
+          <div className="mt-3">
+            <Button
+              variant="link"
+              className="text-gray-600"
+              onClick={() => signIn("azure-ad", { callbackUrl: "/dashboard" })}
+            >
+              or sign in with Microsoft 365
+            </Button>
+          </div>
+
           <p className="mt-4 text-sm text-gray-500">
-            Free to use. Syncs with Google Calendar. Import work calendars.
+            Free to use. Syncs with Google Calendar and Outlook. Import work calendars.
           </p>
         </div>
       </div>
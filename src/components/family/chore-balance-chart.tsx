@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Scale } from "lucide-react";
+
+interface LedgerMember {
+  userId: string;
+  name: string;
+}
+
+interface LedgerWeek {
+  weekStart: string;
+  members: {
+    userId: string;
+    weightedLoad: number;
+    expectedLoad: number;
+    balance: number;
+    runningBalance: number;
+    swapsTaken: number;
+    swapsGiven: number;
+  }[];
+}
+
+const LINE_COLORS = ["#2563eb", "#db2777", "#16a34a", "#ea580c", "#7c3aed", "#0891b2"];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const PADDING = 24;
+
+function formatHours(minutes: number): string {
+  const hours = Math.round((minutes / 60) * 10) / 10;
+  return `${hours > 0 ? "+" : ""}${hours}h`;
+}
+
+export function ChoreBalanceChart() {
+  const [members, setMembers] = useState<LedgerMember[]>([]);
+  const [weeks, setWeeks] = useState<LedgerWeek[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchLedger() {
+      try {
+        const res = await fetch("/api/family/ledger");
+        if (res.ok) {
+          const data = await res.json();
+          setMembers(data.members);
+          setWeeks(data.weeks);
+        }
+      } catch (error) {
+        console.error("Error fetching chore ledger:", error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLedger();
+  }, []);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (members.length < 2) {
+    return null;
+  }
+
+  // Symmetric scale around zero so "ahead" and "behind" read the same
+  const maxAbs = Math.max(60, ...weeks.flatMap((w) => w.members.map((m) => Math.abs(m.runningBalance))));
+  const x = (i: number) => PADDING + (weeks.length > 1 ? (i / (weeks.length - 1)) * (CHART_WIDTH - PADDING * 2) : (CHART_WIDTH - PADDING * 2) / 2);
+  const y = (minutes: number) => CHART_HEIGHT / 2 - (minutes / maxAbs) * (CHART_HEIGHT / 2 - PADDING);
+
+  const latest = weeks[weeks.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Chore Balance
+        </CardTitle>
+        <CardDescription>
+          Life Admin done above or below each person&apos;s share, carried week to week. The weekly plan evens it out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {weeks.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            The balance starts once a full week of Life Admin has been completed
+          </p>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-44">
+              <line
+                x1={PADDING}
+                x2={CHART_WIDTH - PADDING}
+                y1={y(0)}
+                y2={y(0)}
+                stroke="#d1d5db"
+                strokeDasharray="4 4"
+              />
+              {members.map((member, m) => {
+                const points = weeks.map((week, i) => {
+                  const entry = week.members.find((e) => e.userId === member.userId);
+                  return `${x(i)},${y(entry?.runningBalance ?? 0)}`;
+                });
+                const color = LINE_COLORS[m % LINE_COLORS.length];
+
+                return (
+                  <g key={member.userId}>
+                    <polyline points={points.join(" ")} fill="none" stroke={color} strokeWidth={2} />
+                    {weeks.map((week, i) => {
+                      const entry = week.members.find((e) => e.userId === member.userId);
+                      return (
+                        <circle key={week.weekStart} cx={x(i)} cy={y(entry?.runningBalance ?? 0)} r={3} fill={color}>
+                          <title>
+                            {`${member.name}, week of ${format(parseISO(week.weekStart), "MMM d")}: ${formatHours(entry?.balance ?? 0)} that week, ${formatHours(entry?.runningBalance ?? 0)} overall`}
+                          </title>
+                        </circle>
+                      );
+                    })}
+                  </g>
+                );
+              })}
+            </svg>
+
+            <div className="flex justify-between text-xs text-gray-400 px-2">
+              <span>Week of {format(parseISO(weeks[0].weekStart), "MMM d")}</span>
+              <span>Week of {format(parseISO(latest.weekStart), "MMM d")}</span>
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-2">
+              {members.map((member, m) => {
+                const entry = latest.members.find((e) => e.userId === member.userId);
+                const running = entry?.runningBalance ?? 0;
+                const swaps = weeks.reduce(
+                  (sum, w) => sum + (w.members.find((e) => e.userId === member.userId)?.swapsTaken ?? 0),
+                  0
+                );
+
+                return (
+                  <div key={member.userId} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                    <span className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: LINE_COLORS[m % LINE_COLORS.length] }} />
+                      {member.name}
+                    </span>
+                    <span className="text-gray-600">
+                      {Math.abs(running) < 30 ? "Even" : running > 0 ? `${formatHours(running)} ahead` : `${formatHours(running)} behind`}
+                      {swaps > 0 && <span className="text-xs text-gray-400"> · {swaps} swap{swaps === 1 ? "" : "s"} taken</span>}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
   Sparkles,
   CheckCircle,
   X,
+  ArrowLeftRight,
 } from "lucide-react";
 
 interface Notification {
@@ -42,6 +43,7 @@ const typeIcons: Record<string, typeof Bell> = {
   conflict: AlertTriangle,
   suggestion: Sparkles,
   achievement: CheckCircle,
+  swap: ArrowLeftRight,
 };
 
 const priorityColors: Record<string, string> = {
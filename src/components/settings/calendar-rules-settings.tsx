@@ -0,0 +1,147 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarCog, Loader2 } from "lucide-react";
+
+interface CalendarRule {
+  calendarId: string;
+  calendarName: string;
+  allDayCount: number; // In the coming weeks
+  tentativeCount: number;
+  ignoreAllDay: boolean;
+  tentative: string;
+}
+
+const TENTATIVE_OPTIONS = [
+  { value: "busy", label: "Busy - keep clear" },
+  { value: "soft", label: "Soft - use only if nothing else fits" },
+  { value: "free", label: "Free - ignore" },
+];
+
+export function CalendarRulesSettings() {
+  const [calendars, setCalendars] = useState<CalendarRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch("/api/calendars/rules");
+      const data = await response.json();
+      if (response.ok) {
+        setCalendars(data.calendars || []);
+      }
+    } catch (error) {
+      console.error("Error fetching calendar rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveRule = async (calendar: CalendarRule, changes: Partial<CalendarRule>) => {
+    const updated = { ...calendar, ...changes };
+    setCalendars((prev) => prev.map((c) => (c.calendarId === calendar.calendarId ? updated : c)));
+
+    try {
+      setSaving(calendar.calendarId);
+      const response = await fetch("/api/calendars/rules", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          calendarId: updated.calendarId,
+          calendarName: updated.calendarName,
+          ignoreAllDay: updated.ignoreAllDay,
+          tentative: updated.tentative,
+        }),
+      });
+      if (!response.ok) {
+        setCalendars((prev) => prev.map((c) => (c.calendarId === calendar.calendarId ? calendar : c)));
+      }
+    } catch (error) {
+      console.error("Error saving calendar rule:", error);
+      setCalendars((prev) => prev.map((c) => (c.calendarId === calendar.calendarId ? calendar : c)));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCog className="h-5 w-5" />
+          How Events Block Your Time
+        </CardTitle>
+        <CardDescription>
+          Events marked free never block scheduling. Choose how each calendar&apos;s all-day and tentative
+          events count.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="py-4 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-gray-500">No calendar events in the coming weeks.</p>
+        ) : (
+          calendars.map((calendar) => (
+            <div key={calendar.calendarId} className="p-3 bg-gray-50 rounded-lg space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">{calendar.calendarName}</p>
+                {saving === calendar.calendarId && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={`allday-${calendar.calendarId}`}>Ignore all-day events</Label>
+                  <p className="text-xs text-gray-500">
+                    e.g. &quot;Working from home&quot; markers
+                    {calendar.allDayCount > 0 && ` - ${calendar.allDayCount} coming up`}
+                  </p>
+                </div>
+                <Switch
+                  id={`allday-${calendar.calendarId}`}
+                  checked={calendar.ignoreAllDay}
+                  onCheckedChange={(checked) => saveRule(calendar, { ignoreAllDay: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>Tentative events</Label>
+                  {calendar.tentativeCount > 0 && (
+                    <p className="text-xs text-gray-500">{calendar.tentativeCount} coming up</p>
+                  )}
+                </div>
+                <Select value={calendar.tentative} onValueChange={(value) => saveRule(calendar, { tentative: value })}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TENTATIVE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
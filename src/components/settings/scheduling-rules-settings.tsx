@@ -0,0 +1,363 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Gavel, Plus, Trash2, Loader2, AlertCircle } from "lucide-react";
+
+interface RuleItem {
+  id: string;
+  name: string;
+  scope: "personal" | "family";
+  strength: "hard" | "soft";
+  enabled: boolean;
+  description: string;
+}
+
+const CONSTRAINT_TYPES = [
+  { value: "not_after", label: "Not after" },
+  { value: "not_before", label: "Not before" },
+  { value: "not_between", label: "Not between" },
+  { value: "max_tasks_per_day", label: "At most N tasks a day" },
+  { value: "max_minutes_per_day", label: "At most N minutes a day" },
+];
+
+// Mirrors RULE_DAY_PRESETS in scheduling-rules.ts
+const DAY_PRESETS: { value: string; label: string; days: string[] }[] = [
+  { value: "every_day", label: "Every day", days: [] },
+  { value: "school_nights", label: "School nights (Sun-Thu)", days: ["sunday", "monday", "tuesday", "wednesday", "thursday"] },
+  { value: "weekdays", label: "Weekdays", days: ["monday", "tuesday", "wednesday", "thursday", "friday"] },
+  { value: "weekends", label: "Weekends", days: ["saturday", "sunday"] },
+];
+
+const TASK_TYPES = [
+  { value: "all", label: "All tasks" },
+  { value: "household", label: "Life Admin" },
+  { value: "resolution", label: "Focus Time" },
+];
+
+export function SchedulingRulesSettings() {
+  const [rules, setRules] = useState<RuleItem[]>([]);
+  const [inFamily, setInFamily] = useState(false);
+  const [canEditFamilyRules, setCanEditFamilyRules] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New rule form
+  const [constraintType, setConstraintType] = useState("not_after");
+  const [time, setTime] = useState("21:00");
+  const [endTime, setEndTime] = useState("19:00");
+  const [limit, setLimit] = useState("2");
+  const [dayPreset, setDayPreset] = useState("every_day");
+  const [taskType, setTaskType] = useState("household");
+  const [strength, setStrength] = useState<"hard" | "soft">("hard");
+  const [scope, setScope] = useState<"personal" | "family">("personal");
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch("/api/schedule/rules");
+      const data = await response.json();
+      if (response.ok) {
+        setRules(data.rules || []);
+        setInFamily(data.inFamily);
+        setCanEditFamilyRules(data.canEditFamilyRules);
+      }
+    } catch (error) {
+      console.error("Error fetching scheduling rules:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const buildConstraint = () => {
+    switch (constraintType) {
+      case "not_between":
+        return { type: constraintType, start: time, end: endTime };
+      case "max_tasks_per_day":
+        return { type: constraintType, count: parseInt(limit, 10) || 0 };
+      case "max_minutes_per_day":
+        return { type: constraintType, minutes: parseInt(limit, 10) || 0 };
+      default:
+        return { type: constraintType, time };
+    }
+  };
+
+  const addRule = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await fetch("/api/schedule/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name || undefined,
+          scope,
+          strength,
+          definition: {
+            appliesTo: {
+              days: DAY_PRESETS.find((p) => p.value === dayPreset)?.days || [],
+              taskTypes: taskType === "all" ? [] : [taskType],
+            },
+            constraint: buildConstraint(),
+          },
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to add rule");
+        return;
+      }
+
+      setName("");
+      fetchRules();
+    } catch (error) {
+      console.error("Error adding scheduling rule:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRule = async (id: string, update: Partial<Pick<RuleItem, "enabled" | "strength">>) => {
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...update } : r)));
+    try {
+      const response = await fetch(`/api/schedule/rules/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) fetchRules();
+    } catch (error) {
+      console.error("Error updating scheduling rule:", error);
+      fetchRules();
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      const response = await fetch(`/api/schedule/rules/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        setRules((prev) => prev.filter((r) => r.id !== id));
+      }
+    } catch (error) {
+      console.error("Error deleting scheduling rule:", error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isTimeRule = !constraintType.startsWith("max_");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gavel className="h-5 w-5" />
+          Scheduling Rules
+        </CardTitle>
+        <CardDescription>
+          House rules the scheduler follows, like &quot;no chores after 9pm on school nights&quot;. Hard rules are
+          never broken; soft rules are followed when there&apos;s room, and the task says when one was broken.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length > 0 && (
+          <div className="space-y-3">
+            {rules.map((rule) => {
+              const editable = rule.scope === "personal" || canEditFamilyRules;
+              return (
+                <div key={rule.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className={`font-medium ${rule.enabled ? "" : "text-gray-400 line-through"}`}>{rule.name}</p>
+                      {rule.scope === "family" && <Badge variant="secondary">Family</Badge>}
+                      <Badge variant={rule.strength === "hard" ? "default" : "outline"}>
+                        {rule.strength === "hard" ? "Hard" : "Soft"}
+                      </Badge>
+                    </div>
+                    {rule.description !== rule.name && (
+                      <p className="text-sm text-gray-500">{rule.description}</p>
+                    )}
+                  </div>
+                  {editable && (
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Select
+                        value={rule.strength}
+                        onValueChange={(value) => updateRule(rule.id, { strength: value as "hard" | "soft" })}
+                      >
+                        <SelectTrigger className="w-24 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="hard">Hard</SelectItem>
+                          <SelectItem value="soft">Soft</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(checked) => updateRule(rule.id, { enabled: checked })}
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                        <Trash2 className="h-4 w-4 text-gray-400" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Add new rule form */}
+        <div className="border-t pt-4">
+          <h4 className="font-medium mb-3">Add a Rule</h4>
+          <div className="grid gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Tasks</Label>
+                <Select value={taskType} onValueChange={setTaskType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_TYPES.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Days</Label>
+                <Select value={dayPreset} onValueChange={setDayPreset}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAY_PRESETS.map((p) => (
+                      <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Rule</Label>
+                <Select value={constraintType} onValueChange={setConstraintType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONSTRAINT_TYPES.map((c) => (
+                      <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isTimeRule ? (
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <Label htmlFor="ruleTime">{constraintType === "not_between" ? "From" : "Time"}</Label>
+                    <Input id="ruleTime" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+                  </div>
+                  {constraintType === "not_between" && (
+                    <div className="flex-1">
+                      <Label htmlFor="ruleEndTime">To</Label>
+                      <Input id="ruleEndTime" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="ruleLimit">{constraintType === "max_tasks_per_day" ? "Tasks per day" : "Minutes per day"}</Label>
+                  <Input id="ruleLimit" type="number" min={0} value={limit} onChange={(e) => setLimit(e.target.value)} />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Strictness</Label>
+                <Select value={strength} onValueChange={(value) => setStrength(value as "hard" | "soft")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hard">Hard - never break it</SelectItem>
+                    <SelectItem value="soft">Soft - break it if nothing else fits</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {inFamily && canEditFamilyRules && (
+                <div>
+                  <Label>Applies to</Label>
+                  <Select value={scope} onValueChange={(value) => setScope(value as "personal" | "family")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="personal">Just me</SelectItem>
+                      <SelectItem value="family">Everyone in the family</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="ruleName">Name (optional)</Label>
+              <Input
+                id="ruleName"
+                placeholder="e.g., No chores after 9pm on school nights"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            <Button onClick={addRule} disabled={saving} className="w-full sm:w-auto">
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
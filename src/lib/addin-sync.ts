@@ -0,0 +1,252 @@
+/**
+ * Outlook Add-in Sync
+ *
+ * The Outlook add-in (src/app/addin) keeps the user's corporate M365
+ * calendar in step with their scheduled sessions, and reports the busy time
+ * it finds there - corporate tenants usually block server-side calendar
+ * access, so everything goes through the add-in.
+ *
+ * Change feed - getAddinChanges lists what the add-in has to do for the
+ * weeks it covers:
+ * - "created": sessions with no work-calendar event yet. Always all of them,
+ *   so sessions in weeks that come into range are picked up
+ * - "updated": synced sessions whose `sequence` has moved on from
+ *   workEventSequence, i.e. moved since the add-in wrote them. The add-in
+ *   echoes the sequence it wrote, so a move that lands mid-write is caught
+ *   next time
+ * - "deleted": synced sessions since skipped, and synced sessions that were
+ *   deleted (WorkCalendarDeletion, see recordWorkCalendarDeletions)
+ *
+ * Updates and deletions are only looked for since the add-in's cursor
+ * (ScheduledTask.updatedAt). Every change is worked out from current state,
+ * so seeing one twice is harmless, and the cursor overlaps the previous read
+ * by CURSOR_OVERLAP_SECONDS to catch writes that landed during it.
+ *
+ * Busy blocks - the add-in replaces its report one range at a time
+ * (WorkCalendarBlock). getWorkCalendarEvents turns them into events on a
+ * "Work calendar", minus the add-in's own synced events, so they block time
+ * like any other calendar (and follow its rules, see calendar-rules.ts).
+ */
+
+import { addDays, addWeeks, endOfWeek, startOfWeek } from "date-fns";
+import { Prisma, ScheduledTask, Task } from "@prisma/client";
+import prisma from "./prisma";
+import { nowInTimeZone } from "./timezone";
+import { CalendarEvent, EventBusyStatus } from "@/types";
+
+export const MAX_ADDIN_WEEKS = 8;
+
+// Re-read this far behind the cursor
+const CURSOR_OVERLAP_SECONDS = 30;
+
+// Deletions older than this are dropped - an add-in this far behind resyncs
+const DELETION_RETENTION_DAYS = 30;
+
+export const WORK_CALENDAR_ID = "work";
+
+// A reassigned session's event is in the previous owner's calendar - the new
+// owner's add-in has to create their own
+export const WORK_EVENT_RESET = { workCalendarEventId: null, workEventSequence: null };
+
+export interface AddinTask {
+  id: string;
+  taskId: string;
+  title: string;
+  type: string;
+  category: string | null;
+  startTime: string;
+  endTime: string;
+  description: string;
+  sequence: number; // Echoed back once written, see /api/addin/tasks POST
+}
+
+export type AddinChange =
+  | { type: "created"; task: AddinTask }
+  | { type: "updated"; task: AddinTask; workCalendarEventId: string }
+  | { type: "deleted"; id: string; workCalendarEventId: string };
+
+export interface WorkCalendarBlockInput {
+  eventId: string;
+  start: Date;
+  end: Date;
+  showAs: EventBusyStatus;
+  isAllDay: boolean;
+}
+
+/**
+ * The user behind an add-in request's bearer token, or null when it's
+ * missing, unknown or expired
+ */
+export async function getAddinUser(authHeader: string | null) {
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const addinToken = await prisma.addinToken.findUnique({
+    where: { token: authHeader.substring(7) },
+    include: { user: true },
+  });
+  if (!addinToken || addinToken.expiresAt < new Date()) return null;
+
+  return addinToken.user;
+}
+
+/**
+ * The weeks the add-in covers: this week (on the user's clock) and the
+ * `weeks - 1` after it
+ */
+export function getAddinRange(timeZone: string, weeks: number): { start: Date; end: Date } {
+  const start = startOfWeek(nowInTimeZone(timeZone), { weekStartsOn: 1 });
+  return { start, end: endOfWeek(addWeeks(start, weeks - 1), { weekStartsOn: 1 }) };
+}
+
+export function toAddinTask(session: ScheduledTask & { task: Pick<Task, "name" | "type" | "category"> }): AddinTask {
+  return {
+    id: session.id,
+    taskId: session.taskId,
+    title: session.task.name,
+    type: session.task.type,
+    category: session.task.category,
+    startTime: session.startTime.toISOString(),
+    endTime: session.endTime.toISOString(),
+    description: session.aiReasoning || `Scheduled by ResolutionAI`,
+    sequence: session.sequence,
+  };
+}
+
+/**
+ * Everything the add-in has to change in the work calendar for `range`,
+ * given its last cursor (none for a first sync), and the cursor to send next
+ */
+export async function getAddinChanges(
+  userId: string,
+  range: { start: Date; end: Date },
+  since: Date | null
+): Promise<{ changes: AddinChange[]; cursor: string }> {
+  const now = new Date();
+  const include = { task: { select: { name: true, type: true, category: true } } };
+
+  const [unsynced, changedSynced, deletions] = await Promise.all([
+    prisma.scheduledTask.findMany({
+      where: {
+        assignedToUserId: userId,
+        scheduledDate: { gte: range.start, lte: range.end },
+        status: { not: "skipped" },
+        workCalendarEventId: null,
+      },
+      include,
+      orderBy: { startTime: "asc" },
+    }),
+    // Synced sessions stay tracked even once moved out of range
+    prisma.scheduledTask.findMany({
+      where: {
+        assignedToUserId: userId,
+        workCalendarEventId: { not: null },
+        ...(since ? { updatedAt: { gt: since } } : {}),
+      },
+      include,
+      orderBy: { startTime: "asc" },
+    }),
+    prisma.workCalendarDeletion.findMany({
+      where: { userId, ...(since ? { deletedAt: { gt: since } } : {}) },
+    }),
+  ]);
+
+  const changes: AddinChange[] = unsynced.map((session) => ({ type: "created", task: toAddinTask(session) }));
+  for (const session of changedSynced) {
+    const workCalendarEventId = session.workCalendarEventId!;
+    if (session.status === "skipped") {
+      changes.push({ type: "deleted", id: session.id, workCalendarEventId });
+    } else if (session.workEventSequence !== session.sequence) {
+      changes.push({ type: "updated", task: toAddinTask(session), workCalendarEventId });
+    }
+  }
+  for (const deletion of deletions) {
+    changes.push({ type: "deleted", id: deletion.scheduledTaskId, workCalendarEventId: deletion.workCalendarEventId });
+  }
+
+  await prisma.workCalendarDeletion.deleteMany({
+    where: { userId, deletedAt: { lt: addDays(now, -DELETION_RETENTION_DAYS) } },
+  });
+
+  return { changes, cursor: new Date(now.getTime() - CURSOR_OVERLAP_SECONDS * 1000).toISOString() };
+}
+
+/**
+ * Remember the work-calendar events of synced sessions about to be deleted
+ * or handed to someone else, so the add-in removes them. Call before
+ * deleting sessions (or their task), or before reassigning them along with
+ * WORK_EVENT_RESET.
+ */
+export async function recordWorkCalendarDeletions(
+  where: Prisma.ScheduledTaskWhereInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const synced = await client.scheduledTask.findMany({
+    where: { ...where, workCalendarEventId: { not: null } },
+    select: { id: true, assignedToUserId: true, workCalendarEventId: true },
+  });
+  if (synced.length === 0) return;
+
+  await client.workCalendarDeletion.createMany({
+    data: synced.map((s) => ({
+      userId: s.assignedToUserId,
+      scheduledTaskId: s.id,
+      workCalendarEventId: s.workCalendarEventId!,
+    })),
+  });
+}
+
+/**
+ * Replace the busy blocks the add-in reported for a range
+ */
+export async function replaceWorkCalendarBlocks(
+  userId: string,
+  range: { start: Date; end: Date },
+  blocks: WorkCalendarBlockInput[]
+): Promise<number> {
+  const inRange = blocks.filter((b) => b.end > range.start && b.start < range.end);
+
+  await prisma.$transaction([
+    prisma.workCalendarBlock.deleteMany({
+      where: { userId, start: { lt: range.end }, end: { gt: range.start } },
+    }),
+    prisma.workCalendarBlock.createMany({
+      data: inRange.map((b) => ({ userId, ...b })),
+    }),
+  ]);
+
+  console.log(`[replaceWorkCalendarBlocks] ${inRange.length} blocks for user ${userId}`);
+  return inRange.length;
+}
+
+/**
+ * The reported work-calendar busy time overlapping a range, as events
+ */
+export async function getWorkCalendarEvents(userId: string, startDate: Date, endDate: Date): Promise<CalendarEvent[]> {
+  const [blocks, synced] = await Promise.all([
+    prisma.workCalendarBlock.findMany({
+      where: { userId, start: { lt: endDate }, end: { gt: startDate } },
+      orderBy: { start: "asc" },
+    }),
+    prisma.scheduledTask.findMany({
+      where: { assignedToUserId: userId, workCalendarEventId: { not: null } },
+      select: { workCalendarEventId: true },
+    }),
+  ]);
+  // The add-in's own events are our sessions, not busy time
+  const ownEventIds = new Set(synced.map((s) => s.workCalendarEventId));
+
+  return blocks
+    .filter((b) => !ownEventIds.has(b.eventId))
+    .map((b) => ({
+      id: `work_${b.id}`,
+      summary: "Busy (work calendar)",
+      // All-day blocks too - they run midnight to midnight on the mailbox's clock
+      start: { dateTime: b.start.toISOString() },
+      end: { dateTime: b.end.toISOString() },
+      source: "external" as const,
+      calendarName: "Work calendar",
+      calendarId: WORK_CALENDAR_ID,
+      busyStatus: b.showAs as EventBusyStatus,
+      isAllDay: b.isAllDay,
+    }));
+}
@@ -6,6 +6,7 @@
  */
 
 import prisma from "@/lib/prisma";
+import { getCachedICSData } from "@/lib/external-calendar-cache";
 import { google } from "googleapis";
 import { parseISO, startOfDay, endOfDay, format } from "date-fns";
 
@@ -137,7 +138,8 @@ async function getGoogleCalendarEvents(
       orderBy: "startTime",
     });
 
-    return (response.data.items || []).map((event) => ({
+    // Events shown as free don't take the time
+    return (response.data.items || []).filter((event) => event.transparency !== "transparent").map((event) => ({
       id: event.id || "",
       summary: event.summary || "Untitled",
       description: event.description || undefined,
@@ -181,13 +183,9 @@ async function getExternalCalendarEvents(
 
     for (const calendar of externalCalendars) {
       try {
-        const response = await fetch(calendar.url, {
-          headers: { Accept: "text/calendar" },
-        });
-
-        if (!response.ok) continue;
+        const icsContent = await getCachedICSData(calendar);
+        if (!icsContent) continue;
 
-        const icsContent = await response.text();
         const parsedEvents = parseICSContent(icsContent, startDate, endDate, calendar.name);
         events.push(...parsedEvents);
       } catch (error) {
@@ -224,6 +222,9 @@ function parseICSContent(
     const uid = extractICSField(block, "UID") || `external-${i}`;
 
     if (!dtstart) continue;
+    // Events shown as free don't take the time
+    if (extractICSField(block, "TRANSP")?.toUpperCase() === "TRANSPARENT") continue;
+    if (extractICSField(block, "X-MICROSOFT-CDO-BUSYSTATUS")?.toUpperCase() === "FREE") continue;
 
     const start = parseICSDate(dtstart);
     const end = dtend ? parseICSDate(dtend) : new Date(start.getTime() + 3600000);
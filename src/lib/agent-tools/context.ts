@@ -10,7 +10,7 @@
 
 import { format, addHours, isWeekend } from "date-fns";
 
-interface WeatherData {
+export interface WeatherData {
   temperature: number; // Celsius
   condition: "clear" | "cloudy" | "rainy" | "stormy" | "snowy" | "windy" | "foggy";
   humidity: number;
@@ -30,6 +30,25 @@ interface OpenMeteoGeocodingResult {
   }[];
 }
 
+/**
+ * One hour of a forecast; `time` is "yyyy-MM-ddTHH:mm" on the forecast's clock
+ */
+export interface HourlyWeather extends Omit<WeatherData, "source"> {
+  time: string;
+}
+
+/**
+ * Acceptable conditions a task sets on top of its activity type's defaults
+ */
+export interface WeatherLimits {
+  minTemperature?: number; // Celsius
+  maxTemperature?: number;
+  maxWindSpeed?: number; // km/h
+  allowRain?: boolean;
+}
+
+export type WeatherActivityType = "outdoor_exercise" | "outdoor_errand" | "indoor" | "any";
+
 interface OpenMeteoWeatherResponse {
   hourly: {
     time: string[];
@@ -217,33 +236,75 @@ async function getOpenMeteoWeather(
     const targetHour = dateTime.getHours();
     const hourIndex = Math.min(targetHour, data.hourly.time.length - 1);
 
-    const temperature = Math.round(data.hourly.temperature_2m[hourIndex]);
-    const humidity = Math.round(data.hourly.relative_humidity_2m[hourIndex]);
-    const windSpeed = Math.round(data.hourly.wind_speed_10m[hourIndex]);
-    const weatherCode = data.hourly.weather_code[hourIndex];
+    const { time, ...weather } = toHourlyWeather(data.hourly, hourIndex);
 
-    const { condition, description } = mapWeatherCode(weatherCode);
+    console.log(`[Weather] ${location} at ${format(dateTime, "HH:mm")} (${time}): ${weather.temperature}°C, ${weather.description}`);
 
-    // Determine if good for outdoor activities
-    const isGoodForOutdoor =
-      (condition === "clear" || condition === "cloudy") &&
-      temperature > 5 &&
-      temperature < 32 &&
-      windSpeed < 40;
+    return { ...weather, source: "open-meteo" };
+  } catch (error) {
+    console.error("[Weather] Error calling Open-Meteo API:", error);
+    return null;
+  }
+}
 
-    console.log(`[Weather] ${location} at ${format(dateTime, "HH:mm")}: ${temperature}°C, ${description}`);
+/**
+ * One hour of an Open-Meteo hourly response
+ */
+function toHourlyWeather(hourly: OpenMeteoWeatherResponse["hourly"], index: number): HourlyWeather {
+  const temperature = Math.round(hourly.temperature_2m[index]);
+  const windSpeed = Math.round(hourly.wind_speed_10m[index]);
+  const { condition, description } = mapWeatherCode(hourly.weather_code[index]);
 
-    return {
-      temperature,
-      condition,
-      humidity,
-      windSpeed,
-      description,
-      isGoodForOutdoor,
-      source: "open-meteo",
-    };
+  // Determine if good for outdoor activities
+  const isGoodForOutdoor =
+    (condition === "clear" || condition === "cloudy") &&
+    temperature > 5 &&
+    temperature < 32 &&
+    windSpeed < 40;
+
+  return {
+    time: hourly.time[index],
+    temperature,
+    condition,
+    humidity: Math.round(hourly.relative_humidity_2m[index]),
+    windSpeed,
+    description,
+    isGoodForOutdoor,
+  };
+}
+
+/**
+ * Hourly Open-Meteo forecast for a location between two dates (inclusive,
+ * "yyyy-MM-dd"), with times on the given time zone's clock. Null when the
+ * location can't be found or the API fails.
+ */
+export async function getHourlyForecast(
+  location: string,
+  startDate: string,
+  endDate: string,
+  timeZone: string
+): Promise<HourlyWeather[] | null> {
+  const coords = await geocodeForWeather(location);
+  if (!coords) {
+    console.warn(`[Weather] Could not geocode location: ${location}`);
+    return null;
+  }
+
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${coords.lat}&longitude=${coords.lon}&hourly=temperature_2m,relative_humidity_2m,weather_code,wind_speed_10m&start_date=${startDate}&end_date=${endDate}&timezone=${encodeURIComponent(timeZone)}`;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`[Weather] Open-Meteo forecast failed: ${response.status}`);
+      return null;
+    }
+
+    const data: OpenMeteoWeatherResponse = await response.json();
+    if (!data.hourly?.time?.length) return null;
+
+    return data.hourly.time.map((_, index) => toHourlyWeather(data.hourly, index));
   } catch (error) {
-    console.error("[Weather] Error calling Open-Meteo API:", error);
+    console.error("[Weather] Error fetching Open-Meteo forecast:", error);
     return null;
   }
 }
@@ -367,6 +428,38 @@ export async function getTraffic(
   return getMockTraffic(departureTime);
 }
 
+/**
+ * Driving time in minutes between two addresses with current traffic,
+ * or null when TomTom is not configured or the route can't be found
+ */
+export async function getRouteTravelMinutes(
+  origin: string,
+  destination: string,
+  departureTime: Date
+): Promise<number | null> {
+  if (!TOMTOM_API_KEY) return null;
+
+  try {
+    const trafficData = await getTomTomTraffic(origin, destination, departureTime);
+    return trafficData ? trafficData.travelTimeMinutes : null;
+  } catch (error) {
+    console.error("[Traffic] TomTom route error:", error);
+    return null;
+  }
+}
+
+/**
+ * Coordinates for an address or place name: TomTom when configured,
+ * otherwise the keyless Open-Meteo geocoder (which matches place names best)
+ */
+export async function geocodePlace(place: string): Promise<{ lat: number; lon: number } | null> {
+  if (TOMTOM_API_KEY) {
+    const coords = await geocodeAddress(place);
+    if (coords) return coords;
+  }
+  return geocodeForWeather(place);
+}
+
 /**
  * Get real traffic data from TomTom Routing API
  */
@@ -593,22 +686,49 @@ export async function getEnvironmentContext(
 export async function isWeatherSuitable(
   location: string,
   dateTime: Date,
-  activityType: "outdoor_exercise" | "outdoor_errand" | "indoor" | "any"
+  activityType: WeatherActivityType
 ): Promise<{ suitable: boolean; reason?: string }> {
   if (activityType === "indoor" || activityType === "any") {
     return { suitable: true };
   }
 
-  const weather = await getWeather(location, dateTime);
+  return checkWeatherSuitability(await getWeather(location, dateTime), activityType);
+}
+
+/**
+ * Whether given conditions suit an activity, with a task's own limits taking
+ * precedence over the activity's defaults
+ */
+export function checkWeatherSuitability(
+  weather: Omit<WeatherData, "source">,
+  activityType: WeatherActivityType,
+  limits: WeatherLimits = {}
+): { suitable: boolean; reason?: string } {
+  if (activityType === "indoor" || activityType === "any") {
+    return { suitable: true };
+  }
+
+  if (limits.minTemperature !== undefined && weather.temperature < limits.minTemperature) {
+    return { suitable: false, reason: `Too cold (${weather.temperature}°C)` };
+  }
+  if (limits.maxTemperature !== undefined && weather.temperature > limits.maxTemperature) {
+    return { suitable: false, reason: `Too hot (${weather.temperature}°C)` };
+  }
+  if (limits.maxWindSpeed !== undefined && weather.windSpeed > limits.maxWindSpeed) {
+    return { suitable: false, reason: `Too windy (${weather.windSpeed}km/h)` };
+  }
+  if (weather.condition === "rainy" && limits.allowRain !== undefined) {
+    return limits.allowRain ? { suitable: true } : { suitable: false, reason: `${weather.description} expected` };
+  }
 
   if (activityType === "outdoor_exercise") {
     if (weather.condition === "stormy" || weather.condition === "snowy") {
       return { suitable: false, reason: `${weather.description} - not safe for outdoor exercise` };
     }
-    if (weather.temperature < 0) {
+    if (limits.minTemperature === undefined && weather.temperature < 0) {
       return { suitable: false, reason: "Too cold for outdoor exercise" };
     }
-    if (weather.temperature > 35) {
+    if (limits.maxTemperature === undefined && weather.temperature > 35) {
       return { suitable: false, reason: "Too hot for outdoor exercise" };
     }
     if (weather.condition === "rainy") {
@@ -6,7 +6,11 @@
  */
 
 import prisma from "@/lib/prisma";
-import { startOfWeek, endOfWeek, subWeeks } from "date-fns";
+import { startOfWeek, endOfWeek, subWeeks, format } from "date-fns";
+import { describeMember, isMemberEligibleForTask } from "@/lib/family-roles";
+import { computeMemberLoads, resolveTargetShares, scoreFairness } from "@/lib/fairness";
+import { assignRotationTurns, loadRotationPlans } from "@/lib/rotations";
+import { getCarriedBalances } from "@/lib/chore-ledger";
 
 interface FamilyMemberInfo {
   userId: string;
@@ -14,22 +18,38 @@ interface FamilyMemberInfo {
   email: string | null;
   image: string | null;
   role: string;
+  memberType: string;
+  helpDays: number[];
+}
+
+interface FamilyDependentInfo {
+  id: string;
+  name: string;
+  memberType: string;
 }
 
 interface FamilyInfo {
   id: string;
   name: string;
   members: FamilyMemberInfo[];
+  dependents: FamilyDependentInfo[];
 }
 
 interface TaskDistribution {
   userId: string;
   userName: string | null;
+  memberType: string;
+  fairShare: number; // Fraction of household work this member is expected to carry
+  hasAgreedShare: boolean; // fairShare comes from an agreed split rather than member type
   totalTasks: number;
   completedTasks: number;
   resolutionTasks: number;
   householdTasks: number;
   totalMinutes: number;
+  householdMinutes: number; // Real minutes spent on household tasks (actual durations where reported)
+  effortMinutes: number; // householdMinutes scaled by how draining each task is
+  mentalLoadMinutes: number; // Planning/remembering work for tasks this member owns
+  weightedLoad: number; // effortMinutes + mentalLoadMinutes - what fairness is measured on
 }
 
 interface FairnessAnalysis {
@@ -39,7 +59,7 @@ interface FairnessAnalysis {
   imbalance?: {
     overloadedMember: string;
     underloadedMember: string;
-    difference: number;
+    difference: number; // Weighted minutes the overloaded member is above their share, vs the underloaded one
   };
 }
 
@@ -64,6 +84,10 @@ export async function getFamilyForUser(userId: string): Promise<FamilyInfo | nul
               },
             },
           },
+          dependents: {
+            select: { id: true, name: true, memberType: true },
+            orderBy: { createdAt: "asc" },
+          },
         },
       },
     },
@@ -80,7 +104,10 @@ export async function getFamilyForUser(userId: string): Promise<FamilyInfo | nul
       email: m.user.email,
       image: m.user.image,
       role: m.role,
+      memberType: m.memberType,
+      helpDays: m.helpDays,
     })),
+    dependents: membership.family.dependents,
   };
 }
 
@@ -124,36 +151,49 @@ export async function getTaskDistribution(
     },
   });
 
-  const distributions: TaskDistribution[] = [];
+  const memberIds = members.map((m) => m.userId);
 
-  for (const member of members) {
-    const scheduledTasks = await prisma.scheduledTask.findMany({
-      where: {
-        assignedToUserId: member.userId,
-        scheduledDate: {
-          gte: startDate,
-          lte: endDate,
-        },
+  const scheduledTasks = await prisma.scheduledTask.findMany({
+    where: {
+      assignedToUserId: { in: memberIds },
+      scheduledDate: {
+        gte: startDate,
+        lte: endDate,
       },
-      include: {
-        task: true,
+    },
+    include: {
+      task: true,
+      feedback: {
+        select: { actualDuration: true },
+        orderBy: { createdAt: "desc" },
       },
-    });
+    },
+  });
+
+  const loads = computeMemberLoads(memberIds, scheduledTasks);
+  const shares = resolveTargetShares(members);
+
+  return members.map((member) => {
+    const assigned = scheduledTasks.filter((t) => t.assignedToUserId === member.userId);
+    const load = loads.get(member.userId)!;
 
-    const dist: TaskDistribution = {
+    return {
       userId: member.userId,
       userName: member.user.name,
-      totalTasks: scheduledTasks.length,
-      completedTasks: scheduledTasks.filter((t) => t.status === "completed").length,
-      resolutionTasks: scheduledTasks.filter((t) => t.task.type === "resolution").length,
-      householdTasks: scheduledTasks.filter((t) => t.task.type === "household").length,
-      totalMinutes: scheduledTasks.reduce((sum, t) => sum + t.task.duration, 0),
+      memberType: member.memberType,
+      fairShare: shares.get(member.userId) ?? 0,
+      hasAgreedShare: member.targetShare !== null,
+      totalTasks: assigned.length,
+      completedTasks: assigned.filter((t) => t.status === "completed").length,
+      resolutionTasks: assigned.filter((t) => t.task.type === "resolution").length,
+      householdTasks: assigned.filter((t) => t.task.type === "household").length,
+      totalMinutes: assigned.reduce((sum, t) => sum + t.task.duration, 0),
+      householdMinutes: load.doingMinutes,
+      effortMinutes: load.effortMinutes,
+      mentalLoadMinutes: load.mentalLoadMinutes,
+      weightedLoad: load.weightedLoad,
     };
-
-    distributions.push(dist);
-  }
-
-  return distributions;
+  });
 }
 
 /**
@@ -176,47 +216,45 @@ export async function analyzeFairness(
     };
   }
 
-  // Calculate fairness based on household task minutes (resolutions are personal)
-  const householdMinutes = distributions.map((d) => {
-    // Calculate approximate household minutes
-    return d.householdTasks * 30; // Assuming average 30 min per household task
-  });
-
-  const totalHouseholdMinutes = householdMinutes.reduce((a, b) => a + b, 0);
-  const avgMinutes = totalHouseholdMinutes / distributions.length;
-
-  // Calculate standard deviation
-  const variance =
-    householdMinutes.reduce((sum, m) => sum + Math.pow(m - avgMinutes, 2), 0) /
-    distributions.length;
-  const stdDev = Math.sqrt(variance);
-
-  // Fairness score: 1 when stdDev is 0, approaches 0 as imbalance grows
-  const fairnessScore = avgMinutes > 0 ? Math.max(0, 1 - stdDev / avgMinutes) : 1;
+  // Effort-weighted household load (doing + mental load) against each
+  // member's target share; resolutions are personal
+  const { fairnessScore, loadRatios } = scoreFairness(
+    distributions.map((d) => ({ load: d.weightedLoad, share: d.fairShare }))
+  );
+  const totalLoad = distributions.reduce((sum, d) => sum + d.weightedLoad, 0);
 
-  // Find imbalance
+  // Find imbalance: the most overloaded and most underloaded members
   let recommendation = "";
   let imbalance = undefined;
 
-  if (fairnessScore < 0.7 && distributions.length === 2) {
-    const sorted = [...distributions].sort((a, b) => b.householdTasks - a.householdTasks);
-    const overloaded = sorted[0];
-    const underloaded = sorted[1];
+  if (fairnessScore < 0.7) {
+    const byLoad = distributions
+      .map((d, i) => ({ d, ratio: loadRatios[i] }))
+      .sort((a, b) => b.ratio - a.ratio);
+    const overloaded = byLoad[0].d;
+    const underloaded = byLoad[byLoad.length - 1].d;
+    const aboveShare = (d: TaskDistribution) => d.weightedLoad - d.fairShare * totalLoad;
 
     imbalance = {
       overloadedMember: overloaded.userName || "Member 1",
       underloadedMember: underloaded.userName || "Member 2",
-      difference: overloaded.householdTasks - underloaded.householdTasks,
+      difference: Math.round(aboveShare(overloaded) - aboveShare(underloaded)),
     };
 
-    recommendation = `${overloaded.userName || "One member"} has been assigned ${
-      imbalance.difference
-    } more Life Admin tasks than ${
-      underloaded.userName || "the other member"
+    const hours = Math.round((imbalance.difference / 60) * 10) / 10;
+    const mentalLoadNote =
+      overloaded.mentalLoadMinutes > overloaded.effortMinutes * 0.25
+        ? ` A lot of it is planning and remembering (${overloaded.mentalLoadMinutes} min) - consider handing over ownership of some tasks, not just the doing.`
+        : "";
+    const othersOver = byLoad.filter(({ ratio }) => ratio > 1.3).map(({ d }) => d.userName || "Unknown");
+    recommendation = `${overloaded.userName || "One member"} has carried about ${hours} more hours of effort-weighted Life Admin than their share compared with ${
+      underloaded.userName || "another member"
     } over the past ${weeksToAnalyze} weeks. Consider assigning more tasks to ${
-      underloaded.userName || "the other member"
-    } for better balance.`;
-  } else if (fairnessScore >= 0.7) {
+      underloaded.userName || "them"
+    } for better balance.${mentalLoadNote}${
+      othersOver.length > 1 ? ` Members above their share: ${othersOver.join(", ")}.` : ""
+    }`;
+  } else {
     recommendation = "Task distribution is fairly balanced between family members.";
   }
 
@@ -233,7 +271,8 @@ export async function analyzeFairness(
  */
 export async function suggestTaskAssignment(
   familyId: string,
-  taskType: "resolution" | "household"
+  taskType: "resolution" | "household",
+  taskId?: string
 ): Promise<string | null> {
   // For resolutions, they're personal - no suggestion needed
   if (taskType === "resolution") {
@@ -243,14 +282,31 @@ export async function suggestTaskAssignment(
   const thisWeekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
   const thisWeekEnd = endOfWeek(new Date(), { weekStartsOn: 1 });
 
-  const distributions = await getTaskDistribution(familyId, thisWeekStart, thisWeekEnd);
+  // Tasks with a chore rotation go to whoever's turn it is
+  if (taskId) {
+    const rotation = (await loadRotationPlans([taskId], thisWeekStart, thisWeekEnd)).get(taskId);
+    if (rotation) {
+      return assignRotationTurns(rotation, [format(new Date(), "yyyy-MM-dd")])[0]?.userId || null;
+    }
+  }
+
+  // Only members who may take the task (teens can't drive a child to swim class)
+  const task = taskId
+    ? await prisma.task.findUnique({ where: { id: taskId }, select: { eligibleMemberTypes: true, forDependentId: true } })
+    : null;
+  const distributions = (await getTaskDistribution(familyId, thisWeekStart, thisWeekEnd))
+    .filter((d) => !task || isMemberEligibleForTask(d, task));
 
   if (distributions.length < 2) {
     return distributions[0]?.userId || null;
   }
 
-  // Find member with fewer household tasks this week
-  const sorted = [...distributions].sort((a, b) => a.householdTasks - b.householdTasks);
+  // Find the eligible member furthest below their fair share this week,
+  // counting credit carried over from past weeks
+  const balances = await getCarriedBalances(familyId);
+  const relativeLoad = (d: TaskDistribution) =>
+    (d.weightedLoad + (balances.get(d.userId) ?? 0)) / (d.fairShare || 1);
+  const sorted = [...distributions].sort((a, b) => relativeLoad(a) - relativeLoad(b));
   return sorted[0].userId;
 }
 
@@ -263,10 +319,14 @@ export function formatFamilyForAI(family: FamilyInfo | null): string {
   }
 
   const membersList = family.members
-    .map((m) => `- ${m.name || m.email || "Unknown"} (${m.role})`)
+    .map((m) => `- ${m.name || m.email || "Unknown"} (${m.role}, ${describeMember(m)})`)
     .join("\n");
 
-  return `Family: ${family.name}\nMembers:\n${membersList}`;
+  const dependentsList = family.dependents.length > 0
+    ? `\nDependents (no login, tasks can be for them):\n${family.dependents.map((d) => `- ${d.name} (${d.memberType})`).join("\n")}`
+    : "";
+
+  return `Family: ${family.name}\nMembers:\n${membersList}${dependentsList}`;
 }
 
 /**
@@ -276,8 +336,9 @@ export function formatDistributionForAI(distributions: TaskDistribution[]): stri
   return distributions
     .map(
       (d) =>
-        `${d.userName || "Unknown"}: ${d.totalTasks} tasks (${d.completedTasks} completed), ` +
-        `${d.householdTasks} household, ${d.resolutionTasks} resolutions, ${d.totalMinutes} total minutes`
+        `${d.userName || "Unknown"} (${d.memberType}, ${d.hasAgreedShare ? "agreed" : "fair"} share ${Math.round(d.fairShare * 100)}%): ${d.totalTasks} tasks (${d.completedTasks} completed), ` +
+        `${d.householdTasks} household, ${d.resolutionTasks} resolutions, ${d.totalMinutes} total minutes; ` +
+        `household load ${d.weightedLoad} weighted min (${d.householdMinutes} min doing, ${d.effortMinutes} effort-adjusted, ${d.mentalLoadMinutes} planning)`
     )
     .join("\n");
 }
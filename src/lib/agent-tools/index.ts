@@ -211,7 +211,7 @@ export const AGENT_TOOL_DEFINITIONS = [
   {
     name: "analyze_task_fairness",
     description:
-      "Analyze how fairly Life Admin tasks are distributed between family members. Family ID is automatically determined.",
+      "Analyze how fairly Life Admin is shared between family members. Load is effort-weighted minutes: actual time spent (from feedback), scaled by each task's effort score, plus the planning/remembering (mental load) of tasks each member owns. Compared against each member's agreed target split, or the fair share for their role (adult, teen, child, caregiver). Family ID is automatically determined.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -223,7 +223,7 @@ export const AGENT_TOOL_DEFINITIONS = [
   {
     name: "suggest_task_assignment",
     description:
-      "Suggest which family member should be assigned a task based on fairness. Family ID is automatically determined.",
+      "Suggest which family member should be assigned a task based on fairness (or, for a task with a chore rotation, whose turn it is). Family ID is automatically determined.",
     input_schema: {
       type: "object" as const,
       properties: {
@@ -232,6 +232,10 @@ export const AGENT_TOOL_DEFINITIONS = [
           enum: ["resolution", "household"],
           description: "Type of task to assign",
         },
+        taskId: {
+          type: "string",
+          description: "Existing task ID, to only suggest members allowed to take it (age/role rules)",
+        },
       },
       required: ["taskType"],
     },
@@ -454,7 +458,8 @@ export async function executeTool(
     case "suggest_task_assignment":
       return familyTools.suggestTaskAssignment(
         args.familyId as string,
-        args.taskType as "resolution" | "household"
+        args.taskType as "resolution" | "household",
+        args.taskId as string | undefined
       );
 
     // Preference Tools
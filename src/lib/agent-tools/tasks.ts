@@ -7,6 +7,7 @@
 
 import prisma from "@/lib/prisma";
 import { Task, ScheduledTask } from "@prisma/client";
+import { recordWorkCalendarDeletions } from "@/lib/addin-sync";
 import {
   startOfDay,
   endOfDay,
@@ -291,6 +292,7 @@ export async function rescheduleTask(
       startTime: newStartTime,
       endTime: newEndTime,
       ...(aiReasoning && { aiReasoning }),
+      sequence: { increment: 1 },
     },
   });
 }
@@ -299,6 +301,7 @@ export async function rescheduleTask(
  * Delete a scheduled task
  */
 export async function deleteScheduledTask(scheduledTaskId: string): Promise<void> {
+  await recordWorkCalendarDeletions({ id: scheduledTaskId });
   await prisma.scheduledTask.delete({
     where: { id: scheduledTaskId },
   });
@@ -1,8 +1,9 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { CalendarEvent, AIScheduleResponse, ScheduleRecommendation, TimeSlot } from "@/types";
-import { Task } from "@prisma/client";
+import { Task, TaskDependency } from "@prisma/client";
 import { format, addDays, startOfWeek, endOfWeek } from "date-fns";
 import { findAvailableSlots } from "./calendar";
+import { resolveBlocking } from "./calendar-rules";
 import { BlockedTime, UserAvailabilityInfo, formatBlockedTimesForPrompt } from "./user-availability";
 import {
   TaskInstance,
@@ -10,9 +11,53 @@ import {
   DayAvailability,
   expandTasksToInstances,
   calculateDayAvailability,
-  findFirstAvailableSlot,
   scheduleInstancesDeterministically,
+  getDependencyWindow,
+  clipSlotsToWindow,
+  describePrerequisites,
+  packSplittableTasks,
+  getTravelContext,
+  RulePlacement,
+  findSlotWithinRules,
+  describeEnergyFit,
+  clipSlotsToWeather,
+  findRuleViolations,
+  describeBrokenRules,
+  describeBlockingRule,
+  DependencyGraph,
+  analyzeTaskDependencies,
+  isDayAllowedAfter,
 } from "./deterministic-scheduler";
+import { SolverObjectiveWeights, solveScheduleInstances } from "./schedule-solver";
+import { getWeekRecurrenceDates, describeRecurrence } from "./task-recurrence";
+import { isOneOffTask, getRemainingSessions } from "./task-deadlines";
+import { isSplittableTask, describeChunking } from "./task-chunks";
+import { nowInTimeZone, toZonedCalendarEvents } from "./timezone";
+import { TravelTimes } from "./travel-time";
+import {
+  describeMember,
+  getEligibleMemberTypes,
+  getFairShareWeight,
+  isAvailableOnDay,
+  isMemberEligibleForTask,
+} from "./family-roles";
+import { RotationPlan, assignRotationTurns, describeRotation, getRotationTurns } from "./rotations";
+import { SchedulingRule, formatRulesForPrompt } from "./scheduling-rules";
+import {
+  DEFAULT_ENERGY_PROFILE,
+  EnergyProfile,
+  MAX_CONSECUTIVE_HIGH_DEMAND,
+  formatEnergyProfile,
+  getDemandLevel,
+  scoreEnergyFit,
+} from "./energy";
+import {
+  WeatherForecast,
+  describeUnsuitableHours,
+  describeWeatherFit,
+  findWeatherProblem,
+  getOutdoorActivity,
+} from "./weather-forecast";
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -27,7 +72,21 @@ interface ScheduleInput {
   weekStart?: Date;
   blockedTimes?: BlockedTime[];
   availabilityInfo?: UserAvailabilityInfo;
-  existingScheduledByTask?: Map<string, { count: number; dates: Set<string> }>;
+  existingScheduledByTask?: Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>;
+  taskDependencies?: TaskDependency[];
+  // "greedy" (default) places first-fit; "solver" runs branch-and-bound when AI is unavailable
+  fallbackMode?: "greedy" | "solver";
+  solverWeights?: Partial<SolverObjectiveWeights>;
+  // Minutes between the saved locations tasks happen at (see travel-time.ts)
+  travelTimes?: TravelTimes;
+  // The user's and their family's scheduling rules (see scheduling-rules.ts)
+  rules?: SchedulingRule[];
+  // Learned high/low energy hours, matched to each task's demand (see energy.ts)
+  energyProfile?: EnergyProfile;
+  // Hourly forecast, for tasks that happen outdoors (see weather-forecast.ts)
+  weatherForecast?: WeatherForecast;
+  // false skips the AI and goes straight to the fallback, e.g. for repeatable what-if runs
+  useAI?: boolean;
 }
 
 /**
@@ -35,21 +94,32 @@ interface ScheduleInput {
  * Phase 1: Deterministically expand tasks into instances with assigned days
  * Phase 2: AI picks optimal times (or fallback to deterministic)
  * Phase 3: Validate and guarantee all instances are scheduled
+ * Phase 4: Pack splittable tasks into the free time that's left
  */
 export async function generateSchedule(input: ScheduleInput): Promise<AIScheduleResponse> {
   const {
     userId,
     userName,
-    calendarEvents,
+    calendarEvents: rawCalendarEvents,
     tasks,
     learnedPreferences,
     weekStart,
     blockedTimes,
     availabilityInfo,
     existingScheduledByTask,
+    taskDependencies,
+    fallbackMode = "greedy",
+    solverWeights,
+    travelTimes,
+    rules = [],
+    energyProfile,
+    weatherForecast,
+    useAI = true,
   } = input;
 
-  const now = new Date();
+  // Everything below runs on the user's clock (see timezone.ts)
+  const now = nowInTimeZone(availabilityInfo?.timeZone);
+  const calendarEvents = toZonedCalendarEvents(rawCalendarEvents, availabilityInfo?.timeZone);
   const weekStartDate = weekStart || startOfWeek(now, { weekStartsOn: 1 });
   const weekEndDate = endOfWeek(weekStartDate, { weekStartsOn: 1 });
   const dayStart = availabilityInfo?.availableTimeStart ?? 6;
@@ -65,14 +135,17 @@ export async function generateSchedule(input: ScheduleInput): Promise<AISchedule
     tasks,
     weekStartDate,
     weekEndDate,
-    existing
+    existing,
+    taskDependencies,
+    now,
+    weatherForecast
   );
 
   console.log(`[generateSchedule] PHASE 1 RESULT: ${instances.length} instances to schedule, ${expansionConflicts.length} expansion conflicts`);
   instances.forEach(i => console.log(`[generateSchedule]   - ${i.taskName} on ${i.assignedDay} (instance ${i.instanceNumber}/${i.totalInstances})`));
   expansionConflicts.forEach(c => console.log(`[generateSchedule]   - CONFLICT: ${c.taskName}: ${c.reason}`));
 
-  if (instances.length === 0) {
+  if (instances.length === 0 && !tasks.some(isSplittableTask)) {
     return {
       schedule: [],
       conflicts: expansionConflicts.map(c => ({
@@ -88,26 +161,69 @@ export async function generateSchedule(input: ScheduleInput): Promise<AISchedule
 
   // PHASE 2: Try AI for optimal time selection
   let scheduledInstances: ScheduledInstance[];
-
-  try {
-    scheduledInstances = await getAITimeSelections(
+  // Solver explanations of which constraint forced each conflict, keyed by instance ID
+  const conflictExplanations = new Map<string, string>();
+
+  const scheduleWithoutAI = (): ScheduledInstance[] => {
+    if (fallbackMode === "solver") {
+      const solverResult = solveScheduleInstances(
+        instances,
+        calendarEvents,
+        blockedTimes || [],
+        dayStart,
+        dayEnd,
+        {
+          weights: solverWeights,
+          bufferMinutes: availabilityInfo?.bufferMinutes ?? 0,
+          travelTimes,
+          timeZone: availabilityInfo?.timeZone,
+        }
+      );
+      for (const s of solverResult.scheduled) {
+        if (s.isConflict && s.conflictReason) {
+          conflictExplanations.set(
+            `${s.taskInstance.taskId}-${s.taskInstance.assignedDay}-${s.taskInstance.instanceNumber}`,
+            s.conflictReason
+          );
+        }
+      }
+      return solverResult.scheduled;
+    }
+    return scheduleInstancesDeterministically(
       instances,
       calendarEvents,
       blockedTimes || [],
       dayStart,
       dayEnd,
-      userName,
-      learnedPreferences
-    );
-  } catch (error) {
-    console.error("AI time selection failed, using deterministic fallback:", error);
-    scheduledInstances = scheduleInstancesDeterministically(
-      instances,
-      calendarEvents,
-      blockedTimes || [],
-      dayStart,
-      dayEnd
+      travelTimes,
+      rules,
+      energyProfile,
+      weatherForecast
     );
+  };
+
+  if (useAI) {
+    try {
+      scheduledInstances = await getAITimeSelections(
+        instances,
+        calendarEvents,
+        blockedTimes || [],
+        dayStart,
+        dayEnd,
+        userName,
+        learnedPreferences,
+        travelTimes,
+        rules,
+        energyProfile,
+        weatherForecast
+      );
+    } catch (error) {
+      console.error(`AI time selection failed, using ${fallbackMode} fallback:`, error);
+      scheduledInstances = scheduleWithoutAI();
+    }
+  } else {
+    console.log(`[generateSchedule] PHASE 2: AI disabled, using ${fallbackMode} fallback`);
+    scheduledInstances = scheduleWithoutAI();
   }
 
   // PHASE 3: Validate and fill gaps with deterministic scheduling
@@ -118,7 +234,12 @@ export async function generateSchedule(input: ScheduleInput): Promise<AISchedule
     calendarEvents,
     blockedTimes || [],
     dayStart,
-    dayEnd
+    dayEnd,
+    conflictExplanations,
+    travelTimes,
+    rules,
+    energyProfile,
+    weatherForecast
   );
 
   const successfullyScheduled = scheduledInstances.filter(s => !s.isConflict);
@@ -127,6 +248,25 @@ export async function generateSchedule(input: ScheduleInput): Promise<AISchedule
   successfullyScheduled.forEach(s => console.log(`[generateSchedule]   - OK: ${s.taskInstance.taskName} on ${s.taskInstance.assignedDay} at ${s.startTime}`));
   failedToSchedule.forEach(s => console.log(`[generateSchedule]   - FAIL: ${s.taskInstance.taskName} on ${s.taskInstance.assignedDay}: ${s.conflictReason}`));
 
+  // PHASE 4: Pack splittable tasks into the free time that's left
+  const { scheduled: chunks, conflicts: packingConflicts } = packSplittableTasks(
+    tasks,
+    weekStartDate,
+    weekEndDate,
+    existing,
+    scheduledInstances,
+    calendarEvents,
+    blockedTimes || [],
+    dayStart,
+    dayEnd,
+    now,
+    travelTimes,
+    rules
+  );
+  console.log(`[generateSchedule] PHASE 4 RESULT: ${chunks.length} chunks packed, ${packingConflicts.length} shortfalls`);
+  scheduledInstances = [...scheduledInstances, ...chunks];
+  expansionConflicts.push(...packingConflicts);
+
   // Convert to API response format
   const schedule: ScheduleRecommendation[] = scheduledInstances
     .filter(s => !s.isConflict)
@@ -177,8 +317,16 @@ async function getAITimeSelections(
   dayStart: number,
   dayEnd: number,
   userName: string,
-  learnedPreferences?: Record<string, unknown>
+  learnedPreferences?: Record<string, unknown>,
+  travelTimes?: TravelTimes,
+  rules: SchedulingRule[] = [],
+  energyProfile?: EnergyProfile,
+  weatherForecast?: WeatherForecast
 ): Promise<ScheduledInstance[]> {
+  if (instances.length === 0) {
+    return [];
+  }
+
   // Group instances by day
   const instancesByDay = new Map<string, TaskInstance[]>();
   for (const instance of instances) {
@@ -212,7 +360,11 @@ async function getAITimeSelections(
     instances,
     dayAvailabilities,
     userName,
-    learnedPreferences
+    learnedPreferences,
+    travelTimes,
+    rules,
+    energyProfile,
+    weatherForecast
   );
 
   // Call AI
@@ -269,7 +421,11 @@ function buildTimeSelectionPrompt(
   instances: TaskInstance[],
   dayAvailabilities: Map<string, DayAvailability>,
   userName: string,
-  learnedPreferences?: Record<string, unknown>
+  learnedPreferences?: Record<string, unknown>,
+  travelTimes?: TravelTimes,
+  rules: SchedulingRule[] = [],
+  energyProfile?: EnergyProfile,
+  weatherForecast?: WeatherForecast
 ): string {
   // Group by day for cleaner prompt
   const byDay = new Map<string, TaskInstance[]>();
@@ -292,6 +448,9 @@ The days and number of instances have already been determined - you just need to
 - Errands/Chores: Afternoon or whenever convenient
 - Consider spacing tasks throughout the day (don't cluster everything)
 ${learnedPreferences ? `\n## User's learned preferences:\n${JSON.stringify(learnedPreferences, null, 2)}` : ""}
+${energyProfile ? `\n## ${userName}'s energy: ${formatEnergyProfile(energyProfile)}\nPut "high" demand tasks in high-energy hours (no more than ${MAX_CONSECUTIVE_HIGH_DEMAND} back to back without a break) and keep "low" demand tasks out of them when there's room.\n` : ""}
+${rules.length > 0 ? `\n## ${userName}'s scheduling rules (MUST rules are never broken; break a SHOULD rule only if nothing else fits):\n${formatRulesForPrompt(rules)}\n` : ""}
+${travelTimes && travelTimes.size > 0 ? `\n## Travel times between locations (leave at least this gap between tasks at different locations):\n${Array.from(travelTimes.entries()).map(([key, minutes]) => `- ${key.replace("->", " to ")}: ${minutes} min`).join("\n")}\n` : ""}
 
 ## Tasks to schedule by day:
 `;
@@ -320,12 +479,36 @@ ${learnedPreferences ? `\n## User's learned preferences:\n${JSON.stringify(learn
       prompt += `  Name: ${inst.taskName}${instanceLabel}\n`;
       prompt += `  Type: ${inst.taskType} | Category: ${inst.category || "general"}\n`;
       prompt += `  Duration: ${inst.duration} minutes\n`;
+      if (inst.originalTask.locationType) {
+        prompt += `  Location: ${inst.originalTask.locationType}\n`;
+      }
+      if (getDemandLevel(inst.originalTask) !== "medium") {
+        prompt += `  Demand: ${getDemandLevel(inst.originalTask)}\n`;
+      }
+      const badWeather = weatherForecast && describeUnsuitableHours(inst.originalTask, inst.assignedDay, weatherForecast);
+      if (badWeather) {
+        prompt += `  OUTDOORS - forecast rules out: ${badWeather}\n`;
+      }
       if (inst.fixedTime) {
         prompt += `  REQUIRED TIME: ${inst.fixedTime} (must be scheduled at this exact time)\n`;
       }
       if (inst.preferredTimeStart && inst.preferredTimeEnd) {
         prompt += `  Preferred window: ${inst.preferredTimeStart} - ${inst.preferredTimeEnd}\n`;
       }
+      if (isOneOffTask(inst.originalTask)) {
+        prompt += `  Deadline: due ${format(inst.originalTask.dueDate!, "EEEE, MMM d")} (one-off task)\n`;
+      }
+      for (const dep of inst.dependencies) {
+        const prerequisite = instances.find(
+          i => i.taskId === dep.prerequisiteTaskId && i.instanceNumber === dep.prerequisiteInstanceNumber
+        );
+        if (!prerequisite) continue;
+        const gap = [
+          dep.minGapMinutes ? `at least ${dep.minGapMinutes} min` : null,
+          dep.maxGapMinutes !== null ? `at most ${dep.maxGapMinutes} min` : null,
+        ].filter(Boolean).join(", ");
+        prompt += `  MUST START AFTER: "${prerequisite.taskId}-${prerequisite.assignedDay}-${prerequisite.instanceNumber}" (${dep.prerequisiteTaskName}) ends${gap ? ` (${gap} later)` : ""}${dep.sameDay ? ", same day" : ""}\n`;
+      }
     }
   });
 
@@ -347,6 +530,7 @@ IMPORTANT:
 - Times must be in HH:MM format (24-hour)
 - Times must fall within an available slot
 - If a task has a REQUIRED TIME, use exactly that time
+- If a task MUST START AFTER another, its start time must respect that ordering and gap
 - If no slot fits, still return the entry with startTime: null`;
 
   return prompt;
@@ -395,7 +579,12 @@ function validateAndFillGaps(
   calendarEvents: CalendarEvent[],
   blockedTimes: BlockedTime[],
   dayStart: number,
-  dayEnd: number
+  dayEnd: number,
+  conflictExplanations?: Map<string, string>,
+  travelTimes?: TravelTimes,
+  rules: SchedulingRule[] = [],
+  energyProfile?: EnergyProfile,
+  weatherForecast?: WeatherForecast
 ): ScheduledInstance[] {
   const validatedResults: ScheduledInstance[] = [];
   const processedInstanceIds = new Set<string>();
@@ -417,17 +606,31 @@ function validateAndFillGaps(
       blockedTimes,
       validatedResults, // Check against already validated results
       dayStart,
-      dayEnd
+      dayEnd,
+      getTravelContext(result.taskInstance, travelTimes)
     );
 
-    const isValid = validateTimeInSlots(
+    const { window, unsatisfiedReason } = getDependencyWindow(result.taskInstance, validatedResults);
+    const slots = weatherForecast
+      ? clipSlotsToWeather(availability.slots, result.taskInstance.originalTask, result.taskInstance.assignedDay, weatherForecast)
+      : availability.slots;
+    const isValid = !unsatisfiedReason && validateTimeInSlots(
       result.startTime,
       result.taskInstance.duration,
-      availability.slots
+      clipSlotsToWindow(slots, window, result.taskInstance.duration)
     );
 
-    if (isValid) {
-      validatedResults.push(result);
+    // Hard rules are never broken; soft ones are explained
+    const brokenRules = isValid ? findRuleViolations(
+      rules,
+      toRulePlacement(result),
+      validatedResults
+        .filter(v => v.taskInstance.assignedDay === result.taskInstance.assignedDay)
+        .map(toRulePlacement)
+    ) : [];
+
+    if (isValid && !brokenRules.some(r => r.strength === "hard")) {
+      validatedResults.push({ ...result, reasoning: result.reasoning + describeBrokenRules(brokenRules) });
       processedInstanceIds.add(instanceId);
     }
     // If not valid, will be filled deterministically
@@ -449,23 +652,24 @@ function validateAndFillGaps(
       blockedTimes,
       validatedResults,
       dayStart,
-      dayEnd
+      dayEnd,
+      getTravelContext(instance, travelTimes)
     );
 
-    const slot = findFirstAvailableSlot(
-      availability,
-      instance.duration,
-      instance.fixedTime,
-      instance.preferredTimeStart,
-      instance.preferredTimeEnd
-    );
+    const { window, unsatisfiedReason } = getDependencyWindow(instance, validatedResults);
+    const { slot, brokenRules, blockingRule, blockingWeather } = unsatisfiedReason
+      ? { slot: null, brokenRules: [], blockingRule: null, blockingWeather: null }
+      : findSlotWithinRules(availability, instance, rules, validatedResults, window, energyProfile, weatherForecast);
 
     if (slot) {
       validatedResults.push({
         taskInstance: instance,
         startTime: slot.startTime,
         endTime: slot.endTime,
-        reasoning: generateDefaultReasoning(instance),
+        reasoning: generateDefaultReasoning(instance)
+          + describeEnergyFit(instance, slot, energyProfile)
+          + describeWeatherFit(instance.originalTask, instance.assignedDay, slot.startTime, weatherForecast)
+          + describeBrokenRules(brokenRules),
         isConflict: false,
       });
     } else {
@@ -475,9 +679,12 @@ function validateAndFillGaps(
         endTime: "",
         reasoning: "",
         isConflict: true,
-        conflictReason: instance.fixedTime
+        conflictReason: conflictExplanations?.get(instanceId) || unsatisfiedReason
+          || (blockingRule && describeBlockingRule(blockingRule, instance)) || blockingWeather || (instance.fixedTime
           ? `Required time ${instance.fixedTime} not available on ${instance.dayName}`
-          : `No ${instance.duration}-minute slot available on ${instance.dayName}`,
+          : window.earliestStart || window.latestStart
+            ? `No ${instance.duration}-minute slot on ${instance.dayName} fits after ${describePrerequisites(instance)}`
+            : `No ${instance.duration}-minute slot available on ${instance.dayName}`),
       });
     }
   }
@@ -485,6 +692,16 @@ function validateAndFillGaps(
   return validatedResults;
 }
 
+function toRulePlacement(result: ScheduledInstance): RulePlacement {
+  return {
+    taskType: result.taskInstance.taskType,
+    category: result.taskInstance.category,
+    date: result.taskInstance.assignedDay,
+    startTime: result.startTime,
+    endTime: result.endTime,
+  };
+}
+
 /**
  * Validate that a time fits within available slots
  */
@@ -544,19 +761,38 @@ interface FamilyMemberData {
   tasks: Task[];
   blockedTimes?: BlockedTime[];
   availabilityInfo?: UserAvailabilityInfo;
+  memberType?: string;
+  helpDays?: number[];
+  rules?: SchedulingRule[]; // Their own rules plus the family's
+  energyProfile?: EnergyProfile;
+  weatherForecast?: WeatherForecast;
+}
+
+interface FamilyDependentData {
+  id: string;
+  name: string;
+  memberType: string;
 }
 
 interface FamilyScheduleInput {
   familyMembers: FamilyMemberData[];
   familyTasks: Task[];
+  dependents?: FamilyDependentData[];
   weekStart?: Date;
-  existingScheduledByTask?: Map<string, { count: number; dates: Set<string> }>;
+  existingScheduledByTask?: Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>;
+  // Chore rotations by task ID (see rotations.ts)
+  rotations?: Map<string, RotationPlan>;
+  // "B after A" ordering between any of the household's tasks, personal or shared
+  taskDependencies?: TaskDependency[];
+  // false skips the AI and uses the fallback assignment, e.g. for repeatable what-if runs
+  useAI?: boolean;
 }
 
 export async function generateFamilySchedule(input: FamilyScheduleInput): Promise<AIScheduleResponse> {
-  const { familyMembers, familyTasks, weekStart, existingScheduledByTask } = input;
+  const { familyMembers, familyTasks, dependents = [], weekStart, existingScheduledByTask, rotations = new Map(), taskDependencies = [], useAI = true } = input;
 
-  const now = new Date();
+  // A household shares a clock; use the first member's zone for "today"
+  const now = nowInTimeZone(familyMembers[0]?.availabilityInfo?.timeZone);
   const weekStartDate = weekStart || startOfWeek(now, { weekStartsOn: 1 });
   const weekEndDate = endOfWeek(weekStartDate, { weekStartsOn: 1 });
 
@@ -572,7 +808,13 @@ export async function generateFamilySchedule(input: FamilyScheduleInput): Promis
     for (let i = 0; i < 7; i++) {
       const day = addDays(weekStartDate, i);
       const dayStr = format(day, "yyyy-MM-dd");
-      const slots = findAvailableSlots(member.calendarEvents, day, memberDayStart, memberDayEnd);
+      const slots = findAvailableSlots(
+        member.calendarEvents,
+        day,
+        memberDayStart,
+        memberDayEnd,
+        member.availabilityInfo?.timeZone
+      );
 
       if (member.blockedTimes && member.blockedTimes.length > 0) {
         memberAvailability[member.userId][dayStr] = filterSlotsAgainstBlockedTimes(
@@ -586,11 +828,19 @@ export async function generateFamilySchedule(input: FamilyScheduleInput): Promis
     }
   }
 
-  // Combine all tasks
+  // Combine all tasks (multi-week/monthly tasks only when an occurrence falls this week)
   const allTasks = [
     ...familyMembers.flatMap(m => m.tasks),
     ...familyTasks,
-  ].sort((a, b) => a.priority - b.priority);
+  ]
+    .filter(t => getWeekRecurrenceDates(t, weekStartDate)?.length !== 0)
+    .sort((a, b) => a.priority - b.priority);
+
+  // Ordering constraints between this week's tasks; the fallback places prerequisites first
+  const dependencyGraph = analyzeTaskDependencies(allTasks, taskDependencies);
+  const tasksPrerequisitesFirst = [...allTasks].sort(
+    (a, b) => dependencyGraph.depth.get(a.id)! - dependencyGraph.depth.get(b.id)!
+  );
 
   // Build the family scheduling prompt
   const prompt = buildFamilySchedulingPrompt({
@@ -598,10 +848,42 @@ export async function generateFamilySchedule(input: FamilyScheduleInput): Promis
     memberAvailability,
     allTasks,
     familyTasks,
+    dependents,
+    rotations,
+    dependencies: dependencyGraph.edges,
     weekStart: weekStartDate,
     weekEnd: weekEndDate,
   });
 
+  const scheduleWithoutAI = () =>
+    enforceTaskDependencies(
+      enforceSchedulingRules(
+        enforceRotations(
+          generateFamilyFallbackSchedule(
+            tasksPrerequisitesFirst,
+            memberAvailability,
+            familyMembers,
+            weekStartDate,
+            weekEndDate,
+            existingScheduledByTask,
+            rotations,
+            dependencyGraph.edges
+          ),
+          rotations,
+          familyMembers
+        ),
+        allTasks,
+        familyMembers
+      ),
+      dependencyGraph,
+      allTasks,
+      existingScheduledByTask
+    );
+
+  if (!useAI) {
+    return scheduleWithoutAI();
+  }
+
   try {
     const message = await anthropic.messages.create({
       model: "claude-sonnet-4-20250514",
@@ -610,10 +892,17 @@ export async function generateFamilySchedule(input: FamilyScheduleInput): Promis
     });
 
     const responseText = message.content[0].type === "text" ? message.content[0].text : "";
-    return parseFamilyAIResponse(responseText, familyMembers);
+    const parsed = enforceRotations(parseFamilyAIResponse(responseText, familyMembers), rotations, familyMembers);
+    const placed = enforceWeather(
+      enforceSchedulingRules(enforceFamilyEligibility(parsed, familyTasks, familyMembers), allTasks, familyMembers),
+      allTasks,
+      familyMembers
+    );
+    // Last, so sessions whose prerequisite was dropped above go too
+    return enforceTaskDependencies(placed, dependencyGraph, allTasks, existingScheduledByTask);
   } catch (error) {
     console.error("AI family scheduling error:", error);
-    return generateFamilyFallbackSchedule(allTasks, memberAvailability, familyMembers, weekStartDate, weekEndDate, existingScheduledByTask);
+    return scheduleWithoutAI();
   }
 }
 
@@ -684,10 +973,24 @@ function buildFamilySchedulingPrompt(params: {
   memberAvailability: Record<string, Record<string, TimeSlot[]>>;
   allTasks: Task[];
   familyTasks: Task[];
+  dependents: FamilyDependentData[];
+  rotations: Map<string, RotationPlan>;
+  dependencies: TaskDependency[];
   weekStart: Date;
   weekEnd: Date;
 }): string {
-  const { familyMembers, memberAvailability, familyTasks, weekStart, weekEnd } = params;
+  const { familyMembers, memberAvailability, allTasks, familyTasks, dependents, rotations, dependencies, weekStart, weekEnd } = params;
+  const dependentNames = new Map(dependents.map(d => [d.id, d.name]));
+  const memberName = (userId: string) => familyMembers.find(m => m.userId === userId)?.userName || "Unknown";
+  const rotationFields = (t: Task) => {
+    const rotation = rotations.get(t.id);
+    return rotation ? { rotation: describeRotation(rotation, memberName, weekStart) } : {};
+  };
+  const taskNames = new Map(allTasks.map(t => [t.id, t.name]));
+  const dependencyFields = (t: Task) => {
+    const edges = dependencies.filter(e => e.taskId === t.id);
+    return edges.length > 0 ? { mustFollow: edges.map(e => describeDependency(e, taskNames.get(e.dependsOnTaskId)!)) } : {};
+  };
 
   const getTimeString = (time: CalendarEvent['start']): string | undefined => {
     if (typeof time === 'string') return time;
@@ -705,12 +1008,24 @@ function buildFamilySchedulingPrompt(params: {
     }).join(", ");
   };
 
+  const isDueThisWeek = (t: Task) => getWeekRecurrenceDates(t, weekStart)?.length !== 0;
+  const recurrenceFields = (t: Task) => t.recurrenceRule
+    ? { recurrence: describeRecurrence(t), dueDates: getWeekRecurrenceDates(t, weekStart) }
+    : isOneOffTask(t)
+      ? { deadline: format(t.dueDate!, "yyyy-MM-dd"), estimatedEffortMinutes: t.estimatedEffort ?? t.duration }
+      : {};
+  const chunkingFields = (t: Task) => isSplittableTask(t) ? { splitEffort: describeChunking(t) } : {};
+
   const memberSummaries = familyMembers.map((member) => {
-    const calendarSummary = member.calendarEvents.map((e) => ({
-      title: e.summary,
-      start: getTimeString(e.start),
-      end: getTimeString(e.end),
-    }));
+    // Free events don't take the time; soft ones can be used if nothing else fits
+    const calendarSummary = member.calendarEvents
+      .filter((e) => resolveBlocking(e) !== "free")
+      .map((e) => ({
+        title: e.summary,
+        start: getTimeString(e.start),
+        end: getTimeString(e.end),
+        ...(resolveBlocking(e) === "soft" ? { tentative: true } : {}),
+      }));
 
     const slotsSummary = Object.entries(memberAvailability[member.userId]).map(([date, slots]) => ({
       date,
@@ -721,7 +1036,7 @@ function buildFamilySchedulingPrompt(params: {
       })),
     }));
 
-    const personalTasks = member.tasks.map((t) => ({
+    const personalTasks = member.tasks.filter(isDueThisWeek).map((t) => ({
       id: t.id,
       name: t.name,
       type: t.type,
@@ -733,6 +1048,12 @@ function buildFamilySchedulingPrompt(params: {
       fixedTime: t.fixedTime,
       frequency: t.frequency,
       frequencyPeriod: t.frequencyPeriod,
+      ...recurrenceFields(t),
+      ...chunkingFields(t),
+      ...rotationFields(t),
+      ...dependencyFields(t),
+      ...(getDemandLevel(t) !== "medium" && { demandLevel: t.demandLevel }),
+      ...(getOutdoorActivity(t) && { outdoor: true }),
     }));
 
     const blockedTimesInfo = member.blockedTimes && member.blockedTimes.length > 0
@@ -742,15 +1063,19 @@ function buildFamilySchedulingPrompt(params: {
     return {
       userId: member.userId,
       name: member.userName,
+      role: describeMember(member),
       calendar: calendarSummary,
       availableSlots: slotsSummary,
       personalTasks,
       blockedTimes: blockedTimesInfo,
       bufferMinutes: member.availabilityInfo?.bufferMinutes || 0,
+      rules: member.rules && member.rules.length > 0 ? formatRulesForPrompt(member.rules) : null,
+      energy: member.energyProfile ? formatEnergyProfile(member.energyProfile) : null,
+      weather: member.weatherForecast ? formatWeatherForPrompt(allTasks, member.weatherForecast, weekStart, weekEnd) : null,
     };
   });
 
-  const sharedTasksSummary = familyTasks.map((t) => ({
+  const sharedTasksSummary = familyTasks.filter(isDueThisWeek).map((t) => ({
     id: t.id,
     name: t.name,
     type: t.type,
@@ -762,29 +1087,52 @@ function buildFamilySchedulingPrompt(params: {
     fixedTime: t.fixedTime,
     frequency: t.frequency,
     frequencyPeriod: t.frequencyPeriod,
+    eligibleFor: getEligibleMemberTypes(t),
+    ...(t.forDependentId && dependentNames.has(t.forDependentId) && { forDependent: dependentNames.get(t.forDependentId) }),
+    ...recurrenceFields(t),
+    ...chunkingFields(t),
+    ...rotationFields(t),
+    ...dependencyFields(t),
+    ...(getDemandLevel(t) !== "medium" && { demandLevel: t.demandLevel }),
+    ...(getOutdoorActivity(t) && { outdoor: true }),
   }));
 
+  const dependentsSection = dependents.length > 0
+    ? `\n## Dependents (no login - tasks "forDependent" need a grown-up to take them)\n${dependents.map(d => `- ${d.name} (${d.memberType})`).join("\n")}\n`
+    : "";
+
   return `You are ResolutionAI, an intelligent FAMILY scheduling assistant.
 
 ## Week: ${format(weekStart, "EEEE, MMMM d")} to ${format(weekEnd, "EEEE, MMMM d, yyyy")}
 
 ## Family Members
 ${memberSummaries.map((m, i) => `
-### ${m.name} (ID: ${m.userId})
+### ${m.name} (ID: ${m.userId}) - ${m.role}
 **Calendar:** ${JSON.stringify(m.calendar, null, 2)}
 **Work Hours:** ${m.blockedTimes}
 **Available Slots:** ${JSON.stringify(m.availableSlots, null, 2)}
 **Personal Tasks:** ${JSON.stringify(m.personalTasks, null, 2)}
-`).join("\n")}
+${m.energy ? `**Energy:** ${m.energy}\n` : ""}${m.weather ? `**Forecast rules out (outdoor tasks):**\n${m.weather}\n` : ""}${m.rules ? `**Scheduling Rules:**\n${m.rules}\n` : ""}`).join("\n")}
 
+${dependentsSection}
 ## Shared Tasks
 ${JSON.stringify(sharedTasksSummary, null, 2)}
 
 ## Instructions
 1. RESPECT frequency - if a task needs 4x/week, create 4 entries
 2. RESPECT fixed days/times - schedule exactly as specified
-3. Personal tasks go to their owner
-4. Shared tasks distributed fairly based on availability
+3. Personal tasks go to their owner, unless they have a "rotation"
+4. Shared tasks distributed fairly based on availability - teens carry about half an adult's share, caregivers help only on their listed days
+5. Tasks with "dueDates" recur every few weeks or months - they are due this week, so schedule "frequency" entries per due date (fixed tasks exactly on those dates)
+6. Tasks with a "deadline" are one-off - split "estimatedEffortMinutes" into sessions of "duration", one per day, as early as possible and never after the deadline
+7. Tasks with "splitEffort" are a total amount of work - book it as several sessions within the given session sizes and per-day limit, wherever time is free, instead of "frequency" entries
+8. Only assign a shared task to a member whose role is in its "eligibleFor" list, and a caregiver only on their help days
+9. Tasks with a "rotation" follow it exactly instead of balancing by load - give each occurrence, in date order, to whoever's turn it is
+10. Follow each member's Scheduling Rules for the tasks assigned to them - never break a MUST rule; break a SHOULD rule only if nothing else fits, and say so in the reasoning
+11. Tasks with "demandLevel" "high" go in the assignee's high-energy hours, no more than ${MAX_CONSECUTIVE_HIGH_DEMAND} back to back; keep "low" ones out of high-energy hours when there's room
+12. Tasks marked "outdoor" only go in hours the assignee's forecast doesn't rule out
+13. Calendar events marked "tentative" are inside the available slots - keep tasks off them unless nothing else fits
+14. Tasks with "mustFollow" start only after the named task's entry ends - their 1st entry after its 1st, 2nd after its 2nd, and so on - keeping any gap given
 
 ## Response Format
 {
@@ -807,6 +1155,246 @@ ${JSON.stringify(sharedTasksSummary, null, 2)}
 }`;
 }
 
+/**
+ * Hand each occurrence of a rotated task to whoever's turn it is, in date
+ * order, whatever the AI or fallback chose
+ */
+function enforceRotations(
+  result: AIScheduleResponse,
+  rotations: Map<string, RotationPlan>,
+  familyMembers: FamilyMemberData[]
+): AIScheduleResponse {
+  if (rotations.size === 0) return result;
+
+  const memberName = (userId: string) => familyMembers.find(m => m.userId === userId)?.userName || "Unknown";
+  const turns = getRotationTurns(result.schedule, rotations, rec => rec.date);
+  const conflicts = [...result.conflicts];
+
+  const schedule = result.schedule.flatMap(rec => {
+    if (!turns.has(rec)) return [rec];
+
+    const turn = turns.get(rec);
+    if (!turn) {
+      conflicts.push({
+        taskId: rec.taskId,
+        reason: `Everyone in the "${rec.taskName}" rotation is away on ${rec.date}`,
+        alternatives: ["Skip this occurrence", "Add someone else to the rotation"],
+      });
+      return [];
+    }
+
+    const note = turn.coveringFor
+      ? `${memberName(turn.userId)} covers ${memberName(turn.coveringFor)}'s turn (on vacation).`
+      : `${memberName(turn.userId)}'s turn in the rotation.`;
+    if (turn.userId !== rec.assignedToUserId) {
+      console.log(`[enforceRotations] "${rec.taskName}" on ${rec.date}: ${memberName(rec.assignedToUserId)} -> ${memberName(turn.userId)}`);
+    }
+    return [{ ...rec, assignedToUserId: turn.userId, reasoning: `${rec.reasoning} ${note}`.trim() }];
+  });
+
+  return { ...result, schedule, conflicts };
+}
+
+/**
+ * "after "Laundry" ends (at least 30 min later, same day)" for the prompt
+ */
+function describeDependency(edge: TaskDependency, prerequisiteName: string): string {
+  const gap = [
+    edge.minGapMinutes ? `at least ${edge.minGapMinutes} min` : null,
+    edge.maxGapMinutes !== null ? `at most ${edge.maxGapMinutes} min` : null,
+  ].filter(Boolean).join(", ");
+  return `after "${prerequisiteName}" ends${gap ? ` (${gap} later)` : ""}${edge.sameDay ? ", same day" : ""}`;
+}
+
+/**
+ * Drop sessions that don't follow their prerequisite, pairing the k-th session
+ * of a task with the k-th (or last) of its prerequisite, counting ones already
+ * held this week, as expandTasksToInstances does. A prerequisite with no
+ * sessions at all doesn't hold its dependents back.
+ */
+function enforceTaskDependencies(
+  result: AIScheduleResponse,
+  graph: DependencyGraph,
+  allTasks: Task[],
+  existingScheduledByTask?: Map<string, { count: number; dates: Set<string> }>
+): AIScheduleResponse {
+  const conflicts = [
+    ...result.conflicts,
+    ...graph.conflicts.map(c => ({ taskId: c.taskId, reason: c.reason, alternatives: ["Remove one of the dependencies"] })),
+  ];
+  if (graph.edges.length === 0) return { ...result, conflicts };
+
+  const taskNames = new Map(allTasks.map(t => [t.id, t.name]));
+  const toDateTime = (date: string, time: string) => new Date(`${date}T${time.padStart(5, "0")}:00`);
+  let schedule = [...result.schedule].sort((a, b) => `${a.date}${a.startTime}`.localeCompare(`${b.date}${b.startTime}`));
+
+  // A dropped prerequisite can strand the sessions paired with it, so repeat until nothing changes
+  for (let dropped = new Set<ScheduleRecommendation>(); ; dropped = new Set()) {
+    for (const edge of graph.edges) {
+      // Sessions already held count by day only; their times aren't known here
+      const references = [
+        ...Array.from(existingScheduledByTask?.get(edge.dependsOnTaskId)?.dates || []).map(date => ({ date, session: null })),
+        ...schedule.filter(r => r.taskId === edge.dependsOnTaskId).map(session => ({ date: session.date, session })),
+      ].sort((a, b) => a.date.localeCompare(b.date));
+      if (references.length === 0) continue;
+
+      const heldCount = existingScheduledByTask?.get(edge.taskId)?.count ?? 0;
+      const prerequisiteName = taskNames.get(edge.dependsOnTaskId)!;
+
+      schedule.filter(r => r.taskId === edge.taskId).forEach((rec, i) => {
+        const { date: referenceDate, session: reference } = references[Math.min(heldCount + i, references.length - 1)];
+
+        let follows = isDayAllowedAfter(new Date(rec.date + "T12:00:00"), new Date(referenceDate + "T12:00:00"), edge);
+        if (follows && reference) {
+          const gapMinutes = (toDateTime(rec.date, rec.startTime).getTime() - toDateTime(reference.date, reference.endTime).getTime()) / 60000;
+          follows = gapMinutes >= (edge.minGapMinutes || 0) && (edge.maxGapMinutes === null || gapMinutes <= edge.maxGapMinutes);
+        }
+        if (follows || dropped.has(rec)) return;
+
+        console.log(`[enforceTaskDependencies] Dropped "${rec.taskName}" on ${rec.date} at ${rec.startTime}: must follow "${prerequisiteName}" on ${referenceDate}`);
+        dropped.add(rec);
+        conflicts.push({
+          taskId: rec.taskId,
+          reason: `"${rec.taskName}" on ${rec.date} at ${rec.startTime} must come ${describeDependency(edge, prerequisiteName)}`,
+          alternatives: [`Schedule it after "${prerequisiteName}"`, "Remove the dependency"],
+        });
+      });
+    }
+
+    if (dropped.size === 0) break;
+    schedule = schedule.filter(r => !dropped.has(r));
+  }
+
+  return { ...result, schedule, conflicts };
+}
+
+/**
+ * Per outdoor task, the hours a member's forecast rules out this week
+ */
+function formatWeatherForPrompt(tasks: Task[], forecast: WeatherForecast, weekStart: Date, weekEnd: Date): string | null {
+  const lines: string[] = [];
+  for (const task of tasks.filter(t => getOutdoorActivity(t))) {
+    for (let day = weekStart; day <= weekEnd; day = addDays(day, 1)) {
+      const hours = describeUnsuitableHours(task, format(day, "yyyy-MM-dd"), forecast);
+      if (hours) lines.push(`- ${task.name} on ${format(day, "EEEE yyyy-MM-dd")}: ${hours}`);
+    }
+  }
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+/**
+ * Turn outdoor assignments the assignee's forecast doesn't suit into conflicts
+ */
+function enforceWeather(
+  result: AIScheduleResponse,
+  allTasks: Task[],
+  familyMembers: FamilyMemberData[]
+): AIScheduleResponse {
+  const forecasts = new Map(familyMembers.map(m => [m.userId, m.weatherForecast]));
+  const tasksById = new Map(allTasks.map(t => [t.id, t]));
+  const conflicts = [...result.conflicts];
+
+  const schedule = result.schedule.filter(rec => {
+    const task = tasksById.get(rec.taskId);
+    const forecast = forecasts.get(rec.assignedToUserId);
+    if (!task || !forecast) return true;
+
+    const [startHour, startMinute] = rec.startTime.split(":").map(Number);
+    const [endHour, endMinute] = rec.endTime.split(":").map(Number);
+    const problem = findWeatherProblem(task, rec.date, startHour * 60 + startMinute, endHour * 60 + endMinute, forecast);
+    if (!problem) return true;
+
+    console.log(`[enforceWeather] Dropped "${rec.taskName}" on ${rec.date} at ${rec.startTime}: ${problem}`);
+    conflicts.push({
+      taskId: rec.taskId,
+      reason: `"${rec.taskName}" on ${rec.date} at ${rec.startTime} is outdoors, and the forecast says: ${problem}`,
+      alternatives: ["Pick a drier time", "Do it indoors this week"],
+    });
+    return false;
+  });
+
+  return { ...result, schedule, conflicts };
+}
+
+/**
+ * Drop shared-task assignments the AI gave to members who can't take them
+ * (wrong member type, or a caregiver outside their help days)
+ */
+function enforceFamilyEligibility(
+  result: AIScheduleResponse,
+  familyTasks: Task[],
+  familyMembers: FamilyMemberData[]
+): AIScheduleResponse {
+  const sharedTasks = new Map(familyTasks.map(t => [t.id, t]));
+  const membersById = new Map(familyMembers.map(m => [m.userId, m]));
+  const conflicts = [...result.conflicts];
+
+  const schedule = result.schedule.filter(rec => {
+    const task = sharedTasks.get(rec.taskId);
+    const member = membersById.get(rec.assignedToUserId);
+    if (!task || !member) return true;
+
+    const dayOfWeek = new Date(rec.date + "T12:00:00").getDay();
+    if (isMemberEligibleForTask(member, task, dayOfWeek)) return true;
+
+    console.log(`[enforceFamilyEligibility] Dropped "${task.name}" for ${member.userName} (${describeMember(member)}) on ${rec.date}`);
+    conflicts.push({
+      taskId: task.id,
+      reason: `"${task.name}" can't be assigned to ${member.userName} (${describeMember(member)}) on ${rec.date}`,
+      alternatives: ["Assign it to an eligible family member", "Change who the task is suitable for"],
+    });
+    return false;
+  });
+
+  return { ...result, schedule, conflicts };
+}
+
+/**
+ * Check every assignment against its assignee's scheduling rules: entries
+ * breaking a hard rule become conflicts, soft breaches are explained
+ */
+function enforceSchedulingRules(
+  result: AIScheduleResponse,
+  allTasks: Task[],
+  familyMembers: FamilyMemberData[]
+): AIScheduleResponse {
+  const rulesByMember = new Map(familyMembers.map(m => [m.userId, m.rules || []]));
+  if (!familyMembers.some(m => m.rules && m.rules.length > 0)) return result;
+
+  const categories = new Map(allTasks.map(t => [t.id, t.category]));
+  const toPlacement = (rec: ScheduleRecommendation): RulePlacement => ({
+    taskType: rec.taskType,
+    category: categories.get(rec.taskId) ?? null,
+    date: rec.date,
+    startTime: rec.startTime,
+    endTime: rec.endTime,
+  });
+
+  const conflicts = [...result.conflicts];
+  const kept: ScheduleRecommendation[] = [];
+  const ordered = [...result.schedule].sort((a, b) => `${a.date}${a.startTime}`.localeCompare(`${b.date}${b.startTime}`));
+
+  for (const rec of ordered) {
+    const sameDay = kept.filter(k => k.assignedToUserId === rec.assignedToUserId && k.date === rec.date).map(toPlacement);
+    const brokenRules = findRuleViolations(rulesByMember.get(rec.assignedToUserId) || [], toPlacement(rec), sameDay);
+    const hardRule = brokenRules.find(r => r.strength === "hard");
+
+    if (hardRule) {
+      console.log(`[enforceSchedulingRules] Dropped "${rec.taskName}" on ${rec.date} at ${rec.startTime}: breaks "${hardRule.name}"`);
+      conflicts.push({
+        taskId: rec.taskId,
+        reason: `"${rec.taskName}" on ${rec.date} at ${rec.startTime} breaks the rule "${hardRule.name}"`,
+        alternatives: ["Pick another time", "Relax the rule"],
+      });
+      continue;
+    }
+
+    kept.push({ ...rec, reasoning: rec.reasoning + describeBrokenRules(brokenRules) });
+  }
+
+  return { ...result, schedule: kept, conflicts };
+}
+
 function parseFamilyAIResponse(responseText: string, familyMembers: FamilyMemberData[]): AIScheduleResponse {
   try {
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -843,7 +1431,9 @@ function generateFamilyFallbackSchedule(
   familyMembers: FamilyMemberData[],
   weekStart: Date,
   weekEnd: Date,
-  existingScheduledByTask?: Map<string, { count: number; dates: Set<string> }>
+  existingScheduledByTask?: Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>,
+  rotations: Map<string, RotationPlan> = new Map(),
+  dependencies: TaskDependency[] = []
 ): AIScheduleResponse {
   const schedule: ScheduleRecommendation[] = [];
   const conflicts: AIScheduleResponse["conflicts"] = [];
@@ -861,7 +1451,7 @@ function generateFamilyFallbackSchedule(
     taskCounts[member.userId] = 0;
   }
 
-  const now = new Date();
+  const now = nowInTimeZone(familyMembers[0]?.availabilityInfo?.timeZone);
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
 
   // Initialize scheduledTaskDates from existingScheduledByTask
@@ -871,6 +1461,27 @@ function generateFamilyFallbackSchedule(
     });
   }
 
+  // The next session of a task pairs with its prerequisite's session of the same number (or its last)
+  const getPrerequisiteDates = (taskId: string) =>
+    dependencies.filter(e => e.taskId === taskId).flatMap(edge => {
+      const references = Array.from(scheduledTaskDates[edge.dependsOnTaskId] || []).sort();
+      if (references.length === 0) return [];
+      return [{ edge, date: references[Math.min(scheduledTaskDates[taskId].size, references.length - 1)] }];
+    });
+  const followsPrerequisites = (taskId: string, date: string) =>
+    getPrerequisiteDates(taskId).every(p =>
+      isDayAllowedAfter(new Date(date + "T12:00:00"), new Date(p.date + "T12:00:00"), p.edge)
+    );
+  // Same-day prerequisites placed in this run push the start back to their end plus the gap
+  const getEarliestStart = (taskId: string, date: string): Date | null =>
+    getPrerequisiteDates(taskId).reduce<Date | null>((earliest, p) => {
+      const prerequisite = p.date === date && schedule.find(r => r.taskId === p.edge.dependsOnTaskId && r.date === date);
+      if (!prerequisite) return earliest;
+      const start = new Date(`${date}T${prerequisite.endTime}:00`);
+      start.setMinutes(start.getMinutes() + (p.edge.minGapMinutes || 0));
+      return earliest && earliest > start ? earliest : start;
+    }, null);
+
   console.log(`[generateFamilyFallbackSchedule] Starting with ${existingScheduledByTask?.size || 0} tasks already scheduled`);
 
   for (const task of tasks) {
@@ -888,9 +1499,14 @@ function generateFamilyFallbackSchedule(
     const frequency = task.frequency || 1;
     const frequencyPeriod = task.frequencyPeriod || "week";
 
+    // Multi-week/monthly rules only produce instances on their dates this week
+    const recurrenceDates = getWeekRecurrenceDates(task, weekStart);
+
     // Calculate total instances needed for the week
     let totalInstancesNeeded: number;
-    if (isFixedSchedule && fixedDays.length > 0) {
+    if (recurrenceDates) {
+      totalInstancesNeeded = isFixedSchedule ? recurrenceDates.length : recurrenceDates.length * frequency;
+    } else if (isFixedSchedule && fixedDays.length > 0) {
       totalInstancesNeeded = fixedDays.length;
     } else if (frequencyPeriod === "day") {
       totalInstancesNeeded = 7 * frequency;
@@ -899,7 +1515,12 @@ function generateFamilyFallbackSchedule(
     }
 
     // Subtract already scheduled (from both existing AND this run)
-    const instancesNeeded = Math.max(0, totalInstancesNeeded - alreadyScheduledCount);
+    // One-off tasks: sessions still needed for the effort not yet booked in any week
+    const isOneOff = isOneOffTask(task);
+    const instancesNeeded = isOneOff
+      ? getRemainingSessions(task, existingScheduledByTask?.get(task.id)?.bookedMinutes ?? 0).length
+      : Math.max(0, totalInstancesNeeded - alreadyScheduledCount);
+    const lastDayStr = isOneOff && task.dueDate! >= today ? format(task.dueDate!, "yyyy-MM-dd") : null;
 
     console.log(`[generateFamilyFallbackSchedule] Task "${task.name}": total=${totalInstancesNeeded}, alreadyScheduled=${alreadyScheduledCount}, needed=${instancesNeeded}`);
 
@@ -908,13 +1529,22 @@ function generateFamilyFallbackSchedule(
       continue;
     }
 
+    // Rotated tasks go to the members in the rotation, one turn at a time
+    const rotation = rotations.get(task.id);
+    const rotationDates: string[] = [];
+
     let eligibleMembers = familyMembers;
-    if (task.userId) {
+    if (rotation) {
+      eligibleMembers = familyMembers.filter(m => rotation.memberIds.includes(m.userId));
+    } else if (task.userId) {
       eligibleMembers = familyMembers.filter(m => m.userId === task.userId);
     } else {
-      eligibleMembers = [...familyMembers].sort(
-        (a, b) => taskCounts[a.userId] - taskCounts[b.userId]
-      );
+      // Shared tasks: members allowed to take it, least loaded relative to their fair share first
+      eligibleMembers = familyMembers
+        .filter(m => isMemberEligibleForTask(m, task))
+        .sort(
+          (a, b) => taskCounts[a.userId] / getFairShareWeight(a.memberType) - taskCounts[b.userId] / getFairShareWeight(b.memberType)
+        );
     }
 
     // Convert fixed days to allowed day numbers
@@ -932,11 +1562,28 @@ function generateFamilyFallbackSchedule(
           // Skip if already scheduled on this date for this task
           if (scheduledTaskDates[task.id].has(date)) continue;
 
+          // Skip days after a one-off task's deadline
+          if (lastDayStr && date > lastDayStr) continue;
+
+          // Skip days too early (or too late) to follow a prerequisite
+          if (!followsPrerequisites(task.id, date)) continue;
+
           // Check if this date is allowed for fixed day tasks
           const dateObj = new Date(date + "T12:00:00");
           const dayOfWeek = dateObj.getDay();
 
-          if (isFixedSchedule && allowedDayNumbers.length > 0 && !allowedDayNumbers.includes(dayOfWeek)) {
+          // Caregivers only take shared tasks on their help days
+          if (!task.userId && !isAvailableOnDay(member, dayOfWeek)) continue;
+
+          // Rotated tasks: only on this member's turn
+          if (rotation) {
+            const turns = assignRotationTurns(rotation, [...rotationDates, date]);
+            if (turns[turns.length - 1]?.userId !== member.userId) continue;
+          }
+
+          if (isFixedSchedule && recurrenceDates) {
+            if (!recurrenceDates.includes(date)) continue; // Skip days the rule doesn't produce
+          } else if (isFixedSchedule && allowedDayNumbers.length > 0 && !allowedDayNumbers.includes(dayOfWeek)) {
             continue; // Skip days not in fixed days
           }
 
@@ -961,8 +1608,10 @@ function generateFamilyFallbackSchedule(
               const slotEndMinutes = slot.end.getHours() * 60 + slot.end.getMinutes();
               const fixedStartMinutes = fixedHour * 60 + fixedMin;
               const fixedEndMinutes = fixedStartMinutes + task.duration;
+              const badWeather = member.weatherForecast
+                && findWeatherProblem(task, date, fixedStartMinutes, fixedEndMinutes, member.weatherForecast);
 
-              if (fixedStartMinutes >= slotStartMinutes && fixedEndMinutes <= slotEndMinutes) {
+              if (fixedStartMinutes >= slotStartMinutes && fixedEndMinutes <= slotEndMinutes && !badWeather) {
                 const endTime = new Date(dateObj);
                 endTime.setHours(fixedHour, fixedMin + task.duration, 0, 0);
 
@@ -978,22 +1627,36 @@ function generateFamilyFallbackSchedule(
                 });
 
                 scheduledTaskDates[task.id].add(date);
+                rotationDates.push(date);
                 taskCounts[member.userId]++;
                 scheduledThisInstance = true;
                 break;
               }
             }
           } else {
-            // Flexible time - find first available slot
-            for (const slot of slots) {
+            // Flexible time - find first available slot (best energy fit first for demanding tasks,
+            // only hours the forecast suits for outdoor ones)
+            const demand = getDemandLevel(task);
+            const usableSlots = member.weatherForecast
+              ? clipSlotsToWeather(slots, task, date, member.weatherForecast)
+              : slots;
+            const energyFit = (slot: TimeSlot) => {
+              const start = slot.start.getHours() * 60 + slot.start.getMinutes();
+              return scoreEnergyFit(demand, start, start + task.duration, member.energyProfile ?? DEFAULT_ENERGY_PROFILE);
+            };
+            const orderedSlots = demand === "medium" ? usableSlots : [...usableSlots].sort((a, b) => energyFit(b) - energyFit(a));
+            const earliestStart = getEarliestStart(task.id, date);
+            for (const slot of orderedSlots) {
+              const start = earliestStart && earliestStart > slot.start ? earliestStart : slot.start;
+
               // Skip past slots
-              if (slot.start <= now) continue;
+              if (start <= now) continue;
 
-              const slotKey = `${date}-${format(slot.start, "HH:mm")}`;
+              const slotKey = `${date}-${format(start, "HH:mm")}`;
               if (usedSlots[member.userId].has(slotKey)) continue;
 
-              if (slot.duration >= task.duration) {
-                const endTime = new Date(slot.start);
+              if ((slot.end.getTime() - start.getTime()) / 60000 >= task.duration) {
+                const endTime = new Date(start);
                 endTime.setMinutes(endTime.getMinutes() + task.duration);
 
                 schedule.push({
@@ -1002,13 +1665,14 @@ function generateFamilyFallbackSchedule(
                   taskType: task.type,
                   assignedToUserId: member.userId,
                   date,
-                  startTime: format(slot.start, "HH:mm"),
+                  startTime: format(start, "HH:mm"),
                   endTime: format(endTime, "HH:mm"),
                   reasoning: `Assigned to ${member.userName} based on availability`,
                 });
 
                 usedSlots[member.userId].add(slotKey);
                 scheduledTaskDates[task.id].add(date);
+                rotationDates.push(date);
                 taskCounts[member.userId]++;
                 scheduledThisInstance = true;
                 break;
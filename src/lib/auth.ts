@@ -1,7 +1,9 @@
 import { NextAuthOptions } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
+import AzureADProvider from "next-auth/providers/azure-ad";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import prisma from "./prisma";
+import { MICROSOFT_CALENDAR_SCOPES } from "./calendar";
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(prisma) as NextAuthOptions["adapter"],
@@ -9,7 +11,8 @@ export const authOptions: NextAuthOptions = {
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID!,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-      allowDangerousEmailAccountLinking: true,
+      // No email-based linking: a User with this address may have been created
+      // through Microsoft, whose email claims aren't verified, by someone else
       authorization: {
         params: {
           scope:
@@ -19,6 +22,25 @@ export const authOptions: NextAuthOptions = {
         },
       },
     }),
+    // Microsoft 365 / Entra ID - only offered when an app registration is configured
+    ...(process.env.AZURE_AD_CLIENT_ID
+      ? [
+          AzureADProvider({
+            clientId: process.env.AZURE_AD_CLIENT_ID,
+            clientSecret: process.env.AZURE_AD_CLIENT_SECRET!,
+            tenantId: process.env.AZURE_AD_TENANT_ID || "common",
+            // No email-based linking: Entra doesn't verify the email claim, so any
+            // tenant could claim an existing user's address. Existing users link
+            // Microsoft by connecting it from settings while signed in.
+            authorization: {
+              params: {
+                scope: MICROSOFT_CALENDAR_SCOPES,
+                prompt: "select_account",
+              },
+            },
+          }),
+        ]
+      : []),
   ],
   callbacks: {
     async session({ session, user }) {
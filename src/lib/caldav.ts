@@ -0,0 +1,383 @@
+/**
+ * CalDAV Calendar Provider
+ *
+ * Read-write access to CalDAV servers (iCloud, Fastmail, Nextcloud and any
+ * other RFC 4791 server) for families whose calendars don't live in Google or
+ * Microsoft 365. Each user stores one CalDavAccount: the server, username and
+ * an app-specific password (encrypted at rest with a key derived from
+ * NEXTAUTH_SECRET), plus the calendar discovered when the account was added.
+ *
+ * - Discovery: PROPFIND current-user-principal -> calendar-home-set -> the
+ *   first calendar that holds events. Every href (and the well-known
+ *   redirect) must stay on the configured server's origin - or, for a
+ *   preset provider, on an https host in its domain (iCloud hands out
+ *   pNN-caldav.icloud.com) - and no request follows redirects, so the
+ *   credentials only ever go to the account's own provider
+ * - Reading: REPORT calendar-query with a time-range filter; the returned
+ *   calendar-data is parsed (and recurrences expanded) by the ICS parser
+ * - Writing: each ResolutionAI event is its own resource, <uid>.ics, so the
+ *   event ID stored on ScheduledTask is enough to update or delete it
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from "crypto";
+import prisma from "./prisma";
+import { parseICSData } from "./ics-parser";
+import { escapeICal, toICalDate } from "./ics-writer";
+import { CalendarEvent } from "@/types";
+
+// `domain`: the provider's registrable domain, whose hosts may serve an account
+export const CALDAV_PRESETS = {
+  icloud: { label: "iCloud", serverUrl: "https://caldav.icloud.com", domain: "icloud.com" },
+  fastmail: { label: "Fastmail", serverUrl: "https://caldav.fastmail.com", domain: "fastmail.com" },
+  nextcloud: { label: "Nextcloud", serverUrl: null, domain: null }, // https://<host>/remote.php/dav
+} as const;
+
+export type CalDavPreset = keyof typeof CALDAV_PRESETS;
+
+export interface CalDavCredentials {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+export interface DiscoveredCalendar {
+  calendarUrl: string;
+  displayName: string;
+}
+
+export class CalDavError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "CalDavError";
+  }
+}
+
+// ============ CREDENTIAL ENCRYPTION ============
+
+function getEncryptionKey(): Buffer {
+  return createHash("sha256").update(`caldav:${process.env.NEXTAUTH_SECRET || ""}`).digest();
+}
+
+export function encryptPassword(password: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(password, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(b => b.toString("base64")).join(".");
+}
+
+function decryptPassword(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(".").map(part => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+// ============ WEBDAV REQUESTS ============
+
+function authHeader({ username, password }: Pick<CalDavCredentials, "username" | "password">): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+async function davRequest(
+  url: string,
+  credentials: Pick<CalDavCredentials, "username" | "password">,
+  method: string,
+  body?: string,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: authHeader(credentials),
+      ...(body ? { "Content-Type": method === "PUT" ? "text/calendar; charset=utf-8" : "application/xml; charset=utf-8" } : {}),
+      ...headers,
+    },
+    body,
+    cache: "no-store",
+    // Redirects aren't followed - they could take the credentials to another server
+    redirect: "manual",
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new CalDavError("CalDAV server rejected the username or password", response.status);
+  }
+  return response;
+}
+
+async function propfind(url: string, credentials: CalDavCredentials, depth: "0" | "1", props: string): Promise<DavResponse[]> {
+  const response = await davRequest(
+    url,
+    credentials,
+    "PROPFIND",
+    `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop>${props}</d:prop>
+</d:propfind>`,
+    { Depth: depth }
+  );
+  if (response.status !== 207) {
+    throw new CalDavError(`PROPFIND ${url} failed: ${response.status} ${response.statusText}`, response.status);
+  }
+  return parseMultistatus(await response.text());
+}
+
+// ============ XML PARSING ============
+
+interface DavResponse {
+  href: string;
+  body: string;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, "\r")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Text content of the first element with this local name, whatever its namespace prefix
+ */
+function getElement(xml: string, localName: string): string | null {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${localName}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`));
+  return match ? match[1] : null;
+}
+
+function hasElement(xml: string, localName: string): boolean {
+  return new RegExp(`<(?:[\\w-]+:)?${localName}[\\s/>]`).test(xml);
+}
+
+function parseMultistatus(xml: string): DavResponse[] {
+  const blocks = xml.match(/<(?:[\w-]+:)?response[\s>][\s\S]*?<\/(?:[\w-]+:)?response>/g) || [];
+  return blocks.map(body => ({ href: unescapeXml(getElement(body, "href")?.trim() || ""), body }));
+}
+
+function isOnDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Whether an account on `serverUrl` may send its credentials to `url`: the
+ * server's own origin, or any https host of the preset provider it's on
+ */
+function isAccountUrl(url: URL, serverUrl: string): boolean {
+  const server = new URL(serverUrl);
+  if (url.origin === server.origin) return true;
+  const preset = Object.values(CALDAV_PRESETS).find(p => p.domain && isOnDomain(server.hostname, p.domain));
+  return !!preset?.domain && url.protocol === "https:" && isOnDomain(url.hostname, preset.domain);
+}
+
+/**
+ * Resolve an href the server sent, refusing one outside the account's
+ * provider - the next request would send it the credentials
+ */
+function resolveHref(base: string, href: string, serverUrl: string): string {
+  const url = new URL(href, base);
+  if (!isAccountUrl(url, serverUrl)) {
+    throw new CalDavError(`The CalDAV server pointed to a different server (${url.host})`);
+  }
+  return url.toString();
+}
+
+// ============ DISCOVERY ============
+
+/**
+ * Find the user's first event calendar on a CalDAV server.
+ * Also verifies the credentials, so it's run before an account is saved.
+ */
+export async function discoverCalDavCalendar(credentials: CalDavCredentials): Promise<DiscoveredCalendar> {
+  const accountUrl = credentials.serverUrl;
+  let serverUrl = accountUrl.replace(/\/$/, "");
+
+  // Servers advertise their CalDAV root at /.well-known/caldav (RFC 6764)
+  let wellKnown: Response | null = null;
+  try {
+    wellKnown = await davRequest(`${serverUrl}/.well-known/caldav`, credentials, "PROPFIND", undefined, { Depth: "0" });
+  } catch (error) {
+    if (error instanceof CalDavError) throw error;
+    // No well-known endpoint - use the URL as given
+  }
+  const location = wellKnown?.headers.get("location");
+  if (wellKnown && wellKnown.status >= 300 && wellKnown.status < 400 && location) {
+    serverUrl = resolveHref(`${serverUrl}/.well-known/caldav`, location, accountUrl).replace(/\/$/, "");
+  }
+
+  const [root] = await propfind(`${serverUrl}/`, credentials, "0", "<d:current-user-principal/>");
+  const principalHref = root && getElement(getElement(root.body, "current-user-principal") || "", "href");
+  if (!principalHref) throw new CalDavError("Could not find the CalDAV principal for this account");
+  const principalUrl = resolveHref(`${serverUrl}/`, unescapeXml(principalHref.trim()), accountUrl);
+
+  const [principal] = await propfind(principalUrl, credentials, "0", "<c:calendar-home-set/>");
+  const homeHref = principal && getElement(getElement(principal.body, "calendar-home-set") || "", "href");
+  if (!homeHref) throw new CalDavError("Could not find the calendar home for this account");
+  const homeUrl = resolveHref(principalUrl, unescapeXml(homeHref.trim()), accountUrl);
+
+  const collections = await propfind(
+    homeUrl,
+    credentials,
+    "1",
+    "<d:resourcetype/><d:displayname/><c:supported-calendar-component-set/>"
+  );
+
+  const calendar = collections.find(c => {
+    const resourceType = getElement(c.body, "resourcetype") || "";
+    if (!hasElement(resourceType, "calendar")) return false;
+    // Collections that don't list components accept everything
+    const components = getElement(c.body, "supported-calendar-component-set");
+    return !components || components.includes('name="VEVENT"');
+  });
+  if (!calendar) throw new CalDavError("No event calendars found for this account");
+
+  const calendarUrl = resolveHref(homeUrl, calendar.href, accountUrl);
+  return {
+    calendarUrl: calendarUrl.endsWith("/") ? calendarUrl : `${calendarUrl}/`,
+    displayName: unescapeXml(getElement(calendar.body, "displayname")?.trim() || "") || "Calendar",
+  };
+}
+
+// ============ EVENTS ============
+
+async function getCalDavAccount(userId: string) {
+  const account = await prisma.calDavAccount.findUnique({ where: { userId } });
+  if (!account) throw new Error("No CalDAV account connected");
+  // Accounts saved before hrefs were checked could point elsewhere
+  if (!isAccountUrl(new URL(account.calendarUrl), account.serverUrl)) {
+    throw new CalDavError("The CalDAV calendar is on a different server than the account - reconnect it");
+  }
+  return { account, credentials: { serverUrl: account.serverUrl, username: account.username, password: decryptPassword(account.password) } };
+}
+
+function eventUrl(calendarUrl: string, eventId: string): string {
+  return `${calendarUrl}${encodeURIComponent(eventId)}.ics`;
+}
+
+export async function getCalDavCalendarEvents(userId: string, startDate: Date, endDate: Date): Promise<CalendarEvent[]> {
+  const { account, credentials } = await getCalDavAccount(userId);
+
+  try {
+    const response = await davRequest(
+      account.calendarUrl,
+      credentials,
+      "REPORT",
+      `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${toICalDate(startDate)}" end="${toICalDate(endDate)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`,
+      { Depth: "1" }
+    );
+
+    if (response.status !== 207) {
+      throw new CalDavError(`CalDAV REPORT failed: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const events: CalendarEvent[] = [];
+    for (const item of parseMultistatus(await response.text())) {
+      const data = getElement(item.body, "calendar-data");
+      if (!data) continue;
+      // Recurring events come back as the master; the ICS parser expands them
+      events.push(...parseICSData(unescapeXml(data), startDate, endDate));
+    }
+
+    await prisma.calDavAccount.update({
+      where: { id: account.id },
+      data: { lastSync: new Date(), lastError: null },
+    });
+
+    return events.map(event => ({
+      ...event,
+      source: "caldav" as const,
+      calendarName: account.calendarName,
+      calendarId: `caldav:${account.id}`,
+    }));
+  } catch (error) {
+    await prisma.calDavAccount.update({
+      where: { id: account.id },
+      data: { lastError: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
+
+export async function createCalDavEvent(
+  userId: string,
+  summary: string,
+  description: string,
+  startTime: Date,
+  endTime: Date
+): Promise<string> {
+  const { account, credentials } = await getCalDavAccount(userId);
+  const uid = randomUUID();
+
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ResolutionAI//Scheduler//EN",
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `DTSTAMP:${toICalDate(new Date())}`,
+    `DTSTART:${toICalDate(startTime)}`,
+    `DTEND:${toICalDate(endTime)}`,
+    `SUMMARY:${escapeICal(summary)}`,
+    `DESCRIPTION:${escapeICal(description)}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+    "",
+  ].join("\r\n");
+
+  const response = await davRequest(eventUrl(account.calendarUrl, uid), credentials, "PUT", ics, { "If-None-Match": "*" });
+  if (!response.ok) {
+    console.error("CalDAV error:", await response.text());
+    throw new CalDavError(`Failed to create CalDAV event: ${response.status}`, response.status);
+  }
+
+  return uid;
+}
+
+export async function updateCalDavEvent(userId: string, eventId: string, startTime: Date, endTime: Date): Promise<void> {
+  const { account, credentials } = await getCalDavAccount(userId);
+  const url = eventUrl(account.calendarUrl, eventId);
+
+  const existing = await davRequest(url, credentials, "GET");
+  if (!existing.ok) {
+    throw new CalDavError(`Failed to load CalDAV event: ${existing.status}`, existing.status);
+  }
+
+  // Only the times change; the rest of the event is kept as the server has it.
+  // Replaced inside the VEVENT only - a VTIMEZONE has DTSTART lines of its own
+  const ics = (await existing.text()).replace(/^BEGIN:VEVENT\r?$[\s\S]*?^END:VEVENT\r?$/m, (vevent) =>
+    vevent
+      .replace(/^DTSTART[^:\r\n]*:.*$/m, `DTSTART:${toICalDate(startTime)}`)
+      .replace(/^DTEND[^:\r\n]*:.*$/m, `DTEND:${toICalDate(endTime)}`)
+      .replace(/^DTSTAMP:.*$/m, `DTSTAMP:${toICalDate(new Date())}`)
+  );
+
+  const etag = existing.headers.get("etag");
+  const response = await davRequest(url, credentials, "PUT", ics, etag ? { "If-Match": etag } : {});
+  if (!response.ok) {
+    console.error("CalDAV error:", await response.text());
+    throw new CalDavError(`Failed to update CalDAV event: ${response.status}`, response.status);
+  }
+}
+
+export async function deleteCalDavEvent(userId: string, eventId: string): Promise<void> {
+  const { account, credentials } = await getCalDavAccount(userId);
+
+  const response = await davRequest(eventUrl(account.calendarUrl, eventId), credentials, "DELETE");
+  // Already gone counts as deleted
+  if (!response.ok && response.status !== 404) {
+    console.error("CalDAV error:", await response.text());
+    throw new CalDavError(`Failed to delete CalDAV event: ${response.status}`, response.status);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Calendar Rules
+ *
+ * Not every calendar event takes the time it covers. Each event carries what
+ * its source says about that - transparency (Google, ICS TRANSP), busy status
+ * (Outlook's "Show as", X-MICROSOFT-CDO-BUSYSTATUS, tentative replies) and
+ * whether it's all-day - and getCalendarEvents resolves it to a `blocking`
+ * level using the user's rule for that calendar (CalendarRule):
+ *
+ * - "free": never blocks. Free, transparent, "working elsewhere" and cancelled
+ *   events, plus all-day events on calendars set to ignore them
+ * - "soft": tentative events on calendars set to treat them as soft. The
+ *   scheduler works around them while there's room, and uses the time when
+ *   nothing else fits
+ * - "busy": everything else, including tentative events by default
+ *
+ * Calendars without a rule keep the defaults, so all-day events still block
+ * unless their source marks them free (Google's all-day events usually are).
+ */
+
+import { CalendarRule } from "@prisma/client";
+import prisma from "./prisma";
+import { CalendarEvent, EventBlocking } from "@/types";
+
+export const TENTATIVE_HANDLING = ["busy", "soft", "free"] as const;
+export type TentativeHandling = (typeof TENTATIVE_HANDLING)[number];
+
+/**
+ * How much an event holds its time, given its calendar's rule (if any)
+ */
+export function getEventBlocking(
+  event: CalendarEvent,
+  rule?: Pick<CalendarRule, "ignoreAllDay" | "tentative"> | null
+): EventBlocking {
+  if (event.status === "cancelled") return "free";
+  if (event.transparency === "transparent") return "free";
+  if (event.busyStatus === "free" || event.busyStatus === "workingElsewhere") return "free";
+  if (event.isAllDay && rule?.ignoreAllDay) return "free";
+  if (event.busyStatus === "tentative") return (rule?.tentative as TentativeHandling | undefined) ?? "busy";
+  return "busy";
+}
+
+/**
+ * An event's resolved blocking level, resolving it without rules for events
+ * that didn't come through getCalendarEvents
+ */
+export function resolveBlocking(event: CalendarEvent): EventBlocking {
+  return event.blocking ?? getEventBlocking(event);
+}
+
+/**
+ * Events with their `blocking` level set from the calendars' rules
+ */
+export function applyCalendarRules(events: CalendarEvent[], rules: CalendarRule[]): CalendarEvent[] {
+  const byCalendar = new Map(rules.map((r) => [r.calendarId, r]));
+  return events.map((event) => ({
+    ...event,
+    blocking: getEventBlocking(event, event.calendarId ? byCalendar.get(event.calendarId) : null),
+  }));
+}
+
+export async function getCalendarRules(userId: string): Promise<CalendarRule[]> {
+  return prisma.calendarRule.findMany({ where: { userId } });
+}
@@ -0,0 +1,341 @@
+/**
+ * Two-way Google Calendar Sync
+ *
+ * ResolutionAI pushes scheduled tasks to the user's primary Google calendar
+ * (createCalendarEvent). This module pulls changes to those events back:
+ * an incremental events.list with the stored sync token returns only what
+ * changed since the last run, and each change to an event we created is
+ * reconciled into its ScheduledTask:
+ *
+ * - moved or resized: new times are applied and recorded as a manual move
+ *   (wasManuallyMoved, movedAt, original times kept) so pattern learning sees
+ *   where the user actually wanted the task
+ * - deleted: the session is marked skipped
+ *
+ * Changes that can't be applied cleanly are reported as sync conflicts (and
+ * in a notification): a task also moved in the app after the calendar edit,
+ * a deleted event whose task was already completed, an event turned into an
+ * all-day event, or a move onto another scheduled task.
+ *
+ * Syncs run from the Google push-channel webhook, the hourly cron job and
+ * the "sync now" API; each run also keeps the push channel registered.
+ */
+
+import { randomBytes, randomUUID } from "crypto";
+import type { calendar_v3 } from "googleapis";
+import { addDays, format, startOfDay, startOfWeek, subDays } from "date-fns";
+import prisma from "./prisma";
+import { getGoogleCalendarClient } from "./calendar";
+import { toZonedTime } from "./timezone";
+
+export interface CalendarSyncConflict {
+  scheduledTaskId: string;
+  taskName: string;
+  eventId: string;
+  reason: string;
+}
+
+export interface CalendarSyncResult {
+  eventsChecked: number;
+  moved: number;
+  deleted: number;
+  conflicts: CalendarSyncConflict[];
+  fullSync: boolean;
+}
+
+const PROVIDER = "google";
+const CALENDAR_ID = "primary";
+// How far back the first (full) sync looks for our events
+const FULL_SYNC_LOOKBACK_DAYS = 30;
+// Renew the push channel when it expires within this window
+const CHANNEL_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+type GoogleCalendar = Awaited<ReturnType<typeof getGoogleCalendarClient>>;
+
+function isSyncTokenExpired(error: unknown): boolean {
+  return (error as { code?: number | string })?.code === 410 || (error as { code?: number | string })?.code === "410";
+}
+
+async function getSyncState(userId: string) {
+  return prisma.calendarSyncState.upsert({
+    where: { userId_provider_calendarId: { userId, provider: PROVIDER, calendarId: CALENDAR_ID } },
+    update: {},
+    create: { userId, provider: PROVIDER, calendarId: CALENDAR_ID },
+  });
+}
+
+/**
+ * List every event changed since the sync token (or, without one, every
+ * event from the lookback window) and return them with the next sync token
+ */
+async function listChangedEvents(
+  calendar: GoogleCalendar,
+  syncToken: string | null
+): Promise<{ events: calendar_v3.Schema$Event[]; nextSyncToken: string | null }> {
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | null = null;
+
+  do {
+    const response = await calendar.events.list({
+      calendarId: CALENDAR_ID,
+      showDeleted: true,
+      maxResults: 250,
+      pageToken,
+      ...(syncToken
+        ? { syncToken }
+        : { timeMin: subDays(new Date(), FULL_SYNC_LOOKBACK_DAYS).toISOString() }),
+    });
+    events.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+    nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+  } while (pageToken);
+
+  return { events, nextSyncToken };
+}
+
+/**
+ * Pull changes to ResolutionAI events from the user's Google calendar into ScheduledTask
+ */
+export async function syncGoogleCalendar(userId: string): Promise<CalendarSyncResult> {
+  const state = await getSyncState(userId);
+  const calendar = await getGoogleCalendarClient(userId);
+
+  let fullSync = !state.syncToken;
+  let listed: { events: calendar_v3.Schema$Event[]; nextSyncToken: string | null };
+  try {
+    listed = await listChangedEvents(calendar, state.syncToken);
+  } catch (error) {
+    if (!isSyncTokenExpired(error)) throw error;
+    // Google invalidated the token - start over with a full sync
+    console.log(`[syncGoogleCalendar] Sync token expired for ${userId}, running full sync`);
+    fullSync = true;
+    listed = await listChangedEvents(calendar, null);
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+  const result: CalendarSyncResult = { eventsChecked: listed.events.length, moved: 0, deleted: 0, conflicts: [], fullSync };
+
+  const eventIds = listed.events.map(e => e.id).filter((id): id is string => !!id);
+  const scheduledTasks = eventIds.length > 0
+    ? await prisma.scheduledTask.findMany({
+      where: {
+        assignedToUserId: userId,
+        calendarEventId: { in: eventIds },
+        OR: [{ calendarProvider: PROVIDER }, { calendarProvider: null }],
+      },
+      include: { task: { select: { name: true } } },
+    })
+    : [];
+  const byEventId = new Map(scheduledTasks.map(st => [st.calendarEventId!, st]));
+
+  for (const event of listed.events) {
+    const scheduledTask = event.id ? byEventId.get(event.id) : undefined;
+    if (!scheduledTask) continue; // Not one of ours
+
+    const conflict = (reason: string) =>
+      result.conflicts.push({ scheduledTaskId: scheduledTask.id, taskName: scheduledTask.task.name, eventId: event.id!, reason });
+
+    // Deleted in Google Calendar
+    if (event.status === "cancelled") {
+      if (scheduledTask.status === "completed") {
+        conflict(`"${scheduledTask.task.name}" was deleted from Google Calendar but is already completed - kept it`);
+        continue;
+      }
+      if (scheduledTask.status !== "skipped") {
+        await prisma.scheduledTask.update({
+          where: { id: scheduledTask.id },
+          data: { status: "skipped", calendarEventId: null },
+        });
+        result.deleted++;
+      }
+      continue;
+    }
+
+    if (!event.start?.dateTime || !event.end?.dateTime) {
+      conflict(`"${scheduledTask.task.name}" was changed to an all-day event in Google Calendar - kept the scheduled time`);
+      continue;
+    }
+
+    const newStart = new Date(event.start.dateTime);
+    const newEnd = new Date(event.end.dateTime);
+    if (newStart.getTime() === scheduledTask.startTime.getTime() && newEnd.getTime() === scheduledTask.endTime.getTime()) {
+      continue; // Title or description edit - nothing to reconcile
+    }
+
+    // Moved in ResolutionAI too: the most recent change wins, and it's only a
+    // conflict if both changes happened since the last sync
+    const eventUpdated = event.updated ? new Date(event.updated) : new Date();
+    if (scheduledTask.movedAt) {
+      const bothChanged = !fullSync && !!state.lastSyncedAt &&
+        scheduledTask.movedAt > state.lastSyncedAt && eventUpdated > state.lastSyncedAt;
+
+      if (scheduledTask.movedAt >= eventUpdated) {
+        if (bothChanged) {
+          conflict(`"${scheduledTask.task.name}" was moved both in ResolutionAI and in Google Calendar - kept the ResolutionAI time (the later change)`);
+        }
+        continue;
+      }
+      if (bothChanged) {
+        conflict(`"${scheduledTask.task.name}" was moved both in ResolutionAI and in Google Calendar - used the Google Calendar time (the later change)`);
+      }
+    }
+
+    const newDate = startOfDay(toZonedTime(newStart, user?.timezone));
+    const overlapping = await prisma.scheduledTask.findMany({
+      where: {
+        id: { not: scheduledTask.id },
+        assignedToUserId: userId,
+        status: { not: "skipped" },
+        startTime: { lt: newEnd },
+        endTime: { gt: newStart },
+      },
+      include: { task: { select: { name: true } } },
+    });
+
+    await prisma.scheduledTask.update({
+      where: { id: scheduledTask.id },
+      data: {
+        scheduledDate: newDate,
+        startTime: newStart,
+        endTime: newEnd,
+        wasManuallyMoved: true,
+        originalStartTime: scheduledTask.wasManuallyMoved ? scheduledTask.originalStartTime : scheduledTask.startTime,
+        originalEndTime: scheduledTask.wasManuallyMoved ? scheduledTask.originalEndTime : scheduledTask.endTime,
+        movedAt: eventUpdated,
+        movedBy: userId,
+        moveReason: "Moved in Google Calendar",
+        sequence: { increment: 1 },
+      },
+    });
+    result.moved++;
+
+    // Track the move the same way as moves made in the app
+    const weekOf = startOfWeek(newDate, { weekStartsOn: 1 });
+    const moveRecord = {
+      userId,
+      weekOf,
+      movedScheduledTaskId: scheduledTask.id,
+      movedTaskId: scheduledTask.taskId,
+      originalStartTime: scheduledTask.startTime,
+      originalEndTime: scheduledTask.endTime,
+      newStartTime: newStart,
+      newEndTime: newEnd,
+      userAccepted: true,
+    };
+
+    if (overlapping.length === 0) {
+      await prisma.scheduleConflict.create({ data: { ...moveRecord, resolutionType: "displaced" } });
+      continue;
+    }
+
+    for (const other of overlapping) {
+      await prisma.scheduleConflict.create({
+        data: {
+          ...moveRecord,
+          displacedScheduledTaskId: other.id,
+          displacedTaskId: other.taskId,
+          resolutionType: "overlapping",
+        },
+      });
+      conflict(`"${scheduledTask.task.name}" was moved in Google Calendar onto "${other.task.name}" (${format(toZonedTime(other.startTime, user?.timezone), "EEE HH:mm")})`);
+    }
+  }
+
+  await prisma.calendarSyncState.update({
+    where: { id: state.id },
+    data: {
+      syncToken: listed.nextSyncToken ?? state.syncToken,
+      lastSyncedAt: new Date(),
+      lastError: null,
+    },
+  });
+
+  if (result.conflicts.length > 0) {
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: "conflict",
+        title: "Calendar sync conflicts",
+        message: result.conflicts.map(c => c.reason).join("\n"),
+        actionUrl: "/calendar",
+        actionLabel: "Review Schedule",
+        priority: "normal",
+        scheduledFor: new Date(),
+        metadata: { source: "google_calendar_sync", conflicts: result.conflicts as object[] },
+      },
+    });
+  }
+
+  console.log(`[syncGoogleCalendar] ${userId}: ${result.eventsChecked} events, ${result.moved} moved, ${result.deleted} deleted, ${result.conflicts.length} conflicts${fullSync ? " (full sync)" : ""}`);
+  return result;
+}
+
+/**
+ * Record a failed sync so it shows up in the sync status
+ */
+export async function recordSyncError(userId: string, error: unknown): Promise<void> {
+  const state = await getSyncState(userId);
+  await prisma.calendarSyncState.update({
+    where: { id: state.id },
+    data: { lastError: error instanceof Error ? error.message : String(error) },
+  });
+}
+
+/**
+ * Register (or renew) the push channel that makes Google call our webhook on changes.
+ * Google only delivers to HTTPS addresses, so nothing happens for local development.
+ */
+export async function ensureGoogleWatchChannel(userId: string, baseUrl: string | undefined = process.env.NEXTAUTH_URL): Promise<boolean> {
+  if (!baseUrl?.startsWith("https://")) return false;
+
+  const state = await getSyncState(userId);
+  if (state.channelId && state.channelExpiresAt && state.channelExpiresAt.getTime() - Date.now() > CHANNEL_RENEW_BEFORE_MS) {
+    return true;
+  }
+
+  const calendar = await getGoogleCalendarClient(userId);
+
+  // Stop the old channel so Google doesn't notify us twice
+  if (state.channelId && state.channelResourceId) {
+    try {
+      await calendar.channels.stop({ requestBody: { id: state.channelId, resourceId: state.channelResourceId } });
+    } catch (error) {
+      console.error("[ensureGoogleWatchChannel] Failed to stop old channel:", error);
+    }
+  }
+
+  const channelId = randomUUID();
+  const channelToken = randomBytes(24).toString("hex");
+  const response = await calendar.events.watch({
+    calendarId: CALENDAR_ID,
+    requestBody: {
+      id: channelId,
+      type: "web_hook",
+      address: `${baseUrl.replace(/\/$/, "")}/api/calendar/sync/webhook`,
+      token: channelToken,
+    },
+  });
+
+  await prisma.calendarSyncState.update({
+    where: { id: state.id },
+    data: {
+      channelId,
+      channelToken,
+      channelResourceId: response.data.resourceId || null,
+      channelExpiresAt: response.data.expiration ? new Date(Number(response.data.expiration)) : addDays(new Date(), 7),
+    },
+  });
+
+  console.log(`[ensureGoogleWatchChannel] Registered channel ${channelId} for ${userId}`);
+  return true;
+}
+
+/**
+ * Find the user a push notification belongs to, checking the channel's secret token
+ */
+export async function getUserIdForChannel(channelId: string, channelToken: string | null): Promise<string | null> {
+  const state = await prisma.calendarSyncState.findUnique({ where: { channelId } });
+  if (!state || !state.channelToken || state.channelToken !== channelToken) return null;
+  return state.userId;
+}
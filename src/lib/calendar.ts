@@ -1,11 +1,34 @@
 import { google } from "googleapis";
 import prisma from "./prisma";
-import { CalendarEvent, TimeSlot } from "@/types";
+import { CalendarEvent, EventBlocking, EventBusyStatus, TimeSlot } from "@/types";
 import { startOfWeek, endOfWeek, addDays, format, parseISO, differenceInMinutes } from "date-fns";
-import { fetchICSCalendar } from "./ics-parser";
+import { getCachedExternalEvents } from "./external-calendar-cache";
+import { toZonedCalendarEvents } from "./timezone";
+import { applyCalendarRules, getCalendarRules, resolveBlocking } from "./calendar-rules";
+import { getWorkCalendarEvents } from "./addin-sync";
+import {
+  createCalDavEvent,
+  deleteCalDavEvent,
+  getCalDavCalendarEvents,
+  updateCalDavEvent,
+} from "./caldav";
+
+export type CalendarProvider = "google" | "azure-ad" | "caldav";
+
+export interface CreatedCalendarEvent {
+  id: string;
+  provider: CalendarProvider;
+}
+
+// Microsoft Graph scopes requested at sign-in and on token refresh
+export const MICROSOFT_CALENDAR_SCOPES = "openid email profile offline_access User.Read Calendars.ReadWrite";
 
-// Determine which calendar provider a user has connected
-export async function getUserCalendarProvider(userId: string): Promise<"google" | "azure-ad" | null> {
+// Refresh access tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_SECONDS = 5 * 60;
+
+// Determine which calendar provider new events are written to.
+// With several connected, Google comes first, then Microsoft, then CalDAV.
+export async function getUserCalendarProvider(userId: string): Promise<CalendarProvider | null> {
   const googleAccount = await prisma.account.findFirst({
     where: { userId, provider: "google" },
   });
@@ -16,11 +39,17 @@ export async function getUserCalendarProvider(userId: string): Promise<"google"
   });
   if (azureAccount?.access_token) return "azure-ad";
 
+  const calDavAccount = await prisma.calDavAccount.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  if (calDavAccount) return "caldav";
+
   return null;
 }
 
 // Get all connected calendar providers for a user
-export async function getUserCalendarProviders(userId: string): Promise<string[]> {
+export async function getUserCalendarProviders(userId: string): Promise<CalendarProvider[]> {
   const accounts = await prisma.account.findMany({
     where: {
       userId,
@@ -29,12 +58,20 @@ export async function getUserCalendarProviders(userId: string): Promise<string[]
     select: { provider: true, access_token: true },
   });
 
-  return accounts
+  const providers = accounts
     .filter((a) => a.access_token)
-    .map((a) => a.provider);
+    .map((a) => a.provider as CalendarProvider);
+
+  const calDavAccount = await prisma.calDavAccount.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  if (calDavAccount) providers.push("caldav");
+
+  return providers;
 }
 
-// Get events from all external (ICS) calendars
+// Get events from all external (ICS) calendars, from their cached feeds
 async function getExternalCalendarEvents(
   userId: string,
   startDate: Date,
@@ -51,7 +88,7 @@ async function getExternalCalendarEvents(
 
   for (const calendar of externalCalendars) {
     try {
-      const events = await fetchICSCalendar(calendar.url, startDate, endDate);
+      const events = await getCachedExternalEvents(calendar, startDate, endDate);
       // Prefix event IDs to avoid collisions and add source info
       const prefixedEvents = events.map((e) => ({
         ...e,
@@ -59,14 +96,9 @@ async function getExternalCalendarEvents(
         summary: e.summary,
         source: "external" as const,
         calendarName: calendar.name,
+        calendarId: `external:${calendar.id}`,
       }));
       allEvents.push(...prefixedEvents);
-
-      // Update last sync time
-      await prisma.externalCalendar.update({
-        where: { id: calendar.id },
-        data: { lastSync: new Date() },
-      });
     } catch (error) {
       console.error(`Error fetching external calendar ${calendar.name}:`, error);
       // Continue with other calendars
@@ -98,6 +130,7 @@ export async function getGoogleCalendarClient(userId: string) {
   oauth2Client.setCredentials({
     access_token: account.access_token,
     refresh_token: account.refresh_token,
+    expiry_date: account.expires_at ? account.expires_at * 1000 : undefined,
   });
 
   // Handle token refresh
@@ -108,6 +141,7 @@ export async function getGoogleCalendarClient(userId: string) {
         data: {
           access_token: tokens.access_token,
           refresh_token: tokens.refresh_token ?? account.refresh_token,
+          expires_at: tokens.expiry_date ? Math.floor(tokens.expiry_date / 1000) : account.expires_at,
         },
       });
     }
@@ -130,9 +164,9 @@ async function getMicrosoftAccessToken(userId: string): Promise<{ accessToken: s
     throw new Error("No Microsoft account connected");
   }
 
-  // Check if token is expired
+  // Refresh the token if it has expired or is about to
   const now = Math.floor(Date.now() / 1000);
-  if (account.expires_at && account.expires_at < now && account.refresh_token) {
+  if (account.expires_at && account.expires_at - TOKEN_REFRESH_MARGIN_SECONDS < now && account.refresh_token) {
     // Refresh the token
     const tokenResponse = await fetch(
       `https://login.microsoftonline.com/${process.env.AZURE_AD_TENANT_ID || "common"}/oauth2/v2.0/token`,
@@ -146,12 +180,13 @@ async function getMicrosoftAccessToken(userId: string): Promise<{ accessToken: s
           client_secret: process.env.AZURE_AD_CLIENT_SECRET!,
           grant_type: "refresh_token",
           refresh_token: account.refresh_token,
-          scope: "openid email profile offline_access Calendars.ReadWrite",
+          scope: MICROSOFT_CALENDAR_SCOPES,
         }),
       }
     );
 
     if (!tokenResponse.ok) {
+      console.error("Microsoft token refresh error:", await tokenResponse.text());
       throw new Error("Failed to refresh Microsoft access token");
     }
 
@@ -172,6 +207,29 @@ async function getMicrosoftAccessToken(userId: string): Promise<{ accessToken: s
   return { accessToken: account.access_token, accountId: account.id };
 }
 
+// Graph's showAs ("unknown" is left unset, so it blocks like any event)
+const GRAPH_SHOW_AS: Record<string, EventBusyStatus> = {
+  free: "free",
+  tentative: "tentative",
+  busy: "busy",
+  oof: "oof",
+  workingElsewhere: "workingElsewhere",
+};
+
+// Graph returns event times in UTC without an offset (no Prefer: outlook.timezone header)
+type GraphDateTime = { dateTime: string; timeZone?: string };
+
+function fromGraphDateTime(time: GraphDateTime | undefined, isAllDay: boolean) {
+  if (!time?.dateTime) return {};
+  if (isAllDay) return { date: time.dateTime.split("T")[0] };
+  return { dateTime: new Date(time.dateTime.replace(/Z?$/, "Z")).toISOString() };
+}
+
+// Graph expects a wall-clock dateTime plus its zone; send UTC so no conversion is needed
+function toGraphDateTime(date: Date): GraphDateTime {
+  return { dateTime: date.toISOString().replace(/Z$/, ""), timeZone: "UTC" };
+}
+
 async function getMicrosoftCalendarEvents(
   userId: string,
   startDate: Date,
@@ -179,43 +237,42 @@ async function getMicrosoftCalendarEvents(
 ): Promise<CalendarEvent[]> {
   const { accessToken } = await getMicrosoftAccessToken(userId);
 
-  const response = await fetch(
-    `https://graph.microsoft.com/v1.0/me/calendarview?startDateTime=${startDate.toISOString()}&endDateTime=${endDate.toISOString()}&$orderby=start/dateTime&$top=100`,
-    {
+  const events: Record<string, unknown>[] = [];
+  let url: string | undefined =
+    `https://graph.microsoft.com/v1.0/me/calendarview?startDateTime=${startDate.toISOString()}&endDateTime=${endDate.toISOString()}&$orderby=start/dateTime&$top=100`;
+
+  // Follow @odata.nextLink so busy weeks aren't cut off at the page size
+  while (url) {
+    const response: Response = await fetch(url, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("Microsoft Graph API error:", error);
+      throw new Error("Failed to fetch Microsoft calendar events");
     }
-  );
 
-  if (!response.ok) {
-    const error = await response.text();
-    console.error("Microsoft Graph API error:", error);
-    throw new Error("Failed to fetch Microsoft calendar events");
+    const data = await response.json();
+    events.push(...(data.value || []));
+    url = data["@odata.nextLink"];
   }
 
-  const data = await response.json();
-
-  return (data.value || []).map((event: Record<string, unknown>) => ({
+  return events.map((event) => ({
     id: event.id as string,
     summary: (event.subject as string) || "Untitled Event",
     description: (event.bodyPreview as string) || undefined,
-    start: {
-      dateTime: (event.start as { dateTime: string })?.dateTime
-        ? new Date((event.start as { dateTime: string }).dateTime + "Z").toISOString()
-        : undefined,
-      date: event.isAllDay ? (event.start as { dateTime: string })?.dateTime?.split("T")[0] : undefined,
-    },
-    end: {
-      dateTime: (event.end as { dateTime: string })?.dateTime
-        ? new Date((event.end as { dateTime: string }).dateTime + "Z").toISOString()
-        : undefined,
-      date: event.isAllDay ? (event.end as { dateTime: string })?.dateTime?.split("T")[0] : undefined,
-    },
+    start: fromGraphDateTime(event.start as GraphDateTime, !!event.isAllDay),
+    end: fromGraphDateTime(event.end as GraphDateTime, !!event.isAllDay),
     status: event.isCancelled ? "cancelled" : "confirmed",
     source: "google" as const, // Treat Microsoft same as Google for color coding
     calendarName: "Outlook Calendar",
+    calendarId: "microsoft",
+    busyStatus: GRAPH_SHOW_AS[event.showAs as string],
+    isAllDay: !!event.isAllDay,
   }));
 }
 
@@ -240,14 +297,8 @@ async function createMicrosoftCalendarEvent(
         contentType: "text",
         content: description,
       },
-      start: {
-        dateTime: startTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
-      end: {
-        dateTime: endTime.toISOString(),
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      },
+      start: toGraphDateTime(startTime),
+      end: toGraphDateTime(endTime),
     }),
   });
 
@@ -261,6 +312,36 @@ async function createMicrosoftCalendarEvent(
   return event.id;
 }
 
+async function updateMicrosoftCalendarEvent(
+  userId: string,
+  eventId: string,
+  startTime: Date,
+  endTime: Date
+): Promise<void> {
+  const { accessToken } = await getMicrosoftAccessToken(userId);
+
+  const response = await fetch(
+    `https://graph.microsoft.com/v1.0/me/events/${eventId}`,
+    {
+      method: "PATCH",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        start: toGraphDateTime(startTime),
+        end: toGraphDateTime(endTime),
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error("Microsoft Graph API error:", error);
+    throw new Error("Failed to update Microsoft calendar event");
+  }
+}
+
 async function deleteMicrosoftCalendarEvent(
   userId: string,
   eventId: string
@@ -277,7 +358,8 @@ async function deleteMicrosoftCalendarEvent(
     }
   );
 
-  if (!response.ok && response.status !== 204) {
+  // Already gone counts as deleted
+  if (!response.ok && response.status !== 204 && response.status !== 404) {
     const error = await response.text();
     console.error("Microsoft Graph API error:", error);
     throw new Error("Failed to delete Microsoft calendar event");
@@ -295,17 +377,26 @@ export async function getCalendarEvents(
 
   const allEvents: CalendarEvent[] = [];
 
-  // Get events from primary calendar (Google or Microsoft)
-  const provider = await getUserCalendarProvider(userId);
+  // Get events from every connected calendar (Google, Microsoft and/or CalDAV)
+  const providers = await getUserCalendarProviders(userId);
 
-  if (provider === "azure-ad") {
+  if (providers.includes("azure-ad")) {
     try {
       const msEvents = await getMicrosoftCalendarEvents(userId, timeMin, timeMax);
       allEvents.push(...msEvents);
     } catch (error) {
       console.error("Error fetching Microsoft calendar:", error);
     }
-  } else if (provider === "google") {
+  }
+  if (providers.includes("caldav")) {
+    try {
+      const calDavEvents = await getCalDavCalendarEvents(userId, timeMin, timeMax);
+      allEvents.push(...calDavEvents);
+    } catch (error) {
+      console.error("Error fetching CalDAV calendar:", error);
+    }
+  }
+  if (providers.includes("google")) {
     try {
       const calendar = await getGoogleCalendarClient(userId);
 
@@ -345,6 +436,11 @@ export async function getCalendarEvents(
             status: event.status || undefined,
             source: "google" as const,
             calendarName: cal.summary || "Google Calendar",
+            calendarId: `google:${cal.id}`,
+            transparency: event.transparency === "transparent" ? ("transparent" as const) : ("opaque" as const),
+            // Google has no tentative event status - it's the user's own "Maybe"
+            busyStatus: event.attendees?.find((a) => a.self)?.responseStatus === "tentative" ? ("tentative" as const) : undefined,
+            isAllDay: !!event.start?.date,
           }));
           allEvents.push(...googleEvents);
         } catch (calError) {
@@ -372,8 +468,18 @@ export async function getCalendarEvents(
     return time.dateTime || time.date || "";
   };
 
+  // Busy time on the work calendar, as reported by the Outlook add-in
+  try {
+    allEvents.push(...(await getWorkCalendarEvents(userId, timeMin, timeMax)));
+  } catch (error) {
+    console.error("Error fetching work calendar blocks:", error);
+  }
+
+  // Resolve how much each event holds its time (see calendar-rules.ts)
+  const rules = await getCalendarRules(userId);
+
   // Sort all events by start time
-  return allEvents.sort((a, b) => {
+  return applyCalendarRules(allEvents, rules).sort((a, b) => {
     const aTime = getTimeString(a.start);
     const bTime = getTimeString(b.start);
     return aTime.localeCompare(bTime);
@@ -386,11 +492,17 @@ export async function createCalendarEvent(
   description: string,
   startTime: Date,
   endTime: Date
-): Promise<string> {
+): Promise<CreatedCalendarEvent> {
   const provider = await getUserCalendarProvider(userId);
 
   if (provider === "azure-ad") {
-    return createMicrosoftCalendarEvent(userId, summary, description, startTime, endTime);
+    const id = await createMicrosoftCalendarEvent(userId, summary, description, startTime, endTime);
+    return { id, provider };
+  }
+
+  if (provider === "caldav") {
+    const id = await createCalDavEvent(userId, summary, description, startTime, endTime);
+    return { id, provider };
   }
 
   // Default to Google Calendar
@@ -413,18 +525,56 @@ export async function createCalendarEvent(
     },
   });
 
-  return event.data.id!;
+  return { id: event.data.id!, provider: "google" };
+}
+
+// Events created before calendarProvider was stored live in the primary calendar
+async function resolveEventProvider(userId: string, provider?: string | null): Promise<CalendarProvider | null> {
+  if (provider === "google" || provider === "azure-ad" || provider === "caldav") return provider;
+  return getUserCalendarProvider(userId);
+}
+
+export async function updateCalendarEvent(
+  userId: string,
+  eventId: string,
+  startTime: Date,
+  endTime: Date,
+  provider?: string | null
+): Promise<void> {
+  const eventProvider = await resolveEventProvider(userId, provider);
+
+  if (eventProvider === "azure-ad") {
+    return updateMicrosoftCalendarEvent(userId, eventId, startTime, endTime);
+  }
+  if (eventProvider === "caldav") {
+    return updateCalDavEvent(userId, eventId, startTime, endTime);
+  }
+
+  const calendar = await getGoogleCalendarClient(userId);
+
+  await calendar.events.patch({
+    calendarId: "primary",
+    eventId,
+    requestBody: {
+      start: { dateTime: startTime.toISOString() },
+      end: { dateTime: endTime.toISOString() },
+    },
+  });
 }
 
 export async function deleteCalendarEvent(
   userId: string,
-  eventId: string
+  eventId: string,
+  provider?: string | null
 ): Promise<void> {
-  const provider = await getUserCalendarProvider(userId);
+  const eventProvider = await resolveEventProvider(userId, provider);
 
-  if (provider === "azure-ad") {
+  if (eventProvider === "azure-ad") {
     return deleteMicrosoftCalendarEvent(userId, eventId);
   }
+  if (eventProvider === "caldav") {
+    return deleteCalDavEvent(userId, eventId);
+  }
 
   // Default to Google Calendar
   const calendar = await getGoogleCalendarClient(userId);
@@ -435,11 +585,47 @@ export async function deleteCalendarEvent(
   });
 }
 
+// Date from a CalendarEvent start/end; all-day ends run to the next midnight
+function getEventDate(time: CalendarEvent['start'], isEnd = false): Date {
+  if (typeof time === 'string') return parseISO(time);
+  if (time instanceof Date) return time;
+  if (time.dateTime) return parseISO(time.dateTime);
+  const dateStr = time.date!;
+  return isEnd ? addDays(parseISO(dateStr), 1) : parseISO(dateStr);
+}
+
+// Events starting on `date` at the given blocking level, as intervals
+function getDayEventIntervals(
+  events: CalendarEvent[],
+  date: Date,
+  blocking: EventBlocking,
+  timeZone?: string
+): { start: Date; end: Date }[] {
+  const zonedEvents = timeZone ? toZonedCalendarEvents(events, timeZone) : events;
+  return zonedEvents
+    .filter((event) => resolveBlocking(event) === blocking)
+    .filter((event) => format(getEventDate(event.start), "yyyy-MM-dd") === format(date, "yyyy-MM-dd"))
+    .map((event) => ({
+      start: getEventDate(event.start),
+      end: getEventDate(event.end, true),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Find free slots on a day between the given hours.
+ * With a time zone, `date` and the returned slots are wall-clock times in that
+ * zone and events are converted into it first (see timezone.ts); without one,
+ * events are expected to be wall-clock already.
+ * Only busy events block - free ones never do, and soft ones are left to
+ * findSoftHolds (see calendar-rules.ts).
+ */
 export function findAvailableSlots(
   events: CalendarEvent[],
   date: Date,
   workdayStart: number = 8, // 8 AM
-  workdayEnd: number = 21 // 9 PM
+  workdayEnd: number = 21, // 9 PM
+  timeZone?: string
 ): TimeSlot[] {
   const slots: TimeSlot[] = [];
   const dayStart = new Date(date);
@@ -447,27 +633,7 @@ export function findAvailableSlots(
   const dayEnd = new Date(date);
   dayEnd.setHours(workdayEnd, 0, 0, 0);
 
-  // Helper to extract Date from CalendarEvent start/end
-  const getEventDate = (time: CalendarEvent['start'], isEnd = false): Date => {
-    if (typeof time === 'string') return parseISO(time);
-    if (time instanceof Date) return time;
-    if (time.dateTime) return parseISO(time.dateTime);
-    // All-day event: for end date, add a day
-    const dateStr = time.date!;
-    return isEnd ? addDays(parseISO(dateStr), 1) : parseISO(dateStr);
-  };
-
-  // Filter events for this day
-  const dayEvents = events
-    .filter((event) => {
-      const eventStart = getEventDate(event.start);
-      return format(eventStart, "yyyy-MM-dd") === format(date, "yyyy-MM-dd");
-    })
-    .map((event) => ({
-      start: getEventDate(event.start),
-      end: getEventDate(event.end, true),
-    }))
-    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const dayEvents = getDayEventIntervals(events, date, "busy", timeZone);
 
   let currentTime = dayStart;
 
@@ -502,3 +668,15 @@ export function findAvailableSlots(
 
   return slots;
 }
+
+/**
+ * Soft events on a day (tentative holds on calendars set to treat them as
+ * soft) - free in findAvailableSlots, but worth avoiding when there's room
+ */
+export function findSoftHolds(events: CalendarEvent[], date: Date, timeZone?: string): TimeSlot[] {
+  return getDayEventIntervals(events, date, "soft", timeZone).map(({ start, end }) => ({
+    start,
+    end,
+    duration: differenceInMinutes(end, start),
+  }));
+}
@@ -0,0 +1,221 @@
+/**
+ * Household Chore-Balance Ledger
+ *
+ * Fairness over a rolling window forgets: a partner who did extra while the
+ * other was travelling gets no lasting credit once those weeks roll off. The
+ * ledger records each member's effort-weighted household load for every
+ * finished week (ChoreLedgerEntry) against the share they were expected to
+ * carry, and the balances carry forward:
+ *
+ * - Only completed tasks count, credited to whoever completed them
+ * - Swaps move the task itself, so the credit follows whoever took it;
+ *   swap counts are recorded alongside to explain the jumps
+ * - The last couple of weeks are recomputed on each update, since feedback
+ *   (actual durations) and late completions trickle in
+ * - Balances carry for LEDGER_CARRY_WEEKS, so old history eventually fades
+ *
+ * A positive balance means the member has done more than their share; the
+ * weekly planner gives them less Life Admin until it evens out.
+ */
+
+import prisma from "./prisma";
+import { computeMemberLoads, resolveTargetShares } from "./fairness";
+import { addWeeks, endOfWeek, startOfWeek, subWeeks } from "date-fns";
+
+export const LEDGER_CARRY_WEEKS = 12;
+
+// Finished weeks recomputed on every update to pick up late feedback
+const RECOMPUTE_WEEKS = 2;
+
+export interface LedgerWeek {
+  weekStart: Date;
+  members: {
+    userId: string;
+    weightedLoad: number;
+    expectedLoad: number;
+    balance: number;
+    runningBalance: number; // Carried balance at the end of this week
+    swapsTaken: number;
+    swapsGiven: number;
+  }[];
+}
+
+/**
+ * Record one finished week for a family (idempotent)
+ */
+export async function recordLedgerWeek(familyId: string, weekStart: Date): Promise<void> {
+  const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 });
+
+  const members = await prisma.familyMember.findMany({
+    where: { familyId },
+    select: { userId: true, memberType: true, targetShare: true },
+  });
+  if (members.length === 0) return;
+
+  const memberIds = members.map((m) => m.userId);
+
+  const [completedTasks, swaps] = await Promise.all([
+    prisma.scheduledTask.findMany({
+      where: {
+        assignedToUserId: { in: memberIds },
+        scheduledDate: { gte: weekStart, lte: weekEnd },
+        status: "completed",
+        task: { type: "household" },
+      },
+      include: {
+        task: true,
+        feedback: {
+          select: { actualDuration: true },
+          orderBy: { createdAt: "desc" },
+        },
+      },
+    }),
+    prisma.taskSwapRequest.findMany({
+      where: {
+        familyId,
+        status: "accepted",
+        scheduledTask: { scheduledDate: { gte: weekStart, lte: weekEnd } },
+      },
+      select: { requestedById: true, acceptedById: true },
+    }),
+  ]);
+
+  const loads = computeMemberLoads(memberIds, completedTasks);
+  const shares = resolveTargetShares(members);
+  let totalLoad = 0;
+  loads.forEach((load) => (totalLoad += load.weightedLoad));
+
+  await prisma.$transaction(
+    members.map((member) => {
+      const load = loads.get(member.userId)!;
+      const targetShare = shares.get(member.userId) ?? 0;
+      const expectedLoad = Math.round(totalLoad * targetShare);
+      const data = {
+        completedTasks: load.householdTasks,
+        effortMinutes: load.effortMinutes,
+        mentalLoadMinutes: load.mentalLoadMinutes,
+        weightedLoad: load.weightedLoad,
+        targetShare,
+        expectedLoad,
+        balance: load.weightedLoad - expectedLoad,
+        swapsTaken: swaps.filter((s) => s.acceptedById === member.userId).length,
+        swapsGiven: swaps.filter((s) => s.requestedById === member.userId).length,
+      };
+
+      return prisma.choreLedgerEntry.upsert({
+        where: { familyId_userId_weekStart: { familyId, userId: member.userId, weekStart } },
+        create: { familyId, userId: member.userId, weekStart, ...data },
+        update: data,
+      });
+    })
+  );
+}
+
+/**
+ * Bring a family's ledger up to date through last week: backfills any
+ * missing weeks and recomputes the most recent ones
+ */
+export async function updateChoreLedger(familyId: string, now: Date = new Date()): Promise<void> {
+  const thisWeekStart = startOfWeek(now, { weekStartsOn: 1 });
+  const earliest = subWeeks(thisWeekStart, LEDGER_CARRY_WEEKS);
+
+  const latest = await prisma.choreLedgerEntry.findFirst({
+    where: { familyId },
+    orderBy: { weekStart: "desc" },
+    select: { weekStart: true },
+  });
+
+  const recomputeFrom = subWeeks(thisWeekStart, RECOMPUTE_WEEKS);
+  let weekStart = latest && latest.weekStart > earliest
+    ? (latest.weekStart < recomputeFrom ? addWeeks(latest.weekStart, 1) : recomputeFrom)
+    : earliest;
+
+  for (; weekStart < thisWeekStart; weekStart = addWeeks(weekStart, 1)) {
+    await recordLedgerWeek(familyId, weekStart);
+  }
+
+  console.log(`[updateChoreLedger] Ledger for family ${familyId} is up to date`);
+}
+
+/**
+ * Each member's carried balance in weighted minutes (positive = ahead of
+ * their share) over the last LEDGER_CARRY_WEEKS finished weeks
+ */
+export async function getCarriedBalances(familyId: string, now: Date = new Date()): Promise<Map<string, number>> {
+  const thisWeekStart = startOfWeek(now, { weekStartsOn: 1 });
+
+  const [members, totals] = await Promise.all([
+    prisma.familyMember.findMany({ where: { familyId }, select: { userId: true } }),
+    prisma.choreLedgerEntry.groupBy({
+      by: ["userId"],
+      where: {
+        familyId,
+        weekStart: { gte: subWeeks(thisWeekStart, LEDGER_CARRY_WEEKS), lt: thisWeekStart },
+      },
+      _sum: { balance: true },
+    }),
+  ]);
+
+  // Former members' balances leave with them
+  return new Map(
+    members.map((m) => [m.userId, totals.find((t) => t.userId === m.userId)?._sum.balance ?? 0])
+  );
+}
+
+/**
+ * Week-by-week ledger with running balances, oldest first, for charting
+ */
+export async function getLedgerHistory(familyId: string, weeks: number = LEDGER_CARRY_WEEKS, now: Date = new Date()): Promise<LedgerWeek[]> {
+  const thisWeekStart = startOfWeek(now, { weekStartsOn: 1 });
+
+  const [members, entries] = await Promise.all([
+    prisma.familyMember.findMany({ where: { familyId }, select: { userId: true } }),
+    prisma.choreLedgerEntry.findMany({
+      where: {
+        familyId,
+        weekStart: { gte: subWeeks(thisWeekStart, weeks), lt: thisWeekStart },
+      },
+      orderBy: { weekStart: "asc" },
+    }),
+  ]);
+
+  const running = new Map(members.map((m) => [m.userId, 0]));
+  const history: LedgerWeek[] = [];
+
+  for (let weekStart = subWeeks(thisWeekStart, weeks); weekStart < thisWeekStart; weekStart = addWeeks(weekStart, 1)) {
+    const weekEntries = entries.filter((e) => e.weekStart.getTime() === weekStart.getTime());
+    if (weekEntries.length === 0 && history.length === 0) continue; // Before the family's first week
+
+    history.push({
+      weekStart,
+      members: members.map(({ userId }) => {
+        const entry = weekEntries.find((e) => e.userId === userId);
+        const runningBalance = (running.get(userId) ?? 0) + (entry?.balance ?? 0);
+        running.set(userId, runningBalance);
+
+        return {
+          userId,
+          weightedLoad: entry?.weightedLoad ?? 0,
+          expectedLoad: entry?.expectedLoad ?? 0,
+          balance: entry?.balance ?? 0,
+          runningBalance,
+          swapsTaken: entry?.swapsTaken ?? 0,
+          swapsGiven: entry?.swapsGiven ?? 0,
+        };
+      }),
+    });
+  }
+
+  return history;
+}
+
+/**
+ * Plain-language carried balance for AI prompts
+ */
+export function describeCarriedBalance(balance: number): string {
+  const hours = Math.round((Math.abs(balance) / 60) * 10) / 10;
+  if (hours < 0.5) return "even with their share";
+  return balance > 0
+    ? `${hours} hours of effort-weighted Life Admin ahead of their share - give them less this week`
+    : `${hours} hours of effort-weighted Life Admin behind their share - give them more this week`;
+}
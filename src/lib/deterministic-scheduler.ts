@@ -1,9 +1,41 @@
-import { Task } from "@prisma/client";
-import { format, addDays } from "date-fns";
+import { Task, TaskDependency } from "@prisma/client";
+import { format, addDays, addMinutes, differenceInCalendarDays } from "date-fns";
 import { TimeSlot } from "@/types";
 import { BlockedTime } from "./user-availability";
-import { findAvailableSlots } from "./calendar";
+import { findAvailableSlots, findSoftHolds } from "./calendar";
+import { getWeekRecurrenceDates } from "./task-recurrence";
+import { isOneOffTask, getRemainingSessions, withDeadlineUrgency } from "./task-deadlines";
+import { isSplittableTask, getChunkLimits } from "./task-chunks";
+import { TravelTimes, getTravelMinutes } from "./travel-time";
 import { CalendarEvent } from "@/types";
+import { SchedulingRule, isDailyLimit, ruleAppliesTo } from "./scheduling-rules";
+import {
+  EnergyProfile,
+  MAX_CONSECUTIVE_HIGH_DEMAND,
+  countHighDemandRun,
+  getDemandLevel,
+  scoreEnergyFit,
+} from "./energy";
+import {
+  WeatherForecast,
+  describeUnsuitableHours,
+  describeWeatherFit,
+  getOutdoorActivity,
+  getUnsuitableHours,
+  hasSuitableWeatherWindow,
+} from "./weather-forecast";
+
+/**
+ * Ordering constraint on an instance, pointing at the prerequisite instance it must follow
+ */
+export interface InstanceDependency {
+  prerequisiteTaskId: string;
+  prerequisiteTaskName: string;
+  prerequisiteInstanceNumber: number | null; // null when the prerequisite was scheduled in an earlier run
+  minGapMinutes: number | null;
+  maxGapMinutes: number | null;
+  sameDay: boolean;
+}
 
 /**
  * Represents a single instance of a task that needs to be scheduled
@@ -23,6 +55,9 @@ export interface TaskInstance {
   fixedTime: string | null; // HH:mm if task has fixed time
   preferredTimeStart: string | null;
   preferredTimeEnd: string | null;
+  // Ordering constraints (prerequisites come first in the instance list)
+  dependencies: InstanceDependency[];
+  dependencyDepth: number; // 0 for tasks without prerequisites
   // For conflict reporting
   originalTask: Task;
 }
@@ -39,6 +74,44 @@ export interface ScheduledInstance {
   conflictReason?: string;
 }
 
+/**
+ * Time window an instance must start within, derived from its dependencies
+ */
+export interface SlotWindow {
+  earliestStart: Date | null;
+  latestStart: Date | null;
+}
+
+/**
+ * Location of the instance being placed, so free time next to tasks at other
+ * locations leaves room to travel
+ */
+export interface TravelContext {
+  times: TravelTimes;
+  location: string | null;
+}
+
+/**
+ * A placed (or proposed) task on a day, as seen by scheduling rules
+ */
+export interface RulePlacement {
+  taskType: string;
+  category: string | null;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+/**
+ * Outcome of placing an instance under scheduling rules
+ */
+export interface RuleSlotResult {
+  slot: { startTime: string; endTime: string } | null;
+  brokenRules: SchedulingRule[]; // Soft rules the slot breaks
+  blockingRule: SchedulingRule | null; // Hard rule that left no slot
+  blockingWeather: string | null; // Forecast that left no slot for an outdoor task
+}
+
 /**
  * Available slots organized by day
  */
@@ -47,6 +120,7 @@ export interface DayAvailability {
   dayName: string;
   slots: TimeSlot[];
   totalMinutes: number;
+  softHolds?: TimeSlot[]; // Tentative events inside the slots, avoided while there's room (see calendar-rules.ts)
 }
 
 export const DAY_NAME_TO_NUMBER: Record<string, number> = {
@@ -64,6 +138,9 @@ const NUMBER_TO_DAY_NAME: string[] = [
  * - Past days that can no longer be scheduled (ignored, not conflicts)
  * - Today's fixed time if it has passed (ignored, not conflicts)
  * - Days already scheduled (subtracted from needed count)
+ * - Multi-week/monthly rules (only weeks containing an occurrence need instances)
+ * - One-off deadlines (remaining effort sessions, on or before the due date)
+ * - Splittable effort (chunks of at most maxChunkMinutes, maxChunksPerDay per day)
  *
  * Used by both "Optimize My Week" and "Quick Schedule"
  */
@@ -72,7 +149,8 @@ export function calculateAchievableInstances(
   weekStart: Date,
   weekEnd: Date,
   alreadyScheduledDates: Set<string>,
-  now?: Date
+  now?: Date,
+  bookedEffortMinutes: number = 0
 ): { achievableCount: number; achievableDays: string[] } {
   const currentTime = now || new Date();
   const today = new Date(currentTime.getFullYear(), currentTime.getMonth(), currentTime.getDate());
@@ -84,9 +162,23 @@ export function calculateAchievableInstances(
   const frequency = task.frequency || 1;
   const frequencyPeriod = task.frequencyPeriod || "week";
 
+  // Multi-week/monthly rules: only expand occurrences that fall in this week
+  const recurrenceDates = getWeekRecurrenceDates(task, weekStart);
+  if (recurrenceDates && recurrenceDates.length === 0) {
+    console.log(`[calculateAchievableInstances] ${task.name}: no ${frequencyPeriod} occurrence this week`);
+    return { achievableCount: 0, achievableDays: [] };
+  }
+  const isFixedRecurrence = isFixedSchedule && recurrenceDates !== null;
+
+  // One-off tasks: only days up to the deadline (overdue tasks take any day, as soon as possible)
+  const isOneOff = isOneOffTask(task);
+  const lastDayStr = isOneOff && task.dueDate! >= today ? format(task.dueDate!, "yyyy-MM-dd") : null;
+
   // Convert day names to numbers for fixed/required days
   const allowedDayNumbers = new Set<number>();
-  if (isFixedSchedule && fixedDays.length > 0) {
+  if (isFixedRecurrence) {
+    // Fixed recurring tasks use the rule's dates instead of fixed days
+  } else if (isFixedSchedule && fixedDays.length > 0) {
     fixedDays.forEach(d => {
       const num = DAY_NAME_TO_NUMBER[d.toLowerCase()];
       if (num !== undefined) allowedDayNumbers.add(num);
@@ -126,6 +218,16 @@ export function calculateAchievableInstances(
       continue;
     }
 
+    // For fixed recurring schedule: skip days the rule doesn't produce
+    if (isFixedRecurrence && !recurrenceDates.includes(dateStr)) {
+      continue;
+    }
+
+    // For one-off tasks: skip days after the deadline
+    if (lastDayStr && dateStr > lastDayStr) {
+      continue;
+    }
+
     // For fixed schedule: skip days not in allowed days
     if (isFixedSchedule && allowedDayNumbers.size > 0 && !allowedDayNumbers.has(dayNumber)) {
       continue;
@@ -144,10 +246,23 @@ export function calculateAchievableInstances(
   const alreadyScheduledCount = alreadyScheduledDates.size;
   let achievableCount: number;
 
-  if (isFixedSchedule && fixedDays.length > 0) {
-    // Fixed schedule: can only schedule on achievable fixed days
+  if (isSplittableTask(task)) {
+    // Splittable: enough max-size chunks for the effort not yet booked, within the per-day cap
+    const { maxChunk, maxPerDay } = getChunkLimits(task);
+    const remainingEffort = Math.max(0, task.estimatedEffort! - bookedEffortMinutes);
+    achievableCount = Math.min(Math.ceil(remainingEffort / maxChunk), achievableDays.length * maxPerDay);
+  } else if (isOneOff) {
+    // One-off: one session per day until the estimated effort is booked
+    const sessionsNeeded = getRemainingSessions(task, bookedEffortMinutes).length;
+    achievableCount = Math.min(sessionsNeeded, achievableDays.length);
+  } else if (isFixedRecurrence || (isFixedSchedule && fixedDays.length > 0)) {
+    // Fixed schedule: can only schedule on achievable fixed days (or rule dates)
     // The achievableDays already excludes scheduled dates, so just use its length
     achievableCount = achievableDays.length;
+  } else if (recurrenceDates) {
+    // Multi-week/monthly frequency: `frequency` instances per occurrence in this week
+    const stillNeeded = Math.max(0, recurrenceDates.length * frequency - alreadyScheduledCount);
+    achievableCount = Math.min(stillNeeded, achievableDays.length);
   } else if (frequencyPeriod === "day") {
     // Daily frequency: need instances for each achievable day
     // achievableDays already excludes scheduled dates
@@ -167,16 +282,21 @@ export function calculateAchievableInstances(
 /**
  * @deprecated Use calculateAchievableInstances instead for accurate future-aware calculation
  * Kept for backward compatibility - calculates total needed without date context
+ * (weekStart only picks the week for multi-week/monthly rules; defaults to this week)
  */
-export function calculateInstancesNeeded(task: Task, alreadyScheduledCount: number): number {
+export function calculateInstancesNeeded(task: Task, alreadyScheduledCount: number, weekStart?: Date): number {
   const isFixedSchedule = task.schedulingMode === "fixed";
   const fixedDays = (task.fixedDays as string[] | null) || [];
   const frequency = task.frequency || 1;
   const frequencyPeriod = task.frequencyPeriod || "week";
+  const recurrenceDates = getWeekRecurrenceDates(task, weekStart || new Date());
 
   let totalNeeded: number;
 
-  if (isFixedSchedule && fixedDays.length > 0) {
+  if (recurrenceDates) {
+    // Multi-week/monthly rule: only occurrences in this week count
+    totalNeeded = isFixedSchedule ? recurrenceDates.length : recurrenceDates.length * frequency;
+  } else if (isFixedSchedule && fixedDays.length > 0) {
     // Fixed schedule: need one instance per fixed day
     totalNeeded = fixedDays.length;
   } else if (frequencyPeriod === "day") {
@@ -193,22 +313,34 @@ export function calculateInstancesNeeded(task: Task, alreadyScheduledCount: numb
 
 /**
  * Get available days in the week range, respecting constraints
+ * (`now` is on the user's clock - see timezone.ts)
  */
 function getAvailableDays(
   weekStart: Date,
   weekEnd: Date,
   task: Task,
-  alreadyScheduledDates: Set<string>
+  alreadyScheduledDates: Set<string>,
+  now: Date = new Date()
 ): { date: Date; dateStr: string; dayName: string; dayNumber: number }[] {
   const isFixedSchedule = task.schedulingMode === "fixed";
   const fixedDays = (task.fixedDays as string[] | null) || [];
   const requiredDays = (task.requiredDays as string[] | null) || [];
   const fixedTime = task.fixedTime;
 
+  // Fixed recurring tasks are limited to the rule's dates rather than fixed days
+  const recurrenceDates = isFixedSchedule ? getWeekRecurrenceDates(task, weekStart) : null;
+
+  // One-off tasks are limited to days up to their deadline (unless already overdue)
+  const todayStr = format(now, "yyyy-MM-dd");
+  const dueDateStr = isOneOffTask(task) ? format(task.dueDate!, "yyyy-MM-dd") : null;
+  const lastDayStr = dueDateStr && dueDateStr >= todayStr ? dueDateStr : null;
+
   // Convert day names to numbers
   const allowedDayNumbers = new Set<number>();
 
-  if (isFixedSchedule && fixedDays.length > 0) {
+  if (recurrenceDates) {
+    console.log(`[getAvailableDays] recurrenceDates:`, recurrenceDates);
+  } else if (isFixedSchedule && fixedDays.length > 0) {
     fixedDays.forEach(d => {
       const num = DAY_NAME_TO_NUMBER[d.toLowerCase()];
       if (num !== undefined) allowedDayNumbers.add(num);
@@ -221,7 +353,6 @@ function getAvailableDays(
   }
 
   const availableDays: { date: Date; dateStr: string; dayName: string; dayNumber: number }[] = [];
-  const now = new Date();
 
   console.log(`[getAvailableDays] now: ${now.toISOString()}, weekStart: ${format(weekStart, "yyyy-MM-dd")}, fixedTime: ${fixedTime}`);
   console.log(`[getAvailableDays] allowedDayNumbers:`, Array.from(allowedDayNumbers));
@@ -258,6 +389,18 @@ function getAvailableDays(
       continue;
     }
 
+    // Skip days the recurrence rule doesn't produce
+    if (recurrenceDates && !recurrenceDates.includes(dateStr)) {
+      console.log(`[getAvailableDays] Skipping ${dateStr} (${dayName}) - not a recurrence date`);
+      continue;
+    }
+
+    // Skip days after a one-off task's deadline
+    if (lastDayStr && dateStr > lastDayStr) {
+      console.log(`[getAvailableDays] Skipping ${dateStr} (${dayName}) - after deadline ${lastDayStr}`);
+      continue;
+    }
+
     // Skip days not in allowed days (if constraints exist)
     if (allowedDayNumbers.size > 0 && !allowedDayNumbers.has(dayNumber)) {
       console.log(`[getAvailableDays] Skipping ${dateStr} (${dayName}) - not in allowed days`);
@@ -306,6 +449,214 @@ function assignDaysForFlexibleTask(
   return assigned;
 }
 
+/**
+ * Dependency graph for the tasks being scheduled in this run
+ */
+export interface DependencyGraph {
+  edges: TaskDependency[]; // Edges between scheduled tasks, excluding cycles
+  depth: Map<string, number>; // Longest prerequisite chain above each task
+  effectivePriority: Map<string, number>; // Prerequisites inherit urgency from their dependents
+  conflicts: { taskId: string; taskName: string; reason: string }[];
+}
+
+/**
+ * Build the dependency graph, reporting (and ignoring) cycles
+ */
+export function analyzeTaskDependencies(tasks: Task[], dependencies: TaskDependency[]): DependencyGraph {
+  const taskById = new Map(tasks.map(t => [t.id, t]));
+  const candidateEdges = dependencies.filter(
+    d => d.taskId !== d.dependsOnTaskId && taskById.has(d.taskId) && taskById.has(d.dependsOnTaskId)
+  );
+
+  const outgoing = new Map<string, string[]>(); // prerequisite -> dependents
+  for (const edge of candidateEdges) {
+    if (!outgoing.has(edge.dependsOnTaskId)) outgoing.set(edge.dependsOnTaskId, []);
+    outgoing.get(edge.dependsOnTaskId)!.push(edge.taskId);
+  }
+
+  // Depth-first search for back edges; every task on a cycle is reported once
+  const conflicts: DependencyGraph["conflicts"] = [];
+  const inCycle = new Set<string>();
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (taskId: string) => {
+    state.set(taskId, "visiting");
+    stack.push(taskId);
+    for (const next of outgoing.get(taskId) || []) {
+      if (state.get(next) === "visiting") {
+        const cycle = stack.slice(stack.indexOf(next));
+        if (cycle.some(id => !inCycle.has(id))) {
+          const names = [...cycle, next].map(id => taskById.get(id)!.name).join(" → ");
+          for (const id of cycle) {
+            inCycle.add(id);
+            conflicts.push({
+              taskId: id,
+              taskName: taskById.get(id)!.name,
+              reason: `Circular dependency (${names}); ordering constraints were ignored`,
+            });
+          }
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(taskId, "done");
+  };
+
+  for (const task of tasks) {
+    if (!state.has(task.id)) visit(task.id);
+  }
+
+  const edges = candidateEdges.filter(e => !(inCycle.has(e.taskId) && inCycle.has(e.dependsOnTaskId)));
+
+  const depth = new Map<string, number>();
+  const getDepth = (taskId: string): number => {
+    if (depth.has(taskId)) return depth.get(taskId)!;
+    depth.set(taskId, 0); // Guards against any residual cycle
+    const parents = edges.filter(e => e.taskId === taskId).map(e => e.dependsOnTaskId);
+    const value = parents.length > 0 ? Math.max(...parents.map(getDepth)) + 1 : 0;
+    depth.set(taskId, value);
+    return value;
+  };
+
+  const effectivePriority = new Map<string, number>();
+  const getEffectivePriority = (taskId: string): number => {
+    if (effectivePriority.has(taskId)) return effectivePriority.get(taskId)!;
+    const own = taskById.get(taskId)!.priority;
+    effectivePriority.set(taskId, own);
+    const children = edges.filter(e => e.dependsOnTaskId === taskId).map(e => e.taskId);
+    const value = Math.min(own, ...children.map(getEffectivePriority));
+    effectivePriority.set(taskId, value);
+    return value;
+  };
+
+  for (const task of tasks) {
+    getDepth(task.id);
+    getEffectivePriority(task.id);
+  }
+
+  return { edges, depth, effectivePriority, conflicts };
+}
+
+/**
+ * Check whether a day is allowed for an instance following a prerequisite on referenceDay
+ */
+export function isDayAllowedAfter(day: Date, referenceDay: Date, edge: TaskDependency): boolean {
+  const dayGap = differenceInCalendarDays(day, referenceDay);
+  if (edge.sameDay) return dayGap === 0;
+  if (dayGap < 0) return false;
+  if (edge.minGapMinutes && dayGap < Math.floor(edge.minGapMinutes / (24 * 60))) return false;
+  if (edge.maxGapMinutes !== null && dayGap > Math.ceil(edge.maxGapMinutes / (24 * 60))) return false;
+  return true;
+}
+
+/**
+ * Compute the window an instance must start within given where its
+ * prerequisites landed. Returns a reason when the constraints cannot be met.
+ */
+export function getDependencyWindow(
+  instance: TaskInstance,
+  scheduled: ScheduledInstance[]
+): { window: SlotWindow; unsatisfiedReason?: string } {
+  const window: SlotWindow = { earliestStart: null, latestStart: null };
+
+  for (const dep of instance.dependencies || []) {
+    if (dep.prerequisiteInstanceNumber === null) continue;
+
+    const prerequisite = scheduled.find(
+      s => s.taskInstance.taskId === dep.prerequisiteTaskId &&
+        s.taskInstance.instanceNumber === dep.prerequisiteInstanceNumber
+    );
+
+    if (!prerequisite || prerequisite.isConflict) {
+      return {
+        window,
+        unsatisfiedReason: `Depends on "${dep.prerequisiteTaskName}", which could not be scheduled`,
+      };
+    }
+
+    if (dep.sameDay && prerequisite.taskInstance.assignedDay !== instance.assignedDay) {
+      return {
+        window,
+        unsatisfiedReason: `Must be on the same day as "${dep.prerequisiteTaskName}" (${prerequisite.taskInstance.dayName})`,
+      };
+    }
+
+    const prerequisiteEnd = new Date(`${prerequisite.taskInstance.assignedDay}T${prerequisite.endTime}:00`);
+    const earliest = addMinutes(prerequisiteEnd, dep.minGapMinutes ?? 0);
+    if (!window.earliestStart || earliest > window.earliestStart) {
+      window.earliestStart = earliest;
+    }
+    if (dep.maxGapMinutes !== null) {
+      const latest = addMinutes(prerequisiteEnd, dep.maxGapMinutes);
+      if (!window.latestStart || latest < window.latestStart) {
+        window.latestStart = latest;
+      }
+    }
+  }
+
+  if (window.earliestStart && window.latestStart && window.latestStart < window.earliestStart) {
+    const names = instance.dependencies.map(d => `"${d.prerequisiteTaskName}"`).join(", ");
+    return { window, unsatisfiedReason: `Gap requirements after ${names} cannot all be met` };
+  }
+
+  return { window };
+}
+
+/**
+ * Narrow slots to those where an instance can start inside the window
+ */
+export function clipSlotsToWindow(slots: TimeSlot[], window: SlotWindow | undefined, duration: number): TimeSlot[] {
+  if (!window || (!window.earliestStart && !window.latestStart)) return slots;
+
+  const clipped: TimeSlot[] = [];
+  for (const slot of slots) {
+    const start = window.earliestStart && window.earliestStart > slot.start ? window.earliestStart : slot.start;
+    const latestEnd = window.latestStart ? addMinutes(window.latestStart, duration) : null;
+    const end = latestEnd && latestEnd < slot.end ? latestEnd : slot.end;
+    const minutes = Math.floor((end.getTime() - start.getTime()) / 60000);
+    if (minutes >= duration) {
+      clipped.push({ start: new Date(start), end: new Date(end), duration: minutes });
+    }
+  }
+  return clipped;
+}
+
+/**
+ * Report a one-off task that is overdue, or whose remaining sessions don't all fit
+ * before a deadline that falls this week
+ */
+function reportDeadlineShortfall(
+  task: Task,
+  sessions: number[],
+  achievableCount: number,
+  weekEnd: Date,
+  now: Date,
+  conflicts: { taskId: string; taskName: string; reason: string }[]
+): void {
+  if (sessions.length === 0) return;
+
+  const dueDate = task.dueDate!;
+  const dueLabel = format(dueDate, "EEE MMM d");
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (dueDate < today) {
+    conflicts.push({
+      taskId: task.id,
+      taskName: task.name,
+      reason: `"${task.name}" was due ${dueLabel}; booking the remaining ${sessions.reduce((a, b) => a + b, 0)} min as soon as possible`,
+    });
+  } else if (dueDate <= weekEnd && achievableCount < sessions.length) {
+    conflicts.push({
+      taskId: task.id,
+      taskName: task.name,
+      reason: `Only ${achievableCount} of ${sessions.length} sessions of "${task.name}" fit before its ${dueLabel} deadline`,
+    });
+  }
+}
+
 /**
  * PHASE 1: Expand tasks into individual instances with assigned days
  *
@@ -313,21 +664,46 @@ function assignDaysForFlexibleTask(
  * - Only schedules tasks in the FUTURE (past days are ignored, not conflicts)
  * - Respects already scheduled instances (won't duplicate)
  * - Uses calculateAchievableInstances() for accurate instance counts
+ * - Books one-off tasks on the earliest days before their deadline, with
+ *   priority escalated as the deadline approaches
+ * - Leaves splittable tasks to packSplittableTasks(), which runs once the
+ *   other instances have their times
+ *
+ * `now` is the current time on the user's clock, so "today" is their today.
  */
 export function expandTasksToInstances(
   tasks: Task[],
   weekStart: Date,
   weekEnd: Date,
-  existingScheduledByTask: Map<string, { count: number; dates: Set<string> }>
+  existingScheduledByTask: Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>,
+  dependencies: TaskDependency[] = [],
+  now: Date = new Date(),
+  weather?: WeatherForecast
 ): { instances: TaskInstance[]; conflicts: { taskId: string; taskName: string; reason: string }[] } {
   const instances: TaskInstance[] = [];
   const conflicts: { taskId: string; taskName: string; reason: string }[] = [];
-  const now = new Date();
 
   console.log("[expandTasksToInstances] weekStart:", format(weekStart, "yyyy-MM-dd"), "weekEnd:", format(weekEnd, "yyyy-MM-dd"), "now:", format(now, "yyyy-MM-dd HH:mm"));
 
-  for (const task of tasks) {
+  // One-off tasks move up in priority as their deadline approaches
+  const prioritizedTasks = tasks.map(t => withDeadlineUrgency(t, now));
+
+  // Prerequisites are expanded first so dependents can be placed after them
+  const graph = analyzeTaskDependencies(prioritizedTasks, dependencies);
+  conflicts.push(...graph.conflicts);
+  const taskNames = new Map(tasks.map(t => [t.id, t.name]));
+  const instanceDaysByTask = new Map<string, { dateStr: string; instanceNumber: number | null }[]>();
+  const orderedTasks = [...prioritizedTasks].sort((a, b) => graph.depth.get(a.id)! - graph.depth.get(b.id)!);
+
+  for (const task of orderedTasks) {
+    if (isSplittableTask(task)) {
+      console.log(`[expandTasksToInstances] Skipping ${task.name} - splittable, packed after the other tasks`);
+      continue;
+    }
+
     const existing = existingScheduledByTask.get(task.id) || { count: 0, dates: new Set<string>() };
+    const isOneOff = isOneOffTask(task);
+    const sessions = isOneOff ? getRemainingSessions(task, existing.bookedMinutes ?? 0) : [];
 
     // Use the new shared utility to calculate achievable instances
     const { achievableCount, achievableDays } = calculateAchievableInstances(
@@ -335,9 +711,14 @@ export function expandTasksToInstances(
       weekStart,
       weekEnd,
       existing.dates,
-      now
+      now,
+      existing.bookedMinutes ?? 0
     );
 
+    if (isOneOff) {
+      reportDeadlineShortfall(task, sessions, achievableCount, weekEnd, now, conflicts);
+    }
+
     console.log(`[expandTasksToInstances] Task: ${task.name}, achievableCount: ${achievableCount}, achievableDays: ${JSON.stringify(achievableDays)}, existing.count: ${existing.count}`);
 
     if (achievableCount === 0) {
@@ -348,7 +729,7 @@ export function expandTasksToInstances(
     }
 
     // Get available days with full details for instance creation
-    const availableDays = getAvailableDays(weekStart, weekEnd, task, existing.dates);
+    const availableDays = getAvailableDays(weekStart, weekEnd, task, existing.dates, now);
     console.log(`[expandTasksToInstances] availableDays for ${task.name}:`, availableDays.map(d => d.dateStr));
 
     if (availableDays.length === 0) {
@@ -362,42 +743,124 @@ export function expandTasksToInstances(
     const isFixedSchedule = task.schedulingMode === "fixed";
     let assignedDays: typeof availableDays;
 
-    if (isFixedSchedule) {
+    if (isFixedSchedule || isOneOff) {
       // Fixed schedule: use all available days (already filtered to fixed days)
+      // One-off: earliest days first, so the work is done well before the deadline
       assignedDays = availableDays.slice(0, achievableCount);
     } else {
-      // Flexible: spread across days
-      assignedDays = assignDaysForFlexibleTask(availableDays, achievableCount);
+      // Flexible: spread across days (outdoor tasks: across days with good weather, if there are enough)
+      const goodWeatherDays = weather && getOutdoorActivity(task)
+        ? availableDays.filter(d => hasSuitableWeatherWindow(task, d.dateStr, weather))
+        : availableDays;
+      assignedDays = assignDaysForFlexibleTask(
+        goodWeatherDays.length >= achievableCount ? goodWeatherDays : availableDays,
+        achievableCount
+      );
+    }
+
+    // Honor ordering constraints: pair each instance with a prerequisite instance
+    const taskEdges = graph.edges.filter(e => e.taskId === task.id);
+    const references = taskEdges.map(edge => {
+      const prerequisiteExisting = existingScheduledByTask.get(edge.dependsOnTaskId);
+      return [
+        ...Array.from(prerequisiteExisting?.dates || []).map(dateStr => ({ dateStr, instanceNumber: null })),
+        ...(instanceDaysByTask.get(edge.dependsOnTaskId) || []),
+      ].sort((a, b) => a.dateStr.localeCompare(b.dateStr));
+    });
+
+    const placedDays: { day: (typeof availableDays)[number]; dependencies: InstanceDependency[] }[] = [];
+
+    for (let i = 0; i < assignedDays.length; i++) {
+      if (taskEdges.length === 0) {
+        placedDays.push({ day: assignedDays[i], dependencies: [] });
+        continue;
+      }
+
+      const overallIndex = existing.count + placedDays.length;
+      // Fixed tasks cannot move days; flexible tasks fall back to any unused later day
+      const candidateDays = isFixedSchedule ? [assignedDays[i]] : [assignedDays[i], ...availableDays];
+      let placed = false;
+
+      for (const day of candidateDays) {
+        if (placedDays.some(p => p.day.dateStr === day.dateStr)) continue;
+
+        const pairs = taskEdges.map((edge, e) => {
+          const refs = references[e];
+          if (refs.length === 0) return undefined; // Prerequisite not scheduled this week
+          if (edge.sameDay) return refs.find(r => r.dateStr === day.dateStr) ?? null;
+          const ref = refs[Math.min(overallIndex, refs.length - 1)];
+          return isDayAllowedAfter(day.date, new Date(ref.dateStr + "T12:00:00"), edge) ? ref : null;
+        });
+
+        if (pairs.some(p => p === null)) continue;
+
+        placedDays.push({
+          day,
+          dependencies: taskEdges.map((edge, e) => ({
+            prerequisiteTaskId: edge.dependsOnTaskId,
+            prerequisiteTaskName: taskNames.get(edge.dependsOnTaskId) || "another task",
+            prerequisiteInstanceNumber: pairs[e]?.instanceNumber ?? null,
+            minGapMinutes: edge.minGapMinutes,
+            maxGapMinutes: edge.maxGapMinutes,
+            sameDay: edge.sameDay,
+          })),
+        });
+        placed = true;
+        break;
+      }
+
+      if (!placed) {
+        const prerequisiteNames = taskEdges.map(e => `"${taskNames.get(e.dependsOnTaskId)}"`).join(", ");
+        conflicts.push({
+          taskId: task.id,
+          taskName: task.name,
+          reason: isFixedSchedule
+            ? `"${task.name}" on ${assignedDays[i].dayName} cannot follow ${prerequisiteNames} as required`
+            : `"${task.name}" must follow ${prerequisiteNames}, but no remaining day this week satisfies the ordering`,
+        });
+      }
     }
 
     // Create instances for assigned days
     // Note: No conflict is created for past days - they are simply ignored
-    const totalInstances = existing.count + assignedDays.length;
+    placedDays.sort((a, b) => a.day.dateStr.localeCompare(b.day.dateStr));
+    const totalInstances = existing.count + placedDays.length;
 
-    for (let i = 0; i < assignedDays.length; i++) {
-      const day = assignedDays[i];
+    for (let i = 0; i < placedDays.length; i++) {
+      const { day, dependencies: instanceDependencies } = placedDays[i];
+      const instanceNumber = existing.count + i + 1;
       instances.push({
         taskId: task.id,
         taskName: task.name,
         taskType: task.type,
-        duration: task.duration,
+        duration: isOneOff ? sessions[i] : task.duration,
         priority: task.priority,
         category: task.category,
-        instanceNumber: existing.count + i + 1,
+        instanceNumber,
         totalInstances,
         assignedDay: day.dateStr,
         dayName: day.dayName,
         fixedTime: task.fixedTime,
         preferredTimeStart: task.preferredTimeStart,
         preferredTimeEnd: task.preferredTimeEnd,
+        dependencies: instanceDependencies,
+        dependencyDepth: graph.depth.get(task.id) ?? 0,
         originalTask: task,
       });
     }
+
+    instanceDaysByTask.set(
+      task.id,
+      placedDays.map((p, i) => ({ dateStr: p.day.dateStr, instanceNumber: existing.count + i + 1 }))
+    );
   }
 
-  // Sort instances by priority, then by day
+  // Sort instances by priority (prerequisites inherit their dependents' priority), then by day
   instances.sort((a, b) => {
-    if (a.priority !== b.priority) return a.priority - b.priority;
+    const aPriority = graph.effectivePriority.get(a.taskId) ?? a.priority;
+    const bPriority = graph.effectivePriority.get(b.taskId) ?? b.priority;
+    if (aPriority !== bPriority) return aPriority - bPriority;
+    if (a.dependencyDepth !== b.dependencyDepth) return a.dependencyDepth - b.dependencyDepth;
     return a.assignedDay.localeCompare(b.assignedDay);
   });
 
@@ -413,7 +876,8 @@ export function calculateDayAvailability(
   blockedTimes: BlockedTime[],
   scheduledInstances: ScheduledInstance[],
   dayStart: number,
-  dayEnd: number
+  dayEnd: number,
+  travel?: TravelContext
 ): DayAvailability {
   const dateStr = format(date, "yyyy-MM-dd");
   const dayName = NUMBER_TO_DAY_NAME[date.getDay()];
@@ -436,12 +900,13 @@ export function calculateDayAvailability(
   );
 
   if (dayScheduled.length > 0) {
-    slots = filterSlotsAroundScheduled(slots, dayScheduled, date);
+    slots = filterSlotsAroundScheduled(slots, dayScheduled, date, travel);
   }
 
   const totalMinutes = slots.reduce((sum, s) => sum + s.duration, 0);
+  const softHolds = findSoftHolds(calendarEvents, date);
 
-  return { date: dateStr, dayName, slots, totalMinutes };
+  return { date: dateStr, dayName, slots, totalMinutes, ...(softHolds.length > 0 ? { softHolds } : {}) };
 }
 
 /**
@@ -495,23 +960,26 @@ function filterSlotsAroundBlockedTimes(slots: TimeSlot[], blockedTimes: BlockedT
 }
 
 /**
- * Filter slots to exclude already scheduled instances
+ * Filter slots to exclude already scheduled instances (plus the travel time
+ * to and from them, when the instance being placed is somewhere else)
  */
 function filterSlotsAroundScheduled(
   slots: TimeSlot[],
   scheduled: ScheduledInstance[],
-  date: Date
+  date: Date,
+  travel?: TravelContext
 ): TimeSlot[] {
   // Convert scheduled instances to blocked time format
   const scheduledBlocks = scheduled.map(s => {
     const [startHour, startMin] = s.startTime.split(":").map(Number);
     const [endHour, endMin] = s.endTime.split(":").map(Number);
+    const location = s.taskInstance.originalTask.locationType;
 
     const start = new Date(date);
-    start.setHours(startHour, startMin, 0, 0);
+    start.setHours(startHour, startMin - getTravelMinutes(travel?.times, travel?.location ?? null, location), 0, 0);
 
     const end = new Date(date);
-    end.setHours(endHour, endMin, 0, 0);
+    end.setHours(endHour, endMin + getTravelMinutes(travel?.times, location, travel?.location ?? null), 0, 0);
 
     return { start, end };
   });
@@ -520,16 +988,18 @@ function filterSlotsAroundScheduled(
 }
 
 /**
- * Find the first available slot that fits the duration
+ * Find the first available slot that fits the duration (and dependency window, if any)
  */
 export function findFirstAvailableSlot(
   availability: DayAvailability,
   duration: number,
   fixedTime: string | null,
   preferredTimeStart: string | null,
-  preferredTimeEnd: string | null
+  preferredTimeEnd: string | null,
+  window?: SlotWindow
 ): { startTime: string; endTime: string } | null {
-  const { slots, date } = availability;
+  const { date } = availability;
+  const slots = clipSlotsToWindow(availability.slots, window, duration);
 
   // If fixed time, check if that specific time is available
   if (fixedTime) {
@@ -592,6 +1062,81 @@ export function findFirstAvailableSlot(
   return null;
 }
 
+/**
+ * Best-suited start for a low- or high-demand instance: candidates every 15
+ * minutes (inside the preferred window when one fits), scored against the
+ * energy curve, skipping starts that make too long a run of high-demand
+ * sessions unless nothing else fits. Ties go to the earliest start.
+ */
+function findEnergyAwareSlot(
+  availability: DayAvailability,
+  instance: TaskInstance,
+  energy: EnergyProfile,
+  scheduled: ScheduledInstance[],
+  window?: SlotWindow
+): { startTime: string; endTime: string } | null {
+  const { duration } = instance;
+  const demand = getDemandLevel(instance.originalTask);
+
+  const candidates: number[] = [];
+  for (const slot of clipSlotsToWindow(availability.slots, window, duration)) {
+    const slotStart = slot.start.getHours() * 60 + slot.start.getMinutes();
+    for (let start = slotStart; start + duration <= slotStart + slot.duration; start += 15) {
+      candidates.push(start);
+    }
+  }
+  if (candidates.length === 0) return null;
+
+  const preferredStart = instance.preferredTimeStart ? toMinutes(instance.preferredTimeStart) : null;
+  const preferredEnd = instance.preferredTimeEnd ? toMinutes(instance.preferredTimeEnd) : null;
+  const preferred = preferredStart !== null && preferredEnd !== null
+    ? candidates.filter(start => start >= preferredStart && start < preferredEnd)
+    : [];
+  let pool = preferred.length > 0 ? preferred : candidates;
+
+  if (demand === "high") {
+    const highDemandSessions = scheduled
+      .filter(s => !s.isConflict && s.taskInstance.assignedDay === availability.date && getDemandLevel(s.taskInstance.originalTask) === "high")
+      .map(s => ({ start: toMinutes(s.startTime), end: toMinutes(s.endTime) }));
+    const withBreaks = pool.filter(
+      start => countHighDemandRun({ start, end: start + duration }, highDemandSessions) <= MAX_CONSECUTIVE_HIGH_DEMAND
+    );
+    if (withBreaks.length > 0) pool = withBreaks;
+  }
+
+  let best = pool[0];
+  let bestScore = scoreEnergyFit(demand, best, best + duration, energy);
+  for (const start of pool) {
+    const score = scoreEnergyFit(demand, start, start + duration, energy);
+    if (score > bestScore) {
+      best = start;
+      bestScore = score;
+    }
+  }
+
+  const toTime = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+  return { startTime: toTime(best), endTime: toTime(best + duration) };
+}
+
+/**
+ * Reasoning suffix when a demanding task landed in high-energy hours
+ */
+export function describeEnergyFit(instance: TaskInstance, slot: { startTime: string; endTime: string }, energy?: EnergyProfile): string {
+  if (!energy || getDemandLevel(instance.originalTask) !== "high") return "";
+  return scoreEnergyFit("high", toMinutes(slot.startTime), toMinutes(slot.endTime), energy) > 0
+    ? " Placed in your high-energy hours."
+    : "";
+}
+
+/**
+ * Travel context for placing an instance, or undefined when travel doesn't apply
+ */
+export function getTravelContext(instance: TaskInstance, travelTimes?: TravelTimes): TravelContext | undefined {
+  return travelTimes && travelTimes.size > 0
+    ? { times: travelTimes, location: instance.originalTask.locationType }
+    : undefined;
+}
+
 /**
  * PHASE 3: Schedule all instances deterministically (fallback if AI fails)
  */
@@ -600,7 +1145,11 @@ export function scheduleInstancesDeterministically(
   calendarEvents: CalendarEvent[],
   blockedTimes: BlockedTime[],
   dayStart: number,
-  dayEnd: number
+  dayEnd: number,
+  travelTimes?: TravelTimes,
+  rules: SchedulingRule[] = [],
+  energy?: EnergyProfile,
+  weather?: WeatherForecast
 ): ScheduledInstance[] {
   const results: ScheduledInstance[] = [];
 
@@ -614,8 +1163,9 @@ export function scheduleInstancesDeterministically(
     instancesByDay.get(day)!.push(instance);
   }
 
-  // Process each day
-  Array.from(instancesByDay.entries()).forEach(([dateStr, dayInstances]) => {
+  // Process each day in order so prerequisites on earlier days are placed first
+  const orderedDays = Array.from(instancesByDay.entries()).sort(([a], [b]) => a.localeCompare(b));
+  orderedDays.forEach(([dateStr, dayInstances]) => {
     const date = new Date(dateStr + "T12:00:00"); // Noon to avoid timezone issues
 
     // Calculate current availability for this day
@@ -630,12 +1180,31 @@ export function scheduleInstancesDeterministically(
 
     // Schedule each instance
     for (const instance of dayInstances) {
-      const slot = findFirstAvailableSlot(
-        availability,
-        instance.duration,
-        instance.fixedTime,
-        instance.preferredTimeStart,
-        instance.preferredTimeEnd
+      const { window, unsatisfiedReason } = getDependencyWindow(instance, results);
+      if (unsatisfiedReason) {
+        results.push({
+          taskInstance: instance,
+          startTime: "",
+          endTime: "",
+          reasoning: "",
+          isConflict: true,
+          conflictReason: unsatisfiedReason,
+        });
+        continue;
+      }
+
+      // Travel to and from tasks at other locations depends on where this one is
+      const travel = getTravelContext(instance, travelTimes);
+      const { slot, brokenRules, blockingRule, blockingWeather } = findSlotWithinRules(
+        travel
+          ? calculateDayAvailability(date, calendarEvents, blockedTimes, results, dayStart, dayEnd, travel)
+          : availability,
+        instance,
+        rules,
+        results,
+        window,
+        energy,
+        weather
       );
 
       if (slot) {
@@ -643,7 +1212,10 @@ export function scheduleInstancesDeterministically(
           taskInstance: instance,
           startTime: slot.startTime,
           endTime: slot.endTime,
-          reasoning: generateDeterministicReasoning(instance, slot),
+          reasoning: generateDeterministicReasoning(instance, slot)
+            + describeEnergyFit(instance, slot, energy)
+            + describeWeatherFit(instance.originalTask, instance.assignedDay, slot.startTime, weather)
+            + describeBrokenRules(brokenRules),
           isConflict: false,
         };
         results.push(result);
@@ -667,9 +1239,15 @@ export function scheduleInstancesDeterministically(
           endTime: "",
           reasoning: "",
           isConflict: true,
-          conflictReason: instance.fixedTime
+          conflictReason: blockingRule
+            ? describeBlockingRule(blockingRule, instance)
+            : blockingWeather
+            ? blockingWeather
+            : instance.fixedTime
             ? `No available slot at ${instance.fixedTime} on ${instance.dayName}`
-            : `No ${instance.duration}-minute slot available on ${instance.dayName}`,
+            : window.earliestStart || window.latestStart
+              ? `No ${instance.duration}-minute slot on ${instance.dayName} fits after ${describePrerequisites(instance)}`
+              : `No ${instance.duration}-minute slot available on ${instance.dayName}`,
         });
       }
     }
@@ -678,6 +1256,407 @@ export function scheduleInstancesDeterministically(
   return results;
 }
 
+/**
+ * Find a slot for one chunk: the full target length if any slot fits it
+ * (preferred window first), otherwise the largest slot that fits a minimum chunk
+ */
+function findChunkSlot(
+  availability: DayAvailability,
+  targetMinutes: number,
+  minChunk: number,
+  preferredTimeStart: string | null,
+  preferredTimeEnd: string | null
+): { startTime: string; endTime: string; duration: number } | null {
+  const fullSlot = findFirstAvailableSlot(availability, targetMinutes, null, preferredTimeStart, preferredTimeEnd);
+  if (fullSlot) {
+    return { ...fullSlot, duration: targetMinutes };
+  }
+
+  const largest = availability.slots
+    .filter(s => s.duration >= minChunk)
+    .sort((a, b) => b.duration - a.duration)[0];
+  if (!largest) return null;
+
+  // Round down to 5 minutes so chunks end on tidy times
+  const duration = Math.max(minChunk, Math.floor(Math.min(largest.duration, targetMinutes) / 5) * 5);
+  return {
+    startTime: format(largest.start, "HH:mm"),
+    endTime: format(addMinutes(largest.start, duration), "HH:mm"),
+    duration,
+  };
+}
+
+/**
+ * PHASE 4: Pack splittable tasks into the free time left by all other instances
+ *
+ * Each task's remaining effort is spread over its available days (so the
+ * first free afternoon doesn't absorb everything), as chunks between its
+ * minimum and maximum size with at most maxChunksPerDay on a day. Days that
+ * already hold a chunk from an earlier run are left alone.
+ */
+export function packSplittableTasks(
+  tasks: Task[],
+  weekStart: Date,
+  weekEnd: Date,
+  existingScheduledByTask: Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>,
+  scheduledInstances: ScheduledInstance[],
+  calendarEvents: CalendarEvent[],
+  blockedTimes: BlockedTime[],
+  dayStart: number,
+  dayEnd: number,
+  now: Date = new Date(),
+  travelTimes?: TravelTimes,
+  rules: SchedulingRule[] = []
+): { scheduled: ScheduledInstance[]; conflicts: { taskId: string; taskName: string; reason: string }[] } {
+  const packed: ScheduledInstance[] = [];
+  const conflicts: { taskId: string; taskName: string; reason: string }[] = [];
+
+  // Most urgent first, so they get the pick of the free time
+  const splittableTasks = tasks
+    .filter(isSplittableTask)
+    .map(t => withDeadlineUrgency(t, now))
+    .sort((a, b) => a.priority - b.priority);
+
+  for (const task of splittableTasks) {
+    const existing = existingScheduledByTask.get(task.id) || { count: 0, dates: new Set<string>() };
+    const { minChunk, maxChunk, maxPerDay } = getChunkLimits(task);
+    const { achievableCount } = calculateAchievableInstances(
+      task,
+      weekStart,
+      weekEnd,
+      existing.dates,
+      now,
+      existing.bookedMinutes ?? 0
+    );
+
+    if (achievableCount === 0) {
+      console.log(`[packSplittableTasks] Skipping ${task.name} - effort already booked or no days left`);
+      continue;
+    }
+
+    const requestedMinutes = Math.max(0, task.estimatedEffort! - (existing.bookedMinutes ?? 0));
+    let remaining = requestedMinutes;
+    const days = getAvailableDays(weekStart, weekEnd, task, existing.dates, now);
+    const chunks: ScheduledInstance[] = [];
+    const travel: TravelContext | undefined = travelTimes && travelTimes.size > 0
+      ? { times: travelTimes, location: task.locationType }
+      : undefined;
+
+    days.forEach((day, i) => {
+      if (remaining <= 0) return;
+
+      const date = new Date(day.dateStr + "T12:00:00"); // Noon to avoid timezone issues
+      // Spread what's left evenly over the days that are left (in whole 5 minutes)
+      const dayTarget = Math.ceil(remaining / (days.length - i) / 5) * 5;
+      let bookedToday = 0;
+
+      for (let c = 0; c < maxPerDay && remaining > 0 && bookedToday < dayTarget; c++) {
+        const availability = calculateDayAvailability(
+          date,
+          calendarEvents,
+          blockedTimes,
+          [...scheduledInstances, ...packed],
+          dayStart,
+          dayEnd,
+          travel
+        );
+        const target = Math.min(maxChunk, Math.max(minChunk, Math.min(remaining, dayTarget - bookedToday)));
+
+        // Chunks stay inside hard rules (soft rules can't be weighed for a
+        // variable-length chunk, so they only show up in the prompt)
+        const placedToday = toRulePlacements([...scheduledInstances, ...packed], day.dateStr);
+        const hardRules = rules.filter(r => r.strength === "hard" && ruleAppliesTo(r, { taskType: task.type, category: task.category }, day.dateStr));
+        if (hardRules.some(r => exceedsDailyLimit(r, placedToday, minChunk))) break;
+        availability.slots = clipSlotsToRules(availability.slots, hardRules);
+
+        const slot = findChunkSlot(availability, target, minChunk, task.preferredTimeStart, task.preferredTimeEnd);
+        if (!slot) break;
+        if (hardRules.some(r => exceedsDailyLimit(r, placedToday, slot.duration))) break;
+
+        const chunk: ScheduledInstance = {
+          taskInstance: {
+            taskId: task.id,
+            taskName: task.name,
+            taskType: task.type,
+            duration: slot.duration,
+            priority: task.priority,
+            category: task.category,
+            instanceNumber: existing.count + chunks.length + 1,
+            totalInstances: 0, // Set once all chunks are packed
+            assignedDay: day.dateStr,
+            dayName: day.dayName,
+            fixedTime: null,
+            preferredTimeStart: task.preferredTimeStart,
+            preferredTimeEnd: task.preferredTimeEnd,
+            dependencies: [],
+            dependencyDepth: 0,
+            originalTask: task,
+          },
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          reasoning: "",
+          isConflict: false,
+        };
+        chunks.push(chunk);
+        packed.push(chunk); // Later chunks see this time as taken
+        bookedToday += slot.duration;
+        remaining -= slot.duration;
+      }
+    });
+
+    const totalInstances = existing.count + chunks.length;
+    const plannedMinutes = requestedMinutes - Math.max(0, remaining);
+
+    for (const chunk of chunks) {
+      chunk.taskInstance.totalInstances = totalInstances;
+      chunk.reasoning = `Session ${chunk.taskInstance.instanceNumber} of ${totalInstances} for "${task.name}" (${plannedMinutes} of ${requestedMinutes} min packed into free time this week).`;
+    }
+
+    console.log(`[packSplittableTasks] ${task.name}: ${chunks.length} chunks, ${plannedMinutes}/${requestedMinutes} min`);
+
+    if (remaining > 0) {
+      const deadline = isOneOffTask(task) && task.dueDate! <= weekEnd ? ` before its ${format(task.dueDate!, "EEE MMM d")} deadline` : " this week";
+      conflicts.push({
+        taskId: task.id,
+        taskName: task.name,
+        reason: `Only ${plannedMinutes} of ${requestedMinutes} min of "${task.name}" fit into free time${deadline} (${minChunk}-${maxChunk} min sessions, max ${maxPerDay}/day)`,
+      });
+    }
+  }
+
+  return { scheduled: packed, conflicts };
+}
+
+// ============================================================================
+// WEATHER (see weather-forecast.ts)
+// ============================================================================
+
+/**
+ * Narrow an outdoor task's slots on a day to the hours its forecast suits
+ */
+export function clipSlotsToWeather(slots: TimeSlot[], task: Task, date: string, weather: WeatherForecast): TimeSlot[] {
+  const unsuitable = getUnsuitableHours(task, date, weather);
+  if (unsuitable.length === 0) return slots;
+
+  return slots.flatMap(slot => {
+    const dayStart = new Date(slot.start);
+    dayStart.setHours(0, 0, 0, 0);
+    const blocks = unsuitable.map(({ hour }) => ({
+      start: addMinutes(dayStart, hour * 60),
+      end: addMinutes(dayStart, (hour + 1) * 60),
+    }) as BlockedTime);
+    return filterSlotsAroundBlockedTimes([slot], blocks);
+  });
+}
+
+/**
+ * Conflict reason for an outdoor instance the forecast left no room for
+ */
+export function describeWeatherConflict(instance: TaskInstance, weather: WeatherForecast): string | null {
+  const hours = describeUnsuitableHours(instance.originalTask, instance.assignedDay, weather);
+  return hours ? `The forecast on ${instance.dayName} doesn't suit "${instance.taskName}": ${hours}` : null;
+}
+
+// ============================================================================
+// SCHEDULING RULES (see scheduling-rules.ts)
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * Times of day (minutes since midnight) a time rule rules out
+ */
+function getForbiddenWindows(rule: SchedulingRule): [number, number][] {
+  const c = rule.constraint;
+  switch (c.type) {
+    case "not_before":
+      return [[0, toMinutes(c.time)]];
+    case "not_after":
+      return [[toMinutes(c.time), 24 * 60]];
+    case "not_between": {
+      const start = toMinutes(c.start);
+      const end = toMinutes(c.end);
+      return start <= end ? [[start, end]] : [[start, 24 * 60], [0, end]];
+    }
+    default:
+      return []; // Daily limits don't rule out times of day
+  }
+}
+
+/**
+ * Same-day placements of already scheduled instances
+ */
+function toRulePlacements(scheduled: ScheduledInstance[], date: string): RulePlacement[] {
+  return scheduled
+    .filter(s => !s.isConflict && s.taskInstance.assignedDay === date)
+    .map(s => ({
+      taskType: s.taskInstance.taskType,
+      category: s.taskInstance.category,
+      date,
+      startTime: s.startTime,
+      endTime: s.endTime,
+    }));
+}
+
+/**
+ * Whether adding `duration` minutes of a task would take a day past a daily limit
+ */
+function exceedsDailyLimit(rule: SchedulingRule, sameDay: RulePlacement[], duration: number): boolean {
+  const counted = sameDay.filter(p => ruleAppliesTo(rule, p, p.date));
+
+  switch (rule.constraint.type) {
+    case "max_tasks_per_day":
+      return counted.length + 1 > rule.constraint.count;
+    case "max_minutes_per_day": {
+      const minutes = counted.reduce((sum, p) => sum + toMinutes(p.endTime) - toMinutes(p.startTime), 0);
+      return minutes + duration > rule.constraint.minutes;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Narrow slots to the times the given rules allow
+ */
+export function clipSlotsToRules(slots: TimeSlot[], rules: SchedulingRule[]): TimeSlot[] {
+  const windows = rules.flatMap(getForbiddenWindows);
+  if (windows.length === 0) return slots;
+
+  let clipped = slots;
+  for (const [start, end] of windows) {
+    clipped = clipped.flatMap(slot => {
+      const dayStart = new Date(slot.start);
+      dayStart.setHours(0, 0, 0, 0);
+      const blockStart = addMinutes(dayStart, start);
+      const blockEnd = addMinutes(dayStart, end);
+      return filterSlotsAroundBlockedTimes([slot], [{ start: blockStart, end: blockEnd } as BlockedTime]);
+    });
+  }
+  return clipped;
+}
+
+/**
+ * Rules a placement breaks, given what else is on that day
+ */
+export function findRuleViolations(
+  rules: SchedulingRule[],
+  placement: RulePlacement,
+  sameDay: RulePlacement[]
+): SchedulingRule[] {
+  const start = toMinutes(placement.startTime);
+  const end = toMinutes(placement.endTime);
+  const duration = end - start;
+
+  return rules.filter(rule => {
+    if (!ruleAppliesTo(rule, placement, placement.date)) return false;
+    if (isDailyLimit(rule.constraint)) {
+      return exceedsDailyLimit(rule, sameDay, duration);
+    }
+    return getForbiddenWindows(rule).some(([from, to]) => start < to && end > from);
+  });
+}
+
+/**
+ * Find a slot for an instance that honours the scheduling rules covering it:
+ * every rule if possible, otherwise just the hard ones (reporting which soft
+ * rules the slot breaks). Returns the hard rule responsible when nothing fits.
+ * With an energy profile, low- and high-demand tasks get the slot that best
+ * suits their demand rather than the first one (see energy.ts).
+ */
+export function findSlotWithinRules(
+  availability: DayAvailability,
+  instance: TaskInstance,
+  rules: SchedulingRule[],
+  scheduled: ScheduledInstance[],
+  window?: SlotWindow,
+  energy?: EnergyProfile,
+  weather?: WeatherForecast
+): RuleSlotResult {
+  const findSlotIn = (slots: TimeSlot[]) =>
+    energy && !instance.fixedTime && getDemandLevel(instance.originalTask) !== "medium"
+      ? findEnergyAwareSlot({ ...availability, slots }, instance, energy, scheduled, window)
+      : findFirstAvailableSlot(
+        { ...availability, slots },
+        instance.duration,
+        instance.fixedTime,
+        instance.preferredTimeStart,
+        instance.preferredTimeEnd,
+        window
+      );
+  const findSlot = (allSlots: TimeSlot[], ignoreWeather = false) => {
+    const slots = weather && !ignoreWeather ? clipSlotsToWeather(allSlots, instance.originalTask, instance.assignedDay, weather) : allSlots;
+    // Keep clear of tentative holds, unless that leaves no room
+    const softHolds = (availability.softHolds || []).map(h => ({ start: h.start, end: h.end }) as BlockedTime);
+    return (softHolds.length > 0 ? findSlotIn(filterSlotsAroundBlockedTimes(slots, softHolds)) : null)
+      || findSlotIn(slots);
+  };
+  // Free time exists, but the forecast doesn't suit the task in any of it
+  const weatherConflict = (slots: TimeSlot[]) =>
+    weather && findSlot(slots, true) ? describeWeatherConflict(instance, weather) : null;
+
+  const applicable = rules.filter(r => ruleAppliesTo(r, instance, instance.assignedDay));
+  if (applicable.length === 0) {
+    const slot = findSlot(availability.slots);
+    return { slot, brokenRules: [], blockingRule: null, blockingWeather: slot ? null : weatherConflict(availability.slots) };
+  }
+
+  const sameDay = toRulePlacements(scheduled, instance.assignedDay);
+  const hard = applicable.filter(r => r.strength === "hard");
+  const hardLimit = hard.find(r => exceedsDailyLimit(r, sameDay, instance.duration));
+  if (hardLimit) {
+    return { slot: null, brokenRules: [], blockingRule: hardLimit, blockingWeather: null };
+  }
+
+  // Every rule, then only the hard ones
+  for (const candidates of [applicable, hard]) {
+    const slot = findSlot(clipSlotsToRules(availability.slots, candidates));
+    if (slot) {
+      const placement = { taskType: instance.taskType, category: instance.category, date: instance.assignedDay, ...slot };
+      return { slot, brokenRules: findRuleViolations(applicable, placement, sameDay), blockingRule: null, blockingWeather: null };
+    }
+  }
+
+  // Free time exists, but a hard rule rules it out
+  const blockingRule = findSlot(availability.slots)
+    ? hard.find(r => !findSlot(clipSlotsToRules(availability.slots, [r]))) || hard[0] || null
+    : null;
+  return {
+    slot: null,
+    brokenRules: [],
+    blockingRule,
+    blockingWeather: blockingRule ? null : weatherConflict(clipSlotsToRules(availability.slots, hard)),
+  };
+}
+
+/**
+ * Reasoning suffix naming the soft rules a slot breaks
+ */
+export function describeBrokenRules(brokenRules: SchedulingRule[]): string {
+  if (brokenRules.length === 0) return "";
+  return ` Breaks the soft ${brokenRules.length === 1 ? "rule" : "rules"} ${brokenRules.map(r => `"${r.name}"`).join(", ")}.`;
+}
+
+/**
+ * Conflict reason for an instance a hard rule kept off its day
+ */
+export function describeBlockingRule(rule: SchedulingRule, instance: TaskInstance): string {
+  const owner = rule.scope === "family" ? "Your family's" : "Your";
+  return isDailyLimit(rule.constraint)
+    ? `${owner} rule "${rule.name}" allows no more on ${instance.dayName}`
+    : `${owner} rule "${rule.name}" leaves no ${instance.duration}-minute slot on ${instance.dayName}`;
+}
+
+/**
+ * Human-readable list of an instance's prerequisites for conflict messages
+ */
+export function describePrerequisites(instance: TaskInstance): string {
+  return instance.dependencies.map(d => `"${d.prerequisiteTaskName}"`).join(", ");
+}
+
 /**
  * Generate reasoning for deterministically scheduled tasks
  */
@@ -692,6 +1671,10 @@ function generateDeterministicReasoning(instance: TaskInstance, slot: { startTim
     parts.push(`Scheduled at first available slot (${slot.startTime})`);
   }
 
+  if (instance.dependencies.length > 0) {
+    parts.push(`Placed after ${describePrerequisites(instance)}`);
+  }
+
   if (instance.totalInstances > 1) {
     parts.push(`This is session ${instance.instanceNumber} of ${instance.totalInstances} for the week`);
   }
@@ -0,0 +1,115 @@
+/**
+ * Energy-Aware Scheduling
+ *
+ * Tasks can say how much they take out of someone (Task.demandLevel: "low",
+ * "medium" or "high" - focused study, a hard workout). Each person's energy
+ * curve comes from the high_energy_hours / low_energy_hours preferences,
+ * which pattern learning fills in from the energy levels reported in
+ * feedback (see agent-tools/patterns.ts), falling back to a typical curve.
+ *
+ * When placing a session the deterministic scheduler then:
+ * - puts high-demand tasks in high-energy hours and out of low-energy ones
+ * - keeps low-demand tasks out of high-energy hours where it can, leaving
+ *   them for the work that needs them
+ * - avoids more than MAX_CONSECUTIVE_HIGH_DEMAND high-demand sessions back
+ *   to back on a day
+ * Medium-demand tasks are placed as before.
+ */
+
+import prisma from "./prisma";
+import { PREFERENCE_KEYS } from "./agent-tools/preferences";
+import type { Task } from "@prisma/client";
+
+export const DEMAND_LEVELS = ["low", "medium", "high"] as const;
+export type DemandLevel = (typeof DEMAND_LEVELS)[number];
+
+/**
+ * Hours of the day (0-23) someone usually has high or low energy
+ */
+export interface EnergyProfile {
+  highEnergyHours: number[];
+  lowEnergyHours: number[];
+}
+
+// Until feedback says otherwise (matches the default preferences)
+export const DEFAULT_ENERGY_PROFILE: EnergyProfile = {
+  highEnergyHours: [9, 10, 11, 14, 15, 16],
+  lowEnergyHours: [13, 21, 22],
+};
+
+// High-demand sessions allowed in a row, and the gap that counts as a break between them
+export const MAX_CONSECUTIVE_HIGH_DEMAND = 2;
+export const HIGH_DEMAND_BREAK_MINUTES = 30;
+
+export function getDemandLevel(task: Pick<Task, "demandLevel">): DemandLevel {
+  return DEMAND_LEVELS.includes(task.demandLevel as DemandLevel) ? (task.demandLevel as DemandLevel) : "medium";
+}
+
+/**
+ * A user's energy curve from their learned preferences
+ */
+export async function getEnergyProfile(userId: string): Promise<EnergyProfile> {
+  const preferences = await prisma.userPreference.findMany({
+    where: {
+      userId,
+      isActive: true,
+      key: { in: [PREFERENCE_KEYS.HIGH_ENERGY_HOURS, PREFERENCE_KEYS.LOW_ENERGY_HOURS] },
+    },
+  });
+
+  const hoursFor = (key: string, fallback: number[]): number[] => {
+    const hours = (preferences.find((p) => p.key === key)?.value as { hours?: unknown } | undefined)?.hours;
+    return Array.isArray(hours) ? hours.filter((h): h is number => typeof h === "number") : fallback;
+  };
+
+  return {
+    highEnergyHours: hoursFor(PREFERENCE_KEYS.HIGH_ENERGY_HOURS, DEFAULT_ENERGY_PROFILE.highEnergyHours),
+    lowEnergyHours: hoursFor(PREFERENCE_KEYS.LOW_ENERGY_HOURS, DEFAULT_ENERGY_PROFILE.lowEnergyHours),
+  };
+}
+
+/**
+ * How well a session suits its demand level, from -1 (worst) to 1 (best).
+ * `start` and `end` are minutes from midnight.
+ */
+export function scoreEnergyFit(demand: DemandLevel, start: number, end: number, energy: EnergyProfile): number {
+  if (demand === "medium" || end <= start) return 0;
+
+  let high = 0;
+  let low = 0;
+  for (let minute = start; minute < end; minute++) {
+    const hour = Math.floor(minute / 60) % 24;
+    if (energy.highEnergyHours.includes(hour)) high++;
+    if (energy.lowEnergyHours.includes(hour)) low++;
+  }
+
+  const length = end - start;
+  return demand === "high" ? (high - low) / length : -high / length;
+}
+
+/**
+ * Length of the run of back-to-back high-demand sessions a new one would
+ * join (including itself). Intervals are minutes from midnight.
+ */
+export function countHighDemandRun(
+  candidate: { start: number; end: number },
+  highDemandSessions: { start: number; end: number }[]
+): number {
+  const sessions = [...highDemandSessions, candidate].sort((a, b) => a.start - b.start);
+  const index = sessions.indexOf(candidate);
+
+  let first = index;
+  while (first > 0 && sessions[first].start - sessions[first - 1].end < HIGH_DEMAND_BREAK_MINUTES) first--;
+  let last = index;
+  while (last < sessions.length - 1 && sessions[last + 1].start - sessions[last].end < HIGH_DEMAND_BREAK_MINUTES) last++;
+
+  return last - first + 1;
+}
+
+/**
+ * Energy hours for AI prompts
+ */
+export function formatEnergyProfile(energy: EnergyProfile): string {
+  const hours = (list: number[]) => (list.length > 0 ? list.map((h) => `${h}:00`).join(", ") : "none");
+  return `high energy around ${hours(energy.highEnergyHours)}; low energy around ${hours(energy.lowEnergyHours)}`;
+}
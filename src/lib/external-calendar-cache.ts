@@ -0,0 +1,203 @@
+/**
+ * External Calendar Cache
+ *
+ * Subscribed ICS feeds (ExternalCalendar) are downloaded at most once every
+ * EXTERNAL_CALENDAR_REFRESH_MINUTES instead of on every request. Each
+ * calendar keeps the raw feed plus the events parsed from it for a window
+ * around today (CACHE_PAST_DAYS back, CACHE_FUTURE_DAYS ahead):
+ *
+ * - reads inside the window are served from the parsed events; reads outside
+ *   it parse the stored feed, still without a download
+ * - refreshes are conditional (ETag / Last-Modified), so an unchanged feed
+ *   costs a 304 and no parsing
+ * - a failing feed backs off exponentially (BACKOFF_BASE_MINUTES doubling up
+ *   to BACKOFF_MAX_MINUTES) and keeps serving its last good copy; the error
+ *   and the next retry are shown in settings
+ *
+ * The external-calendars cron refreshes stale feeds in the background, so
+ * pages and the scheduler rarely wait on a download.
+ */
+
+import { addDays, addMinutes, parseISO, startOfDay } from "date-fns";
+import { ExternalCalendar, Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { fetchICSFeed, parseICSData } from "./ics-parser";
+import { CalendarEvent } from "@/types";
+
+export const EXTERNAL_CALENDAR_REFRESH_MINUTES = 15;
+
+// Window of parsed events kept per feed
+const CACHE_PAST_DAYS = 30;
+const CACHE_FUTURE_DAYS = 180;
+
+// Retry delay after the first failure, doubling per failure up to the max
+const BACKOFF_BASE_MINUTES = 5;
+const BACKOFF_MAX_MINUTES = 24 * 60;
+
+// Everything but the cached feed, for the settings page
+export const EXTERNAL_CALENDAR_FIELDS = {
+  id: true,
+  name: true,
+  url: true,
+  color: true,
+  isActive: true,
+  lastSync: true,
+  failureCount: true,
+  lastError: true,
+  nextRetryAt: true,
+  createdAt: true,
+} satisfies Prisma.ExternalCalendarSelect;
+
+export function getBackoffMinutes(failureCount: number): number {
+  return Math.min(BACKOFF_BASE_MINUTES * 2 ** Math.max(failureCount - 1, 0), BACKOFF_MAX_MINUTES);
+}
+
+function isStale(calendar: ExternalCalendar, now: Date): boolean {
+  if (!calendar.icsData || !calendar.lastSync) return true;
+  return addMinutes(calendar.lastSync, EXTERNAL_CALENDAR_REFRESH_MINUTES) <= now;
+}
+
+function isBackingOff(calendar: ExternalCalendar, now: Date): boolean {
+  return !!calendar.nextRetryAt && calendar.nextRetryAt > now;
+}
+
+function getEventStart(event: CalendarEvent): Date | null {
+  const start = event.start;
+  if (start instanceof Date) return start;
+  const value = typeof start === "string" ? start : start.dateTime || start.date;
+  return value ? parseISO(value) : null;
+}
+
+/**
+ * Cache fields for a freshly downloaded feed: the raw data, its validators
+ * and the events parsed for the window around `now`
+ */
+export function buildFeedCache(
+  icsData: string,
+  validators: { etag: string | null; lastModified: string | null },
+  now: Date = new Date()
+) {
+  const cacheStart = addDays(startOfDay(now), -CACHE_PAST_DAYS);
+  const cacheEnd = addDays(startOfDay(now), CACHE_FUTURE_DAYS);
+
+  return {
+    icsData,
+    cachedEvents: parseICSData(icsData, cacheStart, cacheEnd) as unknown as Prisma.InputJsonValue,
+    cacheStart,
+    cacheEnd,
+    etag: validators.etag,
+    lastModified: validators.lastModified,
+    lastSync: now,
+    failureCount: 0,
+    lastError: null,
+    nextRetryAt: null,
+  };
+}
+
+/**
+ * Check a feed for changes and update its cache, or record the failure and
+ * when to try again. Returns the calendar as stored afterwards.
+ */
+export async function refreshExternalCalendar(calendar: ExternalCalendar): Promise<ExternalCalendar> {
+  const now = new Date();
+
+  try {
+    const feed = await fetchICSFeed(calendar.url, {
+      etag: calendar.icsData ? calendar.etag : null,
+      lastModified: calendar.icsData ? calendar.lastModified : null,
+    });
+
+    if (feed.status === "modified") {
+      console.log(`[refreshExternalCalendar] ${calendar.name} changed (${feed.icsData.length} bytes)`);
+      return prisma.externalCalendar.update({
+        where: { id: calendar.id },
+        data: buildFeedCache(feed.icsData, feed, now),
+      });
+    }
+
+    // Unchanged - only re-parse if the window has moved on since the last download
+    const windowMoved = !calendar.cacheStart || calendar.cacheStart < addDays(startOfDay(now), -CACHE_PAST_DAYS - 1);
+    return prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: windowMoved && calendar.icsData
+        ? buildFeedCache(calendar.icsData, calendar, now)
+        : { lastSync: now, failureCount: 0, lastError: null, nextRetryAt: null },
+    });
+  } catch (error) {
+    const failureCount = calendar.failureCount + 1;
+    const lastError = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[refreshExternalCalendar] ${calendar.name} failed (${failureCount} in a row): ${lastError}`);
+    return prisma.externalCalendar.update({
+      where: { id: calendar.id },
+      data: {
+        failureCount,
+        lastError,
+        nextRetryAt: addMinutes(now, getBackoffMinutes(failureCount)),
+      },
+    });
+  }
+}
+
+// Refresh a feed before reading it when it's stale and not backing off
+async function ensureFresh(calendar: ExternalCalendar): Promise<ExternalCalendar> {
+  const now = new Date();
+  return isStale(calendar, now) && !isBackingOff(calendar, now) ? refreshExternalCalendar(calendar) : calendar;
+}
+
+/**
+ * Events from one feed that start between `startDate` and `endDate`
+ */
+export async function getCachedExternalEvents(
+  calendar: ExternalCalendar,
+  startDate: Date,
+  endDate: Date
+): Promise<CalendarEvent[]> {
+  const current = await ensureFresh(calendar);
+
+  if (
+    Array.isArray(current.cachedEvents) && current.cacheStart && current.cacheEnd &&
+    current.cacheStart <= startDate && current.cacheEnd >= endDate
+  ) {
+    return (current.cachedEvents as unknown as CalendarEvent[]).filter((event) => {
+      const start = getEventStart(event);
+      return !!start && start >= startDate && start <= endDate;
+    });
+  }
+
+  return current.icsData ? parseICSData(current.icsData, startDate, endDate) : [];
+}
+
+/**
+ * The raw feed, for callers with their own parsing
+ */
+export async function getCachedICSData(calendar: ExternalCalendar): Promise<string | null> {
+  return (await ensureFresh(calendar)).icsData;
+}
+
+/**
+ * Refresh every active feed that's stale and not backing off (the
+ * external-calendars cron)
+ */
+export async function refreshStaleExternalCalendars(): Promise<{ checked: number; failed: number }> {
+  const now = new Date();
+  const calendars = await prisma.externalCalendar.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { lastSync: null },
+        { lastSync: { lte: addMinutes(now, -EXTERNAL_CALENDAR_REFRESH_MINUTES) } },
+        { icsData: null },
+      ],
+      AND: [{ OR: [{ nextRetryAt: null }, { nextRetryAt: { lte: now } }] }],
+    },
+  });
+
+  let failed = 0;
+  for (const calendar of calendars) {
+    const refreshed = await refreshExternalCalendar(calendar);
+    if (refreshed.failureCount > 0) failed++;
+  }
+
+  console.log(`[refreshStaleExternalCalendars] Checked ${calendars.length} feeds, ${failed} failed`);
+  return { checked: calendars.length, failed };
+}
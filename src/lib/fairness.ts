@@ -0,0 +1,181 @@
+/**
+ * Household Fairness Engine
+ *
+ * Measures each family member's share of household work as effort-weighted
+ * minutes rather than task counts:
+ *
+ * - Doing: how long the task really took (Feedback.actualDuration), falling
+ *   back to the scheduled slot and then the task's duration
+ * - Effort: minutes are scaled by the task's effort score (1-5), so an hour
+ *   of scrubbing the oven counts for more than an hour of folding laundry
+ * - Mental load: the planning and remembering behind a task (booking the
+ *   vet, noticing the detergent is low) is credited to whoever owns the
+ *   task, even when someone else does it
+ *
+ * Each member's load is compared against their target share - either an
+ * agreed split (e.g. 60/40 when one partner works longer hours) or the
+ * default share for their member type.
+ */
+
+import { getFairShareWeight } from "@/lib/family-roles";
+
+export const DEFAULT_EFFORT_SCORE = 3;
+
+// Effort score (1-5) -> multiplier on task minutes
+const EFFORT_MULTIPLIERS: Record<number, number> = {
+  1: 0.6,
+  2: 0.8,
+  3: 1,
+  4: 1.25,
+  5: 1.5,
+};
+
+// Planning/remembering minutes per occurrence when a task doesn't set its own
+const DEFAULT_MENTAL_LOAD_MINUTES: Record<string, number> = {
+  household: 5,
+  resolution: 0,
+};
+
+export interface LoadTask {
+  type: string;
+  duration: number;
+  userId: string | null;
+  effortScore: number | null;
+  mentalLoadMinutes: number | null;
+}
+
+export interface LoadScheduledTask {
+  assignedToUserId: string;
+  startTime: Date;
+  endTime: Date;
+  status: string;
+  task: LoadTask;
+  feedback: { actualDuration: number | null }[];
+}
+
+export interface MemberLoad {
+  householdTasks: number;
+  doingMinutes: number; // Real minutes spent on household tasks
+  effortMinutes: number; // Doing minutes scaled by effort score
+  mentalLoadMinutes: number; // Planning/remembering credited to this member
+  weightedLoad: number; // effortMinutes + mentalLoadMinutes
+}
+
+export interface ShareMember {
+  userId: string;
+  memberType: string;
+  targetShare: number | null;
+}
+
+/**
+ * Minutes a scheduled task actually took
+ */
+export function getTaskMinutes(scheduledTask: LoadScheduledTask): number {
+  const reported = scheduledTask.feedback.find((f) => f.actualDuration && f.actualDuration > 0);
+  if (reported?.actualDuration) return reported.actualDuration;
+
+  const scheduled = Math.round(
+    (scheduledTask.endTime.getTime() - scheduledTask.startTime.getTime()) / 60000
+  );
+  return scheduled > 0 ? scheduled : scheduledTask.task.duration;
+}
+
+export function getEffortMultiplier(effortScore: number | null | undefined): number {
+  const score = Math.min(5, Math.max(1, Math.round(effortScore ?? DEFAULT_EFFORT_SCORE)));
+  return EFFORT_MULTIPLIERS[score];
+}
+
+export function getMentalLoadMinutes(task: Pick<LoadTask, "type" | "mentalLoadMinutes">): number {
+  return task.mentalLoadMinutes ?? DEFAULT_MENTAL_LOAD_MINUTES[task.type] ?? 0;
+}
+
+/**
+ * Effort-weighted household load for each member.
+ * Resolutions are personal and skipped tasks weren't done, so neither counts.
+ */
+export function computeMemberLoads(
+  memberIds: string[],
+  scheduledTasks: LoadScheduledTask[]
+): Map<string, MemberLoad> {
+  const loads = new Map<string, MemberLoad>();
+  for (const id of memberIds) {
+    loads.set(id, { householdTasks: 0, doingMinutes: 0, effortMinutes: 0, mentalLoadMinutes: 0, weightedLoad: 0 });
+  }
+
+  for (const st of scheduledTasks) {
+    if (st.task.type !== "household" || st.status === "skipped") continue;
+
+    const doer = loads.get(st.assignedToUserId);
+    if (doer) {
+      const minutes = getTaskMinutes(st);
+      doer.householdTasks++;
+      doer.doingMinutes += minutes;
+      doer.effortMinutes += minutes * getEffortMultiplier(st.task.effortScore);
+    }
+
+    // Whoever owns the task keeps track of it; family tasks fall to the doer
+    const planner = (st.task.userId && loads.get(st.task.userId)) || doer;
+    if (planner) {
+      planner.mentalLoadMinutes += getMentalLoadMinutes(st.task);
+    }
+  }
+
+  loads.forEach((load) => {
+    load.effortMinutes = Math.round(load.effortMinutes);
+    load.weightedLoad = load.effortMinutes + load.mentalLoadMinutes;
+  });
+
+  return loads;
+}
+
+/**
+ * Each member's target share of household work (fractions summing to 1).
+ * Agreed splits are used as set; members without one split the rest by
+ * member type.
+ */
+export function resolveTargetShares(members: ShareMember[]): Map<string, number> {
+  const shares = new Map<string, number>();
+  const agreed = members.filter((m) => m.targetShare !== null);
+  const unset = members.filter((m) => m.targetShare === null);
+
+  const agreedTotal = agreed.reduce((sum, m) => sum + Math.max(0, m.targetShare ?? 0), 0);
+  const remainder = unset.length > 0 ? Math.max(0, 1 - agreedTotal) : 0;
+  const unsetWeight = unset.reduce((sum, m) => sum + getFairShareWeight(m.memberType), 0);
+
+  for (const m of agreed) {
+    shares.set(m.userId, Math.max(0, m.targetShare ?? 0));
+  }
+  for (const m of unset) {
+    shares.set(m.userId, unsetWeight > 0 ? (remainder * getFairShareWeight(m.memberType)) / unsetWeight : 0);
+  }
+
+  // Normalize in case agreed splits don't add up to exactly 100%
+  const total = Array.from(shares.values()).reduce((a, b) => a + b, 0);
+  if (total > 0) {
+    shares.forEach((share, userId) => shares.set(userId, share / total));
+  }
+
+  return shares;
+}
+
+/**
+ * Fairness score (0-1, 1 = everyone carries exactly their target share) and
+ * each member's load relative to their share (1 = on target)
+ */
+export function scoreFairness(
+  members: { load: number; share: number }[]
+): { fairnessScore: number; loadRatios: number[] } {
+  const totalLoad = members.reduce((sum, m) => sum + m.load, 0);
+
+  if (totalLoad === 0 || members.length === 0) {
+    return { fairnessScore: 1, loadRatios: members.map(() => 1) };
+  }
+
+  // A member with no expected share who still did work is maximally over
+  const loadRatios = members.map((m) =>
+    m.share > 0 ? m.load / (totalLoad * m.share) : m.load > 0 ? 2 : 1
+  );
+
+  const variance = loadRatios.reduce((sum, r) => sum + Math.pow(r - 1, 2), 0) / members.length;
+  return { fairnessScore: Math.max(0, 1 - Math.sqrt(variance)), loadRatios };
+}
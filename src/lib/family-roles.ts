@@ -0,0 +1,96 @@
+/**
+ * Family Roles and Task Eligibility
+ *
+ * Families can have any number of members. Besides the admin/member
+ * permission role, each member has a member type that decides which shared
+ * tasks they can be assigned:
+ *
+ * - adult: anything
+ * - caregiver: anything, but only on their help days (a grandparent who
+ *   helps on Wednesdays)
+ * - teen: shared tasks, except those for a dependent (which need an adult)
+ * - child: only tasks that explicitly list "child"
+ *
+ * A task's eligibleMemberTypes overrides these defaults. Dependents are
+ * family members without a login (young children) who tasks can be about -
+ * "Emma's swim class" is assigned to the adult who drives her.
+ *
+ * Fairness compares each member's load against their fair share, weighted by
+ * member type, so a teen isn't expected to carry as much as a parent.
+ */
+
+import type { Task } from "@prisma/client";
+
+export const MEMBER_TYPES = ["adult", "teen", "child", "caregiver"] as const;
+export type MemberType = (typeof MEMBER_TYPES)[number];
+
+export const DEPENDENT_TYPES = ["child", "teen"] as const;
+
+export const MAX_FAMILY_MEMBERS = 12;
+
+// Relative share of household work each member type is expected to carry
+export const FAIR_SHARE_WEIGHTS: Record<MemberType, number> = {
+  adult: 1,
+  caregiver: 0.5,
+  teen: 0.5,
+  child: 0.2,
+};
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface EligibleMember {
+  memberType?: string | null;
+  helpDays?: number[] | null;
+}
+
+type EligibilityTask = Pick<Task, "eligibleMemberTypes" | "forDependentId">;
+
+export function toMemberType(value: string | null | undefined): MemberType {
+  return MEMBER_TYPES.includes(value as MemberType) ? (value as MemberType) : "adult";
+}
+
+export function getFairShareWeight(memberType: string | null | undefined): number {
+  return FAIR_SHARE_WEIGHTS[toMemberType(memberType)];
+}
+
+/**
+ * Member types who may take a task
+ */
+export function getEligibleMemberTypes(task: EligibilityTask): MemberType[] {
+  if (task.eligibleMemberTypes && task.eligibleMemberTypes.length > 0) {
+    return task.eligibleMemberTypes.map(toMemberType);
+  }
+  // Taking care of a dependent (driving, supervising) needs a grown-up
+  if (task.forDependentId) return ["adult", "caregiver"];
+  return ["adult", "caregiver", "teen"];
+}
+
+/**
+ * Whether a member can be assigned a task (on a given day of the week, 0 = Sunday)
+ */
+export function isMemberEligibleForTask(member: EligibleMember, task: EligibilityTask, dayOfWeek?: number): boolean {
+  const memberType = toMemberType(member.memberType);
+  if (!getEligibleMemberTypes(task).includes(memberType)) return false;
+  return dayOfWeek === undefined || isAvailableOnDay(member, dayOfWeek);
+}
+
+/**
+ * Caregivers only help on their help days; everyone else is available any day
+ */
+export function isAvailableOnDay(member: EligibleMember, dayOfWeek: number): boolean {
+  if (toMemberType(member.memberType) !== "caregiver") return true;
+  return !member.helpDays || member.helpDays.length === 0 || member.helpDays.includes(dayOfWeek);
+}
+
+export function describeHelpDays(helpDays: number[] | null | undefined): string {
+  if (!helpDays || helpDays.length === 0) return "any day";
+  return [...helpDays].sort((a, b) => a - b).map(d => DAY_NAMES[d]).join(", ");
+}
+
+/**
+ * One-line description of a member's role for AI prompts
+ */
+export function describeMember(member: EligibleMember): string {
+  const memberType = toMemberType(member.memberType);
+  return memberType === "caregiver" ? `caregiver, helps on ${describeHelpDays(member.helpDays)}` : memberType;
+}
@@ -0,0 +1,239 @@
+/**
+ * ICS Task Import
+ *
+ * Turns the recurring events in an uploaded .ics file (an existing chore
+ * calendar, a routine kept in another app) into proposed tasks for the user
+ * to confirm. Nothing is saved here - confirmed proposals are created through
+ * the normal tasks API.
+ *
+ * The file is expanded with parseICSData over IMPORT_WINDOW_DAYS either side
+ * of today, and the occurrences are grouped back into their events by UID.
+ * From each event's occurrences, on the user's clock:
+ *
+ * - the weekdays it falls on become fixedDays
+ * - a start time shared by at least half of them makes it a fixed task at
+ *   that time; otherwise it's flexible with those weekdays preferred
+ * - the gap between occurrences picks the period: weekly (7 days on the same
+ *   weekday), biweekly (14), monthly (28-31, by day of month or nth weekday)
+ *   or quarterly (84-92)
+ * - the typical occurrence length becomes the duration
+ *
+ * One-off events and events that have already ended are left out, and any
+ * other pattern is reported as skipped rather than guessed at.
+ */
+
+import { differenceInCalendarDays, format, getDate, getDaysInMonth, parseISO } from "date-fns";
+import { parseICSData } from "./ics-parser";
+import { toZonedTime } from "./timezone";
+import { CalendarEvent } from "@/types";
+
+// Expanded either side of today to see enough occurrences of monthly and quarterly events
+const IMPORT_WINDOW_DAYS = 183;
+
+// Duration for all-day events, which have none of their own
+const ALL_DAY_DURATION_MINUTES = 30;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export interface ImportedTaskProposal {
+  uid: string; // The event's UID, to tell proposals apart
+  name: string;
+  duration: number;
+  schedulingMode: "fixed" | "flexible";
+  fixedDays: string[];
+  fixedTime: string | null;
+  preferredDays: string[];
+  frequency: number;
+  frequencyPeriod: "week" | "biweekly" | "month" | "quarter";
+  monthDay: number | null;
+  monthWeek: number | null;
+  monthWeekday: string | null;
+  recurrenceStart: string | null; // "yyyy-MM-dd", anchors biweekly rules
+  summary: string; // e.g. "Every Monday and Thursday at 19:00"
+}
+
+export interface ICSImportResult {
+  proposals: ImportedTaskProposal[];
+  skipped: { name: string; reason: string }[];
+  oneOffCount: number;
+}
+
+interface Occurrence {
+  start: Date; // On the user's clock
+  minutes: number | null; // null for all-day
+  allDay: boolean;
+}
+
+function toOccurrence(event: CalendarEvent, timeZone: string): Occurrence | null {
+  const start = event.start;
+  const end = event.end;
+  if (typeof start !== "object" || start instanceof Date || typeof end !== "object" || end instanceof Date) return null;
+
+  if (start.date && !start.dateTime) {
+    return { start: parseISO(start.date), minutes: null, allDay: true };
+  }
+  if (!start.dateTime || !end.dateTime) return null;
+
+  const startInstant = new Date(start.dateTime);
+  const minutes = Math.round((new Date(end.dateTime).getTime() - startInstant.getTime()) / 60000);
+  // Expanded all-day recurrences come back as whole days from midnight
+  if (minutes > 0 && minutes % (24 * 60) === 0) {
+    return { start: parseISO(start.dateTime.slice(0, 10)), minutes: null, allDay: true };
+  }
+  return { start: toZonedTime(startInstant, timeZone), minutes, allDay: false };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function describeDays(days: string[]): string {
+  const names = days.map((d) => d.charAt(0).toUpperCase() + d.slice(1));
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+}
+
+/**
+ * Infer a task from one event's occurrences (sorted), or why it can't be
+ */
+function inferTask(
+  uid: string,
+  name: string,
+  occurrences: Occurrence[]
+): ImportedTaskProposal | { skipReason: string } {
+  const weekdays = WEEKDAYS.filter((_, i) => occurrences.some((o) => o.start.getDay() === i));
+  // Monday-first, like the task form
+  const fixedDays = [...weekdays.filter((d) => d !== "sunday"), ...weekdays.filter((d) => d === "sunday")];
+
+  // Gap between consecutive occurrences on the same weekday (weekly
+  // patterns), and between consecutive occurrences at all (monthly ones)
+  const weekdayGaps: number[] = [];
+  for (const day of WEEKDAYS) {
+    const onDay = occurrences.filter((o) => WEEKDAYS[o.start.getDay()] === day);
+    for (let i = 1; i < onDay.length; i++) {
+      weekdayGaps.push(differenceInCalendarDays(onDay[i].start, onDay[i - 1].start));
+    }
+  }
+  const weekdayGap = weekdayGaps.length > 0 ? median(weekdayGaps) : null;
+  const gap = weekdayGap === 7 || weekdayGap === 14
+    ? weekdayGap
+    : median(occurrences.slice(1).map((o, i) => differenceInCalendarDays(o.start, occurrences[i].start)));
+
+  // The usual start time - events pinned to UTC move by an hour across DST
+  const timeCounts = new Map<string, number>();
+  for (const o of occurrences) {
+    if (!o.allDay) timeCounts.set(format(o.start, "HH:mm"), (timeCounts.get(format(o.start, "HH:mm")) || 0) + 1);
+  }
+  const [usualTime, usualCount] = Array.from(timeCounts.entries()).sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+  const fixedTime = usualCount * 2 >= occurrences.length ? usualTime : null;
+  const timedMinutes = occurrences.filter((o) => o.minutes !== null).map((o) => o.minutes as number);
+  const duration = timedMinutes.length > 0 ? Math.max(median(timedMinutes), 5) : ALL_DAY_DURATION_MINUTES;
+  const first = occurrences[0].start;
+
+  const base = {
+    uid,
+    name,
+    duration,
+    schedulingMode: fixedTime ? ("fixed" as const) : ("flexible" as const),
+    fixedDays: fixedTime ? fixedDays : [],
+    fixedTime,
+    preferredDays: fixedTime ? [] : fixedDays,
+    frequency: fixedDays.length,
+    monthDay: null,
+    monthWeek: null,
+    monthWeekday: null,
+    recurrenceStart: null,
+  };
+  const at = fixedTime ? ` at ${fixedTime}` : "";
+
+  if (gap === 7) {
+    return { ...base, frequencyPeriod: "week", summary: `Every ${describeDays(fixedDays)}${at}` };
+  }
+  if (gap === 14) {
+    return {
+      ...base,
+      frequencyPeriod: "biweekly",
+      recurrenceStart: format(first, "yyyy-MM-dd"),
+      summary: `Every other ${describeDays(fixedDays)}${at}`,
+    };
+  }
+
+  const monthly = gap >= 28 && gap <= 31;
+  const quarterly = gap >= 84 && gap <= 92;
+  if (!monthly && !quarterly) {
+    return { skipReason: `Repeats every ${gap} days, which doesn't map to a task period` };
+  }
+
+  // The same day of the month, or the same nth (or last) weekday
+  const period = monthly ? ("month" as const) : ("quarter" as const);
+  const every = monthly ? "Monthly" : "Quarterly";
+  const monthTask = { ...base, frequency: 1, fixedDays: [], preferredDays: [], frequencyPeriod: period };
+  if (occurrences.every((o) => getDate(o.start) === getDate(first))) {
+    return { ...monthTask, monthDay: getDate(first), summary: `${every} on day ${getDate(first)}${at}` };
+  }
+  if (weekdays.length === 1) {
+    const nth = new Set(occurrences.map((o) => Math.ceil(getDate(o.start) / 7)));
+    const isLast = occurrences.every((o) => getDate(o.start) + 7 > getDaysInMonth(o.start));
+    if (nth.size === 1 || isLast) {
+      const monthWeek = nth.size === 1 ? Array.from(nth)[0] : -1;
+      const which = monthWeek === -1 ? "last" : ["first", "second", "third", "fourth", "fifth"][monthWeek - 1];
+      return {
+        ...monthTask,
+        monthWeek,
+        monthWeekday: weekdays[0],
+        summary: `${every} on the ${which} ${describeDays(weekdays)}${at}`,
+      };
+    }
+  }
+  return { skipReason: "Its monthly dates don't follow a fixed day or weekday" };
+}
+
+/**
+ * Proposed tasks for the recurring events in an ICS file. `now` is the
+ * current instant; times are read on `timeZone`'s clock.
+ */
+export function proposeTasksFromICS(icsData: string, timeZone: string, now: Date = new Date()): ICSImportResult {
+  const windowStart = new Date(now.getTime() - IMPORT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const windowEnd = new Date(now.getTime() + IMPORT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const events = parseICSData(icsData, windowStart, windowEnd);
+
+  // Expanded occurrences have IDs "<uid>_<timestamp>"
+  const byUid = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    if (event.status === "cancelled") continue;
+    const uid = event.id.replace(/_\d+$/, "");
+    byUid.set(uid, [...(byUid.get(uid) || []), event]);
+  }
+
+  const result: ICSImportResult = { proposals: [], skipped: [], oneOffCount: 0 };
+  byUid.forEach((group, uid) => {
+    const name = group[0].summary.trim() || "Untitled";
+    if (group.length < 2) {
+      result.oneOffCount++;
+      return;
+    }
+
+    const occurrences = group
+      .map((e) => toOccurrence(e, timeZone))
+      .filter((o): o is Occurrence => !!o)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+    if (occurrences.length < 2) {
+      result.skipped.push({ name, reason: "Its times couldn't be read" });
+      return;
+    }
+    if (occurrences[occurrences.length - 1].start < toZonedTime(now, timeZone)) {
+      result.skipped.push({ name, reason: "It has already ended" });
+      return;
+    }
+
+    const inferred = inferTask(uid, name, occurrences);
+    if ("skipReason" in inferred) {
+      result.skipped.push({ name, reason: inferred.skipReason });
+    } else {
+      result.proposals.push(inferred);
+    }
+  });
+
+  console.log(`[proposeTasksFromICS] ${result.proposals.length} proposals, ${result.skipped.length} skipped, ${result.oneOffCount} one-off events`);
+  return result;
+}
@@ -1,4 +1,4 @@
-import { CalendarEvent } from "@/types";
+import { CalendarEvent, EventBusyStatus } from "@/types";
 import { parseISO, isWithinInterval, addDays } from "date-fns";
 import { RRule, RRuleSet, rrulestr, Frequency } from "rrule";
 
@@ -119,6 +119,15 @@ function extractTimezones(icsData: string): Map<string, string> {
   return timezones;
 }
 
+// X-MICROSOFT-CDO-BUSYSTATUS values (Outlook's free/busy "Show as")
+const OUTLOOK_BUSY_STATUS: Record<string, EventBusyStatus> = {
+  FREE: "free",
+  TENTATIVE: "tentative",
+  BUSY: "busy",
+  OOF: "oof",
+  WORKINGELSEWHERE: "workingElsewhere",
+};
+
 interface ParsedEventData {
   uid: string;
   summary: string;
@@ -127,6 +136,8 @@ interface ParsedEventData {
   dtstartRaw: string; // Original DTSTART line for RRULE parsing
   dtend: string;
   status: string;
+  transparent: boolean; // TRANSP:TRANSPARENT - shown but doesn't take the time
+  busyStatus: EventBusyStatus | null; // X-MICROSOFT-CDO-BUSYSTATUS from Outlook exports
   rrule: string | null;
   exdates: string[];
   rdates: string[]; // Explicit recurrence dates
@@ -147,6 +158,8 @@ function parseEventBlock(block: string, startDate: Date, endDate: Date, timezone
     dtstartRaw: "",
     dtend: "",
     status: "confirmed",
+    transparent: false,
+    busyStatus: null,
     rrule: null,
     exdates: [],
     rdates: [],
@@ -206,9 +219,10 @@ function parseEventBlock(block: string, startDate: Date, endDate: Date, timezone
     } else if (line.startsWith("CLASS:")) {
       const classValue = line.substring(6).trim().toUpperCase();
       eventData.isPrivate = classValue === "PRIVATE" || classValue === "CONFIDENTIAL";
+    } else if (line.startsWith("TRANSP:")) {
+      eventData.transparent = line.substring(7).trim().toUpperCase() === "TRANSPARENT";
     } else if (line.startsWith("X-MICROSOFT-CDO-BUSYSTATUS:")) {
-      // Outlook-specific: treat OOF and BUSY as valid events
-      // Skip TENTATIVE or FREE if needed
+      eventData.busyStatus = OUTLOOK_BUSY_STATUS[line.substring(27).trim().toUpperCase()] ?? null;
     }
   }
 
@@ -546,6 +560,10 @@ function createCalendarEvent(eventData: ParsedEventData, dtstart: string, dtend:
     start: isAllDay ? { date: dtstart } : { dateTime: dtstart },
     end: isAllDay ? { date: dtend || dtstart } : { dateTime: dtend || dtstart },
     status: eventData.status,
+    transparency: eventData.transparent ? "transparent" : "opaque",
+    busyStatus: eventData.busyStatus ?? (eventData.status === "tentative" ? "tentative" : undefined),
+    // Expanded occurrences of all-day events come back as midnight date-times
+    isAllDay: eventData.dtstart.length === 10,
   };
 }
 
@@ -677,34 +695,68 @@ function unescapeICS(text: string): string {
     .replace(/\\\\/g, "\\");
 }
 
+export type ICSFeedResponse =
+  | { status: "modified"; icsData: string; etag: string | null; lastModified: string | null }
+  | { status: "not-modified" };
+
 /**
- * Fetch and parse ICS calendar from URL
+ * Download an ICS feed. With the validators from a previous download the
+ * request is conditional, and an unchanged feed comes back as "not-modified".
  */
-export async function fetchICSCalendar(
+export async function fetchICSFeed(
   url: string,
-  startDate: Date,
-  endDate: Date
-): Promise<CalendarEvent[]> {
+  validators: { etag?: string | null; lastModified?: string | null } = {}
+): Promise<ICSFeedResponse> {
   // Convert webcal:// to https://
   const fetchUrl = url.replace(/^webcal:\/\//i, "https://");
 
-  console.log(`[ICS Parser] ========================================`);
-  console.log(`[ICS Parser] Fetching ICS calendar from: ${fetchUrl.substring(0, 50)}...`);
+  const headers: Record<string, string> = { Accept: "text/calendar" };
+  if (validators.etag) headers["If-None-Match"] = validators.etag;
+  if (validators.lastModified) headers["If-Modified-Since"] = validators.lastModified;
 
   const response = await fetch(fetchUrl, {
-    headers: {
-      Accept: "text/calendar",
-    },
+    headers,
     // Some calendar servers need these
     cache: "no-store",
   });
 
+  if (response.status === 304) {
+    console.log(`[ICS Parser] Not modified: ${fetchUrl.substring(0, 50)}...`);
+    return { status: "not-modified" };
+  }
+
   if (!response.ok) {
     console.error(`[ICS Parser] ✗ Failed to fetch calendar: ${response.status} ${response.statusText}`);
-    throw new Error(`Failed to fetch calendar: ${response.statusText}`);
+    throw new Error(`Failed to fetch calendar: ${response.status} ${response.statusText}`);
   }
 
   const icsData = await response.text();
+  if (!icsData.includes("BEGIN:VCALENDAR")) {
+    throw new Error("Response is not an ICS calendar");
+  }
+
+  return {
+    status: "modified",
+    icsData,
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+  };
+}
+
+/**
+ * Fetch and parse ICS calendar from URL
+ */
+export async function fetchICSCalendar(
+  url: string,
+  startDate: Date,
+  endDate: Date
+): Promise<CalendarEvent[]> {
+  console.log(`[ICS Parser] ========================================`);
+  console.log(`[ICS Parser] Fetching ICS calendar from: ${url.substring(0, 50)}...`);
+
+  const feed = await fetchICSFeed(url);
+  if (feed.status !== "modified") return [];
+  const { icsData } = feed;
   console.log(`[ICS Parser] Received ${icsData.length} bytes of ICS data`);
 
   // Log first few lines for debugging
@@ -0,0 +1,112 @@
+/**
+ * ICS Writer
+ *
+ * The write-side counterpart to ics-parser.ts: serializes scheduled tasks as
+ * RFC 5545 VEVENTs for the published calendar feeds (CalendarFeed), so people
+ * who won't install anything can subscribe from their own calendar app.
+ *
+ * - UIDs come from the ScheduledTask ID, so a session stays the same event
+ *   across refreshes
+ * - SEQUENCE is ScheduledTask.sequence, bumped on every move, so clients
+ *   replace the old time instead of keeping both
+ * - CATEGORIES carry the task type (and the task's own category)
+ * - a family feed prefixes each summary with the assignee's name
+ * - completed sessions stay in the feed, ticked; skipped ones drop out
+ *
+ * Times are written in UTC; lines are folded at 75 octets.
+ */
+
+import type { ScheduledTask, Task } from "@prisma/client";
+
+const PRODID = "-//ResolutionAI//Scheduler//EN";
+
+// Longest line before folding, in octets
+const MAX_LINE_OCTETS = 75;
+
+export type FeedSession = ScheduledTask & {
+  task: Pick<Task, "name" | "type" | "category">;
+  assignedTo?: { name: string | null } | null;
+};
+
+// iCalendar UTC date-time: 20260101T090000Z
+export function toICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function escapeICal(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Split a content line into 75-octet pieces, continued with a leading space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const char of line) {
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      pieces.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  pieces.push(current);
+  return pieces.join("\r\n ");
+}
+
+function buildEvent(session: FeedSession, options: { showAssignee: boolean; now: Date }): string[] {
+  const { task } = session;
+  const summary = options.showAssignee && session.assignedTo?.name
+    ? `${session.assignedTo.name}: ${task.name}`
+    : task.name;
+  const categories = [task.type === "household" ? "Household" : "Resolution", task.category]
+    .filter((c): c is string => !!c)
+    .map(escapeICal);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${session.id}@resolutionai`,
+    `DTSTAMP:${toICalDate(options.now)}`,
+    `DTSTART:${toICalDate(session.startTime)}`,
+    `DTEND:${toICalDate(session.endTime)}`,
+    `SEQUENCE:${session.sequence}`,
+    `LAST-MODIFIED:${toICalDate(session.movedAt ?? session.createdAt)}`,
+    `SUMMARY:${escapeICal(session.status === "completed" ? `✓ ${summary}` : summary)}`,
+    ...(session.aiReasoning ? [`DESCRIPTION:${escapeICal(session.aiReasoning)}`] : []),
+    `CATEGORIES:${categories.join(",")}`,
+    "STATUS:CONFIRMED",
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * A VCALENDAR of sessions, for a feed named `name`
+ */
+export function buildICSCalendar(
+  name: string,
+  sessions: FeedSession[],
+  options: { showAssignee?: boolean; refreshMinutes?: number } = {}
+): string {
+  const now = new Date();
+  const refresh = options.refreshMinutes ?? 60;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICal(name)}`,
+    // How often subscribers should check for changes
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`,
+    ...sessions.flatMap((session) => buildEvent(session, { showAssignee: !!options.showAssignee, now })),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,190 @@
+/**
+ * Chore Rotations
+ *
+ * A household task can carry an explicit rotation instead of being handed to
+ * whoever is least loaded:
+ *
+ * - round_robin: each occurrence goes to the next person in turn ("dishes
+ *   rotate daily among three people"). The queue is rebuilt from who did
+ *   the task most recently, so it carries on across weeks and survives
+ *   manual reassignments.
+ * - weekly_alternate: one person takes every occurrence in a week, then the
+ *   next person the week after ("bins alternate weekly").
+ *
+ * With skipOnVacation, a member on vacation (UserVacation) is passed over
+ * and keeps their place at the front of the queue, so they pick up the next
+ * turn when they're back.
+ *
+ * Dates are "YYYY-MM-DD" strings on the family's clock, as used by the
+ * schedulers.
+ */
+
+import prisma from "./prisma";
+import { differenceInCalendarWeeks, format, parseISO } from "date-fns";
+
+export const ROTATION_POLICIES = ["round_robin", "weekly_alternate"] as const;
+export type RotationPolicy = (typeof ROTATION_POLICIES)[number];
+
+export interface RotationPlan {
+  taskId: string;
+  policy: RotationPolicy;
+  memberIds: string[]; // Rotation order (current family members only)
+  queue: string[]; // Round robin: whose turn is next, least recently served first
+  anchor: Date; // Weekly alternate: the week memberIds[0] is on
+  skipOnVacation: boolean;
+  vacations: { userId: string; start: string; end: string }[];
+}
+
+export interface RotationTurn {
+  userId: string;
+  coveringFor: string | null; // Whose turn it was, when they're on vacation
+}
+
+/**
+ * Load the rotations of the given tasks, with each member's last turn and
+ * any vacations in the planning range
+ */
+export async function loadRotationPlans(
+  taskIds: string[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<Map<string, RotationPlan>> {
+  const plans = new Map<string, RotationPlan>();
+  if (taskIds.length === 0) return plans;
+
+  const rotations = await prisma.taskRotation.findMany({
+    where: { taskId: { in: taskIds } },
+    include: { family: { select: { members: { select: { userId: true } } } } },
+  });
+  if (rotations.length === 0) return plans;
+
+  const [lastTurns, vacations] = await Promise.all([
+    // Most recent occurrence each member has had (or has booked this week)
+    prisma.scheduledTask.groupBy({
+      by: ["taskId", "assignedToUserId"],
+      where: {
+        taskId: { in: rotations.map((r) => r.taskId) },
+        scheduledDate: { lte: rangeEnd },
+        status: { not: "skipped" },
+      },
+      _max: { scheduledDate: true },
+    }),
+    prisma.userVacation.findMany({
+      where: {
+        userId: { in: rotations.flatMap((r) => r.memberIds) },
+        startDate: { lte: rangeEnd },
+        endDate: { gte: rangeStart },
+      },
+    }),
+  ]);
+
+  for (const rotation of rotations) {
+    const familyUserIds = rotation.family.members.map((m) => m.userId);
+    const memberIds = rotation.memberIds.filter((id) => familyUserIds.includes(id));
+    if (memberIds.length === 0) continue;
+
+    const lastTurnAt = (userId: string) =>
+      lastTurns.find((t) => t.taskId === rotation.taskId && t.assignedToUserId === userId)?._max.scheduledDate?.getTime() ?? -1;
+
+    plans.set(rotation.taskId, {
+      taskId: rotation.taskId,
+      policy: rotation.policy === "weekly_alternate" ? "weekly_alternate" : "round_robin",
+      memberIds,
+      // Never-served members first (in rotation order), then least recently served
+      queue: [...memberIds].sort((a, b) => lastTurnAt(a) - lastTurnAt(b) || memberIds.indexOf(a) - memberIds.indexOf(b)),
+      anchor: rotation.startDate,
+      skipOnVacation: rotation.skipOnVacation,
+      vacations: vacations
+        .filter((v) => memberIds.includes(v.userId))
+        .map((v) => ({ userId: v.userId, start: format(v.startDate, "yyyy-MM-dd"), end: format(v.endDate, "yyyy-MM-dd") })),
+    });
+  }
+
+  return plans;
+}
+
+export function isOnVacation(plan: RotationPlan, userId: string, date: string): boolean {
+  return plan.vacations.some((v) => v.userId === userId && v.start <= date && date <= v.end);
+}
+
+/**
+ * Whose week it is under a weekly_alternate rotation
+ */
+export function getWeeklyRotationMember(plan: RotationPlan, date: string): string {
+  const weeks = differenceInCalendarWeeks(parseISO(date), plan.anchor, { weekStartsOn: 1 });
+  const n = plan.memberIds.length;
+  return plan.memberIds[((weeks % n) + n) % n];
+}
+
+/**
+ * Assign a turn to each occurrence date (in the order given). Occurrences are
+ * handed out in date order; null means everyone in the rotation is away.
+ */
+export function assignRotationTurns(plan: RotationPlan, dates: string[]): (RotationTurn | null)[] {
+  const queue = [...plan.queue];
+  const turns: (RotationTurn | null)[] = new Array(dates.length).fill(null);
+  const available = (userId: string, date: string) => !plan.skipOnVacation || !isOnVacation(plan, userId, date);
+
+  const order = dates.map((date, i) => ({ date, i })).sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const { date, i } of order) {
+    if (plan.policy === "weekly_alternate") {
+      const owner = getWeeklyRotationMember(plan, date);
+      if (available(owner, date)) {
+        turns[i] = { userId: owner, coveringFor: null };
+        continue;
+      }
+      // Next person in the rotation covers the day
+      const start = plan.memberIds.indexOf(owner);
+      const cover = plan.memberIds
+        .map((_, k) => plan.memberIds[(start + 1 + k) % plan.memberIds.length])
+        .find((id) => id !== owner && available(id, date));
+      turns[i] = cover ? { userId: cover, coveringFor: owner } : null;
+      continue;
+    }
+
+    // Round robin: first available member in the queue takes the turn and
+    // moves to the back; anyone skipped keeps their place at the front
+    const index = queue.findIndex((id) => available(id, date));
+    if (index === -1) continue;
+    const userId = queue[index];
+    turns[i] = { userId, coveringFor: index > 0 ? queue[0] : null };
+    queue.splice(index, 1);
+    queue.push(userId);
+  }
+
+  return turns;
+}
+
+/**
+ * Rotation turns for scheduled items, keyed by item. Items of tasks without
+ * a rotation are left out.
+ */
+export function getRotationTurns<T extends { taskId: string }>(
+  items: T[],
+  plans: Map<string, RotationPlan>,
+  getDate: (item: T) => string
+): Map<T, RotationTurn | null> {
+  const turns = new Map<T, RotationTurn | null>();
+
+  plans.forEach((plan, taskId) => {
+    const taskItems = items.filter((item) => item.taskId === taskId);
+    const assigned = assignRotationTurns(plan, taskItems.map(getDate));
+    taskItems.forEach((item, i) => turns.set(item, assigned[i]));
+  });
+
+  return turns;
+}
+
+/**
+ * Plain-language description of a rotation for AI prompts and the UI
+ */
+export function describeRotation(plan: RotationPlan, nameOf: (userId: string) => string, weekStart: Date): string {
+  const vacationNote = plan.skipOnVacation ? ", skipping anyone on vacation" : "";
+
+  if (plan.policy === "weekly_alternate") {
+    const owner = getWeeklyRotationMember(plan, format(weekStart, "yyyy-MM-dd"));
+    return `Weekly rotation between ${plan.memberIds.map(nameOf).join(", ")} - ${nameOf(owner)}'s week${vacationNote}`;
+  }
+  return `Round robin, one occurrence each in turn - next up: ${plan.queue.map(nameOf).join(", then ")}${vacationNote}`;
+}
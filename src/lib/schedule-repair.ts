@@ -0,0 +1,481 @@
+/**
+ * Incremental Schedule Repair
+ *
+ * When the week changes under an approved plan - a meeting lands on
+ * Wednesday evening, a vacation gets added - regenerating reshuffles the
+ * whole week. Repair moves only what broke:
+ *
+ * - A pending session that hasn't started yet is broken when it overlaps a
+ *   calendar event or blocked time (work, commute, vacation, holiday)
+ * - Completed sessions and sessions the user moved by hand are pinned: they
+ *   are never moved, and they keep their time
+ * - Each broken session moves to the first free slot that fits - later the
+ *   same day, then the following days through the end of the week - within
+ *   available hours, its fixed time or preferred window, its required or
+ *   fixed days, and the user's scheduling rules
+ * - A session with nowhere to go stays put and is reported
+ * - An outdoor session whose forecast has turned (see weather-forecast.ts)
+ *   isn't moved: a better time is proposed as a recommendation the user can
+ *   apply, once per session
+ *
+ * The user gets one notification summarizing what moved and what's proposed.
+ * Repairs run after each calendar sync and on demand.
+ */
+
+import { addDays, differenceInMinutes, endOfWeek, format, parseISO } from "date-fns";
+import prisma from "./prisma";
+import { getCalendarEvents, updateCalendarEvent } from "./calendar";
+import {
+  calculateDayAvailability,
+  describeBlockingRule,
+  describeBrokenRules,
+  findSlotWithinRules,
+  ScheduledInstance,
+  TaskInstance,
+} from "./deterministic-scheduler";
+import { getBlockedTimesForRange, getUserAvailabilityInfo, BlockedTime } from "./user-availability";
+import { getSchedulingRulesForUser } from "./scheduling-rules";
+import { resolveBlocking } from "./calendar-rules";
+import { getEnergyProfile } from "./energy";
+import { WeatherProvider, findWeatherProblem, getWeatherForecast } from "./weather-forecast";
+import { fromZonedTime, nowInTimeZone, resolveTimeZone, toZonedCalendarEvents, toZonedTime } from "./timezone";
+import type { CalendarEvent } from "@/types";
+import type { ScheduledTask, Task } from "@prisma/client";
+
+type SessionWithTask = ScheduledTask & { task: Task };
+
+// A session on the user's clock
+interface Placement {
+  session: SessionWithTask;
+  start: Date;
+  end: Date;
+}
+
+export interface RepairMove {
+  scheduledTaskId: string;
+  taskName: string;
+  from: { start: Date; end: Date };
+  to: { start: Date; end: Date };
+  reason: string; // What it was in the way of
+}
+
+export interface RepairIssue {
+  scheduledTaskId: string;
+  taskName: string;
+  start: Date;
+  reason: string;
+}
+
+export interface RepairResult {
+  checked: number;
+  moved: RepairMove[];
+  unresolved: RepairIssue[]; // Broken, but no free slot left this week
+  pinned: RepairIssue[]; // Broken, but moved by hand so left alone
+  proposed: RepairMove[]; // Outdoor sessions the forecast turned against, with a better time
+}
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Event start/end on the wall clock; all-day events cover the whole day
+ */
+function getEventInterval(event: CalendarEvent): { start: Date; end: Date } {
+  const toDate = (time: CalendarEvent["start"], isEnd: boolean): Date => {
+    if (typeof time === "string") return parseISO(time);
+    if (time instanceof Date) return time;
+    if (time.dateTime) return parseISO(time.dateTime);
+    return isEnd ? addDays(parseISO(time.date!), 1) : parseISO(time.date!);
+  };
+  return { start: toDate(event.start, false), end: toDate(event.end, true) };
+}
+
+/**
+ * What a placement collides with, or null when it's clear
+ */
+function findCollision(
+  placement: { start: Date; end: Date },
+  events: CalendarEvent[],
+  blockedTimes: BlockedTime[]
+): string | null {
+  // Only busy events force a move - free and tentative ones can share the time
+  const event = events.find((e) => {
+    if (resolveBlocking(e) !== "busy") return false;
+    const { start, end } = getEventInterval(e);
+    return placement.start < end && placement.end > start;
+  });
+  if (event) return `overlaps "${event.summary || "a calendar event"}"`;
+
+  const blocked = blockedTimes.find((b) => placement.start < b.end && placement.end > b.start);
+  if (blocked) return `overlaps ${blocked.reason.toLowerCase()}`;
+
+  return null;
+}
+
+function toTaskInstance(session: SessionWithTask, day: Date): TaskInstance {
+  return {
+    taskId: session.taskId,
+    taskName: session.task.name,
+    taskType: session.task.type,
+    duration: differenceInMinutes(session.endTime, session.startTime),
+    priority: session.task.priority,
+    category: session.task.category,
+    instanceNumber: 1,
+    totalInstances: 1,
+    assignedDay: format(day, "yyyy-MM-dd"),
+    dayName: format(day, "EEEE"),
+    fixedTime: session.task.fixedTime,
+    preferredTimeStart: session.task.preferredTimeStart,
+    preferredTimeEnd: session.task.preferredTimeEnd,
+    dependencies: [],
+    dependencyDepth: 0,
+    originalTask: session.task,
+  };
+}
+
+function toScheduledInstance(placement: Placement): ScheduledInstance {
+  return {
+    taskInstance: toTaskInstance(placement.session, placement.start),
+    startTime: format(placement.start, "HH:mm"),
+    endTime: format(placement.end, "HH:mm"),
+    reasoning: "",
+    isConflict: false,
+  };
+}
+
+/**
+ * Days a session may move to: its own day onwards, limited to the task's
+ * fixed or required days, skipping days that already have a session of the task
+ */
+function getCandidateDays(placement: Placement, placements: Placement[], weekEnd: Date): Date[] {
+  const task = placement.session.task;
+  const allowedDays = task.schedulingMode === "fixed" && task.fixedDays.length > 0
+    ? task.fixedDays
+    : task.requiredDays;
+  const originalDay = format(placement.start, "yyyy-MM-dd");
+
+  const days: Date[] = [];
+  for (let day = new Date(placement.start); day <= weekEnd; day = addDays(day, 1)) {
+    const dateStr = format(day, "yyyy-MM-dd");
+    if (allowedDays.length > 0 && !allowedDays.includes(DAY_NAMES[day.getDay()])) continue;
+    if (
+      dateStr !== originalDay &&
+      placements.some((p) => p.session.taskId === task.id && format(p.start, "yyyy-MM-dd") === dateStr)
+    ) continue;
+    days.push(new Date(dateStr + "T00:00:00"));
+  }
+  return days;
+}
+
+/**
+ * Find and move the user's broken sessions for the rest of this week.
+ * With dryRun nothing is saved; with notify the user is told what changed.
+ * The forecast comes from weatherProvider (the default provider if unset).
+ */
+export async function repairSchedule(
+  userId: string,
+  options: { dryRun?: boolean; notify?: boolean; weatherProvider?: WeatherProvider } = {}
+): Promise<RepairResult> {
+  const { dryRun = false, notify = false, weatherProvider } = options;
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } });
+  const timeZone = resolveTimeZone(user?.timezone);
+  const now = nowInTimeZone(timeZone);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const weekEnd = endOfWeek(today, { weekStartsOn: 1 });
+
+  const sessions = await prisma.scheduledTask.findMany({
+    where: {
+      assignedToUserId: userId,
+      scheduledDate: { gte: today, lte: weekEnd },
+      status: { not: "skipped" },
+    },
+    include: { task: true },
+    orderBy: { startTime: "asc" },
+  });
+
+  const result: RepairResult = { checked: 0, moved: [], unresolved: [], pinned: [], proposed: [] };
+  if (sessions.length === 0) return result;
+
+  const [availabilityInfo, blockedTimes, rules, energy, weather] = await Promise.all([
+    getUserAvailabilityInfo(userId),
+    getBlockedTimesForRange(userId, today, weekEnd),
+    getSchedulingRulesForUser(userId),
+    getEnergyProfile(userId),
+    getWeatherForecast(userId, sessions.map((s) => s.task), today, weekEnd, timeZone, weatherProvider),
+  ]);
+
+  let rawEvents: CalendarEvent[] = [];
+  try {
+    rawEvents = await getCalendarEvents(userId, fromZonedTime(today, timeZone), fromZonedTime(weekEnd, timeZone));
+  } catch {
+    console.log(`[repairSchedule] Calendar not connected for user ${userId}`);
+  }
+
+  // Our own sessions show up on the calendar too
+  const ownEventIds = new Set(
+    sessions.flatMap((s) => [s.calendarEventId, s.workCalendarEventId]).filter((id): id is string => !!id)
+  );
+  const events = toZonedCalendarEvents(rawEvents.filter((e) => !ownEventIds.has(e.id)), timeZone);
+
+  const placements: Placement[] = sessions.map((session) => ({
+    session,
+    start: toZonedTime(session.startTime, timeZone),
+    end: toZonedTime(session.endTime, timeZone),
+  }));
+
+  // Broken sessions, most important first
+  const broken: { placement: Placement; reason: string; weatherOnly: boolean }[] = [];
+  for (const placement of placements) {
+    if (placement.session.status !== "pending" || placement.start < now) continue;
+    result.checked++;
+
+    const reason = findCollision(placement, events, blockedTimes);
+    if (!reason) {
+      const minutes = (date: Date) => date.getHours() * 60 + date.getMinutes();
+      const problem = weather && findWeatherProblem(
+        placement.session.task,
+        format(placement.start, "yyyy-MM-dd"),
+        minutes(placement.start),
+        minutes(placement.end),
+        weather
+      );
+      if (problem) broken.push({ placement, reason: `clashes with the forecast (${problem})`, weatherOnly: true });
+      continue;
+    }
+
+    if (placement.session.wasManuallyMoved) {
+      result.pinned.push({
+        scheduledTaskId: placement.session.id,
+        taskName: placement.session.task.name,
+        start: placement.session.startTime,
+        reason,
+      });
+    } else {
+      broken.push({ placement, reason, weatherOnly: false });
+    }
+  }
+  broken.sort((a, b) => a.placement.session.task.priority - b.placement.session.task.priority);
+
+  const dayStart = availabilityInfo.availableTimeStart;
+  const dayEnd = availabilityInfo.availableTimeEnd;
+
+  for (const { placement, reason, weatherOnly } of broken) {
+    const others = placements.filter((p) => p !== placement);
+    let slot: { startTime: string; endTime: string } | null = null;
+    let slotDay: Date | null = null;
+    let brokenRulesNote = "";
+    let blockingReason: string | null = null;
+
+    for (const day of getCandidateDays(placement, others, weekEnd)) {
+      const dateStr = format(day, "yyyy-MM-dd");
+      const instance = toTaskInstance(placement.session, day);
+      const sameDay = others.filter((p) => format(p.start, "yyyy-MM-dd") === dateStr).map(toScheduledInstance);
+      const availability = calculateDayAvailability(day, events, blockedTimes, sameDay, dayStart, dayEnd);
+
+      const found = findSlotWithinRules(
+        availability,
+        instance,
+        rules,
+        sameDay,
+        dateStr === format(today, "yyyy-MM-dd") ? { earliestStart: now, latestStart: null } : undefined,
+        energy,
+        weather
+      );
+      if (found.slot) {
+        slot = found.slot;
+        slotDay = day;
+        brokenRulesNote = describeBrokenRules(found.brokenRules);
+        break;
+      }
+      if (found.blockingRule && !blockingReason) {
+        blockingReason = describeBlockingRule(found.blockingRule, instance);
+      }
+      if (found.blockingWeather && !blockingReason) {
+        blockingReason = found.blockingWeather;
+      }
+    }
+
+    if (!slot || !slotDay) {
+      result.unresolved.push({
+        scheduledTaskId: placement.session.id,
+        taskName: placement.session.task.name,
+        start: placement.session.startTime,
+        reason: blockingReason ? `${reason}; ${blockingReason}` : `${reason}; no free slot left this week`,
+      });
+      continue;
+    }
+
+    const dateStr = format(slotDay, "yyyy-MM-dd");
+    const newStart = new Date(`${dateStr}T${slot.startTime}:00`);
+    const newEnd = new Date(`${dateStr}T${slot.endTime}:00`);
+    // A forecast can turn again, so the user decides
+    (weatherOnly ? result.proposed : result.moved).push({
+      scheduledTaskId: placement.session.id,
+      taskName: placement.session.task.name,
+      from: { start: placement.session.startTime, end: placement.session.endTime },
+      to: { start: fromZonedTime(newStart, timeZone), end: fromZonedTime(newEnd, timeZone) },
+      reason: reason + brokenRulesNote,
+    });
+
+    // Later repairs see the session in its new place
+    if (!weatherOnly) {
+      placement.start = newStart;
+      placement.end = newEnd;
+    }
+  }
+
+  console.log(`[repairSchedule] ${userId}: ${result.checked} checked, ${result.moved.length} moved, ${result.proposed.length} proposed, ${result.unresolved.length} unresolved, ${result.pinned.length} pinned${dryRun ? " (dry run)" : ""}`);
+
+  if (dryRun) return result;
+
+  for (const move of result.moved) {
+    await moveScheduledSession(userId, move.scheduledTaskId, move.to, `Moved because the original time ${move.reason}.`);
+  }
+  const newProposals = await proposeWeatherMoves(userId, result.proposed, sessions, timeZone);
+
+  if (notify) {
+    await notifyRepair(userId, result, newProposals, timeZone);
+  }
+
+  return result;
+}
+
+/**
+ * Move one of a user's sessions, keeping its calendar event in step.
+ * False when the session isn't theirs.
+ */
+export async function moveScheduledSession(
+  userId: string,
+  scheduledTaskId: string,
+  to: { start: Date; end: Date },
+  reasoning: string
+): Promise<boolean> {
+  const [session, user] = await Promise.all([
+    prisma.scheduledTask.findFirst({ where: { id: scheduledTaskId, assignedToUserId: userId } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } }),
+  ]);
+  if (!session) return false;
+
+  const zonedStart = toZonedTime(to.start, resolveTimeZone(user?.timezone));
+  await prisma.scheduledTask.update({
+    where: { id: session.id },
+    data: {
+      scheduledDate: new Date(format(zonedStart, "yyyy-MM-dd") + "T00:00:00"),
+      startTime: to.start,
+      endTime: to.end,
+      aiReasoning: reasoning,
+      sequence: { increment: 1 },
+    },
+  });
+
+  if (session.calendarEventId) {
+    try {
+      await updateCalendarEvent(userId, session.calendarEventId, to.start, to.end, session.calendarProvider);
+    } catch (error) {
+      console.log("[moveScheduledSession] Could not update calendar event:", error);
+    }
+  }
+  return true;
+}
+
+/**
+ * Recommend each weather move the user hasn't already been offered; they
+ * expire when the session would have started. Returns the new ones.
+ */
+async function proposeWeatherMoves(
+  userId: string,
+  proposals: RepairMove[],
+  sessions: SessionWithTask[],
+  timeZone: string
+): Promise<RepairMove[]> {
+  if (proposals.length === 0) return [];
+
+  const pending = await prisma.aIRecommendation.findMany({
+    where: { userId, type: "weather_reschedule", status: "pending" },
+    select: { suggestedChange: true },
+  });
+  const offered = new Set(
+    pending.map((r) => (r.suggestedChange as { scheduledTaskId?: string } | null)?.scheduledTaskId)
+  );
+
+  const fresh = proposals.filter((p) => !offered.has(p.scheduledTaskId));
+  for (const proposal of fresh) {
+    const session = sessions.find((s) => s.id === proposal.scheduledTaskId)!;
+    await prisma.aIRecommendation.create({
+      data: {
+        userId,
+        taskId: session.taskId,
+        type: "weather_reschedule",
+        reason: `The forecast has turned: the current time ${proposal.reason}`,
+        suggestion: `Move it to ${format(toZonedTime(proposal.to.start, timeZone), "EEEE h:mm a")}`,
+        suggestedChange: {
+          scheduledTaskId: proposal.scheduledTaskId,
+          startTime: proposal.to.start.toISOString(),
+          endTime: proposal.to.end.toISOString(),
+        },
+        priority: "high",
+        displayLocation: "weekly_plan",
+        status: "pending",
+        expiresAt: session.startTime,
+      },
+    });
+  }
+  return fresh;
+}
+
+/**
+ * One notification for what moved and anything that couldn't be. Sessions
+ * already reported as stuck aren't reported again on every sync.
+ */
+async function notifyRepair(
+  userId: string,
+  result: RepairResult,
+  newProposals: RepairMove[],
+  timeZone: string
+): Promise<void> {
+  const earlier = await prisma.notification.findMany({
+    where: {
+      userId,
+      type: "conflict",
+      metadata: { path: ["source"], equals: "schedule_repair" },
+      createdAt: { gte: addDays(new Date(), -7) },
+    },
+    select: { metadata: true },
+  });
+  const reported = new Set(
+    earlier.flatMap((n) => ((n.metadata as { unresolvedIds?: string[] } | null)?.unresolvedIds) || [])
+  );
+  const newlyStuck = result.unresolved.filter((u) => !reported.has(u.scheduledTaskId));
+
+  if (result.moved.length === 0 && newlyStuck.length === 0 && newProposals.length === 0) return;
+
+  const when = (date: Date) => format(toZonedTime(date, timeZone), "EEE h:mm a");
+  const lines = [
+    ...result.moved.map((m) => `Moved ${m.taskName} from ${when(m.from.start)} to ${when(m.to.start)} - it ${m.reason}`),
+    ...newlyStuck.map((u) => `Couldn't find a new time for ${u.taskName} (${when(u.start)}): it ${u.reason}`),
+    ...newProposals.map((p) => `${p.taskName} at ${when(p.from.start)} ${p.reason} - ${when(p.to.start)} looks better`),
+  ];
+
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: "conflict",
+      title: result.moved.length > 0
+        ? `${result.moved.length} task${result.moved.length === 1 ? "" : "s"} moved around your calendar`
+        : newlyStuck.length > 0
+        ? "Some tasks clash with your calendar"
+        : "The forecast has changed for an outdoor task",
+      message: lines.join("\n"),
+      actionUrl: result.moved.length === 0 && newlyStuck.length === 0 ? "/weekly-plan" : "/calendar",
+      actionLabel: "Review Schedule",
+      priority: newlyStuck.length > 0 ? "high" : "normal",
+      scheduledFor: new Date(),
+      metadata: {
+        source: "schedule_repair",
+        movedIds: result.moved.map((m) => m.scheduledTaskId),
+        unresolvedIds: result.unresolved.map((u) => u.scheduledTaskId),
+        proposedIds: newProposals.map((p) => p.scheduledTaskId),
+      },
+    },
+  });
+}
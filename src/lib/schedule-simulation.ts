@@ -0,0 +1,415 @@
+/**
+ * What-If Schedule Simulation
+ *
+ * "What if we add a Saturday deep clean?", "What if I'm away Thursday
+ * evening?" - runs the schedulers against hypothetical task and availability
+ * changes and reports how the rest of the week would change. Nothing is
+ * saved.
+ *
+ * The scenario is replanned from today with the deterministic fallback (no
+ * AI), from the current calendars and past days, and compared with the
+ * sessions stored for the rest of the week - the plan as it stands:
+ *
+ * - added / dropped: sessions only one of the two plans has
+ * - moved: sessions of a task at a different day, time or assignee
+ * - new conflicts: what the scenario can't fit (the stored plan has none)
+ * - fairness delta: change in the family fairness score of the planned
+ *   Life Admin (families only)
+ * - free time: change in unscheduled minutes within available hours
+ *
+ * Sessions from today on are replanned, so their calendar events are
+ * ignored rather than counted as busy time.
+ */
+
+import { z } from "zod";
+import { addDays, differenceInMinutes, format } from "date-fns";
+import prisma from "./prisma";
+import { calculateDayAvailability } from "./deterministic-scheduler";
+import { computeMemberLoads, resolveTargetShares, scoreFairness, ShareMember } from "./fairness";
+import { formatInTimeZone, toZonedCalendarEvents } from "./timezone";
+import { isOneOffTask } from "./task-deadlines";
+import { isSplittableTask } from "./task-chunks";
+import { DEMAND_LEVELS } from "./energy";
+import { OUTDOOR_ACTIVITIES, weatherLimitsSchema } from "./weather-forecast";
+import type { BlockedTime, UserAvailabilityInfo } from "./user-availability";
+import type { AIScheduleResponse, CalendarEvent, ScheduleRecommendation } from "@/types";
+import type { Task } from "@prisma/client";
+
+// Hypothetical tasks get IDs like "simulated-1"
+export const SIMULATED_TASK_PREFIX = "simulated-";
+
+const DAYS_OF_WEEK = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"] as const;
+const timeOfDay = z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/);
+
+const taskFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  type: z.enum(["resolution", "household"]),
+  duration: z.number().int().min(5).max(24 * 60),
+  category: z.string().max(50).nullable(),
+  priority: z.number().int().min(1).max(4),
+  schedulingMode: z.enum(["fixed", "flexible"]),
+  fixedDays: z.array(z.enum(DAYS_OF_WEEK)),
+  fixedTime: timeOfDay.nullable(),
+  frequency: z.number().int().min(1).max(14),
+  frequencyPeriod: z.enum(["day", "week"]),
+  requiredDays: z.array(z.enum(DAYS_OF_WEEK)),
+  preferredDays: z.array(z.enum(DAYS_OF_WEEK)),
+  preferredTimeStart: timeOfDay.nullable(),
+  preferredTimeEnd: timeOfDay.nullable(),
+  effortScore: z.number().int().min(1).max(5).nullable(),
+  mentalLoadMinutes: z.number().int().min(0).max(240).nullable(),
+  demandLevel: z.enum(DEMAND_LEVELS).nullable(),
+  outdoorActivity: z.enum(OUTDOOR_ACTIVITIES).nullable(),
+  weatherLimits: weatherLimitsSchema.nullable(),
+});
+
+export const simulationChangesSchema = z.object({
+  addTasks: z
+    .array(
+      taskFieldsSchema.partial().required({ name: true, type: true, duration: true }).extend({
+        userId: z.string().optional(), // Whose task it is (family members only); defaults to the requester
+        familyTask: z.boolean().optional(), // A shared family task rather than a personal one
+      })
+    )
+    .max(20)
+    .default([]),
+  updateTasks: z.array(taskFieldsSchema.partial().extend({ id: z.string() })).max(50).default([]),
+  removeTaskIds: z.array(z.string()).max(100).default([]),
+  availability: z
+    .array(
+      z.object({
+        userId: z.string().optional(), // Defaults to the requester
+        availableTimeStart: z.number().int().min(0).max(23).optional(),
+        availableTimeEnd: z.number().int().min(1).max(24).optional(),
+        blockTimes: z
+          .array(
+            z.object({
+              date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+              start: timeOfDay,
+              end: timeOfDay,
+              reason: z.string().max(100).optional(),
+            })
+          )
+          .max(50)
+          .default([]),
+      })
+    )
+    .max(10)
+    .default([]),
+});
+
+export type SimulationChanges = z.infer<typeof simulationChangesSchema>;
+
+// A member's scheduling inputs, as passed to the schedulers
+export interface SimulationMember {
+  userId: string;
+  calendarEvents: CalendarEvent[];
+  blockedTimes?: BlockedTime[];
+  availabilityInfo?: UserAvailabilityInfo;
+}
+
+export interface SessionMove {
+  taskId: string;
+  taskName: string;
+  from: Pick<ScheduleRecommendation, "date" | "startTime" | "endTime" | "assignedToUserId">;
+  to: Pick<ScheduleRecommendation, "date" | "startTime" | "endTime" | "assignedToUserId">;
+}
+
+export interface ScheduleDiff {
+  added: ScheduleRecommendation[];
+  moved: SessionMove[];
+  dropped: ScheduleRecommendation[];
+  unchanged: number;
+  newConflicts: AIScheduleResponse["conflicts"];
+  resolvedConflicts: AIScheduleResponse["conflicts"];
+}
+
+/**
+ * The week's tasks with the hypothetical changes applied. Unknown IDs in
+ * updates and removals are ignored.
+ */
+export function applyTaskChanges(
+  tasks: Task[],
+  changes: SimulationChanges,
+  owner: { userId: string; familyId: string | null }
+): Task[] {
+  const removed = new Set(changes.removeTaskIds);
+  const now = new Date();
+
+  const updated = tasks
+    .filter((task) => !removed.has(task.id))
+    .map((task) => {
+      const update = changes.updateTasks.find((u) => u.id === task.id);
+      return update ? { ...task, ...update } : task;
+    });
+
+  const added: Task[] = changes.addTasks.map(({ userId, familyTask, ...fields }, index) => ({
+    id: `${SIMULATED_TASK_PREFIX}${index + 1}`,
+    userId: familyTask && owner.familyId ? null : userId || owner.userId,
+    familyId: familyTask && owner.familyId ? owner.familyId : null,
+    name: fields.name,
+    type: fields.type,
+    duration: fields.duration,
+    isFlexible: true,
+    category: fields.category ?? null,
+    priority: fields.priority ?? 3,
+    defaultAssigneeId: null,
+    forDependentId: null,
+    eligibleMemberTypes: [],
+    effortScore: fields.effortScore ?? null,
+    mentalLoadMinutes: fields.mentalLoadMinutes ?? null,
+    demandLevel: fields.demandLevel ?? null,
+    outdoorActivity: fields.outdoorActivity ?? null,
+    weatherLimits: fields.weatherLimits ?? null,
+    createdAt: now,
+    updatedAt: now,
+    schedulingMode: fields.schedulingMode ?? (fields.fixedTime ? "fixed" : "flexible"),
+    fixedDays: fields.fixedDays ?? [],
+    fixedTime: fields.fixedTime ?? null,
+    frequency: fields.frequency ?? 1,
+    frequencyPeriod: fields.frequencyPeriod ?? "week",
+    requiredDays: fields.requiredDays ?? [],
+    preferredDays: fields.preferredDays ?? [],
+    preferredTimeStart: fields.preferredTimeStart ?? null,
+    preferredTimeEnd: fields.preferredTimeEnd ?? null,
+    minDuration: null,
+    maxDuration: null,
+    recurrenceRule: null,
+    recurrenceStart: null,
+    dueDate: null,
+    estimatedEffort: null,
+    isSplittable: false,
+    minChunkMinutes: null,
+    maxChunkMinutes: null,
+    maxChunksPerDay: null,
+    locationType: null,
+  }));
+
+  return [...updated, ...added];
+}
+
+/**
+ * A member's scheduling inputs with the hypothetical availability applied:
+ * changed available hours and extra blocked time
+ */
+export function applyAvailabilityChanges<M extends SimulationMember>(
+  member: M,
+  changes: SimulationChanges,
+  requestingUserId: string
+): M {
+  const change = changes.availability.find((a) => (a.userId || requestingUserId) === member.userId);
+  if (!change) return member;
+
+  const extraBlocks: BlockedTime[] = change.blockTimes.map((b) => {
+    const start = new Date(`${b.date}T${b.start.padStart(5, "0")}:00`);
+    const end = new Date(`${b.date}T${b.end.padStart(5, "0")}:00`);
+    return { start, end: end > start ? end : addDays(end, 1), reason: b.reason || "Unavailable (what-if)", type: "vacation" };
+  });
+
+  return {
+    ...member,
+    blockedTimes: [...(member.blockedTimes || []), ...extraBlocks],
+    availabilityInfo: member.availabilityInfo && {
+      ...member.availabilityInfo,
+      availableTimeStart: change.availableTimeStart ?? member.availabilityInfo.availableTimeStart,
+      availableTimeEnd: change.availableTimeEnd ?? member.availabilityInfo.availableTimeEnd,
+    },
+  };
+}
+
+/**
+ * What's settled before the replan starts: sessions on the week's past days
+ * (and, for one-off tasks, any earlier week), in the shape the schedulers
+ * take as existingScheduledByTask
+ */
+export async function getSettledScheduledByTask(
+  tasks: Task[],
+  weekStart: Date,
+  replanFrom: Date
+): Promise<Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>> {
+  const result = new Map<string, { count: number; dates: Set<string>; bookedMinutes?: number }>();
+  const realTasks = tasks.filter((t) => !t.id.startsWith(SIMULATED_TASK_PREFIX));
+  if (realTasks.length === 0) return result;
+
+  const sessions = await prisma.scheduledTask.findMany({
+    where: {
+      taskId: { in: realTasks.map((t) => t.id) },
+      scheduledDate: { lt: replanFrom },
+      status: { not: "skipped" },
+    },
+    select: { taskId: true, scheduledDate: true, startTime: true, endTime: true },
+  });
+
+  for (const session of sessions) {
+    const task = realTasks.find((t) => t.id === session.taskId)!;
+    const thisWeek = session.scheduledDate >= weekStart;
+    if (!thisWeek && !isOneOffTask(task)) continue;
+
+    const entry = result.get(session.taskId) || { count: 0, dates: new Set<string>() };
+    if (thisWeek) {
+      entry.count++;
+      entry.dates.add(format(session.scheduledDate, "yyyy-MM-dd"));
+    }
+    if (isOneOffTask(task) || isSplittableTask(task)) {
+      entry.bookedMinutes = (entry.bookedMinutes || 0) + differenceInMinutes(session.endTime, session.startTime);
+    }
+    result.set(session.taskId, entry);
+  }
+
+  return result;
+}
+
+/**
+ * Calendar events for sessions that are about to be replanned - they would
+ * otherwise block the very time they're being replanned into
+ */
+export async function getReplannedEventIds(userIds: string[], replanFrom: Date, weekEnd: Date): Promise<Set<string>> {
+  const sessions = await prisma.scheduledTask.findMany({
+    where: {
+      assignedToUserId: { in: userIds },
+      scheduledDate: { gte: replanFrom, lte: weekEnd },
+      calendarEventId: { not: null },
+    },
+    select: { calendarEventId: true },
+  });
+
+  return new Set(sessions.map((s) => s.calendarEventId!));
+}
+
+/**
+ * The plan as it stands for the replanned days: the stored sessions from
+ * replanFrom to weekEnd, on the user's clock, in the schedulers' shape
+ */
+export async function getStoredSchedule(
+  userIds: string[],
+  replanFrom: Date,
+  weekEnd: Date,
+  timeZone: string
+): Promise<AIScheduleResponse> {
+  const sessions = await prisma.scheduledTask.findMany({
+    where: {
+      assignedToUserId: { in: userIds },
+      scheduledDate: { gte: replanFrom, lte: weekEnd },
+      status: { not: "skipped" },
+    },
+    include: { task: { select: { name: true, type: true } } },
+    orderBy: { startTime: "asc" },
+  });
+
+  return {
+    schedule: sessions.map((s) => ({
+      taskId: s.taskId,
+      taskName: s.task.name,
+      taskType: s.task.type,
+      assignedToUserId: s.assignedToUserId,
+      date: format(s.scheduledDate, "yyyy-MM-dd"),
+      startTime: formatInTimeZone(s.startTime, timeZone, "HH:mm"),
+      endTime: formatInTimeZone(s.endTime, timeZone, "HH:mm"),
+      reasoning: s.aiReasoning || "",
+    })),
+    conflicts: [],
+    summary: `${sessions.length} sessions planned`,
+  };
+}
+
+const sessionKey = (s: ScheduleRecommendation) => `${s.date} ${s.startTime.padStart(5, "0")}`;
+
+/**
+ * Session-level diff between two plans. Each task's sessions are matched in
+ * time order: identical sessions first, then the rest pair up as moves.
+ */
+export function diffSchedules(baseline: AIScheduleResponse, scenario: AIScheduleResponse): ScheduleDiff {
+  const diff: ScheduleDiff = { added: [], moved: [], dropped: [], unchanged: 0, newConflicts: [], resolvedConflicts: [] };
+  const taskIds = new Set([...baseline.schedule.map((s) => s.taskId), ...scenario.schedule.map((s) => s.taskId)]);
+
+  taskIds.forEach((taskId) => {
+    const before = baseline.schedule.filter((s) => s.taskId === taskId).sort((a, b) => sessionKey(a).localeCompare(sessionKey(b)));
+    const after = scenario.schedule.filter((s) => s.taskId === taskId).sort((a, b) => sessionKey(a).localeCompare(sessionKey(b)));
+
+    const remainingAfter = after.filter((s) => {
+      const same = before.findIndex(
+        (b) => sessionKey(b) === sessionKey(s) && b.endTime === s.endTime && b.assignedToUserId === s.assignedToUserId
+      );
+      if (same === -1) return true;
+      before.splice(same, 1);
+      diff.unchanged++;
+      return false;
+    });
+
+    const pairs = Math.min(before.length, remainingAfter.length);
+    for (let i = 0; i < pairs; i++) {
+      const from = before[i];
+      const to = remainingAfter[i];
+      diff.moved.push({
+        taskId,
+        taskName: to.taskName,
+        from: { date: from.date, startTime: from.startTime, endTime: from.endTime, assignedToUserId: from.assignedToUserId },
+        to: { date: to.date, startTime: to.startTime, endTime: to.endTime, assignedToUserId: to.assignedToUserId },
+      });
+    }
+    diff.dropped.push(...before.slice(pairs));
+    diff.added.push(...remainingAfter.slice(pairs));
+  });
+
+  const conflictKey = (c: AIScheduleResponse["conflicts"][number]) => `${c.taskId}|${c.reason}`;
+  const baselineConflicts = new Set(baseline.conflicts.map(conflictKey));
+  const scenarioConflicts = new Set(scenario.conflicts.map(conflictKey));
+  diff.newConflicts = scenario.conflicts.filter((c) => !baselineConflicts.has(conflictKey(c)));
+  diff.resolvedConflicts = baseline.conflicts.filter((c) => !scenarioConflicts.has(conflictKey(c)));
+
+  return diff;
+}
+
+/**
+ * Unscheduled minutes within each member's available hours over the given
+ * days, after calendar events, blocked time and the plan's sessions
+ */
+export function getFreeMinutes(schedule: ScheduleRecommendation[], members: SimulationMember[], days: Date[]): number {
+  let free = 0;
+
+  for (const member of members) {
+    const events = toZonedCalendarEvents(member.calendarEvents, member.availabilityInfo?.timeZone);
+    for (const day of days) {
+      const dateStr = format(day, "yyyy-MM-dd");
+      const available = calculateDayAvailability(
+        day,
+        events,
+        member.blockedTimes || [],
+        [],
+        member.availabilityInfo?.availableTimeStart ?? 6,
+        member.availabilityInfo?.availableTimeEnd ?? 22
+      ).totalMinutes;
+      const booked = schedule
+        .filter((s) => s.assignedToUserId === member.userId && s.date === dateStr)
+        .reduce((sum, s) => sum + differenceInMinutes(new Date(`${s.date}T${s.endTime}`), new Date(`${s.date}T${s.startTime}`)), 0);
+      free += Math.max(0, available - booked);
+    }
+  }
+
+  return free;
+}
+
+/**
+ * Fairness score (0-1) of the Life Admin in a plan, as the family page
+ * measures it
+ */
+export function getPlannedFairness(schedule: ScheduleRecommendation[], tasks: Task[], members: ShareMember[]): number {
+  const planned = schedule.flatMap((s) => {
+    const task = tasks.find((t) => t.id === s.taskId);
+    if (!task) return [];
+    return [{
+      assignedToUserId: s.assignedToUserId,
+      startTime: new Date(`${s.date}T${s.startTime}`),
+      endTime: new Date(`${s.date}T${s.endTime}`),
+      status: "pending",
+      task,
+      feedback: [],
+    }];
+  });
+
+  const loads = computeMemberLoads(members.map((m) => m.userId), planned);
+  const shares = resolveTargetShares(members);
+  return scoreFairness(
+    members.map((m) => ({ load: loads.get(m.userId)?.weightedLoad ?? 0, share: shares.get(m.userId) ?? 0 }))
+  ).fairnessScore;
+}
@@ -0,0 +1,570 @@
+/**
+ * Constraint Solver Scheduler
+ *
+ * Branch-and-bound alternative to the greedy placement in
+ * scheduleInstancesDeterministically(). Instead of letting each instance
+ * grab the first slot that fits, the solver searches over candidate start
+ * times in each day's DayAvailability and keeps the assignment with the
+ * highest weighted objective (priority, preferred windows, buffer adherence,
+ * coverage - every task getting at least one session).
+ *
+ * Instances that cannot be placed are reported with the constraint that
+ * forced the conflict (a blocked time, a calendar event, or other sessions
+ * occupying every candidate slot).
+ *
+ * Sessions at different saved locations are kept apart by the travel time
+ * between them when travelTimes are given.
+ */
+
+import { format, parseISO, addDays } from "date-fns";
+import { CalendarEvent } from "@/types";
+import { BlockedTime } from "./user-availability";
+import { resolveBlocking } from "./calendar-rules";
+import {
+  TaskInstance,
+  ScheduledInstance,
+  DayAvailability,
+  calculateDayAvailability,
+  getDependencyWindow,
+  describePrerequisites,
+} from "./deterministic-scheduler";
+import { TravelTimes, getTravelMinutes } from "./travel-time";
+import { fromZonedTime, toZonedTime } from "./timezone";
+
+export interface SolverObjectiveWeights {
+  priority: number; // Reward for placing an instance, scaled by task priority
+  preferredWindow: number; // Reward for landing inside the task's preferred window
+  buffer: number; // Penalty for sitting closer than bufferMinutes to other commitments
+  coverage: number; // Reward for giving every task at least one session
+}
+
+export interface SolverOptions {
+  weights?: Partial<SolverObjectiveWeights>;
+  bufferMinutes?: number;
+  stepMinutes?: number; // Granularity of candidate start times
+  maxCandidatesPerInstance?: number;
+  maxNodes?: number; // Search budget before returning the best solution found
+  travelTimes?: TravelTimes; // Minutes between task locations
+  timeZone?: string | null; // The user's; instance days are dates on their clock
+}
+
+export interface SolverResult {
+  scheduled: ScheduledInstance[];
+  score: number;
+  nodesExplored: number;
+  isOptimal: boolean; // False when the search budget ran out
+}
+
+export const DEFAULT_SOLVER_WEIGHTS: SolverObjectiveWeights = {
+  priority: 10,
+  preferredWindow: 4,
+  buffer: 3,
+  coverage: 6,
+};
+
+const DEFAULT_STEP_MINUTES = 15;
+const DEFAULT_MAX_CANDIDATES = 24;
+const DEFAULT_MAX_NODES = 50000;
+
+interface Interval {
+  start: number; // minutes from midnight
+  end: number;
+}
+
+interface Candidate extends Interval {
+  staticScore: number;
+  inPreferredWindow: boolean;
+}
+
+interface PlacedInterval extends Interval {
+  location: string | null;
+}
+
+interface PlannedInstance {
+  instance: TaskInstance;
+  key: string;
+  candidates: Candidate[];
+  maxGain: number;
+}
+
+function toMinutes(time: string): number {
+  const [hour, min] = time.split(":").map(Number);
+  return hour * 60 + min;
+}
+
+function dateToMinutes(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function minutesToTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const min = minutes % 60;
+  return `${String(hour).padStart(2, "0")}:${String(min).padStart(2, "0")}`;
+}
+
+function overlaps(a: Interval, b: Interval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Whether a candidate at `location` leaves too little time to travel to or from a placed session
+ */
+function clashes(candidate: Interval, location: string | null, placed: PlacedInterval, travelTimes?: TravelTimes): boolean {
+  return (
+    candidate.start < placed.end + getTravelMinutes(travelTimes, placed.location, location) &&
+    placed.start < candidate.end + getTravelMinutes(travelTimes, location, placed.location)
+  );
+}
+
+function dayOffsetMinutes(dateStr: string): number {
+  return Math.round(Date.parse(dateStr + "T00:00:00Z") / 60000);
+}
+
+function instanceKey(instance: TaskInstance): string {
+  return `${instance.taskId}-${instance.assignedDay}-${instance.instanceNumber}`;
+}
+
+/**
+ * Busy intervals for a day are the gaps between free slots inside the
+ * scheduling window - calendar events and blocked times already removed
+ */
+function getBusyIntervals(availability: DayAvailability, dayStart: number, dayEnd: number): Interval[] {
+  const busy: Interval[] = [];
+  let cursor = dayStart * 60;
+
+  for (const slot of availability.slots) {
+    const slotStart = dateToMinutes(slot.start);
+    if (slotStart > cursor) {
+      busy.push({ start: cursor, end: slotStart });
+    }
+    cursor = Math.max(cursor, dateToMinutes(slot.end));
+  }
+
+  if (cursor < dayEnd * 60) {
+    busy.push({ start: cursor, end: dayEnd * 60 });
+  }
+
+  return busy;
+}
+
+function buildCandidates(
+  instance: TaskInstance,
+  availability: DayAvailability,
+  weights: SolverObjectiveWeights,
+  stepMinutes: number,
+  maxCandidates: number
+): Candidate[] {
+  const candidates: Candidate[] = [];
+  const prefStart = instance.preferredTimeStart ? toMinutes(instance.preferredTimeStart) : null;
+  const prefEnd = instance.preferredTimeEnd ? toMinutes(instance.preferredTimeEnd) : null;
+
+  const scoreCandidate = (start: number): Candidate => {
+    const end = start + instance.duration;
+    const inPreferredWindow = prefStart !== null && prefEnd !== null && start >= prefStart && end <= prefEnd;
+    return {
+      start,
+      end,
+      inPreferredWindow,
+      staticScore: inPreferredWindow ? weights.preferredWindow : 0,
+    };
+  };
+
+  if (instance.fixedTime) {
+    const start = toMinutes(instance.fixedTime);
+    const end = start + instance.duration;
+    const fits = availability.slots.some(
+      s => dateToMinutes(s.start) <= start && dateToMinutes(s.end) >= end
+    );
+    return fits ? [scoreCandidate(start)] : [];
+  }
+
+  const edgeStarts = new Set<number>();
+
+  for (const slot of availability.slots) {
+    const slotStart = dateToMinutes(slot.start);
+    const slotEnd = dateToMinutes(slot.end);
+    // Align to the step grid, but always offer the exact slot start
+    const firstAligned = Math.ceil(slotStart / stepMinutes) * stepMinutes;
+    const starts = new Set<number>([slotStart]);
+    for (let start = firstAligned; start + instance.duration <= slotEnd; start += stepMinutes) {
+      starts.add(start);
+    }
+    // Snug against the end of the slot as well
+    if (slotEnd - instance.duration >= slotStart) {
+      starts.add(slotEnd - instance.duration);
+      edgeStarts.add(slotStart);
+      edgeStarts.add(slotEnd - instance.duration);
+    }
+
+    Array.from(starts)
+      .filter(start => start + instance.duration <= slotEnd)
+      .forEach(start => candidates.push(scoreCandidate(start)));
+  }
+
+  // Keep in-window candidates and the slot edges (which pack sessions
+  // tightly), then spread the rest through the day so the search has room to
+  // move around higher-priority sessions
+  candidates.sort((a, b) => b.staticScore - a.staticScore || a.start - b.start);
+  if (candidates.length <= maxCandidates) {
+    return candidates;
+  }
+
+  const isKept = (c: Candidate) => c.inPreferredWindow || edgeStarts.has(c.start);
+  const kept = candidates.filter(isKept);
+  const others = candidates.filter(c => !isKept(c));
+  const picked = kept.slice(0, maxCandidates);
+  const remaining = maxCandidates - picked.length;
+  if (remaining > 0 && others.length > 0) {
+    const stride = others.length / remaining;
+    for (let i = 0; i < remaining; i++) {
+      picked.push(others[Math.floor(i * stride)]);
+    }
+  }
+  return picked;
+}
+
+function priorityReward(instance: TaskInstance, weights: SolverObjectiveWeights): number {
+  // Priority 1 (highest) earns the most; clamp so unexpected values still score
+  return weights.priority * Math.max(1, 5 - instance.priority);
+}
+
+function violatesBuffer(candidate: Interval, neighbours: Interval[], bufferMinutes: number): boolean {
+  if (bufferMinutes <= 0) return false;
+  return neighbours.some(n => {
+    const gapBefore = candidate.start - n.end;
+    const gapAfter = n.start - candidate.end;
+    return (gapBefore >= 0 && gapBefore < bufferMinutes) || (gapAfter >= 0 && gapAfter < bufferMinutes);
+  });
+}
+
+/**
+ * Search for the assignment of instances to slots that maximizes the
+ * weighted objective. Instances are the output of expandTasksToInstances(),
+ * so days are already assigned; the solver only chooses times (or drops).
+ */
+export function solveScheduleInstances(
+  instances: TaskInstance[],
+  calendarEvents: CalendarEvent[],
+  blockedTimes: BlockedTime[],
+  dayStart: number,
+  dayEnd: number,
+  options: SolverOptions = {}
+): SolverResult {
+  const weights = { ...DEFAULT_SOLVER_WEIGHTS, ...options.weights };
+  const bufferMinutes = options.bufferMinutes ?? 0;
+  const stepMinutes = options.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const maxCandidates = options.maxCandidatesPerInstance ?? DEFAULT_MAX_CANDIDATES;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+
+  // Base availability per day (without any of the instances being placed)
+  const availabilityByDay = new Map<string, DayAvailability>();
+  const busyByDay = new Map<string, Interval[]>();
+  for (const instance of instances) {
+    if (availabilityByDay.has(instance.assignedDay)) continue;
+    // Noon of the day on the user's clock, so its date and weekday are theirs
+    const date = toZonedTime(fromZonedTime(new Date(instance.assignedDay + "T12:00:00"), options.timeZone), options.timeZone);
+    const availability = calculateDayAvailability(date, calendarEvents, blockedTimes, [], dayStart, dayEnd);
+    availabilityByDay.set(instance.assignedDay, availability);
+    busyByDay.set(instance.assignedDay, getBusyIntervals(availability, dayStart, dayEnd));
+  }
+
+  // Prerequisites before dependents; then most valuable and most constrained
+  // first, which tightens the bound early
+  const planned: PlannedInstance[] = instances
+    .map(instance => {
+      const candidates = buildCandidates(
+        instance,
+        availabilityByDay.get(instance.assignedDay)!,
+        weights,
+        stepMinutes,
+        maxCandidates
+      );
+      const bestStatic = candidates.reduce((max, c) => Math.max(max, c.staticScore), 0);
+      return {
+        instance,
+        key: instanceKey(instance),
+        candidates,
+        maxGain: candidates.length > 0 ? priorityReward(instance, weights) + bestStatic + weights.coverage : 0,
+      };
+    })
+    .sort((a, b) =>
+      a.instance.dependencyDepth - b.instance.dependencyDepth ||
+      a.instance.priority - b.instance.priority ||
+      a.candidates.length - b.candidates.length ||
+      a.instance.assignedDay.localeCompare(b.instance.assignedDay)
+    );
+
+  // Optimistic bound of what the remaining instances could still add
+  const remainingBound: number[] = new Array(planned.length + 1).fill(0);
+  for (let i = planned.length - 1; i >= 0; i--) {
+    remainingBound[i] = remainingBound[i + 1] + planned[i].maxGain;
+  }
+
+  const plannedIndex = new Map(planned.map((p, i) => [`${p.instance.taskId}#${p.instance.instanceNumber}`, i]));
+
+  // Absolute start window imposed by prerequisites in the current partial
+  // assignment, or null when a prerequisite was dropped
+  const getStartWindow = (item: PlannedInstance): { earliest: number; latest: number; sameDay: string | null } | null => {
+    const window = { earliest: -Infinity, latest: Infinity, sameDay: null as string | null };
+    for (const dep of item.instance.dependencies) {
+      const index = plannedIndex.get(`${dep.prerequisiteTaskId}#${dep.prerequisiteInstanceNumber}`);
+      if (dep.prerequisiteInstanceNumber === null || index === undefined) continue;
+      const choice = current[index];
+      if (!choice) return null;
+      const prerequisiteDay = planned[index].instance.assignedDay;
+      const prerequisiteEnd = dayOffsetMinutes(prerequisiteDay) + choice.end;
+      window.earliest = Math.max(window.earliest, prerequisiteEnd + (dep.minGapMinutes ?? 0));
+      if (dep.maxGapMinutes !== null) {
+        window.latest = Math.min(window.latest, prerequisiteEnd + dep.maxGapMinutes);
+      }
+      if (dep.sameDay) window.sameDay = prerequisiteDay;
+    }
+    return window;
+  };
+
+  const placedByDay = new Map<string, PlacedInterval[]>();
+  const placedCountByTask = new Map<string, number>();
+  const current: (Candidate | null)[] = new Array(planned.length).fill(null);
+  let best: (Candidate | null)[] = new Array(planned.length).fill(null);
+  let bestScore = -Infinity;
+  let nodesExplored = 0;
+  let budgetExhausted = false;
+
+  const search = (index: number, score: number): void => {
+    if (budgetExhausted) return;
+    nodesExplored++;
+    if (nodesExplored > maxNodes) {
+      budgetExhausted = true;
+      return;
+    }
+
+    if (index === planned.length) {
+      if (score > bestScore) {
+        bestScore = score;
+        best = [...current];
+      }
+      return;
+    }
+
+    if (score + remainingBound[index] <= bestScore) {
+      return; // Bound: cannot beat the incumbent
+    }
+
+    const { instance, candidates } = planned[index];
+    const day = instance.assignedDay;
+    const location = instance.originalTask.locationType;
+    const placed = placedByDay.get(day) || [];
+    const neighbours = [...busyByDay.get(day)!, ...placed];
+    const taskCount = placedCountByTask.get(instance.taskId) || 0;
+    const startWindow = getStartWindow(planned[index]);
+    const dayOffset = dayOffsetMinutes(day);
+
+    const choices = (startWindow && (!startWindow.sameDay || startWindow.sameDay === day) ? candidates : [])
+      .filter(c => !placed.some(p => clashes(c, location, p, options.travelTimes)))
+      .filter(c => dayOffset + c.start >= startWindow!.earliest && dayOffset + c.start <= startWindow!.latest)
+      .map(c => {
+        let gain = priorityReward(instance, weights) + c.staticScore;
+        if (violatesBuffer(c, neighbours, bufferMinutes)) gain -= weights.buffer;
+        if (taskCount === 0) gain += weights.coverage;
+        return { candidate: c, gain };
+      })
+      .sort((a, b) => b.gain - a.gain);
+
+    for (const { candidate, gain } of choices) {
+      current[index] = candidate;
+      placedByDay.set(day, [...placed, { ...candidate, location }]);
+      placedCountByTask.set(instance.taskId, taskCount + 1);
+
+      search(index + 1, score + gain);
+
+      placedByDay.set(day, placed);
+      placedCountByTask.set(instance.taskId, taskCount);
+      current[index] = null;
+      if (budgetExhausted) return;
+    }
+
+    // Branch where this instance is dropped
+    search(index + 1, score);
+  };
+
+  search(0, 0);
+
+  // Assemble results, explaining every dropped instance
+  const placements = new Map<string, Candidate>();
+  planned.forEach((p, i) => {
+    const choice = best[i];
+    if (choice) placements.set(p.key, choice);
+  });
+
+  const resultsByKey = new Map<string, ScheduledInstance>();
+  for (const instance of instances) {
+    const key = instanceKey(instance);
+    const choice = placements.get(key);
+
+    if (choice) {
+      const neighbours = [
+        ...busyByDay.get(instance.assignedDay)!,
+        ...planned
+          .filter(p => p.key !== key && p.instance.assignedDay === instance.assignedDay && placements.has(p.key))
+          .map(p => placements.get(p.key)!),
+      ];
+      resultsByKey.set(key, {
+        taskInstance: instance,
+        startTime: minutesToTime(choice.start),
+        endTime: minutesToTime(choice.end),
+        reasoning: generateSolverReasoning(instance, choice, bufferMinutes, neighbours),
+        isConflict: false,
+      });
+    }
+  }
+
+  const placedResults = Array.from(resultsByKey.values());
+  for (const instance of instances) {
+    const key = instanceKey(instance);
+    if (resultsByKey.has(key)) continue;
+
+    const plannedInstance = planned.find(p => p.key === key)!;
+    resultsByKey.set(key, {
+      taskInstance: instance,
+      startTime: "",
+      endTime: "",
+      reasoning: "",
+      isConflict: true,
+      conflictReason: explainConflict(
+        plannedInstance,
+        availabilityByDay.get(instance.assignedDay)!,
+        placements,
+        planned,
+        placedResults,
+        calendarEvents,
+        blockedTimes,
+        dayStart,
+        dayEnd
+      ),
+    });
+  }
+
+  const scheduled = instances.map(instance => resultsByKey.get(instanceKey(instance))!);
+
+  return {
+    scheduled,
+    score: Math.max(0, bestScore),
+    nodesExplored,
+    isOptimal: !budgetExhausted,
+  };
+}
+
+function getEventInterval(event: CalendarEvent): { start: Date; end: Date } {
+  const toDate = (time: CalendarEvent["start"], isEnd: boolean): Date => {
+    if (typeof time === "string") return parseISO(time);
+    if (time instanceof Date) return time;
+    if (time.dateTime) return parseISO(time.dateTime);
+    return isEnd ? addDays(parseISO(time.date!), 1) : parseISO(time.date!);
+  };
+  return { start: toDate(event.start, false), end: toDate(event.end, true) };
+}
+
+/**
+ * Name the constraint that forced an instance out of the schedule
+ */
+function explainConflict(
+  planned: PlannedInstance,
+  availability: DayAvailability,
+  placements: Map<string, Candidate>,
+  allPlanned: PlannedInstance[],
+  placedResults: ScheduledInstance[],
+  calendarEvents: CalendarEvent[],
+  blockedTimes: BlockedTime[],
+  dayStart: number,
+  dayEnd: number
+): string {
+  const { instance, candidates } = planned;
+  const day = instance.assignedDay;
+
+  const { window, unsatisfiedReason } = getDependencyWindow(instance, placedResults);
+  if (unsatisfiedReason) {
+    return unsatisfiedReason;
+  }
+
+  if (candidates.length === 0) {
+    if (instance.fixedTime) {
+      const start = toMinutes(instance.fixedTime);
+      const window: Interval = { start, end: start + instance.duration };
+
+      if (window.start < dayStart * 60 || window.end > dayEnd * 60) {
+        return `Fixed time ${instance.fixedTime} on ${instance.dayName} falls outside your available hours (${minutesToTime(dayStart * 60)}-${minutesToTime(dayEnd * 60)})`;
+      }
+
+      const blocker = blockedTimes.find(
+        b => format(b.start, "yyyy-MM-dd") === day &&
+          overlaps(window, { start: dateToMinutes(b.start), end: dateToMinutes(b.end) || 24 * 60 })
+      );
+      if (blocker) {
+        return `Fixed time ${instance.fixedTime} on ${instance.dayName} is blocked by ${blocker.reason.toLowerCase()}`;
+      }
+
+      const event = calendarEvents.find(e => {
+        if (resolveBlocking(e) !== "busy") return false;
+        const { start, end } = getEventInterval(e);
+        return format(start, "yyyy-MM-dd") === day &&
+          overlaps(window, { start: dateToMinutes(start), end: dateToMinutes(end) || 24 * 60 });
+      });
+      if (event) {
+        return `Fixed time ${instance.fixedTime} on ${instance.dayName} clashes with "${event.summary}"`;
+      }
+
+      return `No available slot at ${instance.fixedTime} on ${instance.dayName}`;
+    }
+
+    const longestGap = availability.slots.reduce((max, s) => Math.max(max, s.duration), 0);
+    return longestGap > 0
+      ? `No ${instance.duration}-minute gap on ${instance.dayName}: calendar events and blocked times leave at most ${longestGap} minutes free at a time`
+      : `${instance.dayName} is fully blocked by calendar events and blocked times`;
+  }
+
+  // Candidates existed, but the best assignment gave them to other sessions
+  const competitors = allPlanned
+    .filter(p => p.instance.assignedDay === day && placements.has(p.key))
+    .filter(p => candidates.some(c => overlaps(c, placements.get(p.key)!)))
+    .map(p => {
+      const slot = placements.get(p.key)!;
+      return `${p.instance.taskName} (priority ${p.instance.priority}, ${minutesToTime(slot.start)}-${minutesToTime(slot.end)})`;
+    });
+
+  if (competitors.length > 0) {
+    return `Every ${instance.duration}-minute slot on ${instance.dayName} is already taken by ${competitors.join(", ")}`;
+  }
+
+  if (window.earliestStart || window.latestStart) {
+    return `No ${instance.duration}-minute slot on ${instance.dayName} fits after ${describePrerequisites(instance)}`;
+  }
+
+  return `No ${instance.duration}-minute slot available on ${instance.dayName}`;
+}
+
+function generateSolverReasoning(
+  instance: TaskInstance,
+  choice: Candidate,
+  bufferMinutes: number,
+  neighbours: Interval[]
+): string {
+  const parts: string[] = [];
+
+  if (instance.fixedTime) {
+    parts.push(`Scheduled at your fixed time of ${instance.fixedTime}`);
+  } else if (choice.inPreferredWindow) {
+    parts.push(`Scheduled within your preferred time window (${instance.preferredTimeStart}-${instance.preferredTimeEnd})`);
+  } else {
+    parts.push(`Scheduled at ${minutesToTime(choice.start)} to make room for the rest of your week`);
+  }
+
+  if (bufferMinutes > 0 && !violatesBuffer(choice, neighbours, bufferMinutes)) {
+    parts.push(`Keeps your ${bufferMinutes}-minute buffer around other commitments`);
+  }
+
+  if (instance.totalInstances > 1) {
+    parts.push(`This is session ${instance.instanceNumber} of ${instance.totalInstances} for the week`);
+  }
+
+  return parts.join(". ") + ".";
+}
@@ -0,0 +1,193 @@
+/**
+ * Scheduling Rules
+ *
+ * A small declarative language for household rules beyond working hours and
+ * buffers. A rule says which tasks it applies to and what it limits:
+ *
+ *   "Never schedule chores after 9pm on school nights"
+ *   { appliesTo: { days: ["sunday", ..., "thursday"], taskTypes: ["household"] },
+ *     constraint: { type: "not_after", time: "21:00" } }
+ *
+ *   "No more than two Life Admin tasks per day"
+ *   { appliesTo: { taskTypes: ["household"] },
+ *     constraint: { type: "max_tasks_per_day", count: 2 } }
+ *
+ * Rules belong to a user or to their family (every member). Hard rules are
+ * never broken - a task with nowhere legal to go is reported as a conflict.
+ * Soft rules are followed when possible, and a task that has to break one
+ * says so in its reasoning. The schedulers evaluate them in
+ * deterministic-scheduler.ts.
+ */
+
+import { z } from "zod";
+import prisma from "./prisma";
+import { PREFERENCE_KEYS } from "./agent-tools/preferences";
+
+export const RULE_DAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+// Day presets offered by the rule editor
+export const RULE_DAY_PRESETS: Record<string, (typeof RULE_DAYS)[number][]> = {
+  every_day: [],
+  school_nights: ["sunday", "monday", "tuesday", "wednesday", "thursday"],
+  weekdays: ["monday", "tuesday", "wednesday", "thursday", "friday"],
+  weekends: ["saturday", "sunday"],
+};
+
+const timeOfDay = z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/);
+
+export const ruleConstraintSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("not_before"), time: timeOfDay }),
+  z.object({ type: z.literal("not_after"), time: timeOfDay }), // Must be finished by
+  z.object({ type: z.literal("not_between"), start: timeOfDay, end: timeOfDay }), // Wraps past midnight when start > end
+  z.object({ type: z.literal("max_tasks_per_day"), count: z.number().int().min(0).max(50) }),
+  z.object({ type: z.literal("max_minutes_per_day"), minutes: z.number().int().min(0).max(24 * 60) }),
+]);
+
+export const ruleDefinitionSchema = z.object({
+  appliesTo: z
+    .object({
+      days: z.array(z.enum(RULE_DAYS)).optional(), // Empty or missing = every day
+      taskTypes: z.array(z.enum(["resolution", "household"])).optional(), // Empty or missing = all tasks
+      categories: z.array(z.string().min(1).max(50)).optional(),
+    })
+    .default({}),
+  constraint: ruleConstraintSchema,
+});
+
+export type RuleConstraint = z.infer<typeof ruleConstraintSchema>;
+export type RuleDefinition = z.infer<typeof ruleDefinitionSchema>;
+
+export interface SchedulingRule extends RuleDefinition {
+  id: string;
+  name: string;
+  strength: "hard" | "soft";
+  scope: "personal" | "family";
+}
+
+export function isDailyLimit(constraint: RuleConstraint): boolean {
+  return constraint.type === "max_tasks_per_day" || constraint.type === "max_minutes_per_day";
+}
+
+/**
+ * Whether a rule covers a task on a date (YYYY-MM-DD)
+ */
+export function ruleAppliesTo(
+  rule: RuleDefinition,
+  task: { taskType: string; category: string | null },
+  date: string
+): boolean {
+  const { days, taskTypes, categories } = rule.appliesTo;
+  const day = RULE_DAYS[new Date(date + "T12:00:00").getDay()];
+
+  if (days && days.length > 0 && !days.includes(day)) return false;
+  if (taskTypes && taskTypes.length > 0 && !taskTypes.includes(task.taskType as "resolution" | "household")) return false;
+  if (categories && categories.length > 0 && !categories.includes(task.category || "")) return false;
+  return true;
+}
+
+function formatTime(time: string): string {
+  const [hour, minute] = time.split(":").map(Number);
+  const suffix = hour >= 12 ? "pm" : "am";
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0 ? `${displayHour}${suffix}` : `${displayHour}:${String(minute).padStart(2, "0")}${suffix}`;
+}
+
+function describeDays(days: string[] | undefined): string {
+  if (!days || days.length === 0) return "";
+  const preset = Object.entries(RULE_DAY_PRESETS).find(
+    ([, presetDays]) => presetDays.length === days.length && presetDays.every((d) => days.includes(d))
+  );
+  if (preset) return ` on ${preset[0].replace("_", " ")}`;
+  return ` on ${days.map((d) => d.charAt(0).toUpperCase() + d.slice(1, 3)).join(", ")}`;
+}
+
+/**
+ * Plain-language description of a rule for the editor and AI prompts
+ */
+export function describeRule(rule: RuleDefinition): string {
+  const { taskTypes, categories, days } = rule.appliesTo;
+  const subject = categories && categories.length > 0
+    ? `${categories.join("/")} tasks`
+    : taskTypes && taskTypes.length === 1
+      ? taskTypes[0] === "household" ? "Life Admin tasks" : "Focus Time tasks"
+      : "tasks";
+  const when = describeDays(days);
+  const c = rule.constraint;
+
+  switch (c.type) {
+    case "not_before":
+      return `No ${subject} before ${formatTime(c.time)}${when}`;
+    case "not_after":
+      return `No ${subject} after ${formatTime(c.time)}${when}`;
+    case "not_between":
+      return `No ${subject} between ${formatTime(c.start)} and ${formatTime(c.end)}${when}`;
+    case "max_tasks_per_day":
+      return `At most ${c.count} ${subject} per day${when}`;
+    case "max_minutes_per_day":
+      return `At most ${c.minutes} minutes of ${subject} per day${when}`;
+  }
+}
+
+/**
+ * A user's enabled rules: their own, their family's, and a soft daily cap
+ * from the max_tasks_per_day preference when they've set one
+ */
+export async function getSchedulingRulesForUser(userId: string): Promise<SchedulingRule[]> {
+  const membership = await prisma.familyMember.findUnique({
+    where: { userId },
+    select: { familyId: true },
+  });
+
+  const [records, maxTasksPreference] = await Promise.all([
+    prisma.schedulingRule.findMany({
+      where: {
+        enabled: true,
+        OR: [{ userId }, ...(membership ? [{ familyId: membership.familyId }] : [])],
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.userPreference.findUnique({
+      where: { userId_key: { userId, key: PREFERENCE_KEYS.MAX_TASKS_PER_DAY } },
+    }),
+  ]);
+
+  const rules: SchedulingRule[] = [];
+  for (const record of records) {
+    const parsed = ruleDefinitionSchema.safeParse(record.definition);
+    if (!parsed.success) {
+      console.log(`[getSchedulingRulesForUser] Ignoring invalid rule ${record.id}`);
+      continue;
+    }
+    rules.push({
+      ...parsed.data,
+      id: record.id,
+      name: record.name,
+      strength: record.strength === "soft" ? "soft" : "hard",
+      scope: record.familyId ? "family" : "personal",
+    });
+  }
+
+  // The default value isn't something the user chose
+  const count = (maxTasksPreference?.value as { count?: unknown } | null)?.count;
+  if (maxTasksPreference?.isActive && maxTasksPreference.source !== "default" && typeof count === "number") {
+    rules.push({
+      id: `preference:${PREFERENCE_KEYS.MAX_TASKS_PER_DAY}`,
+      name: `At most ${count} tasks per day`,
+      strength: "soft",
+      scope: "personal",
+      appliesTo: {},
+      constraint: { type: "max_tasks_per_day", count },
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Rules for an AI prompt, one per line
+ */
+export function formatRulesForPrompt(rules: SchedulingRule[]): string {
+  return rules
+    .map((r) => `- ${r.strength === "hard" ? "MUST" : "SHOULD"}: ${r.name}${r.name === describeRule(r) ? "" : ` (${describeRule(r)})`}`)
+    .join("\n");
+}
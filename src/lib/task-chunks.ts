@@ -0,0 +1,46 @@
+/**
+ * Splittable Tasks
+ *
+ * A splittable task ("study 5 hours this week") has a total effort
+ * (Task.estimatedEffort) that the deterministic scheduler packs into
+ * whatever free time is left, as chunks between minChunkMinutes and
+ * maxChunkMinutes with at most maxChunksPerDay on any one day.
+ *
+ * Recurring splittable tasks need their effort every week they are due;
+ * one-off splittable tasks need it once, before their deadline.
+ */
+
+import type { Task } from "@prisma/client";
+
+export interface ChunkLimits {
+  minChunk: number; // minutes
+  maxChunk: number; // minutes
+  maxPerDay: number;
+}
+
+const DEFAULT_MIN_CHUNK_MINUTES = 30;
+
+export function isSplittableTask(task: Pick<Task, "isSplittable" | "estimatedEffort">): boolean {
+  return task.isSplittable && (task.estimatedEffort ?? 0) > 0;
+}
+
+/**
+ * Chunk size and per-day limits for a splittable task, with defaults filled in
+ */
+export function getChunkLimits(
+  task: Pick<Task, "duration" | "minChunkMinutes" | "maxChunkMinutes" | "maxChunksPerDay">
+): ChunkLimits {
+  const maxChunk = task.maxChunkMinutes ?? task.duration;
+  const minChunk = Math.min(task.minChunkMinutes ?? DEFAULT_MIN_CHUNK_MINUTES, maxChunk);
+  return { minChunk, maxChunk, maxPerDay: Math.max(1, task.maxChunksPerDay ?? 1) };
+}
+
+/**
+ * Human-readable summary of a splittable task's effort ("300 min in 30-90 min sessions, max 2/day")
+ */
+export function describeChunking(
+  task: Pick<Task, "duration" | "estimatedEffort" | "minChunkMinutes" | "maxChunkMinutes" | "maxChunksPerDay">
+): string {
+  const { minChunk, maxChunk, maxPerDay } = getChunkLimits(task);
+  return `${task.estimatedEffort} min in ${minChunk}-${maxChunk} min sessions, max ${maxPerDay}/day`;
+}
@@ -0,0 +1,220 @@
+/**
+ * One-off Tasks with Deadlines
+ *
+ * A one-off task (frequencyPeriod = "once") has a due date and an estimated
+ * effort in minutes that is split into sessions of up to `duration` minutes.
+ * The weekly scheduler books the remaining sessions as early as availability
+ * allows on or before the due date, and escalates the task's priority as the
+ * deadline approaches.
+ *
+ * Effort already booked (pending or completed sessions, in any week) counts
+ * towards the estimate, so a task disappears from planning once enough
+ * sessions exist.
+ */
+
+import prisma from "./prisma";
+import { differenceInCalendarDays, differenceInMinutes, endOfDay, format } from "date-fns";
+import type { Task } from "@prisma/client";
+import { isSplittableTask } from "./task-chunks";
+
+type DeadlineTask = Pick<Task, "frequencyPeriod" | "dueDate" | "priority">;
+
+export type DeadlineUrgency = "overdue" | "critical" | "soon" | "normal";
+
+/**
+ * A one-off task whose deadline is in danger
+ */
+export interface DeadlineRisk {
+  taskId: string;
+  taskName: string;
+  dueDate: string; // YYYY-MM-DD
+  daysUntilDue: number;
+  urgency: DeadlineUrgency;
+  estimatedMinutes: number;
+  completedMinutes: number;
+  scheduledMinutes: number; // Pending sessions on or before the due date
+  lateMinutes: number; // Pending sessions booked after the due date
+  remainingMinutes: number; // Effort with no session before the deadline
+  reason: string;
+}
+
+// Sessions shorter than this are rounded up
+const MIN_SESSION_MINUTES = 15;
+
+// Days before the deadline at which priority escalates
+const CRITICAL_DAYS = 2;
+const SOON_DAYS = 7;
+
+export function isOneOffTask(task: Pick<Task, "frequencyPeriod" | "dueDate">): boolean {
+  return task.frequencyPeriod === "once" && !!task.dueDate;
+}
+
+/**
+ * How close a one-off task is to its deadline, and the priority it should be scheduled at.
+ * Recurring tasks keep their own priority.
+ */
+export function getDeadlineUrgency(
+  task: DeadlineTask,
+  now: Date = new Date()
+): { urgency: DeadlineUrgency | null; daysUntilDue: number | null; priority: number } {
+  if (!isOneOffTask(task)) {
+    return { urgency: null, daysUntilDue: null, priority: task.priority };
+  }
+
+  const daysUntilDue = differenceInCalendarDays(task.dueDate!, now);
+
+  if (daysUntilDue < 0) {
+    return { urgency: "overdue", daysUntilDue, priority: 1 };
+  }
+  if (daysUntilDue <= CRITICAL_DAYS) {
+    return { urgency: "critical", daysUntilDue, priority: 1 };
+  }
+  if (daysUntilDue <= SOON_DAYS) {
+    return { urgency: "soon", daysUntilDue, priority: Math.max(1, task.priority - 1) };
+  }
+  return { urgency: "normal", daysUntilDue, priority: task.priority };
+}
+
+/**
+ * Return a copy of the task with its priority escalated for an approaching deadline
+ */
+export function withDeadlineUrgency<T extends DeadlineTask>(task: T, now: Date = new Date()): T {
+  const { priority } = getDeadlineUrgency(task, now);
+  return priority === task.priority ? task : { ...task, priority };
+}
+
+/**
+ * Split the effort that still needs booking into session durations.
+ * Sessions are `duration` minutes; the last one carries the remainder.
+ */
+export function getRemainingSessions(
+  task: Pick<Task, "duration" | "estimatedEffort" | "minDuration">,
+  bookedMinutes: number
+): number[] {
+  const totalEffort = task.estimatedEffort ?? task.duration;
+  let remaining = totalEffort - bookedMinutes;
+  const sessions: number[] = [];
+  const minSession = Math.max(MIN_SESSION_MINUTES, task.minDuration ?? 0);
+
+  while (remaining > 0) {
+    const session = Math.min(task.duration, remaining);
+    // A short remainder is rounded up to a session worth sitting down for
+    sessions.push(Math.min(task.duration, Math.max(session, minSession)));
+    remaining -= session;
+  }
+
+  return sessions;
+}
+
+/**
+ * Minutes already booked (pending or completed) towards each task's effort:
+ * in any week for one-off tasks, and within the given week for recurring splittable tasks
+ */
+export async function getBookedEffortByTask(
+  tasks: Pick<Task, "id" | "frequencyPeriod" | "dueDate" | "isSplittable" | "estimatedEffort">[],
+  weekStart?: Date,
+  weekEnd?: Date
+): Promise<Map<string, number>> {
+  const oneOffIds = tasks.filter(isOneOffTask).map(t => t.id);
+  const weeklyIds = weekStart && weekEnd
+    ? tasks.filter(t => !isOneOffTask(t) && isSplittableTask(t)).map(t => t.id)
+    : [];
+  const booked = new Map<string, number>();
+
+  if (oneOffIds.length === 0 && weeklyIds.length === 0) {
+    return booked;
+  }
+
+  const sessions = await prisma.scheduledTask.findMany({
+    where: {
+      status: { not: "skipped" },
+      OR: [
+        { taskId: { in: oneOffIds } },
+        { taskId: { in: weeklyIds }, scheduledDate: { gte: weekStart, lte: weekEnd } },
+      ],
+    },
+    select: { taskId: true, startTime: true, endTime: true },
+  });
+
+  for (const session of sessions) {
+    const minutes = differenceInMinutes(session.endTime, session.startTime);
+    booked.set(session.taskId, (booked.get(session.taskId) || 0) + minutes);
+  }
+
+  return booked;
+}
+
+/**
+ * Find one-off tasks that are overdue, booked past their deadline, or close to it
+ * with effort that has no session yet
+ */
+export async function getDeadlineRisks(userId: string, now: Date = new Date()): Promise<DeadlineRisk[]> {
+  const tasks = await prisma.task.findMany({
+    where: {
+      userId,
+      frequencyPeriod: "once",
+      dueDate: { not: null },
+    },
+    include: {
+      scheduledTasks: {
+        where: { status: { not: "skipped" } },
+        select: { status: true, startTime: true, endTime: true },
+      },
+    },
+  });
+
+  const risks: DeadlineRisk[] = [];
+
+  for (const task of tasks) {
+    const dueDate = task.dueDate!;
+    const deadline = endOfDay(dueDate);
+    const estimatedMinutes = task.estimatedEffort ?? task.duration;
+
+    let completedMinutes = 0;
+    let scheduledMinutes = 0;
+    let lateMinutes = 0;
+    for (const session of task.scheduledTasks) {
+      const minutes = differenceInMinutes(session.endTime, session.startTime);
+      if (session.status === "completed") {
+        completedMinutes += minutes;
+      } else if (session.startTime > deadline) {
+        lateMinutes += minutes;
+      } else {
+        scheduledMinutes += minutes;
+      }
+    }
+
+    // Done - nothing to worry about
+    if (completedMinutes >= estimatedMinutes) continue;
+
+    const { urgency, daysUntilDue } = getDeadlineUrgency(task, now);
+    const remainingMinutes = Math.max(0, estimatedMinutes - completedMinutes - scheduledMinutes);
+
+    let reason: string | null = null;
+    if (urgency === "overdue") {
+      reason = `"${task.name}" was due ${format(dueDate, "MMM d")} and is ${Math.round((completedMinutes / estimatedMinutes) * 100)}% done`;
+    } else if (lateMinutes > 0) {
+      reason = `${lateMinutes} min of "${task.name}" is booked after its ${format(dueDate, "MMM d")} deadline`;
+    } else if (remainingMinutes > 0 && (urgency === "critical" || urgency === "soon")) {
+      reason = `"${task.name}" is due ${format(dueDate, "EEE MMM d")} with ${remainingMinutes} min not yet scheduled`;
+    }
+
+    if (!reason) continue;
+
+    risks.push({
+      taskId: task.id,
+      taskName: task.name,
+      dueDate: format(dueDate, "yyyy-MM-dd"),
+      daysUntilDue: daysUntilDue!,
+      urgency: urgency!,
+      estimatedMinutes,
+      completedMinutes,
+      scheduledMinutes,
+      lateMinutes,
+      remainingMinutes,
+      reason,
+    });
+  }
+
+  return risks.sort((a, b) => a.daysUntilDue - b.daysUntilDue);
+}
@@ -0,0 +1,224 @@
+/**
+ * Task Recurrence
+ *
+ * Multi-week and monthly recurrence for tasks ("every other Saturday",
+ * "first Saturday of the month", "quarterly"). Rules are stored on the task
+ * as an RFC 5545 RRULE (Task.recurrenceRule) anchored at Task.recurrenceStart,
+ * and evaluated with the same `rrule` library the ICS parser uses.
+ *
+ * The weekly scheduler only asks one question of a rule: which dates in the
+ * target week does it produce? Fixed tasks are scheduled on exactly those
+ * dates; flexible tasks get `frequency` sessions anywhere in a week that
+ * contains an occurrence, and nothing in weeks that don't.
+ *
+ * "day" and "week" periods have no rule and keep their existing behavior.
+ */
+
+import { RRule } from "rrule";
+import { startOfWeek, endOfWeek } from "date-fns";
+import type { Task } from "@prisma/client";
+
+export const RECURRING_PERIODS = ["biweekly", "month", "quarter", "custom"] as const;
+
+export type RecurringPeriod = (typeof RECURRING_PERIODS)[number];
+
+type RecurrenceTask = Pick<Task, "recurrenceRule" | "recurrenceStart" | "createdAt">;
+
+/**
+ * Inputs used to build a rule from the task form
+ */
+export interface RecurrenceInput {
+  frequencyPeriod: string;
+  schedulingMode: string;
+  fixedDays?: string[];
+  monthDay?: number | null; // 1-31 (clamped to the last day in shorter months)
+  monthWeek?: number | null; // 1-5, or -1 for the last week of the month
+  monthWeekday?: string | null; // "saturday"
+  recurrenceRule?: string | null; // Raw RRULE for the "custom" period
+}
+
+const DAY_TO_RRULE: Record<string, string> = {
+  monday: "MO", tuesday: "TU", wednesday: "WE", thursday: "TH",
+  friday: "FR", saturday: "SA", sunday: "SU",
+};
+
+const RRULE_TO_DAY: Record<string, string> = Object.fromEntries(
+  Object.entries(DAY_TO_RRULE).map(([day, code]) => [code, day])
+);
+
+export function isRecurringPeriod(period: string | null | undefined): period is RecurringPeriod {
+  return !!period && (RECURRING_PERIODS as readonly string[]).includes(period);
+}
+
+/**
+ * Build the RRULE for a task from its form fields.
+ * Returns rule = null for "day"/"week" periods, which don't need one.
+ */
+export function buildRecurrenceRule(input: RecurrenceInput): { rule: string | null; error?: string } {
+  const { frequencyPeriod, schedulingMode, monthDay, monthWeek, monthWeekday } = input;
+  const fixedDays = (input.fixedDays || []).map(d => DAY_TO_RRULE[d.toLowerCase()]).filter(Boolean);
+
+  if (!isRecurringPeriod(frequencyPeriod)) {
+    return { rule: null };
+  }
+
+  if (frequencyPeriod === "custom") {
+    const rule = (input.recurrenceRule || "").trim().replace(/^RRULE:/i, "");
+    if (!rule) {
+      return { rule: null, error: "Custom recurrence requires an RRULE" };
+    }
+    const error = validateRecurrenceRule(rule);
+    return error ? { rule: null, error } : { rule };
+  }
+
+  if (frequencyPeriod === "biweekly") {
+    const byDay = schedulingMode === "fixed" && fixedDays.length > 0 ? `;BYDAY=${fixedDays.join(",")}` : "";
+    return { rule: `FREQ=WEEKLY;INTERVAL=2${byDay}` };
+  }
+
+  // Monthly and quarterly: pin to a day of the month or the nth weekday
+  const interval = frequencyPeriod === "quarter" ? ";INTERVAL=3" : "";
+
+  if (monthDay) {
+    if (monthDay < 1 || monthDay > 31) {
+      return { rule: null, error: "Day of month must be between 1 and 31" };
+    }
+    // Days past the end of a short month fall back to its last day
+    const byMonthDay = monthDay > 28
+      ? `;BYMONTHDAY=${Array.from({ length: monthDay - 27 }, (_, i) => 28 + i).join(",")};BYSETPOS=-1`
+      : `;BYMONTHDAY=${monthDay}`;
+    return { rule: `FREQ=MONTHLY${interval}${byMonthDay}` };
+  }
+
+  if (monthWeek) {
+    const weekday = DAY_TO_RRULE[(monthWeekday || "").toLowerCase()] || fixedDays[0];
+    if (!weekday) {
+      return { rule: null, error: "Choose which weekday of the month the task falls on" };
+    }
+    if (monthWeek !== -1 && (monthWeek < 1 || monthWeek > 5)) {
+      return { rule: null, error: "Week of month must be 1-5, or -1 for the last week" };
+    }
+    return { rule: `FREQ=MONTHLY${interval};BYDAY=${monthWeek}${weekday}` };
+  }
+
+  // No day given: repeat on the anchor date's day of the month
+  return { rule: `FREQ=MONTHLY${interval}` };
+}
+
+/**
+ * Validate a raw RRULE. Returns an error message, or null when the rule is usable.
+ */
+export function validateRecurrenceRule(rule: string): string | null {
+  try {
+    const options = RRule.parseString(rule);
+    if (options.freq === undefined) {
+      return "RRULE must include FREQ";
+    }
+    // The weekly scheduler places at most one session per task per day
+    if (options.freq > RRule.DAILY) {
+      return "RRULE cannot repeat more often than daily";
+    }
+    if (options.dtstart) {
+      return "Set the start date separately instead of DTSTART";
+    }
+    return null;
+  } catch {
+    return `Invalid RRULE: ${rule}`;
+  }
+}
+
+/**
+ * Convert a Date to the floating UTC date rrule works with, keeping the local calendar day
+ */
+function toFloatingDate(date: Date, endOfDay = false): Date {
+  return endOfDay
+    ? new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59))
+    : new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+/**
+ * Get the dates ("yyyy-MM-dd") a task's rule produces between two dates (inclusive).
+ * Returns null when the task has no rule (plain daily/weekly frequency).
+ */
+export function getRecurrenceDates(task: RecurrenceTask, rangeStart: Date, rangeEnd: Date): string[] | null {
+  if (!task.recurrenceRule) {
+    return null;
+  }
+
+  try {
+    const rule = new RRule({
+      ...RRule.parseString(task.recurrenceRule),
+      dtstart: toFloatingDate(task.recurrenceStart || task.createdAt),
+    });
+
+    return rule
+      .between(toFloatingDate(rangeStart), toFloatingDate(rangeEnd, true), true)
+      .map(d => d.toISOString().slice(0, 10));
+  } catch (error) {
+    console.error(`[getRecurrenceDates] Invalid rule "${task.recurrenceRule}":`, error);
+    return [];
+  }
+}
+
+/**
+ * Get the occurrence dates in the Monday-Sunday week containing `date`.
+ * Returns null when the task has no rule.
+ */
+export function getWeekRecurrenceDates(task: RecurrenceTask, date: Date): string[] | null {
+  return getRecurrenceDates(
+    task,
+    startOfWeek(date, { weekStartsOn: 1 }),
+    endOfWeek(date, { weekStartsOn: 1 })
+  );
+}
+
+/**
+ * Human-readable summary of a task's recurrence ("every 2 weeks on Saturday")
+ */
+export function describeRecurrence(
+  task: RecurrenceTask & Pick<Task, "frequency" | "frequencyPeriod">
+): string {
+  const frequency = task.frequency || 1;
+
+  if (!task.recurrenceRule) {
+    return task.frequencyPeriod === "day" ? `${frequency}x daily` : `${frequency}x weekly`;
+  }
+
+  try {
+    // Describe a clamped day-of-month preset by its intended day
+    const clampedDay = /BYSETPOS=-1/.test(task.recurrenceRule) ? getRecurrencePreset(task.recurrenceRule).monthDay : null;
+    const text = clampedDay
+      ? RRule.fromString(task.recurrenceRule.replace(/BYMONTHDAY=[\d,]+;BYSETPOS=-1/, `BYMONTHDAY=${clampedDay}`)).toText() +
+        " (or the last day of shorter months)"
+      : RRule.fromString(task.recurrenceRule).toText();
+    return frequency > 1 ? `${frequency}x, ${text}` : text;
+  } catch {
+    return task.recurrenceRule;
+  }
+}
+
+/**
+ * Recover the month/quarter form fields from a stored preset rule (for editing)
+ */
+export function getRecurrencePreset(rule: string | null): {
+  monthDay: number | null;
+  monthWeek: number | null;
+  monthWeekday: string | null;
+} {
+  const preset = { monthDay: null as number | null, monthWeek: null as number | null, monthWeekday: null as string | null };
+  if (!rule) return preset;
+
+  const byMonthDay = rule.match(/BYMONTHDAY=([\d,]+)/);
+  if (byMonthDay) {
+    const days = byMonthDay[1].split(",").map(Number);
+    preset.monthDay = days[days.length - 1];
+  }
+
+  const byDay = rule.match(/FREQ=MONTHLY.*BYDAY=(-?\d)([A-Z]{2})/);
+  if (byDay) {
+    preset.monthWeek = Number(byDay[1]);
+    preset.monthWeekday = RRULE_TO_DAY[byDay[2]] || null;
+  }
+
+  return preset;
+}
@@ -0,0 +1,363 @@
+/**
+ * Task Swap Marketplace
+ *
+ * A family member can offer one of their upcoming Life Admin tasks to the
+ * rest of the family ("can someone take Thursday's grocery run?"). Others
+ * can take it outright or counter-offer a trade - "I'll take it if you take
+ * my Saturday vacuuming" - which the requester accepts or declines.
+ *
+ * An accepted swap reassigns the task(s) in a single transaction that fails
+ * if anything changed since the offer (someone else took it first, the task
+ * was completed or reassigned). Fairness credit follows the assignee, so it
+ * moves with the task. Calendar events are moved to the new assignee's
+ * calendar after the transaction commits.
+ */
+
+import prisma from "./prisma";
+import { createCalendarEvent, deleteCalendarEvent } from "./calendar";
+import { isMemberEligibleForTask } from "./family-roles";
+import { WORK_EVENT_RESET, recordWorkCalendarDeletions } from "./addin-sync";
+import { format } from "date-fns";
+import type { ScheduledTask, Task } from "@prisma/client";
+
+export class SwapError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "SwapError";
+  }
+}
+
+type ScheduledTaskWithTask = ScheduledTask & { task: Task };
+
+function describeSlot(scheduledTask: ScheduledTaskWithTask): string {
+  return `${scheduledTask.task.name} on ${format(scheduledTask.startTime, "EEEE, MMM d 'at' h:mm a")}`;
+}
+
+async function getFamilyMembership(userId: string) {
+  const membership = await prisma.familyMember.findUnique({
+    where: { userId },
+    include: { user: { select: { name: true } } },
+  });
+  if (!membership) {
+    throw new SwapError("You must be in a family to swap tasks", 403);
+  }
+  return membership;
+}
+
+/**
+ * A task can be swapped while it's a pending, upcoming Life Admin task
+ */
+async function getSwappableTask(scheduledTaskId: string, assigneeId: string): Promise<ScheduledTaskWithTask> {
+  const scheduledTask = await prisma.scheduledTask.findUnique({
+    where: { id: scheduledTaskId },
+    include: { task: true },
+  });
+
+  if (!scheduledTask || scheduledTask.assignedToUserId !== assigneeId) {
+    throw new SwapError("Scheduled task not found", 404);
+  }
+  if (scheduledTask.task.type !== "household") {
+    throw new SwapError("Only Life Admin tasks can be swapped");
+  }
+  if (scheduledTask.status !== "pending" || scheduledTask.startTime <= new Date()) {
+    throw new SwapError("Only upcoming tasks can be swapped");
+  }
+  return scheduledTask;
+}
+
+async function notify(userId: string, title: string, message: string, metadata: Record<string, string>) {
+  await prisma.notification.create({
+    data: {
+      userId,
+      type: "swap",
+      title,
+      message,
+      actionUrl: "/family",
+      actionLabel: "View Swaps",
+      priority: "normal",
+      scheduledFor: new Date(),
+      metadata,
+    },
+  });
+}
+
+/**
+ * Offer one of your scheduled tasks to the family
+ */
+export async function openSwapRequest(userId: string, scheduledTaskId: string, message?: string | null) {
+  const membership = await getFamilyMembership(userId);
+  const scheduledTask = await getSwappableTask(scheduledTaskId, userId);
+
+  const existing = await prisma.taskSwapRequest.findFirst({
+    where: { scheduledTaskId, status: "open" },
+  });
+  if (existing) {
+    throw new SwapError("This task is already up for swap", 409);
+  }
+
+  const request = await prisma.taskSwapRequest.create({
+    data: {
+      familyId: membership.familyId,
+      scheduledTaskId,
+      requestedById: userId,
+      message: message || null,
+    },
+  });
+
+  // Let everyone who could take it know
+  const others = await prisma.familyMember.findMany({
+    where: { familyId: membership.familyId, userId: { not: userId } },
+  });
+  const dayOfWeek = scheduledTask.scheduledDate.getDay();
+  for (const member of others.filter((m) => isMemberEligibleForTask(m, scheduledTask.task, dayOfWeek))) {
+    await notify(
+      member.userId,
+      "Can You Take a Task?",
+      `${membership.user.name || "A family member"} is looking for someone to take ${describeSlot(scheduledTask)}.${message ? ` "${message}"` : ""}`,
+      { swapRequestId: request.id }
+    );
+  }
+
+  console.log(`[openSwapRequest] ${userId} offered scheduled task ${scheduledTaskId} to ${others.length} members`);
+  return request;
+}
+
+/**
+ * Withdraw your own open swap request
+ */
+export async function cancelSwapRequest(userId: string, scheduledTaskId: string) {
+  const cancelled = await prisma.taskSwapRequest.updateMany({
+    where: { scheduledTaskId, requestedById: userId, status: "open" },
+    data: { status: "cancelled", resolvedAt: new Date() },
+  });
+  if (cancelled.count === 0) {
+    throw new SwapError("No open swap request for this task", 404);
+  }
+}
+
+/**
+ * Reply to a swap request: take the task, or offer a trade. Taking it
+ * outright completes the swap immediately.
+ */
+export async function makeSwapOffer(
+  userId: string,
+  scheduledTaskId: string,
+  tradeScheduledTaskId?: string | null,
+  message?: string | null
+) {
+  const membership = await getFamilyMembership(userId);
+
+  const request = await prisma.taskSwapRequest.findFirst({
+    where: { scheduledTaskId, status: "open", familyId: membership.familyId },
+    include: { scheduledTask: { include: { task: true } } },
+  });
+  if (!request) {
+    throw new SwapError("This task is no longer up for swap", 404);
+  }
+  if (request.requestedById === userId) {
+    throw new SwapError("You can't take your own task");
+  }
+
+  const offered = request.scheduledTask;
+  if (!isMemberEligibleForTask(membership, offered.task, offered.scheduledDate.getDay())) {
+    throw new SwapError(`"${offered.task.name}" isn't a task you can take`, 403);
+  }
+
+  if (!tradeScheduledTaskId) {
+    const result = await executeSwap(request.id, userId);
+    return { status: "accepted" as const, ...result };
+  }
+
+  // Counter-offer: the requester must be able to take the traded task
+  const trade = await getSwappableTask(tradeScheduledTaskId, userId);
+  const requester = await prisma.familyMember.findUnique({ where: { userId: request.requestedById } });
+  if (!requester || !isMemberEligibleForTask(requester, trade.task, trade.scheduledDate.getDay())) {
+    throw new SwapError(`"${trade.task.name}" isn't a task they can take`);
+  }
+
+  const offer = await prisma.taskSwapOffer.create({
+    data: {
+      requestId: request.id,
+      offeredById: userId,
+      tradeScheduledTaskId,
+      message: message || null,
+    },
+  });
+
+  await notify(
+    request.requestedById,
+    "Swap Offer",
+    `${membership.user.name || "A family member"} will take ${describeSlot(offered)} if you take ${describeSlot(trade)}.${message ? ` "${message}"` : ""}`,
+    { swapRequestId: request.id, swapOfferId: offer.id }
+  );
+
+  return { status: "offered" as const, offer };
+}
+
+/**
+ * Accept or decline a trade offer on your request, or withdraw your own offer
+ */
+export async function respondToSwapOffer(userId: string, offerId: string, action: "accept" | "decline" | "withdraw") {
+  const offer = await prisma.taskSwapOffer.findUnique({
+    where: { id: offerId },
+    include: { request: { include: { scheduledTask: { include: { task: true } } } } },
+  });
+
+  if (!offer || offer.status !== "pending") {
+    throw new SwapError("Offer not found", 404);
+  }
+
+  if (action === "withdraw") {
+    if (offer.offeredById !== userId) throw new SwapError("Offer not found", 404);
+    await prisma.taskSwapOffer.update({ where: { id: offerId }, data: { status: "withdrawn" } });
+    return { status: "withdrawn" as const };
+  }
+
+  if (offer.request.requestedById !== userId) {
+    throw new SwapError("Only the person who asked for the swap can answer offers", 403);
+  }
+
+  if (action === "decline") {
+    await prisma.taskSwapOffer.update({ where: { id: offerId }, data: { status: "declined" } });
+    await notify(
+      offer.offeredById,
+      "Swap Offer Declined",
+      `Your trade for ${describeSlot(offer.request.scheduledTask)} was declined.`,
+      { swapRequestId: offer.requestId, swapOfferId: offer.id }
+    );
+    return { status: "declined" as const };
+  }
+
+  const result = await executeSwap(offer.requestId, offer.offeredById, offer.id);
+  return { status: "accepted" as const, ...result };
+}
+
+/**
+ * Complete a swap: the request's task goes to `acceptedById`, and with a trade
+ * offer the offered task goes back to the requester. All-or-nothing.
+ */
+async function executeSwap(requestId: string, acceptedById: string, offerId?: string) {
+  const moved = await prisma.$transaction(async (tx) => {
+    const request = await tx.taskSwapRequest.findUnique({ where: { id: requestId } });
+    const offer = offerId ? await tx.taskSwapOffer.findUnique({ where: { id: offerId } }) : null;
+    if (!request) throw new SwapError("Swap request not found", 404);
+
+    const now = new Date();
+
+    // Claim the request; fails if someone else got there first
+    const claimed = await tx.taskSwapRequest.updateMany({
+      where: { id: requestId, status: "open" },
+      data: { status: "accepted", acceptedById, resolvedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new SwapError("Someone else has already taken this task", 409);
+    }
+
+    const transfers = [{ scheduledTaskId: request.scheduledTaskId, fromUserId: request.requestedById, toUserId: acceptedById }];
+    if (offer?.tradeScheduledTaskId) {
+      transfers.push({ scheduledTaskId: offer.tradeScheduledTaskId, fromUserId: acceptedById, toUserId: request.requestedById });
+    }
+
+    for (const transfer of transfers) {
+      await recordWorkCalendarDeletions({ id: transfer.scheduledTaskId, assignedToUserId: transfer.fromUserId }, tx);
+      const updated = await tx.scheduledTask.updateMany({
+        where: {
+          id: transfer.scheduledTaskId,
+          assignedToUserId: transfer.fromUserId,
+          status: "pending",
+          startTime: { gt: now },
+        },
+        data: { assignedToUserId: transfer.toUserId, ...WORK_EVENT_RESET },
+      });
+      if (updated.count === 0) {
+        throw new SwapError("A task in this swap has changed since it was offered", 409);
+      }
+    }
+
+    const scheduledTasks = await tx.scheduledTask.findMany({
+      where: { id: { in: transfers.map((t) => t.scheduledTaskId) } },
+      include: { task: true },
+    });
+
+    await tx.taskReassignmentLog.createMany({
+      data: transfers.map((t) => ({
+        taskId: scheduledTasks.find((st) => st.id === t.scheduledTaskId)!.taskId,
+        fromUserId: t.fromUserId,
+        toUserId: t.toUserId,
+        scheduledTaskId: t.scheduledTaskId,
+      })),
+    });
+
+    if (offerId) {
+      await tx.taskSwapOffer.update({ where: { id: offerId }, data: { status: "accepted" } });
+    }
+    await tx.taskSwapOffer.updateMany({
+      where: { requestId, status: "pending" },
+      data: { status: "declined" },
+    });
+
+    return transfers.map((t) => ({ ...t, scheduledTask: scheduledTasks.find((st) => st.id === t.scheduledTaskId)! }));
+  });
+
+  // Calendars are outside the database, so they follow once the swap is committed
+  for (const transfer of moved) {
+    await moveCalendarEvent(transfer.scheduledTask, transfer.fromUserId, transfer.toUserId);
+  }
+
+  const accepter = await prisma.user.findUnique({ where: { id: acceptedById }, select: { name: true } });
+  const tradeNote = moved[1] ? ` You'll take ${describeSlot(moved[1].scheduledTask)} in return.` : "";
+  await notify(
+    moved[0].fromUserId,
+    "Task Swapped",
+    `${accepter?.name || "A family member"} is taking ${describeSlot(moved[0].scheduledTask)}.${tradeNote}`,
+    { swapRequestId: requestId }
+  );
+
+  console.log(`[executeSwap] Request ${requestId} accepted by ${acceptedById}${offerId ? ` (trade offer ${offerId})` : ""}`);
+  return { scheduledTaskIds: moved.map((t) => t.scheduledTaskId) };
+}
+
+/**
+ * Move a task's calendar event from the old assignee's calendar to the new one's
+ * (tasks that were never on a calendar stay off it)
+ */
+async function moveCalendarEvent(scheduledTask: ScheduledTaskWithTask, fromUserId: string, toUserId: string) {
+  if (!scheduledTask.calendarEventId) return;
+
+  try {
+    await deleteCalendarEvent(fromUserId, scheduledTask.calendarEventId, scheduledTask.calendarProvider);
+  } catch (error) {
+    console.log("Could not delete calendar event:", error);
+  }
+
+  let calendarEventId: string | null = null;
+  let calendarProvider: string | null = null;
+  try {
+    const event = await createCalendarEvent(
+      toUserId,
+      `[ResolutionAI] ${scheduledTask.task.name}`,
+      `Type: ${scheduledTask.task.type}\n\n${scheduledTask.aiReasoning || "Scheduled by ResolutionAI"}`,
+      scheduledTask.startTime,
+      scheduledTask.endTime
+    );
+    calendarEventId = event.id;
+    calendarProvider = event.provider;
+  } catch (error) {
+    console.log("Could not create calendar event:", error);
+  }
+
+  await prisma.scheduledTask.update({
+    where: { id: scheduledTask.id },
+    data: { calendarEventId, calendarProvider },
+  });
+}
+
+/**
+ * Mark open requests for tasks that have already started as expired
+ */
+export async function expireStaleSwapRequests(familyId: string) {
+  await prisma.taskSwapRequest.updateMany({
+    where: { familyId, status: "open", scheduledTask: { startTime: { lte: new Date() } } },
+    data: { status: "expired", resolvedAt: new Date() },
+  });
+}
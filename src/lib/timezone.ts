@@ -0,0 +1,156 @@
+/**
+ * Per-user Time Zones
+ *
+ * The schedulers work in wall-clock time: Dates whose local fields
+ * (getHours(), format(d, "HH:mm"), setHours()) read as the user's own clock.
+ * Real instants - calendar events, "now", stored ScheduledTask times - are
+ * converted into that representation on the way in with toZonedTime() and
+ * back out with fromZonedTime(), so day boundaries, work hours and fixed
+ * times follow the user's zone (including DST changes) whatever zone the
+ * server runs in.
+ *
+ * Users without a time zone keep the server's, which makes both conversions
+ * a no-op and preserves the previous behavior.
+ */
+
+import { format } from "date-fns";
+import { CalendarEvent } from "@/types";
+
+export const SERVER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The zone to schedule a user in: their own if set and valid, otherwise the server's
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : SERVER_TIME_ZONE;
+}
+
+/**
+ * Calendar fields of an instant as seen in a zone
+ */
+function getZonedFields(instant: Date, timeZone: string) {
+  const parts = getFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month") - 1,
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant
+ */
+function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const f = getZonedFields(instant, timeZone);
+  const asUTC = Date.UTC(f.year, f.month, f.day, f.hour, f.minute, f.second);
+  return Math.round((asUTC - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a real instant to a wall-clock Date in the zone
+ */
+export function toZonedTime(instant: Date, timeZone?: string | null): Date {
+  const zone = resolveTimeZone(timeZone);
+  if (zone === SERVER_TIME_ZONE) return new Date(instant);
+
+  const f = getZonedFields(instant, zone);
+  return new Date(f.year, f.month, f.day, f.hour, f.minute, f.second, instant.getMilliseconds());
+}
+
+/**
+ * Convert a wall-clock Date in the zone back to the real instant.
+ * Wall times skipped by a DST change move forward by the length of the gap,
+ * as the clocks do (02:30 on a spring-forward night is 03:30); repeated
+ * wall times resolve to their first occurrence.
+ */
+export function fromZonedTime(wallClock: Date, timeZone?: string | null): Date {
+  const zone = resolveTimeZone(timeZone);
+  if (zone === SERVER_TIME_ZONE) return new Date(wallClock);
+
+  const asUTC = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+  // A day either side of a DST change gives the offsets before and after it.
+  // A wall time valid with both is repeated (take the first); with neither,
+  // it's in the gap, and the offset from before the gap lands past it
+  const offsets = [-1, 1].map((days) => getOffsetMinutes(new Date(asUTC + days * 86400000), zone));
+  const instants = offsets
+    .map((offset) => ({ offset, instant: asUTC - offset * 60000 }))
+    .filter(({ offset, instant }) => getOffsetMinutes(new Date(instant), zone) === offset)
+    .map(({ instant }) => instant);
+  if (instants.length > 0) return new Date(Math.min(...instants));
+  return new Date(asUTC - Math.min(...offsets) * 60000);
+}
+
+/**
+ * The current time on the user's clock
+ */
+export function nowInTimeZone(timeZone?: string | null): Date {
+  return toZonedTime(new Date(), timeZone);
+}
+
+/**
+ * Format a real instant as it reads on the user's clock
+ */
+export function formatInTimeZone(instant: Date, timeZone: string | null | undefined, formatStr: string): string {
+  return format(toZonedTime(instant, timeZone), formatStr);
+}
+
+// ISO strings carrying a UTC offset are instants; those without one are already wall-clock
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * Convert calendar events to wall-clock times in the zone.
+ * All-day events and floating times (no UTC offset) are left as they are.
+ */
+export function toZonedCalendarEvents(events: CalendarEvent[], timeZone?: string | null): CalendarEvent[] {
+  const zone = resolveTimeZone(timeZone);
+  if (zone === SERVER_TIME_ZONE) return events;
+
+  const convert = (time: CalendarEvent["start"]): CalendarEvent["start"] => {
+    if (time instanceof Date) return toZonedTime(time, zone);
+    if (typeof time === "string") return HAS_OFFSET.test(time) ? toZonedTime(new Date(time), zone) : time;
+    return time.dateTime && HAS_OFFSET.test(time.dateTime) ? toZonedTime(new Date(time.dateTime), zone) : time;
+  };
+
+  return events.map(event => ({ ...event, start: convert(event.start), end: convert(event.end) }));
+}
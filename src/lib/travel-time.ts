@@ -0,0 +1,156 @@
+/**
+ * Travel Time Between Task Locations
+ *
+ * Tasks can reference one of the user's saved locations (Task.locationType,
+ * matching the "type" of an entry in the saved_locations preference). Before
+ * scheduling, the travel time between every pair of locations in use is
+ * looked up once into a TravelTimes matrix; the deterministic scheduler then
+ * keeps that much free time between consecutive tasks at different locations.
+ *
+ * Lookups go through a pluggable TravelTimeProvider. With TOMTOM_API_KEY set
+ * the TomTom routing API is used; otherwise (or when a route can't be found)
+ * travel time is estimated from the straight-line distance between the
+ * geocoded addresses.
+ */
+
+import { addHours } from "date-fns";
+import prisma from "./prisma";
+import { getRouteTravelMinutes, geocodePlace } from "./agent-tools/context";
+import type { Task } from "@prisma/client";
+
+export const LOCATION_TYPES = ["home", "work", "gym", "school", "other"] as const;
+export type LocationType = (typeof LOCATION_TYPES)[number];
+
+export interface SavedLocation {
+  type: LocationType;
+  label: string;
+  address: string;
+}
+
+export interface TravelTimeProvider {
+  name: string;
+  getTravelMinutes(origin: SavedLocation, destination: SavedLocation, departureTime: Date): Promise<number | null>;
+}
+
+/**
+ * Minutes between location types, keyed "from->to". Pairs that aren't in the
+ * matrix (unknown or unsaved locations) need no travel time.
+ */
+export type TravelTimes = Map<string, number>;
+
+// Straight-line estimate: roads wind, and town driving averages ~30 km/h
+const ROAD_DETOUR_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 30;
+// Used when an address can't be geocoded at all
+const DEFAULT_TRAVEL_MINUTES = 15;
+
+const EARTH_RADIUS_KM = 6371;
+
+function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+function roundUpToFive(minutes: number): number {
+  return Math.max(5, Math.ceil(minutes / 5) * 5);
+}
+
+export const straightLineTravelTimeProvider: TravelTimeProvider = {
+  name: "straight-line",
+  async getTravelMinutes(origin, destination) {
+    const [from, to] = await Promise.all([geocodePlace(origin.address), geocodePlace(destination.address)]);
+    if (!from || !to) {
+      console.warn(`[travel-time] Could not geocode "${origin.address}" or "${destination.address}", assuming ${DEFAULT_TRAVEL_MINUTES} min`);
+      return DEFAULT_TRAVEL_MINUTES;
+    }
+    const km = haversineKm(from, to) * ROAD_DETOUR_FACTOR;
+    return roundUpToFive((km / AVERAGE_SPEED_KMH) * 60);
+  },
+};
+
+export const tomTomTravelTimeProvider: TravelTimeProvider = {
+  name: "tomtom",
+  async getTravelMinutes(origin, destination, departureTime) {
+    const minutes = await getRouteTravelMinutes(origin.address, destination.address, departureTime);
+    return minutes === null ? null : roundUpToFive(minutes);
+  },
+};
+
+/**
+ * TomTom when an API key is configured, otherwise the straight-line estimate
+ */
+export function getDefaultTravelTimeProvider(): TravelTimeProvider {
+  return process.env.TOMTOM_API_KEY ? tomTomTravelTimeProvider : straightLineTravelTimeProvider;
+}
+
+export function travelKey(from: string, to: string): string {
+  return `${from}->${to}`;
+}
+
+/**
+ * Travel time needed between a task at `from` and the next one at `to`
+ */
+export function getTravelMinutes(times: TravelTimes | undefined, from: string | null, to: string | null): number {
+  if (!times || !from || !to || from === to) return 0;
+  return times.get(travelKey(from, to)) ?? 0;
+}
+
+export async function getSavedLocations(userId: string): Promise<SavedLocation[]> {
+  const pref = await prisma.userPreference.findUnique({
+    where: { userId_key: { userId, key: "saved_locations" } },
+  });
+  return (pref?.value as unknown as SavedLocation[]) || [];
+}
+
+/**
+ * Look up travel times between every pair of saved locations the tasks use.
+ * Each pair is looked up once and treated as symmetric.
+ */
+export async function buildTravelTimes(
+  locations: SavedLocation[],
+  tasks: Pick<Task, "locationType">[],
+  provider: TravelTimeProvider = getDefaultTravelTimeProvider()
+): Promise<TravelTimes> {
+  const times: TravelTimes = new Map();
+  const used = new Set(tasks.map(t => t.locationType).filter((type): type is string => !!type));
+  const inUse = locations.filter(l => used.has(l.type));
+  const departureTime = addHours(new Date(), 1);
+
+  const pairs: [SavedLocation, SavedLocation][] = [];
+  for (let i = 0; i < inUse.length; i++) {
+    for (let j = i + 1; j < inUse.length; j++) {
+      pairs.push([inUse[i], inUse[j]]);
+    }
+  }
+
+  await Promise.all(
+    pairs.map(async ([a, b]) => {
+      let minutes = await provider.getTravelMinutes(a, b, departureTime);
+      if (minutes === null && provider !== straightLineTravelTimeProvider) {
+        minutes = await straightLineTravelTimeProvider.getTravelMinutes(a, b, departureTime);
+      }
+      if (minutes === null) return;
+      times.set(travelKey(a.type, b.type), minutes);
+      times.set(travelKey(b.type, a.type), minutes);
+      console.log(`[buildTravelTimes] ${a.type} <-> ${b.type}: ${minutes} min (${provider.name})`);
+    })
+  );
+
+  return times;
+}
+
+/**
+ * Travel times for a user's tasks, from their saved locations
+ */
+export async function getTravelTimesForUser(
+  userId: string,
+  tasks: Pick<Task, "locationType">[],
+  provider?: TravelTimeProvider
+): Promise<TravelTimes> {
+  if (!tasks.some(t => t.locationType)) return new Map();
+  const locations = await getSavedLocations(userId);
+  return buildTravelTimes(locations, tasks, provider);
+}
@@ -8,6 +8,7 @@
 import prisma from "./prisma";
 import { isPublicHoliday, getPublicHolidaysInRange } from "./public-holidays";
 import { format, addDays, startOfDay, endOfDay, parseISO, isSameDay } from "date-fns";
+import { resolveTimeZone } from "./timezone";
 
 interface WorkScheduleDay {
   dayOfWeek: string;
@@ -31,6 +32,7 @@ interface UserAvailabilityInfo {
   bufferMinutes: number;
   availableTimeStart: number; // Hour (0-23), default 6am
   availableTimeEnd: number; // Hour (0-23), default 10pm
+  timeZone: string; // IANA zone the hours above are in (the server's if the user has none)
   workSchedule: WorkScheduleDay[];
   vacations: { startDate: Date; endDate: Date; note: string | null }[];
   blockedTimes: BlockedTime[];
@@ -64,7 +66,7 @@ export async function getUserAvailabilityInfo(userId: string): Promise<UserAvail
   // Fetch user data
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { country: true, bufferMinutes: true, availableTimeStart: true, availableTimeEnd: true },
+    select: { country: true, bufferMinutes: true, availableTimeStart: true, availableTimeEnd: true, timezone: true },
   });
 
   // Fetch work schedule
@@ -128,6 +130,7 @@ export async function getUserAvailabilityInfo(userId: string): Promise<UserAvail
     bufferMinutes: user?.bufferMinutes ?? 0,
     availableTimeStart: user?.availableTimeStart ?? 6,
     availableTimeEnd: user?.availableTimeEnd ?? 22,
+    timeZone: resolveTimeZone(user?.timezone),
     workSchedule,
     vacations: vacations.map((v) => ({
       startDate: v.startDate,
@@ -141,6 +144,9 @@ export async function getUserAvailabilityInfo(userId: string): Promise<UserAvail
 /**
  * Get blocked time slots for a user on a specific date range
  * This includes work hours, commute time, vacations, and public holidays
+ *
+ * The range and the returned times are wall-clock times in the user's zone
+ * (see timezone.ts), so "09:00-17:00" means nine to five on the user's clock.
  */
 export async function getBlockedTimesForRange(
   userId: string,
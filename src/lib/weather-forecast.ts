@@ -0,0 +1,227 @@
+/**
+ * Weather-Constrained Outdoor Tasks
+ *
+ * Tasks can be flagged outdoor (Task.outdoorActivity: "outdoor_exercise" for
+ * a run or a bike commute, "outdoor_errand" for mowing the lawn), optionally
+ * with their own acceptable conditions (Task.weatherLimits). Before
+ * scheduling, the hourly forecast for the week is fetched once per person
+ * for their saved home address (the default location when none is saved),
+ * and:
+ *
+ * - flexible outdoor tasks go on days with a window the forecast suits
+ * - outdoor sessions are only placed in hours the forecast suits, the same
+ *   rules isWeatherSuitable() applies to reminders (see agent-tools/context.ts)
+ * - schedule repair proposes a new time for an upcoming outdoor session when
+ *   its forecast turns (see schedule-repair.ts)
+ *
+ * Hours beyond the forecast count as suitable.
+ *
+ * Forecasts come from a pluggable WeatherProvider that callers can pass in:
+ * Open-Meteo by default, or a fixed forecast (createFixtureWeatherProvider,
+ * or the file WEATHER_FIXTURE names) for offline tests and development.
+ */
+
+import { readFileSync } from "fs";
+import { addDays, format, parseISO } from "date-fns";
+import { z } from "zod";
+import {
+  HourlyWeather,
+  WeatherLimits,
+  checkWeatherSuitability,
+  getHourlyForecast,
+} from "./agent-tools/context";
+import { getSavedLocations } from "./travel-time";
+import type { Task } from "@prisma/client";
+
+export const OUTDOOR_ACTIVITIES = ["outdoor_exercise", "outdoor_errand"] as const;
+export type OutdoorActivity = (typeof OUTDOOR_ACTIVITIES)[number];
+
+export const weatherLimitsSchema = z.object({
+  minTemperature: z.number().min(-40).max(50).optional(),
+  maxTemperature: z.number().min(-40).max(50).optional(),
+  maxWindSpeed: z.number().min(0).max(200).optional(),
+  allowRain: z.boolean().optional(),
+});
+
+/**
+ * Forecast hours keyed "yyyy-MM-ddTHH" on the user's clock
+ */
+export type WeatherForecast = Map<string, HourlyWeather>;
+
+export interface WeatherProvider {
+  name: string;
+  getHourlyForecast(location: string, startDate: string, endDate: string, timeZone: string): Promise<HourlyWeather[] | null>;
+}
+
+type WeatherTask = Pick<Task, "outdoorActivity" | "weatherLimits">;
+
+// Outdoor tasks happen in the daytime
+const OUTDOOR_DAY_START_HOUR = 6;
+const OUTDOOR_DAY_END_HOUR = 22;
+
+export const openMeteoWeatherProvider: WeatherProvider = {
+  name: "open-meteo",
+  getHourlyForecast,
+};
+
+/**
+ * Serves a fixed forecast. Entries with a full "yyyy-MM-ddTHH:mm" time are
+ * for that hour; entries with just "HH:mm" repeat every day, unless a dated
+ * entry covers the same hour.
+ */
+export function createFixtureWeatherProvider(fixture: HourlyWeather[]): WeatherProvider {
+  return {
+    name: "fixture",
+    async getHourlyForecast(location, startDate, endDate) {
+      const hours = new Map<string, HourlyWeather>();
+      for (let day = parseISO(startDate); format(day, "yyyy-MM-dd") <= endDate; day = addDays(day, 1)) {
+        const dateStr = format(day, "yyyy-MM-dd");
+        for (const entry of fixture.filter((e) => e.time.length === 5)) {
+          hours.set(`${dateStr}T${entry.time}`, { ...entry, time: `${dateStr}T${entry.time}` });
+        }
+        for (const entry of fixture.filter((e) => e.time.startsWith(dateStr))) {
+          hours.set(entry.time, entry);
+        }
+      }
+      console.log(`[weather-forecast] Fixture forecast for ${location}: ${hours.size} hours`);
+      return Array.from(hours.values());
+    },
+  };
+}
+
+export const WEATHER_PROVIDERS = ["open-meteo", "fixture"] as const;
+export type WeatherProviderName = (typeof WEATHER_PROVIDERS)[number];
+
+/**
+ * A provider by name - "fixture" serves the file WEATHER_FIXTURE names (a
+ * JSON array of hours). Without a name, the fixture when WEATHER_FIXTURE is
+ * set, otherwise Open-Meteo.
+ */
+export function getWeatherProvider(name?: WeatherProviderName): WeatherProvider {
+  const fixturePath = process.env.WEATHER_FIXTURE;
+  if (name === "open-meteo" || (!name && !fixturePath)) return openMeteoWeatherProvider;
+  if (!fixturePath) throw new Error("WEATHER_FIXTURE is not set");
+  return createFixtureWeatherProvider(JSON.parse(readFileSync(fixturePath, "utf8")) as HourlyWeather[]);
+}
+
+export function getOutdoorActivity(task: Pick<Task, "outdoorActivity">): OutdoorActivity | null {
+  return OUTDOOR_ACTIVITIES.includes(task.outdoorActivity as OutdoorActivity)
+    ? (task.outdoorActivity as OutdoorActivity)
+    : null;
+}
+
+export function getWeatherLimits(task: Pick<Task, "weatherLimits">): WeatherLimits {
+  const parsed = weatherLimitsSchema.safeParse(task.weatherLimits ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
+/**
+ * Hourly forecast for a user's home from `start` to `end` (days on their
+ * clock), or undefined when none of the tasks is outdoors or there's no
+ * forecast to be had
+ */
+export async function getWeatherForecast(
+  userId: string,
+  tasks: Pick<Task, "outdoorActivity">[],
+  start: Date,
+  end: Date,
+  timeZone: string,
+  provider: WeatherProvider = getWeatherProvider()
+): Promise<WeatherForecast | undefined> {
+  if (!tasks.some((t) => getOutdoorActivity(t))) return undefined;
+
+  const home = (await getSavedLocations(userId)).find((l) => l.type === "home");
+  const location = home?.address || "local";
+  const hours = await provider.getHourlyForecast(location, format(start, "yyyy-MM-dd"), format(end, "yyyy-MM-dd"), timeZone);
+  if (!hours || hours.length === 0) return undefined;
+
+  console.log(`[getWeatherForecast] ${hours.length} forecast hours for ${userId} (${provider.name})`);
+  return new Map(hours.map((h) => [h.time.slice(0, 13), h]));
+}
+
+/**
+ * Hours (0-23) of a day whose forecast doesn't suit a task, with the reason
+ */
+export function getUnsuitableHours(
+  task: WeatherTask,
+  date: string,
+  forecast: WeatherForecast
+): { hour: number; reason: string }[] {
+  const activity = getOutdoorActivity(task);
+  if (!activity) return [];
+
+  const limits = getWeatherLimits(task);
+  const unsuitable: { hour: number; reason: string }[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    const weather = forecast.get(`${date}T${String(hour).padStart(2, "0")}`);
+    if (!weather) continue;
+    const { suitable, reason } = checkWeatherSuitability(weather, activity, limits);
+    if (!suitable) unsuitable.push({ hour, reason: reason || weather.description });
+  }
+  return unsuitable;
+}
+
+/**
+ * Why the forecast doesn't suit a task between `start` and `end` (minutes
+ * from midnight) on a day, or null when it does
+ */
+export function findWeatherProblem(
+  task: WeatherTask,
+  date: string,
+  start: number,
+  end: number,
+  forecast: WeatherForecast
+): string | null {
+  const clash = getUnsuitableHours(task, date, forecast).find((h) => h.hour * 60 < end && (h.hour + 1) * 60 > start);
+  return clash ? clash.reason : null;
+}
+
+/**
+ * Whether a day has enough daytime hours the forecast suits for the task
+ */
+export function hasSuitableWeatherWindow(
+  task: WeatherTask & Pick<Task, "duration">,
+  date: string,
+  forecast: WeatherForecast
+): boolean {
+  const unsuitable = new Set(getUnsuitableHours(task, date, forecast).map((h) => h.hour));
+  let run = 0;
+  for (let hour = OUTDOOR_DAY_START_HOUR; hour < OUTDOOR_DAY_END_HOUR; hour++) {
+    run = unsuitable.has(hour) ? 0 : run + 60;
+    if (run >= task.duration) return true;
+  }
+  return false;
+}
+
+/**
+ * A day's unsuitable daytime hours as ranges for prompts and explanations,
+ * e.g. "14:00-17:00 (Rain expected - consider indoor alternatives)", or null
+ */
+export function describeUnsuitableHours(task: WeatherTask, date: string, forecast: WeatherForecast): string | null {
+  const hours = getUnsuitableHours(task, date, forecast).filter(
+    (h) => h.hour >= OUTDOOR_DAY_START_HOUR && h.hour < OUTDOOR_DAY_END_HOUR
+  );
+  if (hours.length === 0) return null;
+
+  const ranges: { start: number; end: number; reason: string }[] = [];
+  for (const { hour, reason } of hours) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === hour && last.reason === reason) {
+      last.end = hour + 1;
+    } else {
+      ranges.push({ start: hour, end: hour + 1, reason });
+    }
+  }
+
+  const toTime = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+  return ranges.map((r) => `${toTime(r.start)}-${toTime(r.end)} (${r.reason})`).join(", ");
+}
+
+/**
+ * Reasoning suffix with the forecast for an outdoor session
+ */
+export function describeWeatherFit(task: WeatherTask, date: string, startTime: string, forecast?: WeatherForecast): string {
+  if (!forecast || !getOutdoorActivity(task)) return "";
+  const weather = forecast.get(`${date}T${startTime.slice(0, 2)}`);
+  return weather ? ` Forecast: ${weather.description}, ${weather.temperature}°C.` : "";
+}
@@ -15,14 +15,25 @@ export interface CalendarEvent {
     timeZone?: string;
   } | Date | string;
   status?: string;
-  source?: "google" | "external";
+  source?: "google" | "caldav" | "external";
   calendarName?: string;
+  calendarId?: string; // Stable key for per-calendar rules, e.g. "google:<id>", "external:<id>"
+  // Free/busy - how much the event holds the time (see calendar-rules.ts)
+  transparency?: "opaque" | "transparent";
+  busyStatus?: EventBusyStatus;
+  isAllDay?: boolean;
+  blocking?: EventBlocking; // Resolved from the above and the calendar's rule
   // Family sharing fields
   userId?: string;
   userName?: string;
   isOwn?: boolean;
 }
 
+export type EventBusyStatus = "busy" | "tentative" | "free" | "oof" | "workingElsewhere";
+
+// "busy" takes the time, "soft" is only used when nothing else fits, "free" never blocks
+export type EventBlocking = "busy" | "soft" | "free";
+
 export interface TimeSlot {
   start: Date;
   end: Date;